@@ -4,8 +4,16 @@ import { resolve } from 'path';
 // ─────────────────────────────────────────────
 // Re-analyze Existing Responses Script
 // ─────────────────────────────────────────────
-// This script re-runs AI sentiment analysis on all existing responses
-// that haven't been analyzed yet (where sentiment is NULL).
+// This script queues AI sentiment analysis for all existing responses
+// that haven't been analyzed yet (where sentiment is NULL), then runs
+// the analysis worker until the queue is empty.
+//
+// With --fallbacks it also re-queues responses whose analysis fell back
+// to offline results because the AI provider was unavailable:
+//   npm run db:reanalyze -- --fallbacks
+//
+// The worker runs through the app (http://localhost:3000) and needs
+// ANALYSIS_WORKER_SECRET; without it the jobs wait for the scheduled worker.
 
 // Load environment variables from .env file
 const envPath = resolve(process.cwd(), '.env');
@@ -44,68 +52,60 @@ if (!supabaseUrl || !supabaseServiceKey) {
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+const includeFallbacks = process.argv.includes('--fallbacks');
+
 async function reanalyzeResponses() {
-  console.log('\n🔄 Re-analyzing unanalyzed responses...\n');
+  console.log('\n🔄 Queueing unanalyzed responses...\n');
 
   try {
-    // Fetch all responses that haven't been analyzed
-    const { data: responses, error: fetchError } = await supabase
-      .from('responses')
-      .select('id, survey_id, answers')
-      .is('sentiment', null); // Only get responses without sentiment
-
-    if (fetchError) {
-      throw fetchError;
+    // Queue responses without sentiment (or with fallback results)
+    const { data: queued, error: queueError } = await supabase.rpc('enqueue_analysis_jobs', {
+      p_include_fallbacks: includeFallbacks,
+    });
+
+    if (queueError) {
+      throw queueError;
     }
 
-    if (!responses || responses.length === 0) {
+    if (!queued) {
       console.log('✅ All responses have already been analyzed!');
       return;
     }
 
-    console.log(`📊 Found ${responses.length} unanalyzed response(s)\n`);
+    console.log(`📊 Queued ${queued} response(s)\n`);
+
+    const workerSecret = process.env.ANALYSIS_WORKER_SECRET;
+    if (!workerSecret) {
+      console.log('ℹ️  ANALYSIS_WORKER_SECRET is not set; the scheduled worker will process the queue.\n');
+      return;
+    }
 
     let successCount = 0;
+    let retryCount = 0;
     let errorCount = 0;
 
-    // Process each response
-    for (const response of responses) {
-      try {
-        console.log(`  Analyzing response ${response.id}...`);
-
-        // Call the AI analysis API
-        const analyzeResponse = await fetch('http://localhost:3000/api/openai/analyze', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            responseId: response.id,
-            surveyId: response.survey_id,
-            answers: response.answers,
-          }),
-        });
-
-        if (analyzeResponse.ok) {
-          const data = await analyzeResponse.json();
-          console.log(`  ✅ Analyzed: ${data.analysis.sentiment}`);
-          successCount++;
-        } else {
-          const errorData = await analyzeResponse.json();
-          console.log(`  ❌ Failed: ${errorData.error}`);
-          errorCount++;
-        }
-
-        // Small delay to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 500));
-      } catch (err) {
-        console.log(`  ❌ Error: ${err instanceof Error ? err.message : String(err)}`);
-        errorCount++;
+    // Run the worker one batch at a time until nothing is due
+    while (true) {
+      const workerResponse = await fetch('http://localhost:3000/api/analysis/worker', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${workerSecret}` },
+      });
+      const data = await workerResponse.json();
+
+      if (!workerResponse.ok) {
+        throw new Error(data.error || `Worker returned ${workerResponse.status}`);
       }
+      if (data.claimed === 0) break;
+
+      successCount += data.succeeded;
+      retryCount += data.retrying;
+      errorCount += data.failed;
+      console.log(`  ✅ Batch: ${data.succeeded} analyzed, ${data.retrying} retrying, ${data.failed} failed`);
     }
 
     console.log('\n─────────────────────────────────────────────');
     console.log(`✅ Successfully analyzed: ${successCount}`);
+    console.log(`🔁 Retrying later: ${retryCount}`);
     console.log(`❌ Failed: ${errorCount}`);
     console.log('─────────────────────────────────────────────\n');
   } catch (error) {
@@ -116,4 +116,3 @@ async function reanalyzeResponses() {
 
 // Run the script
 reanalyzeResponses();
-
@@ -42,7 +42,8 @@ if (!supabaseUrl || !supabaseServiceKey) {
 
 const supabase = createClient<Database>(supabaseUrl, supabaseServiceKey);
 
-const DEFAULT_ORG_ID = '00000000-0000-0000-0000-000000000001';
+// Seed into a specific organization, or the backfilled default one
+const DEFAULT_ORG_ID = process.env.SEED_ORG_ID || '00000000-0000-0000-0000-000000000001';
 
 // Sample survey data
 const sampleSurveys = [
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createLogger } from '@/lib/logger'
+import { getAuthContext } from '@/lib/auth'
+import { hasPermission } from '@/lib/permissions'
+import { retryFailedAnalysisJobs } from '@/lib/analysisJobs'
+
+const logger = createLogger('AnalysisRetry')
+
+// ─────────────────────────────────────────────
+// Retry Failed Analysis API Route
+// ─────────────────────────────────────────────
+// Puts the caller's organization's failed analysis jobs back in the
+// queue with a fresh set of attempts.
+
+export async function POST(request: NextRequest) {
+  try {
+    // Resolve the caller's organization and check their role
+    const auth = await getAuthContext(request)
+    if (!auth) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    if (!hasPermission(auth.role, 'survey:edit')) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to retry analysis' },
+        { status: 403 }
+      )
+    }
+
+    const requeued = await retryFailedAnalysisJobs(auth.orgId)
+
+    return NextResponse.json({ success: true, requeued })
+
+  } catch (error) {
+    logger.error('Failed to retry analysis jobs', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createLogger } from '@/lib/logger'
+import { getAuthContext } from '@/lib/auth'
+import { getAnalysisQueueStatus } from '@/lib/analysisJobs'
+
+const logger = createLogger('AnalysisStatus')
+
+// ─────────────────────────────────────────────
+// Analysis Queue Status API Route
+// ─────────────────────────────────────────────
+// Returns the caller's organization's analysis queue depth (pending,
+// running, failed, succeeded) and its most recent failed jobs.
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getAuthContext(request)
+    if (!auth) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const status = await getAnalysisQueueStatus(auth.orgId)
+
+    return NextResponse.json({ success: true, status })
+
+  } catch (error) {
+    logger.error('Failed to load analysis queue status', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
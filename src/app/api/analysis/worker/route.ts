@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { timingSafeEqual } from 'crypto'
+import { createLogger } from '@/lib/logger'
+import { processAnalysisJobs } from '@/lib/analysisJobs'
+
+const logger = createLogger('AnalysisWorker')
+
+// ─────────────────────────────────────────────
+// Analysis Worker API Route
+// ─────────────────────────────────────────────
+// Runs one batch of due sentiment analysis jobs. Call it on a schedule
+// (e.g. every minute) so retries and anything missed after a submission
+// get processed. Requires `Authorization: Bearer <ANALYSIS_WORKER_SECRET>`;
+// GET is accepted too, for schedulers such as Vercel Cron (set
+// CRON_SECRET to the same value there).
+
+function isAuthorized(request: NextRequest, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const actual = Buffer.from(request.headers.get('authorization') ?? '')
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+async function handle(request: NextRequest) {
+  try {
+    // Step 1: Only the scheduler may run the worker
+    const secret = process.env.ANALYSIS_WORKER_SECRET
+    if (!secret) {
+      logger.warn('Analysis worker called but ANALYSIS_WORKER_SECRET is not set')
+      return NextResponse.json(
+        { success: false, error: 'Analysis worker is not configured' },
+        { status: 503 }
+      )
+    }
+    if (!isAuthorized(request, secret)) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // Step 2: Run one batch
+    const result = await processAnalysisJobs()
+
+    return NextResponse.json({ success: true, ...result })
+
+  } catch (error) {
+    logger.error('Analysis worker failed', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = handle
+export const POST = handle
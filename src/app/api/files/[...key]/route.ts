@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createLogger } from '@/lib/logger'
+import { getLocalFileStorage, isValidFileKey, verifyLocalFileSignature } from '@/lib/storage'
+
+const logger = createLogger('FileDownload')
+
+// ─────────────────────────────────────────────
+// Local File Download API Route
+// ─────────────────────────────────────────────
+// Serves files kept by the local storage backend. Links come from
+// POST /api/files/links and carry an expiring HMAC signature, so they
+// work from exports and new tabs without a session.
+//
+// Only images and PDFs are shown inline; everything else downloads,
+// so uploaded content never runs as a page on this site.
+
+const INLINE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf']
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  try {
+    const { key: segments } = await params
+    const key = segments.join('/')
+    const { searchParams } = request.nextUrl
+
+    if (
+      !isValidFileKey(key) ||
+      !verifyLocalFileSignature(key, searchParams.get('expires'), searchParams.get('signature'))
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'This link is invalid or has expired' },
+        { status: 403 }
+      )
+    }
+
+    const file = await getLocalFileStorage().read(key)
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    // Key ends in "uuid-filename"
+    const fileName = key.split('/').pop()!.slice(37)
+    const disposition = INLINE_TYPES.includes(file.contentType) ? 'inline' : 'attachment'
+
+    return new NextResponse(new Uint8Array(file.body), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `${disposition}; filename="${fileName}"`,
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, no-store',
+      },
+    })
+
+  } catch (error) {
+    logger.error('Failed to serve file', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    )
+  }
+}
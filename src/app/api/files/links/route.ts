@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createLogger } from '@/lib/logger'
+import { getAuthContext, surveyBelongsToOrg } from '@/lib/auth'
+import { hasPermission } from '@/lib/permissions'
+import { getFileStorage, isValidFileKey } from '@/lib/storage'
+import { validateWithSchema, fileLinksSchema } from '@/lib/validation'
+
+const logger = createLogger('FileLinks')
+
+// ─────────────────────────────────────────────
+// File Links API Route
+// ─────────────────────────────────────────────
+// Returns expiring download links for files uploaded to one survey,
+// for the analytics page and CSV exports. Only keys under the survey's
+// own prefix are signed.
+
+// Long enough for an exported CSV to stay useful for a day
+const LINK_EXPIRY_SECONDS = 24 * 60 * 60
+
+export async function POST(request: NextRequest) {
+  try {
+    // Resolve the caller's organization and check their role
+    const auth = await getAuthContext(request)
+    if (!auth) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    if (!hasPermission(auth.role, 'analytics:view')) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to view responses' },
+        { status: 403 }
+      )
+    }
+
+    // Step 1: Validate the request
+    const body = await request.json()
+    const validation = validateWithSchema(fileLinksSchema, body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: validation.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    const { surveyId, keys } = validation.data
+
+    // Step 2: The survey must belong to the caller's organization
+    if (!(await surveyBelongsToOrg(surveyId, auth.orgId))) {
+      return NextResponse.json(
+        { success: false, error: 'Survey not found' },
+        { status: 404 }
+      )
+    }
+
+    // Step 3: Sign each key that belongs to the survey
+    const storage = getFileStorage()
+    const links: Record<string, string> = {}
+
+    for (const key of keys) {
+      if (!key.startsWith(`${surveyId}/`) || !isValidFileKey(key)) continue
+      links[key] = await storage.getSignedUrl(key, {
+        expiresIn: LINK_EXPIRY_SECONDS,
+        origin: request.nextUrl.origin,
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      links
+    })
+
+  } catch (error) {
+    logger.error('Failed to create file links', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabaseAdmin';
 import { createLogger } from '@/lib/logger';
-import { analyzeSentiment } from '@/lib/openaiClient';
+import { getAuthContext } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { analyzeAndStoreResponse } from '@/lib/responseAnalysis';
+import { checkAIRateLimits, getClientIp } from '@/lib/rateLimit';
 import { validateWithSchema, openAIAnalysisSchema } from '@/lib/validation';
+import type { AnswerValue } from '@/types/survey';
 
 const logger = createLogger('OpenAIAnalyze');
 
@@ -11,11 +15,31 @@ const logger = createLogger('OpenAIAnalyze');
 // ─────────────────────────────────────────────
 
 // Analyzes survey responses for sentiment and generates summaries.
-// Falls back to mock analysis if OpenAI API key is not configured.
+// Uses the AI provider of the organization that owns the response and
+// falls back to offline analysis if it is unavailable.
+// New submissions are analyzed by POST /api/responses; this route
+// re-runs analysis for an existing response in the caller's organization,
+// using the answers stored with it.
+// Calls are rate limited per client IP and per organization.
 
 export async function POST(request: NextRequest) {
   try {
     logger.info('AI sentiment analysis requested');
+
+    // Resolve the caller's organization and check their role
+    const auth = await getAuthContext(request);
+    if (!auth) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    if (!hasPermission(auth.role, 'analytics:view')) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to view analytics' },
+        { status: 403 }
+      );
+    }
     
     const body = await request.json();
 
@@ -34,56 +58,51 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { responseId, surveyId, answers } = validation.data;
+    const { responseId, surveyId } = validation.data;
 
-    logger.debug('Analysis request received', { 
-      responseId, 
-      surveyId,
-      answerCount: Object.keys(answers).length 
-    });
+    logger.debug('Analysis request received', { responseId, surveyId });
 
-    // Use centralized OpenAI client
-    const { analysis, isMock, error: clientError } = await analyzeSentiment(answers);
+    // Only responses in the caller's organization, analyzed from their stored answers
+    const { data: response, error: responseError } = await supabaseAdmin
+      .from('responses')
+      .select('org_id, answers, completed')
+      .eq('id', responseId)
+      .eq('survey_id', surveyId)
+      .eq('org_id', auth.orgId)
+      .maybeSingle();
 
-    if (isMock && clientError) {
-      logger.warn('Using mock analysis', { responseId, reason: clientError });
-    } else if (isMock) {
-      logger.info('Using mock analysis (no API key)', { responseId });
-    } else {
-      logger.info('OpenAI analysis completed', { responseId, sentiment: analysis.sentiment });
+    if (responseError || !response || !response.completed) {
+      logger.warn('Response not found for analysis', { responseId, surveyId });
+      return NextResponse.json(
+        { success: false, error: 'Response not found' },
+        { status: 404 }
+      );
     }
 
-    // Update the response in database with sentiment and summary
-    // Using admin client to bypass RLS
-    const { error: updateError } = await supabaseAdmin
-      .from('responses')
-      .update({
-        sentiment: analysis.sentiment,
-        summary: analysis.summary,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', responseId);
-
-    if (updateError) {
-      logger.error('Failed to update response with analysis', updateError, { responseId });
+    const rateLimit = await checkAIRateLimits('analyze', getClientIp(request), response.org_id);
+    if (!rateLimit.allowed) {
       return NextResponse.json(
-        { 
-          success: false, 
-          error: 'Failed to save analysis results' 
-        },
-        { status: 500 }
+        { success: false, error: 'Too many AI requests, please try again in a minute' },
+        { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfterSeconds) } }
       );
     }
 
-    logger.info('Response updated with analysis results', {
-      responseId,
-      sentiment: analysis.sentiment
-    });
+    const answers = (response.answers ?? {}) as Record<string, AnswerValue>;
+    if (Object.keys(answers).length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Response has no answers to analyze' },
+        { status: 400 }
+      );
+    }
+
+    // Run analysis and save sentiment and summary on the response
+    const { analysis, isMock, source } = await analyzeAndStoreResponse(responseId, answers, response.org_id);
 
     return NextResponse.json({
       success: true,
       analysis,
-      isMock
+      isMock,
+      source
     });
 
   } catch (error) {
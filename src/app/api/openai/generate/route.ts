@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createLogger } from '@/lib/logger'
-import { generateQuestions } from '@/lib/openaiClient'
+import { generateQuestions } from '@/lib/ai'
+import { getAuthContext } from '@/lib/auth'
+import { hasPermission } from '@/lib/permissions'
+import { checkAIRateLimits, getClientIp } from '@/lib/rateLimit'
 import { validateWithSchema, openAIGenerateSchema } from '@/lib/validation'
 
 const logger = createLogger('OpenAIGenerate')
@@ -8,15 +11,38 @@ const logger = createLogger('OpenAIGenerate')
 // ─────────────────────────────────────────────
 // OpenAI Question Generation API Route
 // ─────────────────────────────────────────────
-// ✨ REFACTORED: Now uses openaiClient and validation utilities!
-//
-// Generates survey questions based on survey context.
-// Falls back to mock questions if OpenAI API key is not configured.
+// Generates survey questions based on survey context, using the signed-in
+// user's organization's AI provider. Falls back to offline questions if
+// the provider is unavailable or the org is over its token budget.
+// Calls are rate limited per client IP and per organization.
 
 export async function POST(request: NextRequest) {
   try {
     logger.info('AI question generation requested')
-    
+
+    // Resolve the caller's organization and check their role
+    const auth = await getAuthContext(request)
+    if (!auth) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    if (!hasPermission(auth.role, 'survey:edit')) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to edit surveys' },
+        { status: 403 }
+      )
+    }
+
+    const rateLimit = await checkAIRateLimits('generate', getClientIp(request), auth.orgId)
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many AI requests, please try again in a minute' },
+        { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfterSeconds) } }
+      )
+    }
+
     const body = await request.json()
 
     // Use centralized validation
@@ -38,19 +64,17 @@ export async function POST(request: NextRequest) {
 
     logger.debug('Request data received', { title, description, audience })
 
-    // Use centralized OpenAI client
     const { questions, isMock, error: clientError } = await generateQuestions(
-      title, 
-      audience, 
-      description || undefined
+      { title, audience, description: description || undefined },
+      auth.orgId
     )
 
     if (isMock && clientError) {
       logger.warn('Using mock questions', { title, audience, reason: clientError })
     } else if (isMock) {
-      logger.info('Using mock questions (no API key)', { title, audience })
+      logger.info('Using offline questions', { title, audience })
     } else {
-      logger.info('OpenAI questions generated', { title, audience, questionCount: questions.length })
+      logger.info('AI questions generated', { title, audience, questionCount: questions.length })
     }
 
     return NextResponse.json({
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createLogger } from '@/lib/logger'
+import { getAIUsage } from '@/lib/ai'
+import { getAuthContext } from '@/lib/auth'
+
+const logger = createLogger('OpenAIUsage')
+
+// ─────────────────────────────────────────────
+// AI Usage API Route
+// ─────────────────────────────────────────────
+// Returns the tokens the caller's organization has used this month and
+// its monthly budget (null = unlimited), for the dashboard.
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getAuthContext(request)
+    if (!auth) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const usage = await getAIUsage(auth.orgId)
+
+    return NextResponse.json({ success: true, usage })
+
+  } catch (error) {
+    logger.error('Failed to load AI usage', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,237 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabaseAdmin'
+import { createLogger } from '@/lib/logger'
+import { validateWithSchema, responseDraftSchema, responseDraftLookupSchema } from '@/lib/validation'
+import { validateResponseAnswers } from '@/lib/responseValidation'
+import { getVisibleQuestionIds } from '@/lib/displayLogic'
+import { splitIntoPages } from '@/lib/surveyPages'
+import { orderQuestionsForRespondent } from '@/lib/randomization'
+import { captureHiddenFields } from '@/lib/hiddenFields'
+import { hashResumeToken, getReachedQuestionIds } from '@/lib/responseDrafts'
+import { isAcceptingResponses } from '@/lib/surveyLifecycle'
+
+const logger = createLogger('ResponseDraft')
+
+// ─────────────────────────────────────────────
+// Response Draft API Route
+// ─────────────────────────────────────────────
+// Saves and loads in-progress answers for "continue later".
+//
+// A draft is a responses row with completed = false, keyed by the hash
+// of the respondent's resume token. Valid answers are kept and anything
+// else is dropped, so a half-typed email never blocks saving.
+// presented_question_ids records every question up to the respondent's
+// page, which is what drop-off analytics counts as reached.
+//
+// POST /api/responses submits the finished response and deletes the draft.
+
+export async function POST(request: NextRequest) {
+  try {
+    // Step 1: Validate the payload shape
+    const body = await request.json().catch(() => null)
+    const validation = validateWithSchema(responseDraftSchema, body)
+
+    if (!validation.success) {
+      logger.warn('Invalid draft payload', { errors: validation.errors })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: validation.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    const {
+      survey_id: surveyId,
+      resume_token: resumeToken,
+      answers,
+      page,
+      presentation_seed: seed,
+      metadata
+    } = validation.data
+
+    // Step 2: Load the survey (must be open to accept responses)
+    const { data: survey, error: surveyError } = await supabaseAdmin
+      .from('surveys')
+      .select('id, org_id, status, opens_at, closes_at, randomize_questions, hidden_fields')
+      .eq('id', surveyId)
+      .maybeSingle()
+
+    if (surveyError) {
+      logger.error('Failed to load survey', surveyError, { surveyId })
+      return NextResponse.json(
+        { success: false, error: 'Failed to load survey' },
+        { status: 500 }
+      )
+    }
+
+    if (!survey || survey.status === 'draft') {
+      return NextResponse.json(
+        { success: false, error: 'Survey not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!isAcceptingResponses(survey)) {
+      return NextResponse.json(
+        { success: false, error: 'This survey is not accepting responses', closed: true },
+        { status: 403 }
+      )
+    }
+
+    // Step 3: Keep the valid answers and work out the questions reached
+    const { data: questions, error: questionsError } = await supabaseAdmin
+      .from('survey_questions')
+      .select('*')
+      .eq('survey_id', surveyId)
+      .order('position', { ascending: true })
+
+    if (questionsError) {
+      logger.error('Failed to load survey questions', questionsError, { surveyId })
+      return NextResponse.json(
+        { success: false, error: 'Failed to load survey questions' },
+        { status: 500 }
+      )
+    }
+
+    const presentedQuestions = orderQuestionsForRespondent(
+      questions || [],
+      survey.randomize_questions,
+      seed ?? null
+    )
+    const { answers: validAnswers } = validateResponseAnswers(presentedQuestions, answers)
+    const visibleIds = getVisibleQuestionIds(presentedQuestions, validAnswers)
+    const reachedIds = getReachedQuestionIds(splitIntoPages(presentedQuestions, visibleIds), page)
+
+    const draft = {
+      answers: validAnswers,
+      presented_question_ids: reachedIds,
+      presentation_seed: seed ?? null,
+      metadata: captureHiddenFields(survey.hidden_fields, metadata ?? {}),
+    }
+
+    // Step 4: Update the respondent's draft, or start one
+    const tokenHash = await hashResumeToken(resumeToken)
+
+    const { data: existing, error: lookupError } = await supabaseAdmin
+      .from('responses')
+      .select('id')
+      .eq('survey_id', surveyId)
+      .eq('resume_token_hash', tokenHash)
+      .eq('completed', false)
+      .maybeSingle()
+
+    if (lookupError) {
+      logger.error('Failed to look up draft', lookupError, { surveyId })
+      return NextResponse.json(
+        { success: false, error: 'Failed to save your progress' },
+        { status: 500 }
+      )
+    }
+
+    const { error: saveError } = existing
+      ? await supabaseAdmin.from('responses').update(draft).eq('id', existing.id)
+      : await supabaseAdmin.from('responses').insert({
+          ...draft,
+          survey_id: surveyId,
+          org_id: survey.org_id,
+          completed: false,
+          resume_token_hash: tokenHash,
+        })
+
+    if (saveError) {
+      logger.error('Failed to save draft', saveError, { surveyId })
+      return NextResponse.json(
+        { success: false, error: 'Failed to save your progress' },
+        { status: 500 }
+      )
+    }
+
+    logger.info('Response draft saved', {
+      surveyId,
+      answerCount: Object.keys(validAnswers).length,
+      reachedCount: reachedIds.length
+    })
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    logger.error('Failed to save draft', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Step 1: Validate the query string
+    const { searchParams } = request.nextUrl
+    const validation = validateWithSchema(responseDraftLookupSchema, {
+      survey_id: searchParams.get('survey_id'),
+      token: searchParams.get('token'),
+    })
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: validation.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    const { survey_id: surveyId, token } = validation.data
+
+    // Step 2: Find the draft (submitted responses cannot be reopened)
+    const { data: draft, error: draftError } = await supabaseAdmin
+      .from('responses')
+      .select('answers, presented_question_ids, presentation_seed')
+      .eq('survey_id', surveyId)
+      .eq('resume_token_hash', await hashResumeToken(token))
+      .eq('completed', false)
+      .maybeSingle()
+
+    if (draftError) {
+      logger.error('Failed to load draft', draftError, { surveyId })
+      return NextResponse.json(
+        { success: false, error: 'Failed to load your progress' },
+        { status: 500 }
+      )
+    }
+
+    if (!draft) {
+      return NextResponse.json(
+        { success: false, error: 'This link has expired or was already used' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      draft: {
+        answers: draft.answers,
+        presentedQuestionIds: draft.presented_question_ids ?? [],
+        presentationSeed: draft.presentation_seed,
+      }
+    })
+
+  } catch (error) {
+    logger.error('Failed to load draft', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabaseAdmin'
+import { createLogger } from '@/lib/logger'
+import { validateWithSchema, responseSubmissionSchema } from '@/lib/validation'
+import { validateResponseAnswers } from '@/lib/responseValidation'
+import { processAnalysisJobs } from '@/lib/analysisJobs'
+import { getFileStorage } from '@/lib/storage'
+import { isFileAnswer } from '@/lib/utils'
+import { orderQuestionsForRespondent, getPresentedOptionOrders } from '@/lib/randomization'
+import { captureHiddenFields } from '@/lib/hiddenFields'
+import { hashResumeToken } from '@/lib/responseDrafts'
+import { isAcceptingResponses } from '@/lib/surveyLifecycle'
+import { isQuotaFullError } from '@/lib/quotas'
+
+const logger = createLogger('ResponseSubmit')
+
+// ─────────────────────────────────────────────
+// Response Submission API Route
+// ─────────────────────────────────────────────
+// Single entry point for survey responses: checks the survey is open,
+// validates every shown answer against survey_questions (questions hidden
+// by display logic are skipped), checks uploaded files are in storage,
+// stores the response and runs the AI analysis queue after the reply is sent.
+//
+// Question and option order is rebuilt from the respondent's shuffle seed
+// and stored with the response, so analytics can look for position effects.
+// Hidden field values (e.g. customer_id, campaign) are saved to metadata.
+// A respondent who saved a draft (see /api/responses/draft) sends its
+// resume token; the draft is deleted once the response is stored.
+//
+// Respondents are anonymous, so the organization comes from the survey.
+//
+// A database trigger queues the response's analysis job in the same
+// transaction as the insert; if the run below fails or the server stops,
+// the scheduled worker (/api/analysis/worker) picks the job up.
+//
+// Note: Activity feed logging is handled automatically by database trigger.
+
+export async function POST(request: NextRequest) {
+  try {
+    // Step 1: Validate the payload shape
+    // A malformed body fails validation like any other bad payload
+    const body = await request.json().catch(() => null)
+    const validation = validateWithSchema(responseSubmissionSchema, body)
+
+    if (!validation.success) {
+      logger.warn('Invalid response payload', { errors: validation.errors })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: validation.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    const {
+      survey_id: surveyId,
+      answers,
+      presentation_seed: seed,
+      metadata,
+      resume_token: resumeToken
+    } = validation.data
+
+    // Step 2: Load the survey (must be open to accept responses)
+    const { data: survey, error: surveyError } = await supabaseAdmin
+      .from('surveys')
+      .select('id, org_id, status, opens_at, closes_at, randomize_questions, hidden_fields')
+      .eq('id', surveyId)
+      .maybeSingle()
+
+    if (surveyError) {
+      logger.error('Failed to load survey', surveyError, { surveyId })
+      return NextResponse.json(
+        { success: false, error: 'Failed to load survey' },
+        { status: 500 }
+      )
+    }
+
+    if (!survey || survey.status === 'draft') {
+      return NextResponse.json(
+        { success: false, error: 'Survey not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!isAcceptingResponses(survey)) {
+      return NextResponse.json(
+        { success: false, error: 'This survey is not accepting responses', closed: true },
+        { status: 403 }
+      )
+    }
+
+    // Step 3: Load questions and validate each answer
+    const { data: questions, error: questionsError } = await supabaseAdmin
+      .from('survey_questions')
+      .select('*')
+      .eq('survey_id', surveyId)
+      .order('position', { ascending: true })
+
+    if (questionsError) {
+      logger.error('Failed to load survey questions', questionsError, { surveyId })
+      return NextResponse.json(
+        { success: false, error: 'Failed to load survey questions' },
+        { status: 500 }
+      )
+    }
+
+    // Same order the respondent saw, so presented IDs are in display order
+    const presentedQuestions = orderQuestionsForRespondent(
+      questions || [],
+      survey.randomize_questions,
+      seed ?? null
+    )
+    const result = validateResponseAnswers(presentedQuestions, answers)
+
+    if (!result.valid) {
+      logger.warn('Response answers failed validation', {
+        surveyId,
+        errorCount: Object.keys(result.errors).length
+      })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Some answers are invalid',
+          fieldErrors: result.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    // Step 4: Uploaded files must exist (file answers carry only metadata)
+    const storage = getFileStorage()
+    const missingFiles: Record<string, string> = {}
+
+    for (const [questionId, value] of Object.entries(result.answers)) {
+      if (isFileAnswer(value) && !(await storage.exists(value.key))) {
+        missingFiles[questionId] = 'Please upload the file again'
+      }
+    }
+
+    if (Object.keys(missingFiles).length > 0) {
+      logger.warn('Response references missing uploads', { surveyId })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Some answers are invalid',
+          fieldErrors: missingFiles
+        },
+        { status: 400 }
+      )
+    }
+
+    // Step 5: Store the response
+    const { data: response, error: insertError } = await supabaseAdmin
+      .from('responses')
+      .insert({
+        survey_id: surveyId,
+        org_id: survey.org_id,
+        answers: result.answers,
+        presented_question_ids: result.presentedQuestionIds,
+        presented_option_orders: getPresentedOptionOrders(presentedQuestions, result.presentedQuestionIds),
+        metadata: captureHiddenFields(survey.hidden_fields, metadata ?? {}),
+        presentation_seed: seed ?? null,
+        sentiment: null, // Set by AI analysis
+      })
+      .select('id')
+      .single()
+
+    // The quota trigger rejects responses once the survey or the
+    // respondent's segment is full
+    if (isQuotaFullError(insertError)) {
+      logger.info('Response rejected by a full quota', { surveyId, reason: insertError?.hint })
+      return NextResponse.json(
+        { success: false, error: insertError?.message, full: true },
+        { status: 403 }
+      )
+    }
+
+    if (insertError || !response) {
+      logger.error('Failed to store response', insertError, { surveyId })
+      return NextResponse.json(
+        { success: false, error: 'Failed to submit response' },
+        { status: 500 }
+      )
+    }
+
+    logger.info('Survey response submitted', {
+      surveyId,
+      responseId: response.id,
+      answerCount: Object.keys(result.answers).length
+    })
+
+    // Step 6: Remove the saved draft (the response replaces it)
+    if (resumeToken) {
+      const { error: draftError } = await supabaseAdmin
+        .from('responses')
+        .delete()
+        .eq('survey_id', surveyId)
+        .eq('resume_token_hash', await hashResumeToken(resumeToken))
+        .eq('completed', false)
+
+      if (draftError) {
+        logger.error('Failed to delete response draft (non-blocking)', draftError, { surveyId })
+      }
+    }
+
+    // Step 7: Run the analysis queue (after the response is sent)
+    if (Object.keys(result.answers).length > 0) {
+      after(async () => {
+        try {
+          await processAnalysisJobs()
+        } catch (error) {
+          logger.error('Analysis queue run failed (non-blocking)', error, { responseId: response.id })
+        }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      responseId: response.id
+    })
+
+  } catch (error) {
+    logger.error('Failed to submit response', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabaseAdmin'
+import { createLogger } from '@/lib/logger'
+import { validateWithSchema, surveyAvailabilitySchema } from '@/lib/validation'
+import { getAvailability } from '@/lib/surveyLifecycle'
+
+const logger = createLogger('SurveyAvailability')
+
+// ─────────────────────────────────────────────
+// Survey Availability API Route
+// ─────────────────────────────────────────────
+// Tells a respondent whether the survey they were linked to is open,
+// not open yet, or closed (and whether it closed because it was full).
+//
+// RLS hides surveys outside their opening window from anonymous
+// respondents, so the respond page asks here to explain why a survey
+// did not load. Only the title and window are returned; drafts are
+// reported as not found.
+
+export async function GET(request: NextRequest) {
+  try {
+    // Step 1: Validate the query string
+    const validation = validateWithSchema(surveyAvailabilitySchema, {
+      survey_id: request.nextUrl.searchParams.get('survey_id'),
+    })
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: validation.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    const { survey_id: surveyId } = validation.data
+
+    // Step 2: Load the survey's status and window
+    const { data: survey, error: surveyError } = await supabaseAdmin
+      .from('surveys')
+      .select('title, status, opens_at, closes_at, response_limit')
+      .eq('id', surveyId)
+      .maybeSingle()
+
+    if (surveyError) {
+      logger.error('Failed to load survey', surveyError, { surveyId })
+      return NextResponse.json(
+        { success: false, error: 'Failed to load survey' },
+        { status: 500 }
+      )
+    }
+
+    const availability = survey ? getAvailability(survey) : null
+
+    if (!survey || !availability) {
+      return NextResponse.json(
+        { success: false, error: 'Survey not found' },
+        { status: 404 }
+      )
+    }
+
+    // Step 3: A closed survey with a response limit may have filled up
+    let full = false
+    if (availability === 'closed' && survey.response_limit !== null) {
+      const { count } = await supabaseAdmin
+        .from('responses')
+        .select('id', { count: 'exact', head: true })
+        .eq('survey_id', surveyId)
+        .eq('completed', true)
+
+      full = (count ?? 0) >= survey.response_limit
+    }
+
+    return NextResponse.json({
+      success: true,
+      availability,
+      title: survey.title,
+      opensAt: survey.opens_at,
+      closesAt: survey.closes_at,
+      full,
+    })
+
+  } catch (error) {
+    logger.error('Failed to check survey availability', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabaseAdmin'
 import { calculateNextVersion } from '@/lib/versionUtils'
 import { createLogger } from '@/lib/logger'
+import { getAuthContext } from '@/lib/auth'
+import { hasPermission } from '@/lib/permissions'
+import { findBrokenPipingReferences, describeBrokenPipingReference } from '@/lib/answerPiping'
 
 const logger = createLogger('CreateVersion')
 
@@ -14,6 +17,10 @@ const logger = createLogger('CreateVersion')
 // This is the first step when editing a survey - it creates the
 // new version row that will be populated with edited data.
 //
+// Piped references ({{qN}} in question text) point at positions, so they
+// carry forward unchanged; any that no longer resolve to an earlier
+// question are returned as warnings.
+//
 // Note: Activity feed logging is handled automatically by database trigger.
 
 interface CreateVersionRequest {
@@ -24,6 +31,21 @@ interface CreateVersionRequest {
 
 export async function POST(request: NextRequest) {
   try {
+    // Resolve the caller's organization and check their role
+    const auth = await getAuthContext(request)
+    if (!auth) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    if (!hasPermission(auth.role, 'survey:edit')) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to edit surveys' },
+        { status: 403 }
+      )
+    }
+
     // Parse request body
     const { 
       originalSurveyId, 
@@ -42,11 +64,12 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Step 1: Fetch original survey
+    // Step 1: Fetch original survey (scoped to the caller's organization)
     const { data: originalSurvey, error: surveyError } = await supabaseAdmin
       .from('surveys')
       .select('*')
       .eq('id', originalSurveyId)
+      .eq('org_id', auth.orgId)
       .single()
 
     if (surveyError || !originalSurvey) {
@@ -112,10 +135,16 @@ export async function POST(request: NextRequest) {
       title: originalSurvey.title,
       description: originalSurvey.description,
       audience: originalSurvey.audience,
+      randomize_questions: originalSurvey.randomize_questions,
+      hidden_fields: originalSurvey.hidden_fields,
+      response_limit: originalSurvey.response_limit,
+      quotas: originalSurvey.quotas,
       org_id: originalSurvey.org_id,
       version: nextVersion,
       parent_id: originalSurvey.id, // Link to original survey
       changelog: changelog,
+      status: 'active', // New versions open straight away
+      opens_at: new Date().toISOString(),
       // Don't copy: id (auto-generated), created_at (auto), updated_at (auto)
     }
 
@@ -153,6 +182,9 @@ export async function POST(request: NextRequest) {
       position: question.position,
       options: question.options,
       required: question.required,
+      display_logic: question.display_logic,
+      page_break_before: question.page_break_before,
+      settings: question.settings,
       // Don't copy: id (auto-generated), created_at (auto)
     }))
 
@@ -186,12 +218,25 @@ export async function POST(request: NextRequest) {
     // Note: Activity feed is automatically logged by database trigger
     // (no manual webhook call needed)
 
-    // Step 6: Return success with new survey ID
+    // Step 6: Check piped references in the carried-forward questions
+    const warnings = findBrokenPipingReferences(
+      newQuestions.map((question) => question.question)
+    ).map(describeBrokenPipingReference)
+
+    if (warnings.length > 0) {
+      logger.warn('Survey version has broken piped references', {
+        newSurveyId: createdSurvey.id,
+        warnings
+      })
+    }
+
+    // Step 7: Return success with new survey ID
     return NextResponse.json({
       success: true,
       newSurveyId: createdSurvey.id,
       newVersion: createdSurvey.version,
       parentId: createdSurvey.parent_id,
+      warnings,
       message: `Created ${isMajorVersion ? 'major' : 'minor'} version ${createdSurvey.version}`
     })
 
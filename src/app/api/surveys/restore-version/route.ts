@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabaseAdmin'
 import { calculateNextVersion } from '@/lib/versionUtils'
 import { createLogger } from '@/lib/logger'
+import { getAuthContext } from '@/lib/auth'
+import { hasPermission } from '@/lib/permissions'
 
 const logger = createLogger('RestoreVersion')
 
@@ -19,24 +21,38 @@ const logger = createLogger('RestoreVersion')
 interface RestoreVersionRequest {
   oldSurveyId: string          // The version to restore (e.g., v1.0)
   currentLatestSurveyId: string // The current latest version (e.g., v2.3)
-  orgId: string
 }
 
 export async function POST(request: NextRequest) {
   try {
+    // Resolve the caller's organization and check their role
+    const auth = await getAuthContext(request)
+    if (!auth) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    if (!hasPermission(auth.role, 'survey:edit')) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to edit surveys' },
+        { status: 403 }
+      )
+    }
+    const orgId = auth.orgId
+
     // Parse request body
     const { 
       oldSurveyId, 
-      currentLatestSurveyId, 
-      orgId 
+      currentLatestSurveyId
     }: RestoreVersionRequest = await request.json()
 
     // Validate required fields
-    if (!oldSurveyId || !currentLatestSurveyId || !orgId) {
+    if (!oldSurveyId || !currentLatestSurveyId) {
       return NextResponse.json(
         { 
           success: false, 
-          error: 'Old survey ID, current survey ID, and org ID are required' 
+          error: 'Old survey ID and current survey ID are required' 
         },
         { status: 400 }
       )
@@ -47,6 +63,7 @@ export async function POST(request: NextRequest) {
       .from('surveys')
       .select('*')
       .eq('id', oldSurveyId)
+      .eq('org_id', orgId)
       .single()
 
     if (oldSurveyError || !oldSurvey) {
@@ -67,6 +84,7 @@ export async function POST(request: NextRequest) {
       .from('surveys')
       .select('*')
       .eq('id', currentLatestSurveyId)
+      .eq('org_id', orgId)
       .single()
 
     if (currentSurveyError || !currentSurvey) {
@@ -127,10 +145,16 @@ export async function POST(request: NextRequest) {
       title: oldSurvey.title,
       description: oldSurvey.description,
       audience: oldSurvey.audience,
+      randomize_questions: oldSurvey.randomize_questions,
+      hidden_fields: oldSurvey.hidden_fields,
+      response_limit: oldSurvey.response_limit,
+      quotas: oldSurvey.quotas,
       org_id: orgId,
       version: nextVersion,
       parent_id: currentLatestSurveyId, // Link to current latest as parent
       changelog: `Restored from v${oldSurvey.version}`,
+      status: 'active', // New versions open straight away
+      opens_at: new Date().toISOString(),
       // Don't copy: id (auto-generated), created_at (auto), updated_at (auto)
     }
 
@@ -168,6 +192,9 @@ export async function POST(request: NextRequest) {
       position: question.position,
       options: question.options,
       required: question.required,
+      display_logic: question.display_logic,
+      page_break_before: question.page_break_before,
+      settings: question.settings,
       // Don't copy: id (auto-generated), created_at (auto)
     }))
 
@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabaseAdmin'
 import type { SurveyData } from '@/types/survey'
-import { surveyToDbInsert, questionToDbInsert } from '@/types/survey'
+import { surveyToDbInsert, questionToDbInsert, quotasToDb } from '@/types/survey'
 import { createLogger } from '@/lib/logger'
+import { getAuthContext } from '@/lib/auth'
+import { hasPermission } from '@/lib/permissions'
+import { logActivity, createActivityPayload } from '@/lib/webhooks'
+import { normalizeHiddenFields } from '@/lib/hiddenFields'
+import { normalizeQuotas, normalizeResponseLimit } from '@/lib/quotas'
+import { findPatternError } from '@/lib/questionSettings'
 
 const logger = createLogger('SurveySave')
 
@@ -10,17 +16,33 @@ const logger = createLogger('SurveySave')
 // Survey Save API Route
 // ─────────────────────────────────────────────
 // Handles survey publication: validates data, saves to database,
-// triggers webhook for activity feed, and returns shareable link.
+// logs activity for the feed, and returns shareable link.
+// The organization is taken from the caller's session, never the body.
 
 interface SaveSurveyRequest {
   surveyData: SurveyData
-  orgId: string
 }
 
 export async function POST(request: NextRequest) {
   try {
+    // Resolve the caller's organization and check their role
+    const auth = await getAuthContext(request)
+    if (!auth) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    if (!hasPermission(auth.role, 'survey:edit')) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to edit surveys' },
+        { status: 403 }
+      )
+    }
+    const orgId = auth.orgId
+
     // Parse request body
-    const { surveyData, orgId }: SaveSurveyRequest = await request.json()
+    const { surveyData }: SaveSurveyRequest = await request.json()
 
     // Validate required fields
     if (!surveyData.title || !surveyData.audience || surveyData.questions.length === 0) {
@@ -45,18 +67,26 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!orgId) {
+    // Custom answer patterns run on the server against respondent input
+    const patternError = findPatternError(surveyData.questions)
+    if (patternError) {
       return NextResponse.json(
         { 
           success: false, 
-          error: 'Organization ID is required' 
+          error: `Question ${patternError.index + 1}: ${patternError.error}` 
         },
         { status: 400 }
       )
     }
 
     // Step 1: Insert survey into surveys table
-    const surveyInsert = surveyToDbInsert(surveyData, orgId)
+    const hiddenFields = normalizeHiddenFields(surveyData.hiddenFields)
+    const surveyInsert = {
+      ...surveyToDbInsert(surveyData, orgId),
+      hidden_fields: hiddenFields,
+      response_limit: normalizeResponseLimit(surveyData.responseLimit),
+      quotas: normalizeQuotas(quotasToDb(surveyData.quotas, surveyData.questions), surveyData.questions, hiddenFields)
+    }
     
     const { data: survey, error: surveyError } = await supabaseAdmin
       .from('surveys')
@@ -85,7 +115,7 @@ export async function POST(request: NextRequest) {
 
     // Step 2: Insert questions into survey_questions table
     const questionsToInsert = surveyData.questions.map((question, index) =>
-      questionToDbInsert(question, survey.id, index)
+      questionToDbInsert(question, survey.id, index, surveyData.questions)
     )
 
     const { error: questionsError } = await supabaseAdmin
@@ -112,47 +142,24 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Step 3: Trigger webhook for activity feed
-    try {
-      const webhookUrl = `${request.nextUrl.origin}/api/webhook/sync`
-      
-      const webhookPayload = {
-        type: 'SURVEY_CREATED',
-        survey_id: survey.id,
-        org_id: orgId,
-        details: {
+    // Step 3: Log activity for the feed (non-critical)
+    const activityResult = await logActivity(
+      createActivityPayload(
+        'SURVEY_CREATED',
+        orgId,
+        {
           survey_title: survey.title,
           question_count: surveyData.questions.length,
-          audience: survey.audience
-        }
-      }
-      
-      logger.debug('Calling webhook to log activity', { 
-        webhookUrl, 
-        eventType: 'SURVEY_CREATED' 
-      })
-      
-      const webhookResponse = await fetch(webhookUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(webhookPayload)
-      })
-      
-      const webhookResult = await webhookResponse.json()
-      
-      if (!webhookResponse.ok) {
-        logger.warn('Webhook call failed', {
-          status: webhookResponse.status,
-          result: webhookResult
-        })
-      } else {
-        logger.debug('Webhook completed successfully', { result: webhookResult })
-      }
-    } catch (webhookError) {
-      // Log but don't fail - survey was created successfully
-      logger.warn('Webhook call failed (non-critical)', {
+          audience: surveyData.audience
+        },
+        survey.id
+      )
+    )
+
+    if (!activityResult.success) {
+      logger.warn('Activity logging failed (non-critical)', {
         surveyId: survey.id,
-        error: webhookError instanceof Error ? webhookError.message : String(webhookError)
+        error: activityResult.details
       })
     }
 
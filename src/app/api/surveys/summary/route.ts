@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabaseAdmin'
+import { createLogger } from '@/lib/logger'
+import { getAuthContext, surveyBelongsToOrg } from '@/lib/auth'
+import { hasPermission } from '@/lib/permissions'
+import { checkAIRateLimits, getClientIp } from '@/lib/rateLimit'
+import { createSurveySummary, getLatestSurveySummary } from '@/lib/surveySummaries'
+import { validateWithSchema, surveySummarySchema } from '@/lib/validation'
+import { logActivity, createActivityPayload } from '@/lib/webhooks'
+
+const logger = createLogger('SurveySummary')
+
+// ─────────────────────────────────────────────
+// Survey Summary API Route
+// ─────────────────────────────────────────────
+// POST generates an AI summary report of a survey's responses: key
+// themes, top complaints, top praise and recommended actions. It covers
+// all versions of the survey or just this one, optionally limited to a
+// date range. The report is stored and logged as SUMMARY_GENERATED.
+// Falls back to an offline summary if the AI provider is unavailable.
+//
+// GET ?surveyId=... returns the latest stored report for the survey.
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getAuthContext(request)
+    if (!auth) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    if (!hasPermission(auth.role, 'analytics:view')) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to view analytics' },
+        { status: 403 }
+      )
+    }
+
+    const surveyId = request.nextUrl.searchParams.get('surveyId') ?? ''
+    if (!(await surveyBelongsToOrg(surveyId, auth.orgId))) {
+      return NextResponse.json(
+        { success: false, error: 'Survey not found' },
+        { status: 404 }
+      )
+    }
+
+    const summary = await getLatestSurveySummary(surveyId)
+
+    return NextResponse.json({ success: true, summary })
+
+  } catch (error) {
+    logger.error('Failed to load survey summary', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Resolve the caller's organization and check their role
+    const auth = await getAuthContext(request)
+    if (!auth) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    if (!hasPermission(auth.role, 'analytics:view')) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to view analytics' },
+        { status: 403 }
+      )
+    }
+
+    const rateLimit = await checkAIRateLimits('summarize', getClientIp(request), auth.orgId)
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many AI requests, please try again in a minute' },
+        { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfterSeconds) } }
+      )
+    }
+
+    // Step 1: Validate the request
+    const body = await request.json().catch(() => null)
+    const validation = validateWithSchema(surveySummarySchema, body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: validation.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    const { surveyId, scope, from, to } = validation.data
+
+    // Step 2: Load the survey (scoped to the caller's organization)
+    const { data: survey, error: surveyError } = await supabaseAdmin
+      .from('surveys')
+      .select('id, org_id, title')
+      .eq('id', surveyId)
+      .eq('org_id', auth.orgId)
+      .maybeSingle()
+
+    if (surveyError) {
+      logger.error('Failed to load survey', surveyError, { surveyId })
+      return NextResponse.json(
+        { success: false, error: 'Failed to load survey' },
+        { status: 500 }
+      )
+    }
+
+    if (!survey) {
+      return NextResponse.json(
+        { success: false, error: 'Survey not found' },
+        { status: 404 }
+      )
+    }
+
+    // Step 3: Summarize the matching responses and store the report
+    const result = await createSurveySummary(survey, { scope, from, to }, auth.userId)
+
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: 'No responses to summarize for these filters' },
+        { status: 400 }
+      )
+    }
+
+    // Step 4: Log activity for the feed (non-critical). Every member,
+    // viewers included, reads the feed, so no summary text goes in it
+    const activityResult = await logActivity(
+      createActivityPayload(
+        'SUMMARY_GENERATED',
+        auth.orgId,
+        {
+          survey_id: surveyId,
+          survey_title: survey.title,
+          response_count: result.summary.responseCount
+        },
+        surveyId
+      )
+    )
+
+    if (!activityResult.success) {
+      logger.warn('Activity logging failed (non-critical)', {
+        surveyId,
+        error: activityResult.details
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      summary: result.summary,
+      ...(result.error && { error: result.error })
+    })
+
+  } catch (error) {
+    logger.error('Failed to generate survey summary', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabaseAdmin'
+import { createLogger } from '@/lib/logger'
+import { getAuthContext } from '@/lib/auth'
+import { hasPermission } from '@/lib/permissions'
+import { validateWithSchema, surveyStatusUpdateSchema } from '@/lib/validation'
+import { applyStatusAction, getStatusLabel } from '@/lib/surveyLifecycle'
+import { logActivity, createActivityPayload } from '@/lib/webhooks'
+
+const logger = createLogger('UpdateSurveyStatus')
+
+// ─────────────────────────────────────────────
+// Update Survey Status API Route
+// ─────────────────────────────────────────────
+// Moves a survey through its lifecycle: open now, schedule an opening
+// (and optional closing) time, set or clear a close date, close,
+// archive and unarchive.
+//
+// The allowed actions depend on the survey's status as of now, so a
+// scheduled survey whose opening time has passed is treated as open.
+// Respondents are turned away by POST /api/responses and RLS
+// (is_survey_published) once a survey is not open.
+
+export async function POST(request: NextRequest) {
+  try {
+    // Resolve the caller's organization and check their role
+    const auth = await getAuthContext(request)
+    if (!auth) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    if (!hasPermission(auth.role, 'survey:edit')) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to change survey status' },
+        { status: 403 }
+      )
+    }
+
+    // Step 1: Validate the payload shape
+    const body = await request.json()
+    const validation = validateWithSchema(surveyStatusUpdateSchema, body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: validation.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    const { survey_id: surveyId, action, opens_at: opensAt, closes_at: closesAt } = validation.data
+
+    // Step 2: Load the survey (scoped to the caller's organization)
+    const { data: survey, error: surveyError } = await supabaseAdmin
+      .from('surveys')
+      .select('id, title, status, opens_at, closes_at')
+      .eq('id', surveyId)
+      .eq('org_id', auth.orgId)
+      .maybeSingle()
+
+    if (surveyError) {
+      logger.error('Failed to load survey', surveyError, { surveyId })
+      return NextResponse.json(
+        { success: false, error: 'Failed to load survey' },
+        { status: 500 }
+      )
+    }
+
+    if (!survey) {
+      return NextResponse.json(
+        { success: false, error: 'Survey not found' },
+        { status: 404 }
+      )
+    }
+
+    // Step 3: Work out the new status and window
+    const result = applyStatusAction(survey, action, { opensAt, closesAt })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    // Step 4: Save it
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('surveys')
+      .update(result.change)
+      .eq('id', surveyId)
+      .select('id, status, opens_at, closes_at')
+      .single()
+
+    if (updateError) {
+      logger.error('Failed to update survey status', updateError, { surveyId, action })
+      return NextResponse.json(
+        { success: false, error: 'Failed to update survey status' },
+        { status: 500 }
+      )
+    }
+
+    logger.info('Survey status updated', { surveyId, action, status: updated.status })
+
+    // Step 5: Log activity for the feed (non-critical)
+    const activityResult = await logActivity(
+      createActivityPayload(
+        'SURVEY_UPDATED',
+        auth.orgId,
+        {
+          survey_title: survey.title,
+          status: getStatusLabel(result.change.status)
+        },
+        surveyId
+      )
+    )
+
+    if (!activityResult.success) {
+      logger.warn('Activity logging failed (non-critical)', {
+        surveyId,
+        error: activityResult.details
+      })
+    }
+
+    return NextResponse.json({ success: true, survey: updated })
+
+  } catch (error) {
+    logger.error('Failed to update survey status', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    )
+  }
+}
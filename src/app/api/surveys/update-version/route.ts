@@ -1,9 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabaseAdmin'
 import type { SurveyData } from '@/types/survey'
-import { questionToDbInsert } from '@/types/survey'
+import { questionToDbInsert, quotasToDb } from '@/types/survey'
 import { calculateNextVersion } from '@/lib/versionUtils'
 import { createLogger } from '@/lib/logger'
+import { getAuthContext, surveyBelongsToOrg } from '@/lib/auth'
+import { hasPermission } from '@/lib/permissions'
+import { normalizeHiddenFields } from '@/lib/hiddenFields'
+import { normalizeQuotas, normalizeResponseLimit } from '@/lib/quotas'
+import { findPatternError } from '@/lib/questionSettings'
+import { findBrokenPipingReferences, describeBrokenPipingReference } from '@/lib/answerPiping'
 
 const logger = createLogger('UpdateVersion')
 
@@ -20,7 +26,6 @@ const logger = createLogger('UpdateVersion')
 
 interface UpdateVersionRequest {
   surveyData: SurveyData
-  orgId: string
   parentId: string
   currentVersion: number
   isMajorVersion?: boolean
@@ -29,10 +34,26 @@ interface UpdateVersionRequest {
 
 export async function POST(request: NextRequest) {
   try {
+    // Resolve the caller's organization and check their role
+    const auth = await getAuthContext(request)
+    if (!auth) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    if (!hasPermission(auth.role, 'survey:edit')) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to edit surveys' },
+        { status: 403 }
+      )
+    }
+
+    const orgId = auth.orgId
+
     // Parse request body
     const { 
       surveyData, 
-      orgId, 
       parentId,
       currentVersion,
       isMajorVersion = false,
@@ -50,16 +71,39 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!orgId || !parentId) {
+    // Custom answer patterns run on the server against respondent input
+    const patternError = findPatternError(surveyData.questions)
+    if (patternError) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: `Question ${patternError.index + 1}: ${patternError.error}` 
+        },
+        { status: 400 }
+      )
+    }
+
+    if (!parentId) {
       return NextResponse.json(
         { 
           success: false, 
-          error: 'Organization ID and parent ID are required' 
+          error: 'Parent ID is required' 
         },
         { status: 400 }
       )
     }
 
+    // The survey being edited must belong to the caller's organization
+    if (!(await surveyBelongsToOrg(parentId, orgId))) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Survey not found' 
+        },
+        { status: 404 }
+      )
+    }
+
     // Step 1: Calculate next version number
     const nextVersion = calculateNextVersion(currentVersion, isMajorVersion)
 
@@ -71,14 +115,21 @@ export async function POST(request: NextRequest) {
     })
 
     // Step 2: Insert NEW survey row with edited data and incremented version
+    const hiddenFields = normalizeHiddenFields(surveyData.hiddenFields)
     const newSurvey = {
       title: surveyData.title,
       description: surveyData.description || null,
       audience: surveyData.audience,
+      randomize_questions: !!surveyData.randomizeQuestions,
+      hidden_fields: hiddenFields,
+      response_limit: normalizeResponseLimit(surveyData.responseLimit),
+      quotas: normalizeQuotas(quotasToDb(surveyData.quotas, surveyData.questions), surveyData.questions, hiddenFields),
       org_id: orgId,
       version: nextVersion,
       parent_id: parentId, // Link to parent survey
       changelog: changelog,
+      status: 'active', // New versions open straight away
+      opens_at: new Date().toISOString(),
       // id, created_at, updated_at are auto-generated
     }
 
@@ -111,7 +162,7 @@ export async function POST(request: NextRequest) {
 
     // Step 3: Insert edited questions into survey_questions table
     const questionsToInsert = surveyData.questions.map((question, index) =>
-      questionToDbInsert(question, createdSurvey.id, index)
+      questionToDbInsert(question, createdSurvey.id, index, surveyData.questions)
     )
 
     const { error: questionsError } = await supabaseAdmin
@@ -144,7 +195,19 @@ export async function POST(request: NextRequest) {
     // Note: Activity feed is automatically logged by database trigger
     // The trigger detects parent_id and logs as SURVEY_EDITED with changelog
 
-    // Step 4: Return success with new survey ID and shareable link
+    // Step 4: Flag piped references ({{qN}}) to removed or later questions
+    const warnings = findBrokenPipingReferences(
+      questionsToInsert.map((question) => question.question)
+    ).map(describeBrokenPipingReference)
+
+    if (warnings.length > 0) {
+      logger.warn('Survey version has broken piped references', {
+        surveyId: createdSurvey.id,
+        warnings
+      })
+    }
+
+    // Step 5: Return success with new survey ID and shareable link
     const shareableLink = `${request.nextUrl.origin}/mojeremiah/respond/${createdSurvey.id}`
 
     return NextResponse.json({
@@ -156,6 +219,7 @@ export async function POST(request: NextRequest) {
         parentId: createdSurvey.parent_id,
         shareableLink
       },
+      warnings,
       message: `Survey updated to version ${createdSurvey.version}`
     })
 
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabaseAdmin'
+import { createLogger } from '@/lib/logger'
+import { validateWithSchema, fileUploadSchema } from '@/lib/validation'
+import { getFileUploadSettings } from '@/lib/questionSettings'
+import { buildFileKey, getFileStorage } from '@/lib/storage'
+import { isAcceptingResponses } from '@/lib/surveyLifecycle'
+import type { FileAnswer } from '@/types/survey'
+
+const logger = createLogger('FileUpload')
+
+// ─────────────────────────────────────────────
+// File Upload API Route
+// ─────────────────────────────────────────────
+// Receives a respondent's file for a file_upload question, checks it
+// against the author's allowed types and size limit, and stores it via
+// the configured storage backend. The returned metadata becomes the
+// question's answer; POST /api/responses later confirms the file exists.
+//
+// Respondents are anonymous, so the survey must be open and the
+// question must belong to it.
+
+export async function POST(request: NextRequest) {
+  try {
+    // Step 1: Read and validate the multipart form
+    const form = await request.formData()
+    const file = form.get('file')
+    const validation = validateWithSchema(fileUploadSchema, {
+      survey_id: form.get('survey_id'),
+      question_id: form.get('question_id'),
+    })
+
+    if (!validation.success || !(file instanceof File)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'A survey, question and file are required',
+          details: validation.success ? undefined : validation.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    const { survey_id: surveyId, question_id: questionId } = validation.data
+
+    // Step 2: The survey must be open and own a file_upload question with this ID
+    const { data: survey, error: surveyError } = await supabaseAdmin
+      .from('surveys')
+      .select('id, status, opens_at, closes_at')
+      .eq('id', surveyId)
+      .maybeSingle()
+
+    if (surveyError) {
+      logger.error('Failed to load survey', surveyError, { surveyId })
+      return NextResponse.json(
+        { success: false, error: 'Failed to load survey' },
+        { status: 500 }
+      )
+    }
+
+    if (!survey || survey.status === 'draft') {
+      return NextResponse.json(
+        { success: false, error: 'Survey not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!isAcceptingResponses(survey)) {
+      return NextResponse.json(
+        { success: false, error: 'This survey is not accepting responses', closed: true },
+        { status: 403 }
+      )
+    }
+
+    const { data: question, error: questionError } = await supabaseAdmin
+      .from('survey_questions')
+      .select('id, type, settings')
+      .eq('id', questionId)
+      .eq('survey_id', surveyId)
+      .maybeSingle()
+
+    if (questionError) {
+      logger.error('Failed to load question', questionError, { surveyId, questionId })
+      return NextResponse.json(
+        { success: false, error: 'Failed to load question' },
+        { status: 500 }
+      )
+    }
+
+    if (!question || question.type !== 'file_upload') {
+      return NextResponse.json(
+        { success: false, error: 'This question does not accept files' },
+        { status: 400 }
+      )
+    }
+
+    // Step 3: Check the author's limits
+    const settings = getFileUploadSettings(question.settings)
+
+    if (!settings.allowedTypes.includes(file.type)) {
+      return NextResponse.json(
+        { success: false, error: 'This file type is not allowed' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size === 0 || file.size > settings.maxSizeMb * 1024 * 1024) {
+      return NextResponse.json(
+        { success: false, error: `File must be ${settings.maxSizeMb} MB or smaller` },
+        { status: 400 }
+      )
+    }
+
+    // Step 4: Store the file
+    const key = buildFileKey(surveyId, questionId, file.name)
+    await getFileStorage().save(key, Buffer.from(await file.arrayBuffer()), file.type)
+
+    const answer: FileAnswer = {
+      key,
+      name: file.name.slice(0, 255),
+      size: file.size,
+      type: file.type,
+    }
+
+    logger.info('File uploaded', { surveyId, questionId, size: file.size, type: file.type })
+
+    return NextResponse.json({
+      success: true,
+      file: answer
+    })
+
+  } catch (error) {
+    logger.error('Failed to upload file', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createLogger } from '@/lib/logger'
 import { processWebhook } from '@/lib/webhooks'
+import { getAuthContext } from '@/lib/auth'
 
 const logger = createLogger('WebhookSync')
 
@@ -10,16 +11,25 @@ const logger = createLogger('WebhookSync')
 
 // Accepts activity events and logs them to the activity_feed table.
 // This enables real-time dashboard updates via Supabase Realtime.
+// Events are always recorded against the caller's organization.
 
 export async function POST(request: NextRequest) {
   try {
     logger.info('Webhook received')
+
+    const auth = await getAuthContext(request)
+    if (!auth) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
     
     const body = await request.json()
     logger.debug('Webhook payload received', body)
 
-    // Use centralized webhook processing
-    const result = await processWebhook(body)
+    // Use centralized webhook processing (org_id comes from the session)
+    const result = await processWebhook({ ...body, org_id: auth.orgId })
 
     if (!result.success) {
       return NextResponse.json(result, { 
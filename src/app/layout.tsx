@@ -1,6 +1,6 @@
 import type { Metadata } from "next";
 import { Figtree, Inter_Tight, Plus_Jakarta_Sans, Fira_Mono } from "next/font/google";
-import { UIProvider } from "@/context";
+import { OrgProvider, UIProvider } from "@/context";
 import "./globals.css";
 
 // MoSurveys Typography System
@@ -51,9 +51,11 @@ export default function RootLayout({
       <body
         className={`${figtree.variable} ${interTight.variable} ${plusJakartaSans.variable} ${firaMono.variable} antialiased`}
       >
-        <UIProvider>
-          {children}
-        </UIProvider>
+        <OrgProvider>
+          <UIProvider>
+            {children}
+          </UIProvider>
+        </OrgProvider>
       </body>
     </html>
   );
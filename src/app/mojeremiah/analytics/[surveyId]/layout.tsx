@@ -0,0 +1,14 @@
+import { RoleGuard } from "@/components/auth";
+
+/**
+ * Survey Analytics Layout
+ *
+ * Owners, editors and analysts can view per-survey analytics; viewers only see dashboards.
+ */
+export default function SurveyAnalyticsLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return <RoleGuard permission="analytics:view">{children}</RoleGuard>;
+}
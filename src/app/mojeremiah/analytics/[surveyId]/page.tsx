@@ -5,21 +5,55 @@ import { useParams } from "next/navigation";
 import { createLogger } from "@/lib/logger";
 import { 
   ResponseCard, 
-  AIInsightCard,
+  SurveySummaryCard,
   VersionSelector,
   SentimentBreakdown,
   ExportActions,
   EmptyResponsesState,
   NewResponseNotification,
   StatsGrid,
+  QuestionAnswerRates,
+  DropOffCard,
+  NPSCard,
+  RatingStatsCard,
+  OptionCountsCard,
+  MatrixHeatmapCard,
+  RankingStatsCard,
+  NumericStatsCard,
+  DateDistributionCard,
+  PositionEffectsCard,
+  HiddenFieldControls,
+  HiddenFieldBreakdownCard,
 } from "@/components/analytics";
 import { LoadingState, ErrorState } from "@/components/common";
 import { PageHeader } from "@/components/layout";
 import { formatISODate, exportToCSV, exportToJSON, formatSurveyDataForCSV } from "@/lib/utils";
 import { ArrowPathIcon } from "@heroicons/react/24/outline";
 import { useAnalytics } from "@/hooks/useAnalytics";
+import {
+  calculateQuestionAnswerRates,
+  calculateDropOff,
+  calculateNPS,
+  calculateRatingStats,
+  calculateOptionCounts,
+  calculateMatrixCounts,
+  calculateRankingStats,
+  calculateNumericStats,
+  calculateDateDistribution,
+  calculateOptionPositionEffects,
+  calculateQuestionPositionEffects,
+  calculateAnalyticsSummary,
+  getHiddenFieldOptions,
+  filterResponsesByHiddenField,
+  groupResponsesByHiddenField,
+} from "@/lib/analytics";
+import { getInputSettings, getRandomizationSettings } from "@/lib/questionSettings";
+import { OPTION_QUESTION_TYPES } from "@/types/survey";
+import type { QuestionType } from "@/types/survey";
 import { useRealtimeResponses } from "@/hooks/useRealtimeResponses";
 import { useSurveyVersions } from "@/hooks/useSurveyVersions";
+import { useFileLinks } from "@/hooks/useFileLinks";
+import { useSurveySummary } from "@/hooks/useSurveySummary";
 
 const logger = createLogger('AnalyticsPage');
 
@@ -30,8 +64,9 @@ export default function AnalyticsPage() {
   const { 
     survey, 
     questions, 
-    responses, 
-    analytics, 
+    responses: allResponses, 
+    partialResponses: allPartialResponses, 
+    analytics: allAnalytics, 
     loading, 
     error, 
     refetch: refetchAnalytics 
@@ -51,6 +86,32 @@ export default function AnalyticsPage() {
     clearNewResponses 
   } = useRealtimeResponses(selectedVersionId || initialSurveyId, refetchAnalytics);
 
+  // AI summary report for the selected version
+  const {
+    summary,
+    loading: summaryLoading,
+    generating: summaryGenerating,
+    error: summaryError,
+    generate: generateSummary
+  } = useSurveySummary(selectedVersionId || initialSurveyId);
+
+  // Download links for uploaded files (response cards and CSV)
+  const fileLinks = useFileLinks(survey?.id, questions, allResponses);
+
+  // Hidden field filter and grouping (e.g. campaign)
+  const [hiddenFieldFilter, setHiddenFieldFilter] = useState<{ field: string; value: string } | null>(null);
+  const [groupByField, setGroupByField] = useState<string | null>(null);
+  const hiddenFields = survey?.hidden_fields ?? [];
+
+  // Every card and export below uses the filtered responses
+  const responses = hiddenFieldFilter
+    ? filterResponsesByHiddenField(allResponses, hiddenFieldFilter.field, hiddenFieldFilter.value)
+    : allResponses;
+  const partialResponses = hiddenFieldFilter
+    ? filterResponsesByHiddenField(allPartialResponses, hiddenFieldFilter.field, hiddenFieldFilter.value)
+    : allPartialResponses;
+  const analytics = hiddenFieldFilter ? calculateAnalyticsSummary(responses) : allAnalytics;
+
   // Manual refresh state
   const [refreshing, setRefreshing] = useState(false);
 
@@ -66,7 +127,7 @@ export default function AnalyticsPage() {
   const handleExportCSV = () => {
     if (responses.length === 0) return;
 
-    const csvData = formatSurveyDataForCSV(responses, questions);
+    const csvData = formatSurveyDataForCSV(responses, questions, fileLinks, hiddenFields);
     const filename = `${survey?.title || 'survey'}-analytics-${formatISODate(new Date().toISOString())}`;
     
     exportToCSV(csvData, filename);
@@ -83,7 +144,9 @@ export default function AnalyticsPage() {
         title: survey?.title,
         version: survey?.version,
         audience: survey?.audience,
+        hidden_fields: hiddenFields,
       },
+      filter: hiddenFieldFilter,
       questions: questions.map((q) => ({
         id: q.id,
         position: q.position,
@@ -96,6 +159,7 @@ export default function AnalyticsPage() {
         sentiment: r.sentiment,
         summary: r.summary,
         answers: r.answers,
+        metadata: r.metadata,
       })),
       analytics: {
         totalResponses: analytics.total,
@@ -172,6 +236,18 @@ export default function AnalyticsPage() {
           onVersionChange={setSelectedVersionId}
         />
 
+        {/* Hidden Field Filter / Group By */}
+        {hiddenFields.length > 0 && allResponses.length > 0 && (
+          <HiddenFieldControls
+            fields={hiddenFields}
+            getOptions={(field) => getHiddenFieldOptions(allResponses, field)}
+            filter={hiddenFieldFilter}
+            groupBy={groupByField}
+            onFilterChange={setHiddenFieldFilter}
+            onGroupByChange={setGroupByField}
+          />
+        )}
+
         {/* Empty State */}
         {responses.length === 0 && <EmptyResponsesState surveyId={initialSurveyId} />}
 
@@ -181,18 +257,143 @@ export default function AnalyticsPage() {
             {/* Stats Grid */}
             <StatsGrid analytics={analytics} questionCount={questions.length} />
 
-            {/* AI Insights */}
-            <AIInsightCard
-              insight={responses.length >= 3 
-                ? "Users appreciate the clear interface and ease of use. Common themes include satisfaction with speed and helpful features."
-                : null
-              }
-              loading={false}
+            {/* AI Summary (themes, complaints, praise, actions) */}
+            <SurveySummaryCard
+              summary={summary}
+              loading={summaryLoading}
+              generating={summaryGenerating}
+              error={summaryError}
+              hasVersions={allVersions.length > 1}
+              onGenerate={generateSummary}
             />
 
             {/* Sentiment Breakdown */}
             <SentimentBreakdown sentimentCounts={analytics.sentimentCounts} />
 
+            {/* Hidden Field Breakdown */}
+            {groupByField && (
+              <HiddenFieldBreakdownCard
+                field={groupByField}
+                groups={groupResponsesByHiddenField(responses, groupByField)}
+              />
+            )}
+
+            {/* Net Promoter Score (one card per nps question) */}
+            {questions
+              .filter((question) => question.type === "nps")
+              .map((question) => (
+                <NPSCard
+                  key={question.id}
+                  question={question.question}
+                  nps={calculateNPS(question.id, responses)}
+                />
+              ))}
+
+            {/* Rating Statistics (one card per rating question) */}
+            {questions
+              .filter((question) => question.type === "rating")
+              .map((question) => (
+                <RatingStatsCard
+                  key={question.id}
+                  question={question.question}
+                  stats={calculateRatingStats(question, responses)}
+                />
+              ))}
+
+            {/* Option Counts (one card per choice question) */}
+            {questions
+              .filter((question) => question.type === "multiple_choice" || question.type === "multi_select")
+              .map((question) => (
+                <OptionCountsCard
+                  key={question.id}
+                  question={question.question}
+                  isMultiSelect={question.type === "multi_select"}
+                  counts={calculateOptionCounts(question, responses)}
+                />
+              ))}
+
+            {/* Matrix Heat Maps (one card per matrix question) */}
+            {questions
+              .filter((question) => question.type === "matrix")
+              .map((question) => (
+                <MatrixHeatmapCard
+                  key={question.id}
+                  question={question.question}
+                  matrix={calculateMatrixCounts(question, responses)}
+                />
+              ))}
+
+            {/* Ranking Statistics (one card per ranking question) */}
+            {questions
+              .filter((question) => question.type === "ranking")
+              .map((question) => (
+                <RankingStatsCard
+                  key={question.id}
+                  question={question.question}
+                  stats={calculateRankingStats(question, responses)}
+                />
+              ))}
+
+            {/* Numeric Statistics (one card per number-format question) */}
+            {questions
+              .filter((question) => question.type === "short_text" && getInputSettings(question.settings).format === "number")
+              .map((question) => (
+                <NumericStatsCard
+                  key={question.id}
+                  question={question.question}
+                  stats={calculateNumericStats(question, responses)}
+                />
+              ))}
+
+            {/* Date Distributions (one card per date-format question) */}
+            {questions
+              .filter((question) => question.type === "short_text" && getInputSettings(question.settings).format === "date")
+              .map((question) => (
+                <DateDistributionCard
+                  key={question.id}
+                  question={question.question}
+                  distribution={calculateDateDistribution(question, responses)}
+                />
+              ))}
+
+            {/* Position Effects (shuffled question order and shuffled options) */}
+            {survey?.randomize_questions && (
+              <PositionEffectsCard
+                title="Question Order Effects"
+                rateLabel="answered"
+                effects={calculateQuestionPositionEffects(responses)}
+              />
+            )}
+            {questions
+              .filter(
+                (question) =>
+                  OPTION_QUESTION_TYPES.includes(question.type as QuestionType) &&
+                  getRandomizationSettings(question.settings).shuffleOptions
+              )
+              .map((question) => (
+                <PositionEffectsCard
+                  key={question.id}
+                  title={question.type === "ranking" ? "Option Order Effects (ranked first)" : "Option Order Effects"}
+                  question={question.question}
+                  rateLabel={question.type === "ranking" ? "first" : "picked"}
+                  effects={calculateOptionPositionEffects(question, responses)}
+                />
+              ))}
+
+            {/* Answer Rates */}
+            <QuestionAnswerRates
+              questions={questions}
+              rates={calculateQuestionAnswerRates(questions, responses)}
+            />
+
+            {/* Drop-Off (saved drafts that were never submitted) */}
+            {partialResponses.length > 0 && (
+              <DropOffCard
+                questions={questions}
+                dropOff={calculateDropOff(questions, responses, partialResponses)}
+              />
+            )}
+
             {/* Export Actions */}
             <ExportActions
               onExportCSV={handleExportCSV}
@@ -212,6 +413,7 @@ export default function AnalyticsPage() {
                     response={response}
                     questions={questions}
                     responseNumber={responses.length - index}
+                    fileLinks={fileLinks}
                   />
                 ))}
               </div>
@@ -3,6 +3,7 @@
 import Link from "next/link";
 import { ArrowLeftIcon } from "@heroicons/react/24/outline";
 import { useInsightsData } from "@/hooks/useInsightsData";
+import { useOrg } from "@/context";
 import LoadingState from "@/components/common/LoadingState";
 import ErrorState from "@/components/common/ErrorState";
 import { AppHeader, AppFooter } from "@/components/layout";
@@ -29,6 +30,7 @@ import {
  */
 export default function AnalyticsOverviewPage() {
   const { data: insightsData, loading: insightsLoading, error: insightsError } = useInsightsData();
+  const { can } = useOrg();
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -91,7 +93,10 @@ export default function AnalyticsOverviewPage() {
                 {/* Top Surveys and Recent Responses */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <TopSurveysCard topSurveys={insightsData.topSurveys} />
-                  <RecentFeedbackCard recentResponses={insightsData.recentResponses} />
+                  {/* Raw feedback is for analysts; viewers see counts only */}
+                  {can("analytics:view") && (
+                    <RecentFeedbackCard recentResponses={insightsData.recentResponses} />
+                  )}
                 </div>
 
                 {/* Call to Action - View Individual Surveys */}
@@ -0,0 +1,14 @@
+import { RoleGuard } from "@/components/auth";
+
+/**
+ * Create Survey Layout
+ *
+ * Only owners and editors can build surveys.
+ */
+export default function CreateSurveyLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return <RoleGuard permission="survey:edit">{children}</RoleGuard>;
+}
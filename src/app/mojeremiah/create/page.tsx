@@ -15,9 +15,6 @@ import { PageHeader } from "@/components/layout";
 // Survey Creation Page
 // ─────────────────────────────────────────────
 
-// Get default org ID from environment or use fallback
-const DEFAULT_ORG_ID = process.env.NEXT_PUBLIC_DEFAULT_ORG_ID || '00000000-0000-0000-0000-000000000001';
-
 export default function CreateSurveyPage() {
   // State management
   const [currentStep, setCurrentStep] = useState(1);
@@ -38,6 +35,9 @@ export default function CreateSurveyPage() {
     updateQuestion,
     deleteQuestion,
     reorderQuestions,
+    setRandomizeQuestions,
+    setResponseLimit,
+    setQuotas,
     addOption,
     updateOption,
     deleteOption,
@@ -60,7 +60,7 @@ export default function CreateSurveyPage() {
       setCurrentStep(currentStep + 1);
     } else {
       // Final step - publish survey to database
-      const result = await publishSurvey(DEFAULT_ORG_ID);
+      const result = await publishSurvey();
       
       if (result.success && result.surveyId) {
         setPublishedSurveyId(result.surveyId);
@@ -104,6 +104,9 @@ export default function CreateSurveyPage() {
             updateQuestion={updateQuestion}
             deleteQuestion={deleteQuestion}
             reorderQuestions={reorderQuestions}
+            setRandomizeQuestions={setRandomizeQuestions}
+            setResponseLimit={setResponseLimit}
+            setQuotas={setQuotas}
             addOption={addOption}
             updateOption={updateOption}
             deleteOption={deleteOption}
@@ -0,0 +1,14 @@
+import { RoleGuard } from "@/components/auth";
+
+/**
+ * Edit Survey Layout
+ *
+ * Only owners and editors can create new survey versions.
+ */
+export default function EditSurveyLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return <RoleGuard permission="survey:edit">{children}</RoleGuard>;
+}
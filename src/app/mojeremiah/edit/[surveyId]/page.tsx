@@ -20,9 +20,6 @@ import { LoadingState, ErrorState } from "@/components/common";
 // Allows editing existing surveys by creating new versions.
 // Pre-populates form with existing data and saves as v1.1, v1.2, etc.
 
-// Get default org ID from environment or use fallback
-const DEFAULT_ORG_ID = process.env.NEXT_PUBLIC_DEFAULT_ORG_ID || '00000000-0000-0000-0000-000000000001';
-
 export default function EditSurveyPage() {
   const params = useParams();
   const router = useRouter();
@@ -47,10 +44,14 @@ export default function EditSurveyPage() {
     isAIMock,
     isSaving,
     saveError,
+    saveWarnings,
     addQuestion,
     updateQuestion,
     deleteQuestion,
     reorderQuestions,
+    setRandomizeQuestions,
+    setResponseLimit,
+    setQuotas,
     addOption,
     updateOption,
     deleteOption,
@@ -74,12 +75,12 @@ export default function EditSurveyPage() {
     } else {
       // Final step - save new version to database
       const result = await saveVersion(
-        DEFAULT_ORG_ID,
         isMajorVersion,
         changelog || "No changelog provided"
       );
       
-      if (result.success && result.surveyId) {
+      // With warnings, stay here so the author sees them before leaving
+      if (result.success && result.surveyId && !result.warnings?.length) {
         // Navigate back to manage view
         router.push("/mojeremiah/view");
       }
@@ -119,6 +120,9 @@ export default function EditSurveyPage() {
             updateQuestion={updateQuestion}
             deleteQuestion={deleteQuestion}
             reorderQuestions={reorderQuestions}
+            setRandomizeQuestions={setRandomizeQuestions}
+            setResponseLimit={setResponseLimit}
+            setQuotas={setQuotas}
             addOption={addOption}
             updateOption={updateOption}
             deleteOption={deleteOption}
@@ -187,15 +191,38 @@ export default function EditSurveyPage() {
             </div>
           )}
 
-          {/* Navigation Buttons */}
-          <NavigationButtons
-            currentStep={currentStep}
-            totalSteps={totalSteps}
-            canProceed={canProceed() && !isSaving}
-            onBack={handleBack}
-            onNext={handleNext}
-            finalButtonText="Save New Version"
-          />
+          {/* Saved, but piped references point at removed questions */}
+          {saveWarnings.length > 0 ? (
+            <div className="mt-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+              <p className="font-accent text-sm font-medium text-amber-800 mb-2">
+                Version saved, but some piped answers need attention:
+              </p>
+              <ul className="list-disc list-inside space-y-1 mb-4">
+                {saveWarnings.map((warning) => (
+                  <li key={warning} className="font-body text-sm text-amber-700">
+                    {warning}
+                  </li>
+                ))}
+              </ul>
+              <Link
+                href="/mojeremiah/view"
+                className="inline-flex items-center gap-2 px-4 py-2 bg-[#2663EB] text-white font-accent text-sm font-medium rounded-lg hover:bg-[#2054C8] transition-colors duration-200"
+              >
+                <ArrowLeftIcon className="w-4 h-4" />
+                Back to Surveys
+              </Link>
+            </div>
+          ) : (
+            /* Navigation Buttons */
+            <NavigationButtons
+              currentStep={currentStep}
+              totalSteps={totalSteps}
+              canProceed={canProceed() && !isSaving}
+              onBack={handleBack}
+              onNext={handleNext}
+              finalButtonText="Save New Version"
+            />
+          )}
 
           {/* Saving Loading State */}
           {isSaving && (
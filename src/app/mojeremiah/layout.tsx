@@ -0,0 +1,19 @@
+import { AuthGuard } from "@/components/auth";
+
+/**
+ * Workspace Layout
+ *
+ * Every /mojeremiah page requires a signed-in organization member,
+ * except the login page and public survey response links.
+ */
+export default function WorkspaceLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <AuthGuard publicPaths={["/mojeremiah/login", "/mojeremiah/respond"]}>
+      {children}
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,205 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { createLogger } from "@/lib/logger";
+import { useOrg } from "@/context";
+import { LoadingState } from "@/components/common";
+
+const logger = createLogger("LoginPage");
+
+type AuthMode = "sign-in" | "sign-up";
+
+const INPUT_CLASS =
+  "w-full px-4 py-3 font-body text-base text-slate-900 placeholder:text-slate-400 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent transition-all duration-200";
+
+/**
+ * Login Page
+ *
+ * Email/password sign-in and sign-up with Supabase Auth.
+ * New accounts get their own organization (created by a database trigger),
+ * named after the organization name entered here.
+ */
+function LoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { session, loading } = useOrg();
+
+  const [mode, setMode] = useState<AuthMode>("sign-in");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [orgName, setOrgName] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Only allow in-app redirects
+  const nextParam = searchParams.get("next");
+  const next = nextParam && nextParam.startsWith("/mojeremiah") ? nextParam : "/mojeremiah";
+
+  // Leave the login page once a session exists
+  useEffect(() => {
+    if (!loading && session) {
+      router.replace(next);
+    }
+  }, [loading, session, next, router]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      if (mode === "sign-in") {
+        const { error: signInError } = await supabase.auth.signInWithPassword({ email, password });
+        if (signInError) throw signInError;
+        logger.info("User signed in", { email });
+      } else {
+        const { data, error: signUpError } = await supabase.auth.signUp({
+          email,
+          password,
+          options: { data: { org_name: orgName.trim() } },
+        });
+        if (signUpError) throw signUpError;
+        logger.info("User signed up", { email });
+
+        // Projects with email confirmation enabled return no session yet
+        if (!data.session) {
+          setNotice("Check your email to confirm your account, then sign in.");
+          setMode("sign-in");
+        }
+      }
+    } catch (err) {
+      logger.error("Authentication failed", err, { mode });
+      setError(err instanceof Error ? err.message : "Authentication failed");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center px-4">
+      <div className="w-full max-w-md">
+        {/* Brand */}
+        <div className="text-center mb-8">
+          <h1 className="font-heading text-3xl font-semibold text-[#2663EB]">MoSurveys</h1>
+          <p className="font-body text-sm text-slate-500 mt-1">by MoFlo</p>
+        </div>
+
+        <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-8">
+          <h2 className="font-heading text-2xl font-semibold text-slate-900 mb-2">
+            {mode === "sign-in" ? "Sign in" : "Create your workspace"}
+          </h2>
+          <p className="font-body text-base text-slate-600 mb-6">
+            {mode === "sign-in"
+              ? "Sign in to manage your organization's surveys."
+              : "Sign up to start collecting feedback with your team."}
+          </p>
+
+          <form onSubmit={handleSubmit} className="space-y-5">
+            {mode === "sign-up" && (
+              <div>
+                <label htmlFor="org-name" className="block font-body text-sm font-medium text-slate-700 mb-2">
+                  Organization Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  id="org-name"
+                  type="text"
+                  required
+                  value={orgName}
+                  onChange={(e) => setOrgName(e.target.value)}
+                  className={INPUT_CLASS}
+                  placeholder="e.g., Acme Inc."
+                />
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="email" className="block font-body text-sm font-medium text-slate-700 mb-2">
+                Email <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="email"
+                type="email"
+                required
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className={INPUT_CLASS}
+                placeholder="you@company.com"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="password" className="block font-body text-sm font-medium text-slate-700 mb-2">
+                Password <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="password"
+                type="password"
+                required
+                minLength={6}
+                autoComplete={mode === "sign-in" ? "current-password" : "new-password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={INPUT_CLASS}
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                <p className="font-body text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            {notice && (
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+                <p className="font-body text-sm text-blue-700">{notice}</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full px-6 py-3 font-accent text-sm font-medium text-white bg-[#2663EB] rounded-full hover:bg-[#2054C8] transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? "Please wait..." : mode === "sign-in" ? "Sign In" : "Create Account"}
+            </button>
+          </form>
+
+          <p className="font-body text-sm text-slate-600 text-center mt-6">
+            {mode === "sign-in" ? "New to MoSurveys?" : "Already have an account?"}{" "}
+            <button
+              type="button"
+              onClick={() => {
+                setMode(mode === "sign-in" ? "sign-up" : "sign-in");
+                setError(null);
+              }}
+              className="font-medium text-[#2663EB] hover:text-[#2054C8]"
+            >
+              {mode === "sign-in" ? "Create an account" : "Sign in"}
+            </button>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-slate-50 flex items-center justify-center px-4">
+          <div className="w-full max-w-md">
+            <LoadingState />
+          </div>
+        </div>
+      }
+    >
+      <LoginForm />
+    </Suspense>
+  );
+}
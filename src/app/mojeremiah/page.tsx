@@ -7,10 +7,12 @@ import {
   CheckCircleIcon,
   ArrowRightIcon,
 } from "@heroicons/react/24/outline";
-import { ActivityFeed, StatCard, StepCard } from "@/components/dashboard";
+import { ActivityFeed, AIUsageCard, AnalysisQueueCard, StatCard, StepCard } from "@/components/dashboard";
 import { useDashboardStats } from "@/hooks/useDashboardStats";
 import LoadingState from "@/components/common/LoadingState";
 import ErrorState from "@/components/common/ErrorState";
+import { SignOutButton } from "@/components/auth";
+import { useOrg } from "@/context";
 
 /**
  * MoSurveys Landing Page (Dashboard)
@@ -18,11 +20,13 @@ import ErrorState from "@/components/common/ErrorState";
  * This is the main landing page for MoSurveys, showing:
  * - Navigation to key sections (Surveys, Insights)
  * - Overview cards with empty states
+ * - AI token usage against the monthly budget and the analysis queue
  * - Real-time Activity Feed
  * - Modern, clean UI inspired by multi-step workflow designs
  */
 export default function MoJeremiahDashboard() {
   const { stats, loading, error } = useDashboardStats();
+  const { can } = useOrg();
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -59,16 +63,19 @@ export default function MoJeremiahDashboard() {
             </nav>
 
             {/* CTA Button */}
-            <div>
-              <Link
-                href="/mojeremiah/create"
-                className="group inline-flex items-center gap-3 px-4 py-2 border border-transparent font-accent text-sm font-medium rounded-full text-white bg-[#2663EB] hover:bg-[#2054C8] transition-all duration-200 hover:shadow-md active:scale-95 focus:ring-2 focus:ring-[#2663EB] focus:ring-offset-2"
-              >
-                <span className="relative w-5 h-5 rounded-full bg-white flex items-center justify-center overflow-hidden">
-                  <ArrowRightIcon className="w-3 h-3 text-[#2663EB] absolute -translate-x-8 group-hover:translate-x-0 transition-transform duration-300" />
-                </span>
-                Create Survey
-              </Link>
+            <div className="flex items-center gap-3">
+              <SignOutButton />
+              {can("survey:edit") && (
+                <Link
+                  href="/mojeremiah/create"
+                  className="group inline-flex items-center gap-3 px-4 py-2 border border-transparent font-accent text-sm font-medium rounded-full text-white bg-[#2663EB] hover:bg-[#2054C8] transition-all duration-200 hover:shadow-md active:scale-95 focus:ring-2 focus:ring-[#2663EB] focus:ring-offset-2"
+                >
+                  <span className="relative w-5 h-5 rounded-full bg-white flex items-center justify-center overflow-hidden">
+                    <ArrowRightIcon className="w-3 h-3 text-[#2663EB] absolute -translate-x-8 group-hover:translate-x-0 transition-transform duration-300" />
+                  </span>
+                  Create Survey
+                </Link>
+              )}
             </div>
           </div>
         </div>
@@ -170,6 +177,12 @@ export default function MoJeremiahDashboard() {
           </div>
         )}
 
+        {/* AI Usage vs. Budget and Analysis Queue */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+          <AIUsageCard />
+          <AnalysisQueueCard />
+        </div>
+
         {/* Activity Feed Component */}
         <div className="mb-8">
           <ActivityFeed />
@@ -210,15 +223,17 @@ export default function MoJeremiahDashboard() {
           </div>
 
           <div className="mt-8 text-center">
-            <Link
-              href="/mojeremiah/create"
-              className="group inline-flex items-center gap-3 px-6 py-3 border border-transparent font-accent text-base font-medium rounded-full text-white bg-[#2663EB] hover:bg-[#2054C8] transition-all duration-200 hover:shadow-md active:scale-95 focus:ring-2 focus:ring-[#2663EB] focus:ring-offset-2"
-            >
-              <span className="relative w-6 h-6 rounded-full bg-white flex items-center justify-center overflow-hidden">
-                <ArrowRightIcon className="w-4 h-4 text-[#2663EB] absolute -translate-x-8 group-hover:translate-x-0 transition-transform duration-300" />
-              </span>
-              Start Creating
-            </Link>
+            {can("survey:edit") && (
+              <Link
+                href="/mojeremiah/create"
+                className="group inline-flex items-center gap-3 px-6 py-3 border border-transparent font-accent text-base font-medium rounded-full text-white bg-[#2663EB] hover:bg-[#2054C8] transition-all duration-200 hover:shadow-md active:scale-95 focus:ring-2 focus:ring-[#2663EB] focus:ring-offset-2"
+              >
+                <span className="relative w-6 h-6 rounded-full bg-white flex items-center justify-center overflow-hidden">
+                  <ArrowRightIcon className="w-4 h-4 text-[#2663EB] absolute -translate-x-8 group-hover:translate-x-0 transition-transform duration-300" />
+                </span>
+                Start Creating
+              </Link>
+            )}
           </div>
         </div>
       </main>
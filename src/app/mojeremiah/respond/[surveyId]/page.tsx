@@ -1,23 +1,132 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { useParams, useRouter } from "next/navigation";
+import { useState, useEffect, useRef } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
 import { createLogger } from "@/lib/logger";
+import { validateResponseAnswers } from "@/lib/responseValidation";
+import { getVisibleQuestionIds } from "@/lib/displayLogic";
+import { splitIntoPages } from "@/lib/surveyPages";
+import { getInputSettings } from "@/lib/questionSettings";
+import { resolvePipedText } from "@/lib/answerPiping";
+import { createPresentationSeed, orderQuestionsForRespondent } from "@/lib/randomization";
+import { captureHiddenFields } from "@/lib/hiddenFields";
+import { getAvailability, type SurveyAvailability } from "@/lib/surveyLifecycle";
+import {
+  RESUME_PARAM,
+  createResumeToken,
+  buildResumeLink,
+  getResumePage,
+} from "@/lib/responseDrafts";
 import type { Database } from "@/types/supabase";
+import type { AnswerValue, FileAnswer } from "@/types/survey";
 import { LoadingState, ErrorState, SuccessState } from "@/components/common";
+import {
+  RatingInput,
+  NPSInput,
+  MultiSelectInput,
+  MatrixInput,
+  RankingInput,
+  FileUploadInput,
+  TypedInput,
+  ResumeLinkPanel,
+  SurveyClosedState,
+} from "@/components/survey/respond";
+import { isFileAnswer } from "@/lib/utils";
 
 const logger = createLogger('SurveyResponse');
 
 type Survey = Database["public"]["Tables"]["surveys"]["Row"];
 type SurveyQuestion = Database["public"]["Tables"]["survey_questions"]["Row"];
 
-// Get default org ID from environment or use fallback
-const DEFAULT_ORG_ID = process.env.NEXT_PUBLIC_DEFAULT_ORG_ID || '00000000-0000-0000-0000-000000000001';
+// One shuffle seed per respondent and survey; kept for the browser
+// session so a reload shows the same order
+function getRespondentSeed(surveyId: string): string {
+  const storageKey = `survey-seed:${surveyId}`;
+  const stored = sessionStorage.getItem(storageKey);
+  if (stored) return stored;
+
+  const seed = createPresentationSeed();
+  sessionStorage.setItem(storageKey, seed);
+  return seed;
+}
+
+// In-progress answers kept in this browser, so closing the tab loses
+// nothing. The server copy (see /api/responses/draft) backs the
+// continue-later link and drop-off analytics.
+interface LocalDraft {
+  answers: Record<number, AnswerValue>;
+  page: number;
+  seed: string;
+  resumeToken: string | null;
+  savedAt: string;
+}
+
+const getDraftKey = (surveyId: string) => `survey-draft:${surveyId}`;
+
+function loadLocalDraft(surveyId: string): LocalDraft | null {
+  try {
+    const stored = localStorage.getItem(getDraftKey(surveyId));
+    return stored ? (JSON.parse(stored) as LocalDraft) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveLocalDraft(surveyId: string, draft: LocalDraft) {
+  try {
+    localStorage.setItem(getDraftKey(surveyId), JSON.stringify(draft));
+  } catch (err) {
+    // Storage full or disabled; the server draft still works
+    logger.warn('Failed to save draft locally', { surveyId, error: err });
+  }
+}
+
+function clearLocalDraft(surveyId: string) {
+  localStorage.removeItem(getDraftKey(surveyId));
+}
+
+interface ServerDraft {
+  answers: Record<number, AnswerValue>;
+  presentedQuestionIds: number[];
+  presentationSeed: string | null;
+}
+
+async function fetchServerDraft(surveyId: string, token: string): Promise<ServerDraft | null> {
+  const search = new URLSearchParams({ survey_id: surveyId, token });
+  const response = await fetch(`/api/responses/draft?${search.toString()}`);
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    logger.warn('Saved progress not found', { surveyId, status: response.status });
+    return null;
+  }
+  return result.draft;
+}
+
+interface ClosedSurvey {
+  availability: SurveyAvailability;
+  title?: string;
+  opensAt: string | null;
+  closesAt: string | null;
+  full?: boolean; // Closed because it reached its response quota
+}
+
+// Anonymous respondents cannot load a survey outside its opening
+// window, so ask the API whether it is closed or not open yet
+async function fetchClosedSurvey(surveyId: string): Promise<ClosedSurvey | null> {
+  const search = new URLSearchParams({ survey_id: surveyId });
+  const response = await fetch(`/api/surveys/availability?${search.toString()}`);
+  const result = await response.json();
+
+  if (!response.ok || !result.success || result.availability === "open") return null;
+  return result;
+}
 
 export default function SurveyResponsePage() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const surveyId = params.surveyId as string;
 
   // Survey data state
@@ -25,12 +134,22 @@ export default function SurveyResponsePage() {
   const [questions, setQuestions] = useState<SurveyQuestion[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [closedSurvey, setClosedSurvey] = useState<ClosedSurvey | null>(null);
 
   // Form state
-  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [answers, setAnswers] = useState<Record<number, AnswerValue>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [validationErrors, setValidationErrors] = useState<Record<number, string>>({});
   const [isSubmitted, setIsSubmitted] = useState(false);
+  const [currentPage, setCurrentPage] = useState(0);
+  const [presentationSeed, setPresentationSeed] = useState<string | null>(null);
+
+  // Save-and-resume state
+  const [resumeToken, setResumeToken] = useState<string | null>(null);
+  const [restoredAt, setRestoredAt] = useState<string | null>(null);
+  const [draftNotice, setDraftNotice] = useState<string | null>(null);
+  const [resumeLink, setResumeLink] = useState<string | null>(null);
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
 
   // Fetch survey and questions on mount
   useEffect(() => {
@@ -52,14 +171,31 @@ export default function SurveyResponsePage() {
         .from("surveys")
         .select("*")
         .eq("id", surveyId)
-        .single();
+        .maybeSingle();
 
       if (surveyError) throw surveyError;
 
       if (!surveyData) {
+        const closed = await fetchClosedSurvey(surveyId);
+        if (closed) {
+          setClosedSurvey(closed);
+          return;
+        }
         throw new Error("Survey not found");
       }
 
+      // Members can load surveys that are not open; respondents never see them
+      const availability = getAvailability(surveyData);
+      if (availability !== "open") {
+        setClosedSurvey({
+          availability: availability ?? "scheduled",
+          title: surveyData.title,
+          opensAt: surveyData.opens_at,
+          closesAt: surveyData.closes_at,
+        });
+        return;
+      }
+
       // Fetch survey questions
       const { data: questionsData, error: questionsError } = await supabase
         .from("survey_questions")
@@ -69,8 +205,40 @@ export default function SurveyResponsePage() {
 
       if (questionsError) throw questionsError;
 
+      // Resume from a continue-later link, else from this browser's draft
+      const linkToken = searchParams.get(RESUME_PARAM);
+      const serverDraft = linkToken ? await fetchServerDraft(surveyId, linkToken) : null;
+      const localDraft = loadLocalDraft(surveyId);
+
+      // Apply this respondent's question and option order (a resumed
+      // response keeps the order it started with)
+      const seed = serverDraft?.presentationSeed ?? localDraft?.seed ?? getRespondentSeed(surveyId);
+      const orderedQuestions = orderQuestionsForRespondent(questionsData || [], surveyData.randomize_questions, seed);
+
       setSurvey(surveyData);
-      setQuestions(questionsData || []);
+      setPresentationSeed(seed);
+      setQuestions(orderedQuestions);
+
+      if (serverDraft) {
+        const draftPages = splitIntoPages(
+          orderedQuestions,
+          getVisibleQuestionIds(orderedQuestions, serverDraft.answers)
+        );
+        setAnswers(serverDraft.answers);
+        setCurrentPage(getResumePage(draftPages, serverDraft.presentedQuestionIds));
+        setResumeToken(linkToken);
+        logger.info('Survey response resumed from link', { surveyId });
+      } else {
+        if (linkToken) {
+          setDraftNotice("This link has expired or was already used, so your earlier answers could not be loaded.");
+        }
+        if (localDraft) {
+          setAnswers(localDraft.answers);
+          setCurrentPage(localDraft.page);
+          setResumeToken(localDraft.resumeToken);
+          setRestoredAt(localDraft.savedAt);
+        }
+      }
 
       logger.debug('Survey data loaded', { 
         surveyId, 
@@ -86,7 +254,31 @@ export default function SurveyResponsePage() {
     }
   };
 
-  const handleAnswerChange = (questionId: number, value: string) => {
+  // Text answer for single-value inputs (multi-select and ranking answers
+  // are arrays, matrix and file answers are objects)
+  const getTextAnswer = (questionId: number): string => {
+    const value = answers[questionId];
+    return typeof value === "string" ? value : "";
+  };
+
+  const getSelectedOptions = (questionId: number): string[] => {
+    const value = answers[questionId];
+    return Array.isArray(value) ? value : [];
+  };
+
+  const getRowAnswers = (questionId: number): Record<string, string> => {
+    const value = answers[questionId];
+    return value && typeof value === "object" && !Array.isArray(value) && !isFileAnswer(value)
+      ? value
+      : {};
+  };
+
+  const getFileAnswer = (questionId: number): FileAnswer | null => {
+    const value = answers[questionId];
+    return isFileAnswer(value) ? value : null;
+  };
+
+  const handleAnswerChange = (questionId: number, value: AnswerValue) => {
     setAnswers({
       ...answers,
       [questionId]: value,
@@ -100,15 +292,145 @@ export default function SurveyResponsePage() {
     }
   };
 
-  const validateAnswers = (): boolean => {
-    const errors: Record<number, string> = {};
-    
-    // Check if all questions have answers (simplified validation)
-    questions.forEach((question) => {
-      if (!answers[question.id] || answers[question.id].trim() === "") {
-        errors[question.id] = "This question is required";
-      }
+  // Questions shown for the current answers (display logic), split into pages
+  const visibleIds = getVisibleQuestionIds(questions, answers);
+  const visibleQuestions = questions.filter((question) => visibleIds.has(question.id));
+  const pages = splitIntoPages(questions, visibleIds);
+  const pageIndex = Math.min(currentPage, Math.max(pages.length - 1, 0));
+  const pageQuestions = pages[pageIndex] ?? [];
+  const isLastPage = pageIndex >= pages.length - 1;
+
+  // Placeholders in question text: {{qN}} pipes the answer to question N
+  // (hidden questions count as unanswered), {{name}} a URL parameter
+  const pipingContext = {
+    answers: Object.fromEntries(
+      questions.map((question) => [
+        question.position + 1,
+        visibleIds.has(question.id) ? answers[question.id] : undefined,
+      ])
+    ),
+    params: Object.fromEntries(searchParams.entries()),
+  };
+
+  const goToPage = (index: number) => {
+    setCurrentPage(index);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  // Answers to questions hidden by display logic are not sent
+  const visibleAnswers = Object.fromEntries(
+    Object.entries(answers).filter(([questionId]) => visibleIds.has(Number(questionId)))
+  );
+
+  // Declared hidden fields from the link, e.g. ?customer_id=...&campaign=...
+  const hiddenFieldValues = captureHiddenFields(survey?.hidden_fields ?? [], pipingContext.params) ?? undefined;
+
+  const buildDraftPayload = (token: string, page: number) => ({
+    survey_id: surveyId,
+    resume_token: token,
+    page,
+    presentation_seed: presentationSeed ?? undefined,
+    metadata: hiddenFieldValues,
+    answers: visibleAnswers,
+  });
+
+  // Keep this browser's copy up to date as the respondent answers
+  useEffect(() => {
+    if (loading || isSubmitted || !presentationSeed) return;
+    if (Object.keys(answers).length === 0 && currentPage === 0) return;
+
+    saveLocalDraft(surveyId, {
+      answers,
+      page: currentPage,
+      seed: presentationSeed,
+      resumeToken,
+      savedAt: new Date().toISOString(),
+    });
+  }, [answers, currentPage, presentationSeed, resumeToken, loading, isSubmitted, surveyId]);
+
+  // Saves progress on the server; the first save creates the resume token
+  const saveServerDraft = async (page: number): Promise<string> => {
+    const token = resumeToken ?? createResumeToken();
+    setResumeToken(token);
+
+    const response = await fetch("/api/responses/draft", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(buildDraftPayload(token, page)),
     });
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || "Failed to save your progress");
+    }
+    return token;
+  };
+
+  // Respondents who leave without submitting still count for drop-off:
+  // the latest answers go to the server as the page unloads
+  const unloadDraftRef = useRef<(() => void) | null>(null);
+  unloadDraftRef.current = () => {
+    if (isSubmitted || !presentationSeed || Object.keys(visibleAnswers).length === 0) return;
+
+    const token = resumeToken ?? createResumeToken();
+    saveLocalDraft(surveyId, {
+      answers,
+      page: pageIndex,
+      seed: presentationSeed,
+      resumeToken: token,
+      savedAt: new Date().toISOString(),
+    });
+    navigator.sendBeacon(
+      "/api/responses/draft",
+      new Blob([JSON.stringify(buildDraftPayload(token, pageIndex))], { type: "application/json" })
+    );
+  };
+
+  useEffect(() => {
+    const handlePageHide = () => unloadDraftRef.current?.();
+    window.addEventListener("pagehide", handlePageHide);
+    return () => window.removeEventListener("pagehide", handlePageHide);
+  }, []);
+
+  const handleSaveForLater = async () => {
+    setIsSavingDraft(true);
+    try {
+      const token = await saveServerDraft(pageIndex);
+      const linkParams = Object.fromEntries(
+        Object.entries(pipingContext.params).filter(([name]) => name !== RESUME_PARAM)
+      );
+      setResumeLink(buildResumeLink(window.location.origin, surveyId, token, linkParams));
+      logger.info('Survey response saved for later', { surveyId, page: pageIndex });
+    } catch (err) {
+      logger.error('Failed to save survey progress', err, { surveyId });
+      setDraftNotice("We couldn't save your progress. Please try again.");
+    } finally {
+      setIsSavingDraft(false);
+    }
+  };
+
+  const handleStartOver = () => {
+    clearLocalDraft(surveyId);
+    setAnswers({});
+    setValidationErrors({});
+    setResumeToken(null);
+    setRestoredAt(null);
+    setResumeLink(null);
+    goToPage(0);
+  };
+
+  // Validates the given questions: the current page on Next,
+  // every visible question on submit
+  const validateAnswers = (scope: SurveyQuestion[]): boolean => {
+    // Same rules as POST /api/responses (optional questions may be skipped)
+    const { errors: allErrors } = validateResponseAnswers(questions, answers);
+    const errors = Object.fromEntries(
+      scope
+        .filter((question) => allErrors[question.id])
+        .map((question) => [question.id, allErrors[question.id]])
+    );
 
     if (Object.keys(errors).length > 0) {
       setValidationErrors(errors);
@@ -116,8 +438,16 @@ export default function SurveyResponsePage() {
       logger.warn('Survey response validation failed', { 
         surveyId, 
         errorCount: Object.keys(errors).length,
-        missingQuestions: Object.keys(errors)
+        invalidQuestions: Object.keys(errors)
       });
+
+      // Show the first page that has an error
+      const firstErrorPage = pages.findIndex((page) =>
+        page.some((question) => errors[question.id])
+      );
+      if (firstErrorPage !== -1 && firstErrorPage !== pageIndex) {
+        goToPage(firstErrorPage);
+      }
       
       return false;
     }
@@ -125,93 +455,110 @@ export default function SurveyResponsePage() {
     return true;
   };
 
+  const handleNext = () => {
+    if (!validateAnswers(pageQuestions)) {
+      return;
+    }
+    goToPage(pageIndex + 1);
+
+    // Record progress in the background (drop-off analytics, resume link)
+    saveServerDraft(pageIndex + 1).catch((err) => {
+      logger.warn('Failed to save survey progress', { surveyId, error: err });
+    });
+  };
+
+  const handleBack = () => {
+    goToPage(pageIndex - 1);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    // Enter on an earlier page moves forward instead of submitting
+    if (!isLastPage) {
+      handleNext();
+      return;
+    }
+
     // Validate answers
-    if (!validateAnswers()) {
+    if (!validateAnswers(visibleQuestions)) {
       return;
     }
 
     setIsSubmitting(true);
 
     try {
-      // Submit response to database
-      const { data: responseData, error: responseError } = await supabase
-        .from("responses")
-        .insert({
+      // Submit response through the API, which validates answers against
+      // the survey's questions, stores the response and queues AI analysis
+      const response = await fetch("/api/responses", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
           survey_id: surveyId,
-          org_id: DEFAULT_ORG_ID,
-          answers: answers,
-          sentiment: null, // Will be set by AI analysis
-        })
-        .select()
-        .single();
-
-      if (responseError) throw responseError;
-
-      // Log successful submission
-      logger.info('Survey response submitted', { 
-        surveyId, 
-        responseId: responseData.id,
-        questionCount: Object.keys(answers).length
+          // The API rebuilds the presented order from the seed
+          presentation_seed: presentationSeed ?? undefined,
+          metadata: hiddenFieldValues,
+          // Replaces the saved draft, if any
+          resume_token: resumeToken ?? undefined,
+          answers: visibleAnswers,
+        }),
       });
 
-      // Log to activity feed
-      try {
-        const { error: activityError } = await supabase
-          .from("activity_feed")
-          .insert({
-            org_id: DEFAULT_ORG_ID,
-            type: 'RESPONSE_RECEIVED',
-            details: {
-              survey_id: surveyId,
-              survey_title: survey?.title || 'Unknown Survey',
-              response_id: responseData.id,
-            }
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        // Show per-question errors returned by the server
+        if (result.fieldErrors) {
+          setValidationErrors(result.fieldErrors);
+          const firstErrorPage = pages.findIndex((page) =>
+            page.some((question) => result.fieldErrors[question.id])
+          );
+          if (firstErrorPage !== -1) {
+            goToPage(firstErrorPage);
+          }
+          logger.warn('Survey response rejected by server', {
+            surveyId,
+            errorCount: Object.keys(result.fieldErrors).length
           });
-
-        if (activityError) {
-          logger.error('Failed to log to activity feed', activityError, { responseId: responseData.id });
-        } else {
-          logger.debug('Activity logged successfully', { type: 'RESPONSE_RECEIVED', responseId: responseData.id });
+          return;
         }
-      } catch (activityErr) {
-        logger.error('Failed to log activity', activityErr);
-      }
-
-      // Trigger AI sentiment analysis (non-blocking)
-      try {
-        const analyzeResponse = await fetch('/api/openai/analyze', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            responseId: responseData.id,
-            surveyId: surveyId,
-            answers: answers,
-          }),
-        });
-
-        if (!analyzeResponse.ok) {
-          logger.warn('AI analysis request failed', { 
-            responseId: responseData.id,
-            status: analyzeResponse.status 
-          });
-        } else {
-          const analyzeData = await analyzeResponse.json();
-          logger.info('AI analysis completed', { 
-            responseId: responseData.id,
-            sentiment: analyzeData.analysis?.sentiment 
+        // The survey, or the respondent's quota group, filled up
+        if (result.full) {
+          setClosedSurvey({
+            availability: "closed",
+            title: survey?.title,
+            opensAt: null,
+            closesAt: null,
+            full: true,
           });
+          return;
         }
-      } catch (analyzeErr) {
-        // Don't block submission if analysis fails
-        logger.error('AI analysis error (non-blocking)', analyzeErr, { responseId: responseData.id });
+        // The survey closed while the respondent was answering
+        if (result.closed) {
+          setClosedSurvey(
+            (await fetchClosedSurvey(surveyId)) ?? {
+              availability: "closed",
+              title: survey?.title,
+              opensAt: null,
+              closesAt: null,
+            }
+          );
+          return;
+        }
+        throw new Error(result.error || "Failed to submit response");
       }
 
+      // Log successful submission
+      logger.info('Survey response submitted', { 
+        surveyId, 
+        responseId: result.responseId,
+        questionCount: Object.keys(answers).length
+      });
+
       // Mark as submitted
+      clearLocalDraft(surveyId);
       setIsSubmitted(true);
 
     } catch (err) {
@@ -231,6 +578,19 @@ export default function SurveyResponsePage() {
     return <LoadingState message="Loading survey..." />;
   }
 
+  // Survey not open (closed, or not open yet)
+  if (closedSurvey) {
+    return (
+      <SurveyClosedState
+        title={closedSurvey.title}
+        notOpenYet={closedSurvey.availability === "scheduled"}
+        isFull={!!closedSurvey.full}
+        opensAt={closedSurvey.opensAt}
+        closesAt={closedSurvey.closesAt}
+      />
+    );
+  }
+
   // Error state
   if (error) {
     return <ErrorState message={error} />;
@@ -270,18 +630,68 @@ export default function SurveyResponsePage() {
           </div>
         </div>
 
+        {/* Restored / Saved Progress Notices */}
+        {draftNotice && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg font-body text-sm text-amber-800">
+            {draftNotice}
+          </div>
+        )}
+        {restoredAt && (
+          <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-center justify-between gap-4">
+            <p className="font-body text-sm text-slate-700">
+              We restored the answers you started on {new Date(restoredAt).toLocaleString()}.
+            </p>
+            <button
+              type="button"
+              onClick={handleStartOver}
+              className="shrink-0 font-accent text-sm font-medium text-[#2663EB] hover:text-[#2054C8]"
+            >
+              Start over
+            </button>
+          </div>
+        )}
+
+        {/* Page Progress */}
+        {pages.length > 1 && (
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-accent text-sm font-medium text-slate-700">
+                Page {pageIndex + 1} of {pages.length}
+              </span>
+              <span className="font-accent text-sm text-slate-500">
+                {Math.round(((pageIndex + 1) / pages.length) * 100)}%
+              </span>
+            </div>
+            <div className="w-full h-2 bg-slate-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-[#2663EB] rounded-full transition-all duration-300"
+                style={{ width: `${((pageIndex + 1) / pages.length) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Questions Form */}
         <form onSubmit={handleSubmit} className="space-y-6">
-          {questions.map((question, index) => (
+          {pageQuestions.map((question) => (
             <div key={question.id} className="bg-white rounded-lg shadow-sm border border-slate-200 p-6">
-              <label className="block mb-4">
-                <span className="font-body text-base font-medium text-slate-900 mb-2 block">
-                  {index + 1}. {question.question}
-                </span>
+              <div className="block mb-4">
+                <label
+                  htmlFor={`question-${question.id}`}
+                  className="font-body text-base font-medium text-slate-900 mb-2 block"
+                >
+                  {visibleQuestions.indexOf(question) + 1}. {resolvePipedText(question.question, pipingContext)}
+                  {question.required ? (
+                    <span className="text-red-500 ml-1">*</span>
+                  ) : (
+                    <span className="font-accent text-xs text-slate-400 ml-2">Optional</span>
+                  )}
+                </label>
                 
                 {question.type === 'multiple_choice' && question.options ? (
                   <select
-                    value={answers[question.id] || ""}
+                    id={`question-${question.id}`}
+                    value={getTextAnswer(question.id)}
                     onChange={(e) => handleAnswerChange(question.id, e.target.value)}
                     className={`w-full px-4 py-3 font-body text-base text-slate-900 border rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent transition-all duration-200 ${
                       validationErrors[question.id] ? 'border-red-500' : 'border-slate-300'
@@ -294,9 +704,43 @@ export default function SurveyResponsePage() {
                       </option>
                     ))}
                   </select>
+                ) : question.type === 'multi_select' && question.options ? (
+                  <MultiSelectInput
+                    questionId={question.id}
+                    options={question.options}
+                    settings={question.settings}
+                    value={getSelectedOptions(question.id)}
+                    hasError={!!validationErrors[question.id]}
+                    onChange={(value) => handleAnswerChange(question.id, value)}
+                  />
+                ) : question.type === 'ranking' && question.options ? (
+                  <RankingInput
+                    options={question.options}
+                    value={getSelectedOptions(question.id)}
+                    hasError={!!validationErrors[question.id]}
+                    onChange={(value) => handleAnswerChange(question.id, value)}
+                  />
+                ) : question.type === 'file_upload' ? (
+                  <FileUploadInput
+                    surveyId={surveyId}
+                    questionId={question.id}
+                    settings={question.settings}
+                    value={getFileAnswer(question.id)}
+                    hasError={!!validationErrors[question.id]}
+                    onChange={(value) => handleAnswerChange(question.id, value)}
+                  />
+                ) : question.type === 'matrix' ? (
+                  <MatrixInput
+                    questionId={question.id}
+                    settings={question.settings}
+                    value={getRowAnswers(question.id)}
+                    hasError={!!validationErrors[question.id]}
+                    onChange={(value) => handleAnswerChange(question.id, value)}
+                  />
                 ) : question.type === 'yes_no' ? (
                   <select
-                    value={answers[question.id] || ""}
+                    id={`question-${question.id}`}
+                    value={getTextAnswer(question.id)}
                     onChange={(e) => handleAnswerChange(question.id, e.target.value)}
                     className={`w-full px-4 py-3 font-body text-base text-slate-900 border rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent transition-all duration-200 ${
                       validationErrors[question.id] ? 'border-red-500' : 'border-slate-300'
@@ -306,24 +750,31 @@ export default function SurveyResponsePage() {
                     <option value="Yes">Yes</option>
                     <option value="No">No</option>
                   </select>
+                ) : question.type === 'nps' ? (
+                  <NPSInput
+                    value={getTextAnswer(question.id)}
+                    hasError={!!validationErrors[question.id]}
+                    onChange={(value) => handleAnswerChange(question.id, value)}
+                  />
                 ) : question.type === 'rating' ? (
-                  <select
-                    value={answers[question.id] || ""}
-                    onChange={(e) => handleAnswerChange(question.id, e.target.value)}
-                    className={`w-full px-4 py-3 font-body text-base text-slate-900 border rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent transition-all duration-200 ${
-                      validationErrors[question.id] ? 'border-red-500' : 'border-slate-300'
-                    }`}
-                  >
-                    <option value="">Select a rating</option>
-                    {[1, 2, 3, 4, 5].map((rating) => (
-                      <option key={rating} value={rating}>
-                        {rating} - {rating === 1 ? 'Poor' : rating === 3 ? 'Average' : rating === 5 ? 'Excellent' : ''}
-                      </option>
-                    ))}
-                  </select>
+                  <RatingInput
+                    settings={question.settings}
+                    value={getTextAnswer(question.id)}
+                    hasError={!!validationErrors[question.id]}
+                    onChange={(value) => handleAnswerChange(question.id, value)}
+                  />
+                ) : question.type === 'short_text' && getInputSettings(question.settings).format !== 'text' ? (
+                  <TypedInput
+                    questionId={question.id}
+                    settings={question.settings}
+                    value={getTextAnswer(question.id)}
+                    hasError={!!validationErrors[question.id]}
+                    onChange={(value) => handleAnswerChange(question.id, value)}
+                  />
                 ) : (
                   <textarea
-                    value={answers[question.id] || ""}
+                    id={`question-${question.id}`}
+                    value={getTextAnswer(question.id)}
                     onChange={(e) => handleAnswerChange(question.id, e.target.value)}
                     rows={question.type === 'long_text' ? 4 : 2}
                     className={`w-full px-4 py-3 font-body text-base text-slate-900 placeholder:text-slate-400 border rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent transition-all duration-200 resize-none ${
@@ -332,7 +783,7 @@ export default function SurveyResponsePage() {
                     placeholder="Type your answer here..."
                   />
                 )}
-              </label>
+              </div>
               
               {validationErrors[question.id] && (
                 <p className="text-sm text-red-600 mt-2">
@@ -342,16 +793,53 @@ export default function SurveyResponsePage() {
             </div>
           ))}
 
-          {/* Submit Button */}
-          <div className="flex justify-end">
-            <button
-              type="submit"
-              disabled={isSubmitting}
-              className="px-8 py-3 bg-[#2663EB] text-white font-accent font-medium rounded-lg hover:bg-[#2054C8] transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm hover:shadow-md active:scale-95"
-            >
-              {isSubmitting ? "Submitting..." : "Submit Response"}
-            </button>
+          {/* Page Navigation / Submit Button */}
+          <div className="flex justify-between">
+            {pageIndex > 0 ? (
+              <button
+                type="button"
+                onClick={handleBack}
+                className="px-6 py-3 bg-white text-slate-700 font-accent font-medium border border-slate-300 rounded-lg hover:bg-slate-50 transition-all duration-200"
+              >
+                Back
+              </button>
+            ) : (
+              <span />
+            )}
+            {isLastPage ? (
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-8 py-3 bg-[#2663EB] text-white font-accent font-medium rounded-lg hover:bg-[#2054C8] transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm hover:shadow-md active:scale-95"
+              >
+                {isSubmitting ? "Submitting..." : "Submit Response"}
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={handleNext}
+                className="px-8 py-3 bg-[#2663EB] text-white font-accent font-medium rounded-lg hover:bg-[#2054C8] transition-all duration-200 shadow-sm hover:shadow-md active:scale-95"
+              >
+                Next
+              </button>
+            )}
           </div>
+
+          {/* Save and Continue Later */}
+          {resumeLink ? (
+            <ResumeLinkPanel link={resumeLink} onClose={() => setResumeLink(null)} />
+          ) : (
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={handleSaveForLater}
+                disabled={isSavingDraft}
+                className="font-accent text-sm text-slate-600 hover:text-slate-900 underline underline-offset-2 disabled:opacity-50"
+              >
+                {isSavingDraft ? "Saving..." : "Save and continue later"}
+              </button>
+            </div>
+          )}
         </form>
       </div>
     </div>
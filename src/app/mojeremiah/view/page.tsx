@@ -1,10 +1,13 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
 import { supabase } from "@/lib/supabaseClient";
 import { createLogger } from "@/lib/logger";
-import { useUI } from "@/context";
+import { authFetch } from "@/lib/authFetch";
+import { getStatusLabel } from "@/lib/surveyLifecycle";
+import { useUI, useOrg } from "@/context";
 import type { Database } from "@/types/supabase";
+import type { SurveyStatus, SurveyStatusAction } from "@/types/survey";
 import { Toast, ConfirmModal } from "@/components/common";
 import {
   SurveyViewHeader,
@@ -12,6 +15,7 @@ import {
   SurveyViewContent,
   QuestionsPreviewModal,
   VersionHistoryModal,
+  SurveyScheduleModal,
 } from "@/components/survey/manage";
 import type { ToastType } from "@/components/common/Toast";
 
@@ -19,8 +23,6 @@ const logger = createLogger('SurveyView');
 
 type Survey = Database["public"]["Tables"]["surveys"]["Row"];
 
-const DEFAULT_ORG_ID = process.env.NEXT_PUBLIC_DEFAULT_ORG_ID || '00000000-0000-0000-0000-000000000001';
-
 interface ToastState {
   message: string;
   type: ToastType;
@@ -33,6 +35,14 @@ interface ModalState {
   surveyTitle: string;
 }
 
+interface ScheduleModalState {
+  survey: Survey;
+  mode: "schedule" | "set_close_date";
+}
+
+// Past opening/closing times are not useful as defaults in the schedule modal
+const futureOrNull = (iso: string | null) => (iso && new Date(iso) > new Date() ? iso : null);
+
 /**
  * Survey Management Page
  * 
@@ -41,6 +51,7 @@ interface ModalState {
  */
 export default function SurveyViewPage() {
   const { viewMode, setViewMode, filters, setFilters, showAllVersions, setShowAllVersions, isHydrated } = useUI();
+  const { orgId } = useOrg();
 
   // Survey data state
   const [surveys, setSurveys] = useState<Survey[]>([]);
@@ -50,19 +61,18 @@ export default function SurveyViewPage() {
   // UI state
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [updatingStatusId, setUpdatingStatusId] = useState<string | null>(null);
   const [toast, setToast] = useState<ToastState>({ message: "", type: "success", show: false });
   
   // Modal states
   const [confirmModal, setConfirmModal] = useState<ModalState>({ show: false, surveyId: null, surveyTitle: "" });
   const [versionHistoryModal, setVersionHistoryModal] = useState<ModalState>({ show: false, surveyId: null, surveyTitle: "" });
   const [questionsModal, setQuestionsModal] = useState<ModalState>({ show: false, surveyId: null, surveyTitle: "" });
+  const [scheduleModal, setScheduleModal] = useState<ScheduleModalState | null>(null);
 
-  // Fetch surveys on mount
-  useEffect(() => {
-    fetchSurveys();
-  }, []);
+  const fetchSurveys = useCallback(async () => {
+    if (!orgId) return;
 
-  const fetchSurveys = async () => {
     try {
       setLoading(true);
       setError(null);
@@ -70,22 +80,19 @@ export default function SurveyViewPage() {
       const { data: surveysData, error: fetchError } = await supabase
         .from("surveys")
         .select("*")
-        .eq("org_id", DEFAULT_ORG_ID)
+        .eq("org_id", orgId)
         .order("created_at", { ascending: false });
 
       if (fetchError) throw fetchError;
 
-      // Fetch response counts
+      // Fetch response counts (counts only, so viewers see them too)
       if (surveysData && surveysData.length > 0) {
-        const surveyIds = surveysData.map(s => s.id);
         const { data: responseCounts, error: countError } = await supabase
-          .from("responses")
-          .select("survey_id")
-          .in("survey_id", surveyIds);
+          .rpc("survey_response_stats", { p_org_id: orgId });
 
         if (!countError && responseCounts) {
           const countsMap = responseCounts.reduce((acc, r) => {
-            acc[r.survey_id] = (acc[r.survey_id] || 0) + 1;
+            acc[r.survey_id] = r.responses;
             return acc;
           }, {} as Record<string, number>);
 
@@ -103,7 +110,12 @@ export default function SurveyViewPage() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [orgId]);
+
+  // Fetch surveys once the organization is known
+  useEffect(() => {
+    fetchSurveys();
+  }, [fetchSurveys]);
 
   // Get unique audiences for filter dropdown
   const audienceOptions = useMemo(() => {
@@ -191,7 +203,8 @@ export default function SurveyViewPage() {
       const { error: deleteError } = await supabase
         .from("surveys")
         .delete()
-        .eq("id", surveyIdToDelete);
+        .eq("id", surveyIdToDelete)
+        .eq("org_id", orgId!);
 
       if (deleteError) throw deleteError;
 
@@ -218,6 +231,54 @@ export default function SurveyViewPage() {
     setQuestionsModal({ show: true, surveyId, surveyTitle: survey.title });
   };
 
+  const updateStatus = async (
+    surveyId: string,
+    action: SurveyStatusAction,
+    times: { opensAt?: string | null; closesAt?: string | null } = {}
+  ) => {
+    setUpdatingStatusId(surveyId);
+
+    try {
+      const response = await authFetch("/api/surveys/update-status", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          survey_id: surveyId,
+          action,
+          opens_at: times.opensAt,
+          closes_at: times.closesAt,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to update survey status");
+      }
+
+      setSurveys((prev) => prev.map((s) => (s.id === surveyId ? { ...s, ...result.survey } : s)));
+      setScheduleModal(null);
+      showToast(`Survey is now ${getStatusLabel(result.survey.status as SurveyStatus).toLowerCase()}`, "success");
+      logger.info('Survey status updated', { surveyId, action });
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to update survey status", "error");
+      logger.error('Failed to update survey status', err, { surveyId, action });
+    } finally {
+      setUpdatingStatusId(null);
+    }
+  };
+
+  const handleStatusAction = (surveyId: string, action: SurveyStatusAction) => {
+    const survey = surveys.find((s) => s.id === surveyId);
+    if (!survey) return;
+
+    // Scheduling and close dates need times picked first
+    if (action === "schedule" || action === "set_close_date") {
+      setScheduleModal({ survey, mode: action });
+      return;
+    }
+    updateStatus(surveyId, action);
+  };
+
   const showToast = (message: string, type: ToastType) => {
     setToast({ message, type, show: true });
   };
@@ -273,6 +334,8 @@ export default function SurveyViewPage() {
             onDelete={handleDeleteClick}
             onViewHistory={handleViewHistory}
             onViewQuestions={handleViewQuestions}
+            updatingStatusId={updatingStatusId}
+            onStatusAction={handleStatusAction}
             onRetry={fetchSurveys}
             isLatestVersion={isLatestVersion}
           />
@@ -291,6 +354,8 @@ export default function SurveyViewPage() {
             onDelete={handleDeleteClick}
             onViewHistory={handleViewHistory}
             onViewQuestions={handleViewQuestions}
+            updatingStatusId={updatingStatusId}
+            onStatusAction={handleStatusAction}
             onRetry={fetchSurveys}
             isLatestVersion={isLatestVersion}
           />
@@ -327,6 +392,18 @@ export default function SurveyViewPage() {
         />
       )}
 
+      {scheduleModal && (
+        <SurveyScheduleModal
+          surveyTitle={scheduleModal.survey.title}
+          mode={scheduleModal.mode}
+          opensAt={scheduleModal.mode === "schedule" ? futureOrNull(scheduleModal.survey.opens_at) : null}
+          closesAt={futureOrNull(scheduleModal.survey.closes_at)}
+          onSave={(times) => updateStatus(scheduleModal.survey.id, scheduleModal.mode, times)}
+          onCancel={() => setScheduleModal(null)}
+          isLoading={updatingStatusId === scheduleModal.survey.id}
+        />
+      )}
+
       {toast.show && (
         <Toast
           message={toast.message}
@@ -0,0 +1,59 @@
+import type { DateDistribution } from "@/lib/analytics";
+
+interface DateDistributionCardProps {
+  question: string;
+  distribution: DateDistribution;
+}
+
+/**
+ * DateDistributionCard Component
+ *
+ * Displays how answers to one date-format short answer question are
+ * spread over months (or years for long ranges).
+ *
+ * @param question - Question text
+ * @param distribution - Distribution from calculateDateDistribution
+ */
+export function DateDistributionCard({ question, distribution }: DateDistributionCardProps) {
+  const maxCount = Math.max(1, ...distribution.buckets.map((bucket) => bucket.count));
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="font-heading text-lg font-semibold text-slate-900">Date</h3>
+          <p className="font-body text-sm text-slate-600 mt-1">{question}</p>
+        </div>
+        {distribution.earliest && distribution.latest && (
+          <p className="font-accent text-sm text-slate-600 text-right">
+            {distribution.earliest} to {distribution.latest}
+          </p>
+        )}
+      </div>
+
+      {distribution.count === 0 ? (
+        <p className="font-body text-sm text-slate-500">No date answers yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {distribution.buckets.map((bucket) => (
+            <div key={bucket.label} className="flex items-center gap-3">
+              <span className="w-20 shrink-0 font-accent text-xs text-slate-700">{bucket.label}</span>
+              <div className="flex-1 h-3 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-[#2663EB] rounded-full"
+                  style={{ width: `${(bucket.count / maxCount) * 100}%` }}
+                />
+              </div>
+              <span className="w-16 shrink-0 text-right font-accent text-xs text-slate-500">
+                {bucket.count} ({bucket.percentage}%)
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="font-body text-xs text-slate-500 mt-3">
+        {distribution.count} {distribution.count === 1 ? "answer" : "answers"} by {distribution.granularity}
+      </p>
+    </div>
+  );
+}
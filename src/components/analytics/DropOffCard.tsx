@@ -0,0 +1,67 @@
+import type { Database } from "@/types/supabase";
+import type { DropOffSummary } from "@/lib/analytics";
+
+type SurveyQuestion = Database["public"]["Tables"]["survey_questions"]["Row"];
+
+interface DropOffCardProps {
+  questions: SurveyQuestion[];
+  dropOff: DropOffSummary;
+}
+
+/**
+ * DropOffCard Component
+ *
+ * Shows how many respondents started versus submitted, and for each
+ * question how many reached it and how many left the survey there.
+ * Started includes saved drafts that were never submitted.
+ *
+ * @param questions - Survey questions, in display order
+ * @param dropOff - Summary from calculateDropOff
+ */
+export function DropOffCard({ questions, dropOff }: DropOffCardProps) {
+  const dropOffById = new Map(dropOff.questions.map((question) => [question.questionId, question]));
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-6">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h3 className="font-heading text-lg font-semibold text-slate-900">Drop-Off</h3>
+        <p className="font-body text-sm text-slate-600">
+          {dropOff.completed} of {dropOff.started} started responses submitted ({dropOff.completionRate}%)
+        </p>
+      </div>
+      <div className="space-y-4">
+        {questions.map((question, index) => {
+          const stats = dropOffById.get(question.id);
+          if (!stats) return null;
+          const reachedPercentage = dropOff.started === 0 ? 0 : (stats.reached / dropOff.started) * 100;
+
+          return (
+            <div key={question.id}>
+              <div className="flex items-start justify-between gap-4 mb-1">
+                <p className="font-body text-sm text-slate-900">
+                  {index + 1}. {question.question}
+                </p>
+                <span
+                  className={`font-accent text-sm font-medium ${
+                    stats.droppedOff > 0 ? "text-red-600" : "text-slate-400"
+                  }`}
+                >
+                  {stats.dropOffRate}%
+                </span>
+              </div>
+              <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-[#2663EB] rounded-full"
+                  style={{ width: `${reachedPercentage}%` }}
+                />
+              </div>
+              <p className="font-body text-xs text-slate-500 mt-1">
+                {stats.reached} reached · {stats.droppedOff} left here
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
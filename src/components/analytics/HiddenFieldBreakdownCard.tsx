@@ -0,0 +1,55 @@
+import type { HiddenFieldGroup } from "@/lib/analytics";
+
+interface HiddenFieldBreakdownCardProps {
+  field: string;
+  groups: HiddenFieldGroup[];
+}
+
+/**
+ * HiddenFieldBreakdownCard Component
+ *
+ * Responses and their sentiment mix for each value of one hidden
+ * field, e.g. per campaign.
+ *
+ * @param field - Hidden field name
+ * @param groups - Groups from groupResponsesByHiddenField
+ */
+export function HiddenFieldBreakdownCard({ field, groups }: HiddenFieldBreakdownCardProps) {
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-6">
+      <h3 className="font-heading text-lg font-semibold text-slate-900 mb-4">
+        Responses by <span className="font-mono">{field}</span>
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="w-full font-body text-sm">
+          <thead>
+            <tr className="text-left font-accent text-xs text-slate-500 border-b border-slate-200">
+              <th className="py-2 pr-4 font-medium">Value</th>
+              <th className="py-2 pr-4 font-medium text-right">Responses</th>
+              <th className="py-2 pr-4 font-medium text-right">Positive</th>
+              <th className="py-2 pr-4 font-medium text-right">Neutral</th>
+              <th className="py-2 pr-4 font-medium text-right">Negative</th>
+              <th className="py-2 font-medium text-right">Mixed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map((group) => (
+              <tr key={group.value} className="border-b border-slate-100 last:border-0">
+                <td className="py-2 pr-4 text-slate-900">
+                  {group.value || <span className="text-slate-400">(not set)</span>}
+                </td>
+                <td className="py-2 pr-4 text-right text-slate-900">
+                  {group.count} <span className="text-slate-500">({group.percentage}%)</span>
+                </td>
+                <td className="py-2 pr-4 text-right text-green-700">{group.sentimentCounts.positive}</td>
+                <td className="py-2 pr-4 text-right text-slate-700">{group.sentimentCounts.neutral}</td>
+                <td className="py-2 pr-4 text-right text-red-700">{group.sentimentCounts.negative}</td>
+                <td className="py-2 text-right text-amber-700">{group.sentimentCounts.mixed}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+interface HiddenFieldFilter {
+  field: string;
+  value: string;
+}
+
+interface HiddenFieldControlsProps {
+  fields: string[];
+  getOptions: (field: string) => string[];
+  filter: HiddenFieldFilter | null;
+  groupBy: string | null;
+  onFilterChange: (filter: HiddenFieldFilter | null) => void;
+  onGroupByChange: (field: string | null) => void;
+}
+
+const selectClassName =
+  "px-3 py-2 font-accent text-sm text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent";
+
+/**
+ * HiddenFieldControls Component
+ *
+ * Filter and group-by pickers for the survey's hidden fields
+ * (e.g. campaign). The filter applies to every card and export below.
+ *
+ * @param fields - surveys.hidden_fields
+ * @param getOptions - Values seen for a field
+ * @param filter - Current field/value filter
+ * @param groupBy - Field to group responses by
+ */
+export function HiddenFieldControls({
+  fields,
+  getOptions,
+  filter,
+  groupBy,
+  onFilterChange,
+  onGroupByChange,
+}: HiddenFieldControlsProps) {
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-4 mb-6 flex flex-wrap items-center gap-3">
+      <span className="font-body text-sm text-slate-600">Filter by</span>
+      <select
+        value={filter?.field ?? ""}
+        onChange={(e) =>
+          onFilterChange(e.target.value ? { field: e.target.value, value: getOptions(e.target.value)[0] ?? "" } : null)
+        }
+        className={selectClassName}
+      >
+        <option value="">All responses</option>
+        {fields.map((field) => (
+          <option key={field} value={field}>
+            {field}
+          </option>
+        ))}
+      </select>
+      {filter && (
+        <select
+          value={filter.value}
+          onChange={(e) => onFilterChange({ ...filter, value: e.target.value })}
+          className={selectClassName}
+        >
+          {getOptions(filter.field).map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+          <option value="">(not set)</option>
+        </select>
+      )}
+
+      <span className="font-body text-sm text-slate-600 sm:ml-4">Group by</span>
+      <select
+        value={groupBy ?? ""}
+        onChange={(e) => onGroupByChange(e.target.value || null)}
+        className={selectClassName}
+      >
+        <option value="">None</option>
+        {fields.map((field) => (
+          <option key={field} value={field}>
+            {field}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
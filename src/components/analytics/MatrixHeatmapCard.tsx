@@ -0,0 +1,78 @@
+import type { MatrixCounts } from "@/lib/analytics";
+
+interface MatrixHeatmapCardProps {
+  question: string;
+  matrix: MatrixCounts;
+}
+
+/**
+ * MatrixHeatmapCard Component
+ *
+ * Displays a matrix question as a heat-map table: one row per
+ * statement, one column per scale point, darker cells for more answers.
+ *
+ * @param question - Question text
+ * @param matrix - Counts from calculateMatrixCounts
+ */
+export function MatrixHeatmapCard({ question, matrix }: MatrixHeatmapCardProps) {
+  // Cell shade scales with its share of the busiest cell
+  const cellStyle = (count: number) => {
+    const intensity = matrix.maxCount === 0 ? 0 : count / matrix.maxCount;
+    return {
+      backgroundColor: `rgba(38, 99, 235, ${0.08 + intensity * 0.82})`,
+      color: intensity > 0.5 ? "#ffffff" : "#0f172a",
+    };
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-6">
+      <div className="mb-4">
+        <h3 className="font-heading text-lg font-semibold text-slate-900">Matrix</h3>
+        <p className="font-body text-sm text-slate-600 mt-1">{question}</p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full border-separate border-spacing-1">
+          <thead>
+            <tr>
+              <th />
+              {matrix.columns.map((column) => (
+                <th
+                  key={column}
+                  scope="col"
+                  className="px-2 pb-1 font-accent text-xs font-medium text-slate-600 text-center"
+                >
+                  {column}
+                </th>
+              ))}
+              <th scope="col" className="px-2 pb-1 font-accent text-xs font-medium text-slate-500 text-center">
+                Total
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {matrix.rows.map((row, rowIndex) => (
+              <tr key={row}>
+                <th scope="row" className="pr-3 font-body text-sm font-normal text-slate-700 text-left">
+                  {row}
+                </th>
+                {matrix.counts[rowIndex].map((count, columnIndex) => (
+                  <td
+                    key={matrix.columns[columnIndex]}
+                    className="min-w-12 h-10 rounded font-accent text-sm font-semibold text-center"
+                    style={cellStyle(count)}
+                  >
+                    {count}
+                  </td>
+                ))}
+                <td className="font-accent text-sm text-slate-500 text-center">
+                  {matrix.rowTotals[rowIndex]}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
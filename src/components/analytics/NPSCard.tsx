@@ -0,0 +1,89 @@
+import type { NPSSummary } from "@/lib/analytics";
+
+interface NPSCardProps {
+  question: string;
+  nps: NPSSummary;
+}
+
+/**
+ * NPSCard Component
+ *
+ * Displays the Net Promoter Score for one nps question, with the
+ * promoter (9-10), passive (7-8) and detractor (0-6) split.
+ *
+ * @param question - Question text
+ * @param nps - Summary from calculateNPS
+ */
+export function NPSCard({ question, nps }: NPSCardProps) {
+  const scoreColor =
+    nps.score > 30 ? "text-green-700" : nps.score < 0 ? "text-red-700" : "text-slate-900";
+
+  const segments = [
+    {
+      label: "Promoters",
+      count: nps.promoters,
+      percentage: nps.promoterPercentage,
+      bar: "bg-green-500",
+      labelColor: "text-green-600",
+    },
+    {
+      label: "Passives",
+      count: nps.passives,
+      percentage: nps.passivePercentage,
+      bar: "bg-slate-400",
+      labelColor: "text-slate-600",
+    },
+    {
+      label: "Detractors",
+      count: nps.detractors,
+      percentage: nps.detractorPercentage,
+      bar: "bg-red-500",
+      labelColor: "text-red-600",
+    },
+  ];
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="font-heading text-lg font-semibold text-slate-900">
+            Net Promoter Score
+          </h3>
+          <p className="font-body text-sm text-slate-600 mt-1">{question}</p>
+        </div>
+        <div className="text-right">
+          <p className={`font-heading text-3xl font-semibold ${scoreColor}`}>
+            {nps.total > 0 ? (nps.score > 0 ? `+${nps.score}` : nps.score) : "N/A"}
+          </p>
+          <p className="font-accent text-xs text-slate-500">
+            {nps.total} {nps.total === 1 ? "answer" : "answers"}
+          </p>
+        </div>
+      </div>
+
+      {/* Promoter / Passive / Detractor split */}
+      <div className="flex w-full h-3 bg-slate-100 rounded-full overflow-hidden mb-4">
+        {segments.map((segment) => (
+          <div
+            key={segment.label}
+            className={segment.bar}
+            style={{ width: `${segment.percentage}%` }}
+          />
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        {segments.map((segment) => (
+          <div key={segment.label} className="text-center p-3 bg-slate-50 rounded-lg">
+            <p className="font-heading text-xl font-semibold text-slate-900">
+              {segment.percentage}%
+            </p>
+            <p className={`font-accent text-xs ${segment.labelColor} mt-1`}>
+              {segment.label} ({segment.count})
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import type { NumericStats } from "@/lib/analytics";
+
+interface NumericStatsCardProps {
+  question: string;
+  stats: NumericStats;
+}
+
+/**
+ * NumericStatsCard Component
+ *
+ * Displays mean, range, percentiles and a histogram for one
+ * number-format short answer question.
+ *
+ * @param question - Question text
+ * @param stats - Statistics from calculateNumericStats
+ */
+export function NumericStatsCard({ question, stats }: NumericStatsCardProps) {
+  const maxCount = Math.max(1, ...stats.histogram.map((bin) => bin.count));
+  const summary = [
+    { label: "Mean", value: stats.mean },
+    { label: "Median", value: stats.percentiles?.p50 ?? null },
+    { label: "Min", value: stats.min },
+    { label: "Max", value: stats.max },
+  ];
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="font-heading text-lg font-semibold text-slate-900">Number</h3>
+          <p className="font-body text-sm text-slate-600 mt-1">{question}</p>
+        </div>
+        <div className="flex gap-6 text-right">
+          {summary.map((item) => (
+            <div key={item.label}>
+              <p className="font-heading text-2xl font-semibold text-slate-900">
+                {item.value ?? "N/A"}
+              </p>
+              <p className="font-accent text-xs text-slate-500">{item.label}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {stats.count === 0 ? (
+        <p className="font-body text-sm text-slate-500">No numeric answers yet.</p>
+      ) : (
+        <>
+          {/* Histogram */}
+          <div className="flex items-end gap-2 h-32">
+            {stats.histogram.map((bin) => (
+              <div key={bin.from} className="flex-1 flex flex-col items-center justify-end h-full">
+                <span className="font-accent text-xs text-slate-500 mb-1">{bin.count}</span>
+                <div
+                  className="w-full bg-[#2663EB] rounded-t"
+                  style={{ height: `${(bin.count / maxCount) * 100}%` }}
+                  title={`${bin.from} to ${bin.to}: ${bin.count} (${bin.percentage}%)`}
+                />
+                <span className="font-accent text-xs text-slate-700 mt-1">{bin.from}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* Percentiles */}
+          {stats.percentiles && (
+            <div className="flex flex-wrap gap-4 mt-4 font-accent text-xs text-slate-600">
+              <span>25th percentile: {stats.percentiles.p25}</span>
+              <span>75th percentile: {stats.percentiles.p75}</span>
+              <span>90th percentile: {stats.percentiles.p90}</span>
+            </div>
+          )}
+        </>
+      )}
+      <p className="font-body text-xs text-slate-500 mt-3">
+        {stats.count} {stats.count === 1 ? "answer" : "answers"}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import type { OptionCounts } from "@/lib/analytics";
+
+interface OptionCountsCardProps {
+  question: string;
+  isMultiSelect: boolean;
+  counts: OptionCounts;
+}
+
+/**
+ * OptionCountsCard Component
+ *
+ * Displays how often each option of a multiple choice or multi-select
+ * question was chosen, plus any "Other" answers respondents typed in.
+ *
+ * @param question - Question text
+ * @param isMultiSelect - Whether respondents could choose several options
+ * @param counts - Counts from calculateOptionCounts
+ */
+export function OptionCountsCard({ question, isMultiSelect, counts }: OptionCountsCardProps) {
+  const rows = counts.other.count > 0
+    ? [...counts.options, { option: "Other", count: counts.other.count, percentage: counts.other.percentage }]
+    : counts.options;
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-6">
+      <div className="mb-4">
+        <h3 className="font-heading text-lg font-semibold text-slate-900">
+          {isMultiSelect ? "Checkboxes" : "Multiple Choice"}
+        </h3>
+        <p className="font-body text-sm text-slate-600 mt-1">{question}</p>
+      </div>
+
+      <div className="space-y-3">
+        {rows.map((row) => (
+          <div key={row.option}>
+            <div className="flex items-center justify-between gap-4 mb-1">
+              <span className="font-body text-sm text-slate-700">{row.option}</span>
+              <span className="font-accent text-xs text-slate-500 whitespace-nowrap">
+                {row.count} ({row.percentage}%)
+              </span>
+            </div>
+            <div className="w-full h-2 bg-slate-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-[#2663EB] rounded-full"
+                style={{ width: `${row.percentage}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {counts.other.answers.length > 0 && (
+        <div className="mt-4">
+          <p className="font-body text-xs font-medium text-slate-600 mb-1">&quot;Other&quot; answers</p>
+          <ul className="font-body text-sm text-slate-700 list-disc pl-5 space-y-0.5">
+            {counts.other.answers.map((answer, i) => (
+              <li key={i}>{answer}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <p className="font-body text-xs text-slate-500 mt-3">
+        {counts.respondents} {counts.respondents === 1 ? "respondent" : "respondents"}
+        {isMultiSelect && " · percentages can add up to more than 100%"}
+      </p>
+    </div>
+  );
+}
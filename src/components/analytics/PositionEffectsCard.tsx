@@ -0,0 +1,54 @@
+import type { PositionEffect } from "@/lib/analytics";
+
+interface PositionEffectsCardProps {
+  title: string;
+  question?: string;
+  rateLabel: string; // e.g. "picked" or "answered"
+  effects: PositionEffect[];
+}
+
+/**
+ * PositionEffectsCard Component
+ *
+ * Shows, for shuffled questions or options, how often whatever was
+ * shown at each position was picked or answered. Rates that drop with
+ * position suggest order bias.
+ *
+ * @param title - Card heading
+ * @param question - Question text (for option position effects)
+ * @param rateLabel - What the rate measures
+ * @param effects - Rates from calculateOptionPositionEffects or calculateQuestionPositionEffects
+ */
+export function PositionEffectsCard({ title, question, rateLabel, effects }: PositionEffectsCardProps) {
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-6">
+      <div className="mb-4">
+        <h3 className="font-heading text-lg font-semibold text-slate-900">{title}</h3>
+        {question && <p className="font-body text-sm text-slate-600 mt-1">{question}</p>}
+      </div>
+
+      {effects.length === 0 ? (
+        <p className="font-body text-sm text-slate-500">No responses with a recorded order yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {effects.map((effect) => (
+            <div key={effect.position} className="flex items-center gap-3">
+              <span className="w-20 shrink-0 font-accent text-xs text-slate-700">
+                Position {effect.position}
+              </span>
+              <div className="flex-1 h-3 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-[#2663EB] rounded-full"
+                  style={{ width: `${effect.rate}%` }}
+                />
+              </div>
+              <span className="w-28 shrink-0 text-right font-accent text-xs text-slate-500">
+                {effect.rate}% {rateLabel} ({effect.shown})
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
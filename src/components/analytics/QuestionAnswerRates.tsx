@@ -0,0 +1,63 @@
+import type { Database } from "@/types/supabase";
+import type { QuestionAnswerRate } from "@/lib/analytics";
+
+type SurveyQuestion = Database["public"]["Tables"]["survey_questions"]["Row"];
+
+interface QuestionAnswerRatesProps {
+  questions: SurveyQuestion[];
+  rates: QuestionAnswerRate[];
+}
+
+/**
+ * QuestionAnswerRates Component
+ *
+ * Shows, for each question, the share of respondents who answered it
+ * out of those who saw it. Skipped (seen but left blank) and not shown
+ * counts are listed separately so optional questions are not penalised
+ * for respondents who never reached them.
+ *
+ * @param questions - Survey questions, in display order
+ * @param rates - Per-question rates from calculateQuestionAnswerRates
+ */
+export function QuestionAnswerRates({ questions, rates }: QuestionAnswerRatesProps) {
+  const ratesById = new Map(rates.map((rate) => [rate.questionId, rate]));
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-6">
+      <h3 className="font-heading text-lg font-semibold text-slate-900 mb-4">
+        Answer Rates
+      </h3>
+      <div className="space-y-4">
+        {questions.map((question, index) => {
+          const rate = ratesById.get(question.id);
+          if (!rate) return null;
+
+          return (
+            <div key={question.id}>
+              <div className="flex items-start justify-between gap-4 mb-1">
+                <p className="font-body text-sm text-slate-900">
+                  {index + 1}. {question.question}
+                  {!question.required && (
+                    <span className="ml-2 font-accent text-xs text-slate-400">Optional</span>
+                  )}
+                </p>
+                <span className="font-accent text-sm font-medium text-slate-900">
+                  {rate.answerRate}%
+                </span>
+              </div>
+              <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-[#2663EB] rounded-full"
+                  style={{ width: `${rate.answerRate}%` }}
+                />
+              </div>
+              <p className="font-body text-xs text-slate-500 mt-1">
+                {rate.answered} answered · {rate.skipped} skipped · {rate.notShown} not shown
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import type { RankingStats } from "@/lib/analytics";
+
+interface RankingStatsCardProps {
+  question: string;
+  stats: RankingStats;
+}
+
+/**
+ * RankingStatsCard Component
+ *
+ * Displays the options of a ranking question from best to worst
+ * average rank, with how often each was put first.
+ *
+ * @param question - Question text
+ * @param stats - Statistics from calculateRankingStats
+ */
+export function RankingStatsCard({ question, stats }: RankingStatsCardProps) {
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-6">
+      <div className="mb-4">
+        <h3 className="font-heading text-lg font-semibold text-slate-900">Ranking</h3>
+        <p className="font-body text-sm text-slate-600 mt-1">{question}</p>
+      </div>
+
+      <table className="w-full text-left">
+        <thead>
+          <tr className="border-b border-slate-200">
+            <th className="pb-2 font-accent text-xs font-medium text-slate-500">Option</th>
+            <th className="pb-2 font-accent text-xs font-medium text-slate-500 text-right">Avg. rank</th>
+            <th className="pb-2 font-accent text-xs font-medium text-slate-500 text-right">Ranked first</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stats.options.map((option, index) => (
+            <tr key={option.option} className="border-b border-slate-100 last:border-0">
+              <td className="py-2 font-body text-sm text-slate-900">
+                <span className="font-accent text-xs text-slate-400 mr-2">{index + 1}.</span>
+                {option.option}
+              </td>
+              <td className="py-2 font-accent text-sm font-semibold text-slate-900 text-right">
+                {option.averageRank ?? "N/A"}
+              </td>
+              <td className="py-2 font-accent text-sm text-slate-600 text-right">
+                {option.firstPlaceCount} ({option.firstPlacePercentage}%)
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="font-body text-xs text-slate-500 mt-3">
+        {stats.respondents} {stats.respondents === 1 ? "respondent" : "respondents"} · lower average rank is better
+      </p>
+    </div>
+  );
+}
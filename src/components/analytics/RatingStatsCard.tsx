@@ -0,0 +1,63 @@
+import type { RatingStats } from "@/lib/analytics";
+
+interface RatingStatsCardProps {
+  question: string;
+  stats: RatingStats;
+}
+
+/**
+ * RatingStatsCard Component
+ *
+ * Displays mean, median and the answer distribution for one rating
+ * question, using the scale the author configured for it.
+ *
+ * @param question - Question text
+ * @param stats - Statistics from calculateRatingStats
+ */
+export function RatingStatsCard({ question, stats }: RatingStatsCardProps) {
+  const maxCount = Math.max(1, ...stats.distribution.map((bucket) => bucket.count));
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="font-heading text-lg font-semibold text-slate-900">
+            Rating ({stats.min}-{stats.max})
+          </h3>
+          <p className="font-body text-sm text-slate-600 mt-1">{question}</p>
+        </div>
+        <div className="flex gap-6 text-right">
+          <div>
+            <p className="font-heading text-2xl font-semibold text-slate-900">
+              {stats.mean ?? "N/A"}
+            </p>
+            <p className="font-accent text-xs text-slate-500">Mean</p>
+          </div>
+          <div>
+            <p className="font-heading text-2xl font-semibold text-slate-900">
+              {stats.median ?? "N/A"}
+            </p>
+            <p className="font-accent text-xs text-slate-500">Median</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Distribution */}
+      <div className="flex items-end gap-2 h-32">
+        {stats.distribution.map((bucket) => (
+          <div key={bucket.value} className="flex-1 flex flex-col items-center justify-end h-full">
+            <span className="font-accent text-xs text-slate-500 mb-1">{bucket.count}</span>
+            <div
+              className="w-full bg-[#2663EB] rounded-t"
+              style={{ height: `${(bucket.count / maxCount) * 100}%` }}
+            />
+            <span className="font-accent text-xs text-slate-700 mt-1">{bucket.value}</span>
+          </div>
+        ))}
+      </div>
+      <p className="font-body text-xs text-slate-500 mt-3">
+        {stats.count} {stats.count === 1 ? "answer" : "answers"}
+      </p>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import type { Database } from "@/types/supabase";
+import { formatAnswer, formatFileSize, isFileAnswer } from "@/lib/utils";
+import { getHiddenFieldValues } from "@/lib/hiddenFields";
 
 type Response = Database["public"]["Tables"]["responses"]["Row"];
 type SurveyQuestion = Database["public"]["Tables"]["survey_questions"]["Row"];
@@ -7,14 +9,35 @@ interface ResponseCardProps {
   response: Response;
   questions: SurveyQuestion[];
   responseNumber: number;
+  fileLinks?: Record<string, string>; // Download links keyed by storage key
 }
 
 export default function ResponseCard({
   response,
   questions,
   responseNumber,
+  fileLinks = {},
 }: ResponseCardProps) {
-  const answers = response.answers as Record<string, string>;
+  const answers = (response.answers ?? {}) as Record<string, unknown>;
+  const hiddenValues = Object.entries(getHiddenFieldValues(response.metadata));
+
+  // Uploaded files link to their download once the link has loaded
+  const renderFileAnswer = (value: unknown) => {
+    if (!isFileAnswer(value)) return null;
+    const link = fileLinks[value.key];
+    return (
+      <>
+        {link ? (
+          <a href={link} target="_blank" rel="noopener noreferrer" className="text-[#2663EB] hover:underline">
+            {value.name}
+          </a>
+        ) : (
+          value.name
+        )}
+        <span className="text-slate-500"> ({formatFileSize(value.size)})</span>
+      </>
+    );
+  };
   
   const sentimentColors = {
     positive: "bg-green-100 text-green-700",
@@ -43,6 +66,16 @@ export default function ResponseCard({
         </div>
       </div>
       
+      {hiddenValues.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {hiddenValues.map(([field, value]) => (
+            <span key={field} className="px-2 py-1 bg-slate-100 text-slate-700 font-accent text-xs rounded-full">
+              {field}: {value}
+            </span>
+          ))}
+        </div>
+      )}
+
       {response.summary && (
         <p className="font-body text-sm text-slate-700 mb-4 p-3 bg-slate-50 rounded-lg">
           {response.summary}
@@ -56,7 +89,11 @@ export default function ResponseCard({
               {question.question}
             </p>
             <p className="font-body text-sm text-slate-900">
-              {answers[question.id.toString()] || "No answer"}
+              {renderFileAnswer(answers[question.id.toString()]) ||
+                formatAnswer(answers[question.id.toString()]) ||
+                (response.presented_question_ids && !response.presented_question_ids.includes(question.id)
+                  ? "Not shown"
+                  : "Skipped")}
             </p>
           </div>
         ))}
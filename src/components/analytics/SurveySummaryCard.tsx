@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { SparklesIcon } from "@heroicons/react/24/outline";
+import type { SummaryFilters, SummaryScope, SurveySummary } from "@/lib/surveySummaries";
+import { formatTimeAgo } from "@/lib/utils";
+
+interface SurveySummaryCardProps {
+  summary: SurveySummary | null;
+  loading: boolean;
+  generating: boolean;
+  error: string | null;
+  hasVersions: boolean; // Show the all versions / this version choice
+  onGenerate: (filters: SummaryFilters) => void;
+}
+
+const inputClassName =
+  "px-3 py-2 font-accent text-sm text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent";
+
+const SECTIONS: { key: keyof Pick<SurveySummary, "keyThemes" | "topComplaints" | "topPraise" | "recommendedActions">; title: string }[] = [
+  { key: "keyThemes", title: "Key Themes" },
+  { key: "topComplaints", title: "Top Complaints" },
+  { key: "topPraise", title: "Top Praise" },
+  { key: "recommendedActions", title: "Recommended Actions" },
+];
+
+/**
+ * Describe What a Report Covered
+ *
+ * @param summary - Stored report
+ * @returns e.g. "all versions, 1/3/2025 – 1/31/2025, 42 responses"
+ */
+function describeCoverage(summary: SurveySummary): string {
+  const parts = [summary.scope === "version" ? "this version" : "all versions"];
+  if (summary.from || summary.to) {
+    const from = summary.from ? new Date(summary.from).toLocaleDateString() : "start";
+    const to = summary.to ? new Date(summary.to).toLocaleDateString() : "now";
+    parts.push(`${from} – ${to}`);
+  }
+  parts.push(`${summary.responseCount} response${summary.responseCount === 1 ? "" : "s"}`);
+  return parts.join(", ");
+}
+
+/**
+ * SurveySummaryCard Component
+ *
+ * AI summary report of the survey's responses: overview, key themes,
+ * top complaints, top praise and recommended actions. Shows the latest
+ * stored report and generates a new one for all versions or this
+ * version, optionally limited to a date range.
+ *
+ * @param summary - Latest stored report (null when none)
+ * @param onGenerate - Called with the chosen filters
+ */
+export function SurveySummaryCard({
+  summary,
+  loading,
+  generating,
+  error,
+  hasVersions,
+  onGenerate,
+}: SurveySummaryCardProps) {
+  const [scope, setScope] = useState<SummaryScope>("all_versions");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  // Date inputs are local days; the range covers the whole of both days
+  const handleGenerate = () => {
+    onGenerate({
+      scope,
+      from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : null,
+      to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : null,
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+      {/* Header and filters */}
+      <div className="bg-gradient-to-r from-[#2663EB] to-[#6366F1] p-6">
+        <div className="flex items-start gap-3 mb-4">
+          <SparklesIcon className="w-6 h-6 text-white flex-shrink-0" />
+          <div>
+            <h3 className="font-heading text-lg font-semibold text-white">AI Summary</h3>
+            <p className="font-body text-sm text-blue-50">
+              {summary
+                ? `Generated ${formatTimeAgo(summary.createdAt)} from ${describeCoverage(summary)}`
+                : "Summarize what respondents are saying"}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {hasVersions && (
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value as SummaryScope)}
+              className={inputClassName}
+            >
+              <option value="all_versions">All versions</option>
+              <option value="version">This version</option>
+            </select>
+          )}
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className={inputClassName}
+            aria-label="From date"
+          />
+          <span className="font-body text-sm text-blue-50">to</span>
+          <input
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className={inputClassName}
+            aria-label="To date"
+          />
+          <button
+            onClick={handleGenerate}
+            disabled={generating}
+            className="px-4 py-2 bg-white text-[#2663EB] font-accent text-sm font-medium rounded-lg hover:bg-blue-50 transition-colors duration-200 disabled:opacity-50"
+          >
+            {generating ? "Generating..." : summary ? "Regenerate" : "Generate summary"}
+          </button>
+        </div>
+      </div>
+
+      {/* Report */}
+      <div className="p-6">
+        {error && <p className="mb-4 font-body text-sm text-amber-700">{error}</p>}
+
+        {loading || generating ? (
+          <div className="animate-pulse">
+            <div className="h-4 bg-slate-200 rounded w-3/4 mb-2"></div>
+            <div className="h-4 bg-slate-200 rounded w-1/2"></div>
+          </div>
+        ) : summary ? (
+          <>
+            <p className="font-body text-sm text-slate-700 leading-relaxed mb-6">{summary.summary}</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {SECTIONS.map(({ key, title }) => (
+                <div key={key}>
+                  <h4 className="font-accent text-sm font-medium text-slate-900 mb-2">{title}</h4>
+                  {summary[key].length > 0 ? (
+                    <ul className="list-disc list-inside space-y-1">
+                      {summary[key].map((item) => (
+                        <li key={item} className="font-body text-sm text-slate-600">
+                          {item}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="font-body text-sm text-slate-400">Nothing stood out</p>
+                  )}
+                </div>
+              ))}
+            </div>
+            {summary.source !== "ai" && (
+              <p className="mt-4 font-body text-xs text-slate-500">
+                Generated offline from keywords, without the AI provider.
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="font-body text-sm text-slate-500">
+            No summary yet. Generate one to see key themes, complaints, praise and recommended actions.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
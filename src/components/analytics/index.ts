@@ -13,7 +13,6 @@ export { default as AnalyticsStatCard } from "./AnalyticsStatCard";
 export { default as AnalyticsEmptyState } from "./AnalyticsEmptyState";
 export { default as AnalyticsCallToAction } from "./AnalyticsCallToAction";
 export { default as ResponseCard } from "./ResponseCard";
-export { default as AIInsightCard } from "./AIInsightCard";
 
 // Newly extracted components
 export { VersionSelector } from "./VersionSelector";
@@ -22,3 +21,16 @@ export { ExportActions } from "./ExportActions";
 export { EmptyResponsesState } from "./EmptyResponsesState";
 export { NewResponseNotification } from "./NewResponseNotification";
 export { StatsGrid } from "./StatsGrid";
+export { QuestionAnswerRates } from "./QuestionAnswerRates";
+export { DropOffCard } from "./DropOffCard";
+export { NPSCard } from "./NPSCard";
+export { RatingStatsCard } from "./RatingStatsCard";
+export { OptionCountsCard } from "./OptionCountsCard";
+export { MatrixHeatmapCard } from "./MatrixHeatmapCard";
+export { RankingStatsCard } from "./RankingStatsCard";
+export { NumericStatsCard } from "./NumericStatsCard";
+export { DateDistributionCard } from "./DateDistributionCard";
+export { PositionEffectsCard } from "./PositionEffectsCard";
+export { HiddenFieldControls } from "./HiddenFieldControls";
+export { HiddenFieldBreakdownCard } from "./HiddenFieldBreakdownCard";
+export { SurveySummaryCard } from "./SurveySummaryCard";
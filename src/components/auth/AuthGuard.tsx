@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, ReactNode } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { useOrg } from "@/context";
+import { LoadingState, ErrorState } from "@/components/common";
+
+/**
+ * AuthGuard Component
+ *
+ * Protects workspace pages behind Supabase Auth.
+ * - Public paths (login, survey responses) render without a session
+ * - Signed-out visitors are redirected to the login page
+ * - Signed-in users without an organization see an error instead of data
+ *
+ * @param publicPaths - Path prefixes that do not require a session
+ */
+
+interface AuthGuardProps {
+  children: ReactNode;
+  publicPaths?: string[];
+}
+
+export default function AuthGuard({ children, publicPaths = [] }: AuthGuardProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { session, orgId, loading, signOut } = useOrg();
+
+  const isPublic = publicPaths.some((path) => pathname.startsWith(path));
+
+  // Redirect signed-out visitors to login, remembering where they were going
+  useEffect(() => {
+    if (isPublic || loading || session) return;
+    router.replace(`/mojeremiah/login?next=${encodeURIComponent(pathname)}`);
+  }, [isPublic, loading, session, pathname, router]);
+
+  if (isPublic) {
+    return <>{children}</>;
+  }
+
+  if (loading || !session) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center px-4">
+        <div className="w-full max-w-md">
+          <LoadingState message="Checking your session..." />
+        </div>
+      </div>
+    );
+  }
+
+  if (!orgId) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center px-4">
+        <div className="w-full max-w-md">
+          <ErrorState
+            message="Your account is not a member of any organization. Ask an organization owner to invite you."
+            onRetry={signOut}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { ReactNode } from "react";
+import Link from "next/link";
+import { useOrg } from "@/context";
+import type { Permission } from "@/lib/permissions";
+
+/**
+ * RoleGuard Component
+ *
+ * Renders children only when the member's role grants the permission.
+ * Used by route layouts (create, edit, per-survey analytics) so people
+ * following a link see an explanation instead of a broken page.
+ * API routes enforce the same permissions independently.
+ *
+ * @param permission - Permission required to view the page
+ */
+
+interface RoleGuardProps {
+  permission: Permission;
+  children: ReactNode;
+}
+
+export default function RoleGuard({ permission, children }: RoleGuardProps) {
+  const { can } = useOrg();
+
+  if (!can(permission)) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center px-4">
+        <div className="w-full max-w-md bg-white rounded-lg shadow-sm border border-slate-200 p-8 text-center">
+          <h2 className="font-heading text-xl font-semibold text-slate-900 mb-2">
+            Access restricted
+          </h2>
+          <p className="font-body text-slate-600 mb-6">
+            Your role in this organization does not allow access to this page.
+            Ask an organization owner if you need it.
+          </p>
+          <Link
+            href="/mojeremiah"
+            className="inline-flex items-center px-4 py-2 font-accent text-sm font-medium rounded-full text-white bg-[#2663EB] hover:bg-[#2054C8] transition-all duration-200"
+          >
+            Back to Dashboard
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
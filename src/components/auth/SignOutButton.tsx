@@ -0,0 +1,33 @@
+"use client";
+
+import { ArrowRightOnRectangleIcon } from "@heroicons/react/24/outline";
+import { useOrg } from "@/context";
+
+/**
+ * SignOutButton Component
+ *
+ * Shows the current organization and signs the user out.
+ * Used in workspace headers next to the Create Survey button.
+ */
+
+export default function SignOutButton() {
+  const { organization, signOut } = useOrg();
+
+  return (
+    <div className="flex items-center gap-2">
+      {organization && (
+        <span className="hidden lg:inline font-body text-sm text-slate-500 truncate max-w-[10rem]">
+          {organization.name}
+        </span>
+      )}
+      <button
+        onClick={signOut}
+        className="p-2 text-slate-500 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors duration-200"
+        title="Sign out"
+        aria-label="Sign out"
+      >
+        <ArrowRightOnRectangleIcon className="w-5 h-5" />
+      </button>
+    </div>
+  );
+}
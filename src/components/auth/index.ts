@@ -0,0 +1,4 @@
+// Auth Components
+export { default as AuthGuard } from './AuthGuard';
+export { default as SignOutButton } from './SignOutButton';
+export { default as RoleGuard } from './RoleGuard';
@@ -0,0 +1,58 @@
+"use client";
+
+import { CpuChipIcon } from "@heroicons/react/24/outline";
+import { useAIUsage } from "@/hooks/useAIUsage";
+
+/**
+ * AIUsageCard Component
+ *
+ * Shows the AI tokens the organization has used this month against its
+ * monthly budget. Over budget, AI features fall back to offline results
+ * until the month ends.
+ */
+export default function AIUsageCard() {
+  const { usage, loading, error } = useAIUsage();
+
+  if (loading || error || !usage) {
+    return null;
+  }
+
+  const { tokensUsed, budget } = usage;
+  const percent = budget ? Math.min(100, Math.round((tokensUsed / budget) * 100)) : 0;
+  const barColor = percent >= 100 ? "bg-red-500" : percent >= 80 ? "bg-amber-500" : "bg-[#2663EB]";
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-blue-50 text-[#2663EB] flex items-center justify-center">
+            <CpuChipIcon className="w-5 h-5" />
+          </div>
+          <div>
+            <h3 className="font-heading text-lg font-semibold text-slate-900">AI Usage</h3>
+            <p className="font-body text-xs text-slate-500">Tokens used this month</p>
+          </div>
+        </div>
+        <p className="font-accent text-sm font-medium text-slate-700">
+          {tokensUsed.toLocaleString()}
+          {budget ? ` / ${budget.toLocaleString()}` : ""}
+        </p>
+      </div>
+
+      {budget ? (
+        <>
+          <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div className={`h-full ${barColor} transition-all duration-300`} style={{ width: `${percent}%` }} />
+          </div>
+          <p className="mt-2 font-body text-xs text-slate-500">
+            {percent >= 100
+              ? "Monthly budget reached. AI features use offline results until next month."
+              : `${percent}% of the monthly budget used`}
+          </p>
+        </>
+      ) : (
+        <p className="font-body text-xs text-slate-500">No monthly budget set</p>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import {
   TrashIcon,
   SparklesIcon,
   ArrowRightIcon,
+  UserGroupIcon,
 } from "@heroicons/react/24/outline";
 import type { Database } from "@/types/supabase";
 import { formatTimeAgo } from "@/lib/utils";
@@ -21,7 +22,8 @@ import type {
   SurveyUpdatedDetails,
   SurveyDeletedDetails,
   SummaryGeneratedDetails,
-  SurveyEditedDetails
+  SurveyEditedDetails,
+  QuotaFilledDetails
 } from "@/types/activity";
 
 type ActivityFeedRow = Database["public"]["Tables"]["activity_feed"]["Row"];
@@ -86,6 +88,13 @@ export default function ActivityFeed() {
           iconColor: "text-purple-600",
           label: "Survey Edited",
         };
+      case "QUOTA_FILLED":
+        return {
+          icon: <UserGroupIcon className="w-5 h-5" />,
+          bgColor: "bg-orange-100",
+          iconColor: "text-orange-600",
+          label: "Quota Filled",
+        };
       default:
         return {
           icon: <BellIcon className="w-5 h-5" />,
@@ -123,6 +132,9 @@ export default function ActivityFeed() {
       }
       case "SURVEY_UPDATED": {
         const d = details as SurveyUpdatedDetails;
+        if (d.status) {
+          return `Survey "${d.survey_title}" is now ${d.status.toLowerCase()}`;
+        }
         return `Survey "${d.survey_title}" was updated`;
       }
       case "SURVEY_DELETED": {
@@ -131,7 +143,10 @@ export default function ActivityFeed() {
       }
       case "SUMMARY_GENERATED": {
         const d = details as SummaryGeneratedDetails;
-        return `AI summary generated for "${d.survey_title}"`;
+        const countText = d.response_count
+          ? ` from ${d.response_count} response${d.response_count === 1 ? '' : 's'}`
+          : '';
+        return `AI summary generated for "${d.survey_title}"${countText}`;
       }
       case "SURVEY_EDITED": {
         const d = details as SurveyEditedDetails;
@@ -140,6 +155,11 @@ export default function ActivityFeed() {
           : '';
         return `Survey "${d.survey_title}" updated to v${d.version}${changelogText}`;
       }
+      case "QUOTA_FILLED": {
+        const d = details as QuotaFilledDetails;
+        const closedText = d.survey_closed ? " and the survey was closed" : "";
+        return `Quota "${d.quota_label}" reached ${d.limit} on "${d.survey_title}"${closedText}`;
+      }
       default:
         return "Activity event";
     }
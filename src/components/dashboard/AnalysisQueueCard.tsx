@@ -0,0 +1,105 @@
+"use client";
+
+import { ArrowPathIcon, ExclamationTriangleIcon, QueueListIcon } from "@heroicons/react/24/outline";
+import { useAnalysisQueue } from "@/hooks/useAnalysisQueue";
+import { useOrg } from "@/context";
+import { formatTimeAgo } from "@/lib/utils";
+
+/**
+ * AnalysisQueueCard Component
+ *
+ * Shows how many responses are waiting for sentiment analysis and lists
+ * the ones whose analysis failed after every retry, with a button to
+ * queue them again.
+ */
+export default function AnalysisQueueCard() {
+  const { status, loading, error, retrying, retryFailed, refetch } = useAnalysisQueue();
+  const { can } = useOrg();
+
+  if (loading || !status) {
+    return null;
+  }
+
+  const queued = status.pending + status.running;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-blue-50 text-[#2663EB] flex items-center justify-center">
+            <QueueListIcon className="w-5 h-5" />
+          </div>
+          <div>
+            <h3 className="font-heading text-lg font-semibold text-slate-900">Analysis Queue</h3>
+            <p className="font-body text-xs text-slate-500">
+              {queued === 0
+                ? "All responses analyzed"
+                : `${queued} response${queued === 1 ? "" : "s"} waiting` +
+                  (status.oldestQueuedAt ? `, oldest ${formatTimeAgo(status.oldestQueuedAt)}` : "")}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={refetch}
+          className="p-2 rounded-lg text-slate-500 hover:text-[#2663EB] hover:bg-slate-50 transition-colors"
+          title="Refresh"
+        >
+          <ArrowPathIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        <div>
+          <p className="font-heading text-2xl font-semibold text-slate-900">{status.pending}</p>
+          <p className="font-body text-xs text-slate-500">Pending</p>
+        </div>
+        <div>
+          <p className="font-heading text-2xl font-semibold text-slate-900">{status.running}</p>
+          <p className="font-body text-xs text-slate-500">Running</p>
+        </div>
+        <div>
+          <p className={`font-heading text-2xl font-semibold ${status.failed > 0 ? "text-red-600" : "text-slate-900"}`}>
+            {status.failed}
+          </p>
+          <p className="font-body text-xs text-slate-500">Failed</p>
+        </div>
+      </div>
+
+      {error && <p className="mb-3 font-body text-xs text-red-600">{error}</p>}
+
+      {status.failedJobs.length > 0 && (
+        <div className="border-t border-slate-100 pt-4">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-accent text-sm font-medium text-slate-700">Failed analyses</h4>
+            {can("survey:edit") && (
+              <button
+                onClick={retryFailed}
+                disabled={retrying}
+                className="px-3 py-1 font-accent text-xs font-medium rounded-full text-[#2663EB] border border-[#2663EB] hover:bg-blue-50 transition-colors disabled:opacity-50"
+              >
+                {retrying ? "Retrying..." : "Retry all"}
+              </button>
+            )}
+          </div>
+          <ul className="space-y-2">
+            {status.failedJobs.map((job) => (
+              <li key={job.id} className="flex items-start gap-2">
+                <ExclamationTriangleIcon className="w-4 h-4 mt-0.5 text-red-500 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="font-body text-sm text-slate-900 truncate">
+                    {job.surveyTitle ?? "Unknown survey"}
+                    <span className="text-slate-400"> · response {job.responseId.slice(0, 8)}</span>
+                  </p>
+                  <p className="font-body text-xs text-slate-500 truncate">
+                    {job.lastError ?? "Unknown error"} · {job.attempts} attempt{job.attempts === 1 ? "" : "s"} ·{" "}
+                    {formatTimeAgo(job.failedAt)}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
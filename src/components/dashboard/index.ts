@@ -1,4 +1,6 @@
 // Dashboard Components
 export { default as ActivityFeed } from './ActivityFeed';
+export { default as AIUsageCard } from './AIUsageCard';
+export { default as AnalysisQueueCard } from './AnalysisQueueCard';
 export { StatCard, StepCard, InsightCard } from './DashboardCards';
 
@@ -0,0 +1,202 @@
+import { PlusIcon, TrashIcon } from "@heroicons/react/24/outline";
+import type {
+  Question,
+  DisplayCondition,
+  DisplayConditionOperator,
+  DisplayLogic,
+} from "@/types/survey";
+import { DISPLAY_CONDITION_OPERATORS } from "@/lib/displayLogic";
+import { getInputSettings, getRatingSettings, getRatingValues } from "@/lib/questionSettings";
+
+// ─────────────────────────────────────────────
+// Display Logic Editor Component
+// ─────────────────────────────────────────────
+// Rule editor inside QuestionCard: "Show this question if all/any of
+// these conditions hold". Conditions can only point at earlier questions.
+
+interface DisplayLogicEditorProps {
+  logic?: DisplayLogic;
+  previousQuestions: Question[];
+  onChange: (logic: DisplayLogic | undefined) => void;
+}
+
+// Answer values a respondent could give for the source question
+function getAnswerChoices(source: Question | undefined): string[] | null {
+  if (!source) return null;
+  if (source.type === "multiple_choice" || source.type === "multi_select") return source.options || [];
+  if (source.type === "yes_no") return ["Yes", "No"];
+  if (source.type === "rating") return getRatingValues(getRatingSettings(source.settings)).map(String);
+  if (source.type === "nps") return Array.from({ length: 11 }, (_, score) => String(score));
+  return null;
+}
+
+// Sources whose answers can be compared with "at most" / "at least"
+function isNumericSource(source: Question | undefined): boolean {
+  if (!source) return false;
+  if (source.type === "rating" || source.type === "nps") return true;
+  return source.type === "short_text" && getInputSettings(source.settings).format === "number";
+}
+
+function createCondition(source: Question): DisplayCondition {
+  return {
+    questionId: source.id,
+    operator: "equals",
+    value: getAnswerChoices(source)?.[0] ?? "",
+  };
+}
+
+export function DisplayLogicEditor({
+  logic,
+  previousQuestions,
+  onChange,
+}: DisplayLogicEditorProps) {
+  // Matrix answers have one value per row, ranking answers contain every
+  // option and file answers are uploads, so none can drive a condition
+  const isSource = (q: Question) => !["matrix", "ranking", "file_upload"].includes(q.type);
+  const sourceQuestions = previousQuestions.filter(isSource);
+
+  // The first question has nothing to depend on
+  if (sourceQuestions.length === 0) return null;
+
+  const lastQuestion = sourceQuestions[sourceQuestions.length - 1];
+
+  const updateCondition = (conditionIndex: number, updates: Partial<DisplayCondition>) => {
+    if (!logic) return;
+    onChange({
+      ...logic,
+      conditions: logic.conditions.map((condition, i) =>
+        i === conditionIndex ? { ...condition, ...updates } : condition
+      ),
+    });
+  };
+
+  const removeCondition = (conditionIndex: number) => {
+    if (!logic) return;
+    const conditions = logic.conditions.filter((_, i) => i !== conditionIndex);
+    onChange(conditions.length > 0 ? { ...logic, conditions } : undefined);
+  };
+
+  const addCondition = () => {
+    onChange({
+      match: logic?.match ?? "all",
+      conditions: [...(logic?.conditions ?? []), createCondition(lastQuestion)],
+    });
+  };
+
+  if (!logic) {
+    return (
+      <div className="pl-8 mt-4">
+        <button
+          onClick={addCondition}
+          className="inline-flex items-center gap-1 px-3 py-1 text-[#2663EB] hover:bg-blue-50 font-accent text-sm font-medium rounded-lg transition-colors duration-200"
+        >
+          <PlusIcon className="w-4 h-4" />
+          Add display condition
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="pl-8 mt-4 space-y-2">
+      <div className="flex items-center gap-2 font-body text-sm text-slate-600">
+        <span>Show this question if</span>
+        <select
+          value={logic.match}
+          onChange={(e) => onChange({ ...logic, match: e.target.value as DisplayLogic["match"] })}
+          className="px-2 py-1 font-accent text-sm text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent"
+        >
+          <option value="all">all</option>
+          <option value="any">any</option>
+        </select>
+        <span>of these are true:</span>
+      </div>
+
+      {logic.conditions.map((condition, conditionIndex) => {
+        const source = sourceQuestions.find((q) => q.id === condition.questionId);
+        const choices = getAnswerChoices(source);
+        const operators = DISPLAY_CONDITION_OPERATORS.filter(
+          (op) => isNumericSource(source) || (op.value !== "at_most" && op.value !== "at_least")
+        );
+
+        return (
+          <div key={conditionIndex} className="flex flex-wrap items-center gap-2">
+            <select
+              value={source ? condition.questionId : ""}
+              onChange={(e) => {
+                const next = sourceQuestions.find((q) => q.id === e.target.value);
+                if (next) updateCondition(conditionIndex, createCondition(next));
+              }}
+              className="max-w-[14rem] px-2 py-1 font-body text-sm text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent"
+            >
+              {!source && <option value="">Select a question</option>}
+              {previousQuestions.map((q, i) =>
+                !isSource(q) ? null : (
+                  <option key={q.id} value={q.id}>
+                    Q{i + 1}. {q.text || "Untitled question"}
+                  </option>
+                )
+              )}
+            </select>
+
+            <select
+              value={condition.operator}
+              onChange={(e) =>
+                updateCondition(conditionIndex, {
+                  operator: e.target.value as DisplayConditionOperator,
+                })
+              }
+              className="px-2 py-1 font-accent text-sm text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent"
+            >
+              {operators.map((op) => (
+                <option key={op.value} value={op.value}>
+                  {/* Multi-select answers are lists, so "is" means "includes" */}
+                  {source?.type === "multi_select"
+                    ? op.value === "equals" ? "includes" : "does not include"
+                    : op.label}
+                </option>
+              ))}
+            </select>
+
+            {choices ? (
+              <select
+                value={condition.value}
+                onChange={(e) => updateCondition(conditionIndex, { value: e.target.value })}
+                className="px-2 py-1 font-body text-sm text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent"
+              >
+                {choices.map((choice) => (
+                  <option key={choice} value={choice}>
+                    {choice}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type={isNumericSource(source) ? "number" : "text"}
+                value={condition.value}
+                onChange={(e) => updateCondition(conditionIndex, { value: e.target.value })}
+                placeholder="Answer"
+                className="px-2 py-1 font-body text-sm text-slate-900 placeholder:text-slate-400 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent"
+              />
+            )}
+
+            <button
+              onClick={() => removeCondition(conditionIndex)}
+              className="p-1 text-slate-400 hover:text-red-500 transition-colors duration-200"
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={addCondition}
+        className="inline-flex items-center gap-1 px-3 py-1 text-[#2663EB] hover:bg-blue-50 font-accent text-sm font-medium rounded-lg transition-colors duration-200"
+      >
+        <PlusIcon className="w-4 h-4" />
+        Add condition
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import type { FileUploadSettings } from "@/types/survey";
+import { FILE_TYPE_GROUPS, FILE_SIZE_OPTIONS_MB } from "@/lib/questionSettings";
+
+// ─────────────────────────────────────────────
+// File Upload Settings Editor Component
+// ─────────────────────────────────────────────
+// Allowed file types (by group) and size limit for file upload questions.
+
+interface FileUploadSettingsEditorProps {
+  questionId: string;
+  file: FileUploadSettings;
+  onChange: (file: FileUploadSettings) => void;
+}
+
+export function FileUploadSettingsEditor({ questionId, file, onChange }: FileUploadSettingsEditorProps) {
+  const isGroupAllowed = (types: string[]) => types.every((type) => file.allowedTypes.includes(type));
+
+  const toggleGroup = (types: string[]) => {
+    const allowedTypes = isGroupAllowed(types)
+      ? file.allowedTypes.filter((type) => !types.includes(type))
+      : [...file.allowedTypes, ...types.filter((type) => !file.allowedTypes.includes(type))];
+
+    // At least one group must stay allowed
+    if (allowedTypes.length > 0) {
+      onChange({ ...file, allowedTypes });
+    }
+  };
+
+  return (
+    <div className="pl-8 mb-4 space-y-3">
+      <div>
+        <p className="font-body text-sm text-slate-600 mb-2">Allowed files:</p>
+        <div className="flex flex-wrap gap-4">
+          {FILE_TYPE_GROUPS.map((group) => (
+            <div key={group.label} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id={`file-types-${questionId}-${group.label}`}
+                checked={isGroupAllowed(group.types)}
+                onChange={() => toggleGroup(group.types)}
+                className="w-4 h-4 text-[#2663EB] border-slate-300 rounded focus:ring-2 focus:ring-[#2663EB]"
+              />
+              <label
+                htmlFor={`file-types-${questionId}-${group.label}`}
+                className="font-body text-sm text-slate-700"
+              >
+                {group.label}
+              </label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 font-body text-sm text-slate-600">
+        <span>Maximum size</span>
+        <select
+          value={file.maxSizeMb}
+          onChange={(e) => onChange({ ...file, maxSizeMb: Number(e.target.value) })}
+          className="px-2 py-1 font-accent text-sm text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent"
+        >
+          {FILE_SIZE_OPTIONS_MB.map((size) => (
+            <option key={size} value={size}>
+              {size} MB
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
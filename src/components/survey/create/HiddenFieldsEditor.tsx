@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { PlusIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { MAX_HIDDEN_FIELDS, isValidHiddenFieldName } from "@/lib/hiddenFields";
+
+// ─────────────────────────────────────────────
+// Hidden Fields Editor Component
+// ─────────────────────────────────────────────
+// Declares URL parameters (e.g. customer_id, campaign) captured from the
+// respond link and saved with each response.
+
+interface HiddenFieldsEditorProps {
+  fields: string[];
+  onChange: (fields: string[]) => void;
+}
+
+export function HiddenFieldsEditor({ fields, onChange }: HiddenFieldsEditorProps) {
+  const [name, setName] = useState("");
+
+  const isDuplicate = fields.includes(name);
+  const canAdd = isValidHiddenFieldName(name) && !isDuplicate && fields.length < MAX_HIDDEN_FIELDS;
+
+  const addField = () => {
+    if (!canAdd) return;
+    onChange([...fields, name]);
+    setName("");
+  };
+
+  return (
+    <div>
+      <label
+        htmlFor="hidden-field-name"
+        className="block font-body text-sm font-medium text-slate-700 mb-2"
+      >
+        Hidden Fields <span className="font-accent text-xs text-slate-400 ml-1">Optional</span>
+      </label>
+      <p className="font-body text-xs text-slate-500 mb-3">
+        Values passed in the survey link are saved with each response, e.g.{" "}
+        <code className="font-mono text-slate-700">
+          ?{(fields.length ? fields : ["customer_id", "campaign"]).map((field) => `${field}=…`).join("&")}
+        </code>
+      </p>
+
+      {fields.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {fields.map((field) => (
+            <span
+              key={field}
+              className="inline-flex items-center gap-1 pl-3 pr-1 py-1 bg-slate-100 font-mono text-xs text-slate-700 rounded-full"
+            >
+              {field}
+              <button
+                type="button"
+                onClick={() => onChange(fields.filter((f) => f !== field))}
+                aria-label={`Remove ${field}`}
+                className="p-0.5 text-slate-400 hover:text-red-500 rounded-full transition-colors duration-200"
+              >
+                <XMarkIcon className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          id="hidden-field-name"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value.trim())}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addField();
+            }
+          }}
+          placeholder="Field name, e.g. customer_id"
+          className="flex-1 px-4 py-2 font-mono text-sm text-slate-900 placeholder:text-slate-400 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent transition-all duration-200"
+        />
+        <button
+          type="button"
+          onClick={addField}
+          disabled={!canAdd}
+          className="inline-flex items-center gap-1 px-4 py-2 text-[#2663EB] hover:bg-blue-50 font-accent text-sm font-medium rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <PlusIcon className="w-4 h-4" />
+          Add field
+        </button>
+      </div>
+      {name && !canAdd && (
+        <p className="font-body text-xs text-red-600 mt-1">
+          {isDuplicate
+            ? "This field is already declared"
+            : fields.length >= MAX_HIDDEN_FIELDS
+              ? `Up to ${MAX_HIDDEN_FIELDS} hidden fields`
+              : "Use letters, digits and underscores, starting with a letter (q1, q2... are reserved)"}
+        </p>
+      )}
+    </div>
+  );
+}
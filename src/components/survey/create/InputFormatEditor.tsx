@@ -0,0 +1,121 @@
+import type { InputFormat, InputSettings } from "@/types/survey";
+import { INPUT_FORMATS, MAX_PATTERN_LENGTH, getPatternError } from "@/lib/questionSettings";
+
+// ─────────────────────────────────────────────
+// Input Format Editor Component
+// ─────────────────────────────────────────────
+// Format (text, email, number, date, phone, URL) and its limits for
+// short text questions. Respondents get a matching input and answers
+// are checked by the shared response validator.
+
+interface InputFormatEditorProps {
+  input: InputSettings;
+  onChange: (input: InputSettings) => void;
+}
+
+const fieldClassName =
+  "px-2 py-1 font-accent text-sm text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent";
+
+// Empty fields clear the limit
+const parseNumber = (value: string) => (value === "" ? undefined : Number(value));
+const parseText = (value: string) => (value === "" ? undefined : value);
+
+export function InputFormatEditor({ input, onChange }: InputFormatEditorProps) {
+  const patternError = input.pattern ? getPatternError(input.pattern) : null;
+
+  return (
+    <div className="pl-8 mb-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2 font-body text-sm text-slate-600">
+        <span>Answer format</span>
+        <select
+          value={input.format}
+          onChange={(e) => onChange({ format: e.target.value as InputFormat })}
+          className={fieldClassName}
+        >
+          {INPUT_FORMATS.map((format) => (
+            <option key={format.value} value={format.value}>
+              {format.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Number limits */}
+      {input.format === "number" && (
+        <div className="flex flex-wrap items-center gap-2 font-body text-sm text-slate-600">
+          <span>From</span>
+          <input
+            type="number"
+            value={input.min ?? ""}
+            onChange={(e) => onChange({ ...input, min: parseNumber(e.target.value) })}
+            placeholder="No minimum"
+            className={`${fieldClassName} w-32`}
+          />
+          <span>to</span>
+          <input
+            type="number"
+            value={input.max ?? ""}
+            onChange={(e) => onChange({ ...input, max: parseNumber(e.target.value) })}
+            placeholder="No maximum"
+            className={`${fieldClassName} w-32`}
+          />
+          <label className="flex items-center gap-2 ml-2">
+            <input
+              type="checkbox"
+              checked={input.integer ?? false}
+              onChange={(e) => onChange({ ...input, integer: e.target.checked })}
+              className="w-4 h-4 text-[#2663EB] border-slate-300 rounded focus:ring-2 focus:ring-[#2663EB]"
+            />
+            <span className="text-slate-700">Whole numbers only</span>
+          </label>
+        </div>
+      )}
+
+      {/* Date range */}
+      {input.format === "date" && (
+        <div className="flex flex-wrap items-center gap-2 font-body text-sm text-slate-600">
+          <span>Between</span>
+          <input
+            type="date"
+            value={input.minDate ?? ""}
+            max={input.maxDate}
+            onChange={(e) => onChange({ ...input, minDate: parseText(e.target.value) })}
+            className={fieldClassName}
+          />
+          <span>and</span>
+          <input
+            type="date"
+            value={input.maxDate ?? ""}
+            min={input.minDate}
+            onChange={(e) => onChange({ ...input, maxDate: parseText(e.target.value) })}
+            className={fieldClassName}
+          />
+        </div>
+      )}
+
+      {/* Custom pattern */}
+      {input.format === "text" && (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            value={input.pattern ?? ""}
+            maxLength={MAX_PATTERN_LENGTH}
+            onChange={(e) => onChange({ ...input, pattern: parseText(e.target.value) })}
+            placeholder="Pattern (optional regular expression, e.g. [A-Z]{3}-\d{4})"
+            className={`${fieldClassName} flex-1 py-2 font-mono`}
+          />
+          <input
+            type="text"
+            value={input.patternMessage ?? ""}
+            onChange={(e) => onChange({ ...input, patternMessage: parseText(e.target.value) })}
+            placeholder="Message when it doesn't match"
+            className={`${fieldClassName} flex-1 py-2 font-body`}
+          />
+        </div>
+      )}
+      {input.format === "text" && patternError && (
+        <p className="font-body text-xs text-red-600">{patternError}</p>
+      )}
+    </div>
+  );
+}
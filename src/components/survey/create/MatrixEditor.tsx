@@ -0,0 +1,84 @@
+import { PlusIcon, TrashIcon } from "@heroicons/react/24/outline";
+import type { MatrixSettings } from "@/types/survey";
+
+// ─────────────────────────────────────────────
+// Matrix Editor Component
+// ─────────────────────────────────────────────
+// Row statements and the shared column scale for matrix questions.
+
+interface MatrixEditorProps {
+  matrix: MatrixSettings;
+  onChange: (matrix: MatrixSettings) => void;
+}
+
+const MIN_ROWS = 1;
+const MIN_COLUMNS = 2;
+
+const inputClassName =
+  "flex-1 px-3 py-2 font-body text-sm text-slate-900 placeholder:text-slate-400 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent transition-all duration-200";
+
+interface ListEditorProps {
+  title: string;
+  items: string[];
+  minItems: number;
+  addLabel: string;
+  placeholder: (index: number) => string;
+  onChange: (items: string[]) => void;
+}
+
+function ListEditor({ title, items, minItems, addLabel, placeholder, onChange }: ListEditorProps) {
+  return (
+    <div className="flex-1 space-y-2">
+      <p className="font-body text-sm text-slate-600 mb-2">{title}</p>
+      {items.map((item, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={item}
+            onChange={(e) => onChange(items.map((current, i) => (i === index ? e.target.value : current)))}
+            placeholder={placeholder(index)}
+            className={inputClassName}
+          />
+          {items.length > minItems && (
+            <button
+              onClick={() => onChange(items.filter((_, i) => i !== index))}
+              className="p-1 text-slate-400 hover:text-red-500 transition-colors duration-200"
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...items, ""])}
+        className="inline-flex items-center gap-1 px-3 py-1 text-[#2663EB] hover:bg-blue-50 font-accent text-sm font-medium rounded-lg transition-colors duration-200"
+      >
+        <PlusIcon className="w-4 h-4" />
+        {addLabel}
+      </button>
+    </div>
+  );
+}
+
+export function MatrixEditor({ matrix, onChange }: MatrixEditorProps) {
+  return (
+    <div className="pl-8 mb-4 flex flex-col md:flex-row gap-6">
+      <ListEditor
+        title="Statements (rows):"
+        items={matrix.rows}
+        minItems={MIN_ROWS}
+        addLabel="Add Statement"
+        placeholder={(index) => `Statement ${index + 1}`}
+        onChange={(rows) => onChange({ ...matrix, rows })}
+      />
+      <ListEditor
+        title="Scale (columns):"
+        items={matrix.columns}
+        minItems={MIN_COLUMNS}
+        addLabel="Add Column"
+        placeholder={(index) => `Column ${index + 1}`}
+        onChange={(columns) => onChange({ ...matrix, columns })}
+      />
+    </div>
+  );
+}
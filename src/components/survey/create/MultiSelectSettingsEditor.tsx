@@ -0,0 +1,81 @@
+import type { MultiSelectSettings } from "@/types/survey";
+import { OTHER_OPTION_LABEL } from "@/lib/questionSettings";
+
+// ─────────────────────────────────────────────
+// Multi-Select Settings Editor Component
+// ─────────────────────────────────────────────
+// Selection limits and the "Other (please specify)" choice for
+// multi-select questions.
+
+interface MultiSelectSettingsEditorProps {
+  questionId: string;
+  optionCount: number;
+  multiSelect: MultiSelectSettings;
+  onChange: (multiSelect: MultiSelectSettings) => void;
+}
+
+const selectClassName =
+  "px-2 py-1 font-accent text-sm text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent";
+
+export function MultiSelectSettingsEditor({
+  questionId,
+  optionCount,
+  multiSelect,
+  onChange,
+}: MultiSelectSettingsEditorProps) {
+  // "Other" counts as one more choice
+  const choiceCount = optionCount + (multiSelect.allowOther ? 1 : 0);
+  const limits = Array.from({ length: choiceCount }, (_, i) => i + 1);
+
+  const parseLimit = (value: string) => (value === "" ? undefined : Number(value));
+
+  return (
+    <div className="pl-8 mb-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2 font-body text-sm text-slate-600">
+        <span>Choose at least</span>
+        <select
+          value={multiSelect.minSelections ?? ""}
+          onChange={(e) => onChange({ ...multiSelect, minSelections: parseLimit(e.target.value) })}
+          className={selectClassName}
+        >
+          <option value="">No minimum</option>
+          {limits
+            .filter((limit) => multiSelect.maxSelections === undefined || limit <= multiSelect.maxSelections)
+            .map((limit) => (
+              <option key={limit} value={limit}>
+                {limit}
+              </option>
+            ))}
+        </select>
+        <span>and at most</span>
+        <select
+          value={multiSelect.maxSelections ?? ""}
+          onChange={(e) => onChange({ ...multiSelect, maxSelections: parseLimit(e.target.value) })}
+          className={selectClassName}
+        >
+          <option value="">No maximum</option>
+          {limits
+            .filter((limit) => multiSelect.minSelections === undefined || limit >= multiSelect.minSelections)
+            .map((limit) => (
+              <option key={limit} value={limit}>
+                {limit}
+              </option>
+            ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          id={`allow-other-${questionId}`}
+          checked={multiSelect.allowOther ?? false}
+          onChange={(e) => onChange({ ...multiSelect, allowOther: e.target.checked })}
+          className="w-4 h-4 text-[#2663EB] border-slate-300 rounded focus:ring-2 focus:ring-[#2663EB]"
+        />
+        <label htmlFor={`allow-other-${questionId}`} className="font-body text-sm text-slate-700">
+          Add &quot;{OTHER_OPTION_LABEL}&quot;
+        </label>
+      </div>
+    </div>
+  );
+}
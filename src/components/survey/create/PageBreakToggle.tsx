@@ -0,0 +1,46 @@
+import { PlusIcon, XMarkIcon } from "@heroicons/react/24/outline";
+
+// ─────────────────────────────────────────────
+// Page Break Toggle Component
+// ─────────────────────────────────────────────
+// Sits between question cards in Step 2. When active, the question
+// below it starts a new page on the respond form.
+
+interface PageBreakToggleProps {
+  active: boolean;
+  pageNumber: number;
+  onToggle: () => void;
+}
+
+export function PageBreakToggle({ active, pageNumber, onToggle }: PageBreakToggleProps) {
+  if (!active) {
+    return (
+      <div className="flex justify-center -my-3">
+        <button
+          onClick={onToggle}
+          className="inline-flex items-center gap-1 px-3 py-1 text-slate-400 hover:text-[#2663EB] hover:bg-blue-50 font-accent text-xs font-medium rounded-full transition-colors duration-200"
+        >
+          <PlusIcon className="w-3 h-3" />
+          Page break
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3">
+      <div className="flex-1 border-t-2 border-dashed border-[#2663EB]/40" />
+      <span className="inline-flex items-center gap-1 px-3 py-1 bg-blue-50 text-[#2663EB] font-accent text-xs font-medium rounded-full">
+        Page {pageNumber}
+        <button
+          onClick={onToggle}
+          className="p-0.5 hover:text-red-500 transition-colors duration-200"
+          aria-label="Remove page break"
+        >
+          <XMarkIcon className="w-3 h-3" />
+        </button>
+      </span>
+      <div className="flex-1 border-t-2 border-dashed border-[#2663EB]/40" />
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { ExclamationTriangleIcon } from "@heroicons/react/24/outline";
+import type { Question } from "@/types/survey";
+import { buildQuestionPlaceholder, getPipingReferences } from "@/lib/answerPiping";
+
+// ─────────────────────────────────────────────
+// Piping Variable Picker Component
+// ─────────────────────────────────────────────
+// "Insert variable" menu under the question text: earlier answers as
+// {{qN}} or a URL parameter as {{name}}. Also flags {{qN}} references
+// that cannot be filled in.
+
+interface PipingVariablePickerProps {
+  text: string;
+  questionNumber: number;
+  previousQuestions: Question[];
+  onInsert: (placeholder: string) => void;
+}
+
+const URL_PARAM_OPTION = "__url_param__";
+const PARAM_NAME_PATTERN = /^[A-Za-z][\w-]*$/;
+
+export function PipingVariablePicker({
+  text,
+  questionNumber,
+  previousQuestions,
+  onInsert,
+}: PipingVariablePickerProps) {
+  const [isAddingParam, setIsAddingParam] = useState(false);
+  const [paramName, setParamName] = useState("");
+
+  // Question references must point at an earlier question
+  const brokenReferences = getPipingReferences(text).filter(
+    (reference) =>
+      reference.questionNumber !== null &&
+      (reference.questionNumber < 1 || reference.questionNumber >= questionNumber)
+  );
+
+  const isValidParam = PARAM_NAME_PATTERN.test(paramName) && !/^q\d+$/i.test(paramName);
+
+  const insertParam = () => {
+    if (!isValidParam) return;
+    onInsert(`{{${paramName}}}`);
+    setParamName("");
+    setIsAddingParam(false);
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value=""
+          onChange={(e) => {
+            if (e.target.value === URL_PARAM_OPTION) {
+              setIsAddingParam(true);
+            } else if (e.target.value) {
+              onInsert(buildQuestionPlaceholder(Number(e.target.value)));
+            }
+          }}
+          className="max-w-[16rem] px-2 py-1 font-accent text-xs text-slate-600 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent"
+        >
+          <option value="">Insert variable...</option>
+          {previousQuestions.length > 0 && (
+            <optgroup label="Earlier answers">
+              {previousQuestions.map((q, i) => (
+                <option key={q.id} value={i + 1}>
+                  Q{i + 1}. {q.text || "Untitled question"}
+                </option>
+              ))}
+            </optgroup>
+          )}
+          <option value={URL_PARAM_OPTION}>URL parameter...</option>
+        </select>
+
+        {isAddingParam && (
+          <>
+            <input
+              type="text"
+              value={paramName}
+              onChange={(e) => setParamName(e.target.value.trim())}
+              onKeyDown={(e) => e.key === "Enter" && insertParam()}
+              placeholder="Parameter name, e.g. name"
+              autoFocus
+              className="px-2 py-1 font-accent text-xs text-slate-900 placeholder:text-slate-400 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent"
+            />
+            <button
+              type="button"
+              onClick={insertParam}
+              disabled={!isValidParam}
+              className="px-2 py-1 text-[#2663EB] hover:bg-blue-50 font-accent text-xs font-medium rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Insert
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setParamName("");
+                setIsAddingParam(false);
+              }}
+              className="px-2 py-1 text-slate-500 hover:bg-slate-50 font-accent text-xs rounded-lg transition-colors duration-200"
+            >
+              Cancel
+            </button>
+          </>
+        )}
+      </div>
+
+      {brokenReferences.map((reference, i) => (
+        <p key={`${reference.token}-${i}`} className="flex items-center gap-1 font-body text-xs text-amber-700">
+          <ExclamationTriangleIcon className="w-4 h-4 shrink-0" />
+          {reference.questionNumber! < 1
+            ? `${reference.token} refers to a question that was removed`
+            : `${reference.token} must refer to an earlier question`}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -1,7 +1,24 @@
+import { useRef } from "react";
 import { PlusIcon, TrashIcon, Bars3Icon } from "@heroicons/react/24/outline";
 import type { Question, QuestionType } from "@/types/survey";
+import { OPTION_QUESTION_TYPES } from "@/types/survey";
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
+import { DisplayLogicEditor } from "./DisplayLogicEditor";
+import { RatingScaleEditor } from "./RatingScaleEditor";
+import { MultiSelectSettingsEditor } from "./MultiSelectSettingsEditor";
+import { MatrixEditor } from "./MatrixEditor";
+import { FileUploadSettingsEditor } from "./FileUploadSettingsEditor";
+import { InputFormatEditor } from "./InputFormatEditor";
+import { PipingVariablePicker } from "./PipingVariablePicker";
+import { RandomizationEditor } from "./RandomizationEditor";
+import {
+  getRatingSettings,
+  getMultiSelectSettings,
+  getFileUploadSettings,
+  getInputSettings,
+  DEFAULT_MATRIX_SETTINGS,
+} from "@/lib/questionSettings";
 
 // ─────────────────────────────────────────────
 // Question Card Component
@@ -10,6 +27,9 @@ import { CSS } from "@dnd-kit/utilities";
 interface QuestionCardProps {
   question: Question;
   index: number;
+  previousQuestions: Question[];
+  randomizeQuestions: boolean;
+  isLogicSource: boolean; // A later question's display logic reads this one
   updateQuestion: (id: string, updates: Partial<Question>) => void;
   deleteQuestion: (id: string) => void;
   addOption: (questionId: string) => void;
@@ -20,6 +40,9 @@ interface QuestionCardProps {
 export function QuestionCard({
   question,
   index,
+  previousQuestions,
+  randomizeQuestions,
+  isLogicSource,
   updateQuestion,
   deleteQuestion,
   addOption,
@@ -42,6 +65,30 @@ export function QuestionCard({
     opacity: isDragging ? 0.5 : 1,
   };
 
+  const hasOptions = OPTION_QUESTION_TYPES.includes(question.type);
+  const textInputRef = useRef<HTMLInputElement>(null);
+
+  // Insert at the cursor, or at the end when the field was never focused
+  const insertVariable = (placeholder: string) => {
+    const input = textInputRef.current;
+    const start = input?.selectionStart ?? question.text.length;
+    const end = input?.selectionEnd ?? question.text.length;
+    updateQuestion(question.id, {
+      text: question.text.slice(0, start) + placeholder + question.text.slice(end),
+    });
+  };
+
+  // Choice and matrix types need something to edit; give them the defaults when switching
+  const changeType = (type: QuestionType) => {
+    const needsOptions = OPTION_QUESTION_TYPES.includes(type);
+    const needsMatrix = type === "matrix" && !question.settings?.matrix;
+    updateQuestion(question.id, {
+      type,
+      ...(needsOptions && !question.options?.length && { options: ["Option 1", "Option 2"] }),
+      ...(needsMatrix && { settings: { ...question.settings, matrix: DEFAULT_MATRIX_SETTINGS } }),
+    });
+  };
+
   return (
     <div
       ref={setNodeRef}
@@ -61,12 +108,19 @@ export function QuestionCard({
           </button>
           <div className="flex-1">
             <input
+              ref={textInputRef}
               type="text"
               value={question.text}
               onChange={(e) => updateQuestion(question.id, { text: e.target.value })}
               placeholder="Enter your question..."
               className="w-full px-3 py-2 font-body text-base text-slate-900 placeholder:text-slate-400 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent transition-all duration-200"
             />
+            <PipingVariablePicker
+              text={question.text}
+              questionNumber={index + 1}
+              previousQuestions={previousQuestions}
+              onInsert={insertVariable}
+            />
           </div>
         </div>
         <button
@@ -81,26 +135,51 @@ export function QuestionCard({
       <div className="mb-4">
         <select
           value={question.type}
-          onChange={(e) =>
-            updateQuestion(question.id, { type: e.target.value as QuestionType })
-          }
+          onChange={(e) => changeType(e.target.value as QuestionType)}
           className="px-3 py-2 font-accent text-sm text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent transition-all duration-200"
         >
           <option value="short_text">📝 Short Text</option>
           <option value="long_text">📄 Long Text</option>
           <option value="multiple_choice">☑️ Multiple Choice</option>
+          <option value="multi_select">✅ Checkboxes</option>
+          <option value="matrix">▦ Matrix</option>
+          <option value="ranking">🔢 Ranking</option>
+          <option value="file_upload">📎 File Upload</option>
           <option value="rating">⭐ Rating Scale</option>
           <option value="yes_no">✓✗ Yes/No</option>
+          <option value="nps">📣 NPS (0-10)</option>
         </select>
       </div>
 
-      {/* Multiple Choice Options */}
-      {question.type === "multiple_choice" && question.options && (
+      {/* Short Text Format */}
+      {question.type === "short_text" && (
+        <InputFormatEditor
+          input={getInputSettings(question.settings)}
+          onChange={(input) =>
+            updateQuestion(question.id, { settings: { ...question.settings, input } })
+          }
+        />
+      )}
+
+      {/* Multiple Choice / Multi-Select / Ranking Options */}
+      {hasOptions && question.options && (
         <div className="space-y-2 mb-4 pl-8">
-          <p className="font-body text-sm text-slate-600 mb-2">Options:</p>
+          <p className="font-body text-sm text-slate-600 mb-2">
+            {question.type === "ranking" ? "Options to rank:" : "Options:"}
+          </p>
           {question.options.map((option, optionIndex) => (
             <div key={optionIndex} className="flex items-center gap-2">
-              <span className="w-6 h-6 rounded-full border-2 border-slate-300 flex-shrink-0" />
+              {question.type === "ranking" ? (
+                <span className="w-6 flex-shrink-0 font-accent text-sm font-semibold text-slate-500 text-center">
+                  {optionIndex + 1}.
+                </span>
+              ) : (
+                <span
+                  className={`w-6 h-6 border-2 border-slate-300 flex-shrink-0 ${
+                    question.type === "multi_select" ? "rounded" : "rounded-full"
+                  }`}
+                />
+              )}
               <input
                 type="text"
                 value={option}
@@ -127,20 +206,67 @@ export function QuestionCard({
         </div>
       )}
 
-      {/* Rating Preview */}
+      {/* Multi-Select Settings */}
+      {question.type === "multi_select" && (
+        <MultiSelectSettingsEditor
+          questionId={question.id}
+          optionCount={question.options?.length ?? 0}
+          multiSelect={getMultiSelectSettings(question.settings)}
+          onChange={(multiSelect) =>
+            updateQuestion(question.id, { settings: { ...question.settings, multiSelect } })
+          }
+        />
+      )}
+
+      {/* Matrix Rows and Columns */}
+      {question.type === "matrix" && (
+        <MatrixEditor
+          matrix={question.settings?.matrix ?? DEFAULT_MATRIX_SETTINGS}
+          onChange={(matrix) =>
+            updateQuestion(question.id, { settings: { ...question.settings, matrix } })
+          }
+        />
+      )}
+
+      {/* File Upload Limits */}
+      {question.type === "file_upload" && (
+        <FileUploadSettingsEditor
+          questionId={question.id}
+          file={getFileUploadSettings(question.settings)}
+          onChange={(file) =>
+            updateQuestion(question.id, { settings: { ...question.settings, file } })
+          }
+        />
+      )}
+
+      {/* Rating Scale */}
       {question.type === "rating" && (
+        <RatingScaleEditor
+          rating={getRatingSettings(question.settings)}
+          onChange={(rating) =>
+            updateQuestion(question.id, { settings: { ...question.settings, rating } })
+          }
+        />
+      )}
+
+      {/* NPS Preview */}
+      {question.type === "nps" && (
         <div className="pl-8 mb-4">
           <p className="font-body text-sm text-slate-600 mb-2">Preview:</p>
-          <div className="flex gap-2">
-            {[1, 2, 3, 4, 5].map((star) => (
+          <div className="flex flex-wrap gap-1">
+            {Array.from({ length: 11 }, (_, score) => (
               <div
-                key={star}
-                className="w-10 h-10 rounded-lg border-2 border-slate-300 flex items-center justify-center font-accent text-sm font-semibold text-slate-600"
+                key={score}
+                className="w-8 h-8 rounded-lg border-2 border-slate-300 flex items-center justify-center font-accent text-xs font-semibold text-slate-600"
               >
-                {star}
+                {score}
               </div>
             ))}
           </div>
+          <div className="flex justify-between max-w-[23rem] mt-1 font-body text-xs text-slate-500">
+            <span>Not at all likely</span>
+            <span>Extremely likely</span>
+          </div>
         </div>
       )}
 
@@ -175,6 +301,26 @@ export function QuestionCard({
           Required question
         </label>
       </div>
+
+      {/* Question and Option Order */}
+      <RandomizationEditor
+        questionId={question.id}
+        randomization={question.settings?.randomization ?? {}}
+        canPin={randomizeQuestions}
+        canShuffleOptions={hasOptions}
+        hasDisplayLogic={!!question.displayLogic?.conditions.length}
+        isLogicSource={isLogicSource}
+        onChange={(randomization) =>
+          updateQuestion(question.id, { settings: { ...question.settings, randomization } })
+        }
+      />
+
+      {/* Display Logic */}
+      <DisplayLogicEditor
+        logic={question.displayLogic}
+        previousQuestions={previousQuestions}
+        onChange={(displayLogic) => updateQuestion(question.id, { displayLogic })}
+      />
     </div>
   );
 }
@@ -0,0 +1,153 @@
+import { PlusIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import type { Question, ResponseQuota } from "@/types/survey";
+import { MAX_QUOTAS, QUOTA_QUESTION_TYPES } from "@/lib/quotas";
+
+// ─────────────────────────────────────────────
+// Quota Editor Component
+// ─────────────────────────────────────────────
+// Caps how many responses the survey accepts, in total and per segment
+// (each answer to a single-choice question or each value of a hidden
+// field). The survey closes itself once it is full.
+
+interface QuotaEditorProps {
+  questions: Question[];
+  hiddenFields: string[];
+  responseLimit: number | null;
+  quotas: ResponseQuota[];
+  onResponseLimitChange: (responseLimit: number | null) => void;
+  onQuotasChange: (quotas: ResponseQuota[]) => void;
+}
+
+const DEFAULT_QUOTA_LIMIT = 50;
+
+// Select values: "question:<builder id>" or "hidden_field:<name>"
+const sourceKey = (quota: ResponseQuota) =>
+  quota.source === "question" ? `question:${quota.questionId}` : `hidden_field:${quota.field}`;
+
+const quotaFromKey = (key: string, limit: number): ResponseQuota => {
+  const [source, ...rest] = key.split(":");
+  const value = rest.join(":");
+  return source === "question"
+    ? { source: "question", questionId: value, limit }
+    : { source: "hidden_field", field: value, limit };
+};
+
+// Positive whole number from an input, or null when empty or invalid
+const parseLimit = (value: string) => {
+  const limit = Number(value);
+  return value && Number.isInteger(limit) && limit > 0 ? limit : null;
+};
+
+const inputClassName =
+  "px-3 py-2 font-body text-sm text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent transition-all duration-200";
+
+export function QuotaEditor({
+  questions,
+  hiddenFields,
+  responseLimit,
+  quotas,
+  onResponseLimitChange,
+  onQuotasChange,
+}: QuotaEditorProps) {
+  const sources = [
+    ...questions.flatMap((question, index) =>
+      QUOTA_QUESTION_TYPES.includes(question.type)
+        ? [{ key: `question:${question.id}`, label: `Q${index + 1}: ${question.text || "Untitled question"}` }]
+        : []
+    ),
+    ...hiddenFields.map((field) => ({ key: `hidden_field:${field}`, label: `Hidden field: ${field}` })),
+  ];
+
+  // Quotas on deleted questions or removed hidden fields are dropped on save
+  const visibleQuotas = quotas.filter((quota) => sources.some((s) => s.key === sourceKey(quota)));
+  const usedKeys = visibleQuotas.map(sourceKey);
+  const unusedSource = sources.find((s) => !usedKeys.includes(s.key));
+  const canAdd = !!unusedSource && visibleQuotas.length < MAX_QUOTAS;
+
+  const updateQuota = (index: number, quota: ResponseQuota) => {
+    onQuotasChange(visibleQuotas.map((q, i) => (i === index ? quota : q)));
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-8">
+      <h3 className="font-heading text-lg font-semibold text-slate-900 mb-1">
+        Response Quotas <span className="font-accent text-xs text-slate-400 ml-1">Optional</span>
+      </h3>
+      <p className="font-body text-sm text-slate-600 mb-4">
+        The survey closes automatically once it has enough responses.
+      </p>
+
+      <label htmlFor="response-limit" className="block font-body text-sm font-medium text-slate-700 mb-2">
+        Total responses
+      </label>
+      <input
+        id="response-limit"
+        type="number"
+        min={1}
+        value={responseLimit ?? ""}
+        onChange={(e) => onResponseLimitChange(parseLimit(e.target.value))}
+        placeholder="No limit"
+        className={`w-40 ${inputClassName}`}
+      />
+
+      <p className="block font-body text-sm font-medium text-slate-700 mt-6 mb-1">Per segment</p>
+      <p className="font-body text-xs text-slate-500 mb-3">
+        {sources.length > 0
+          ? "Accept at most this many responses for each answer or hidden field value."
+          : "Add a multiple choice or yes/no question, or declare a hidden field, to set per-segment quotas."}
+      </p>
+
+      {visibleQuotas.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {visibleQuotas.map((quota, index) => (
+            <div key={sourceKey(quota)} className="flex items-center gap-2">
+              <select
+                value={sourceKey(quota)}
+                onChange={(e) => updateQuota(index, quotaFromKey(e.target.value, quota.limit))}
+                aria-label="Segment"
+                className={`flex-1 min-w-0 ${inputClassName}`}
+              >
+                {sources
+                  .filter((s) => s.key === sourceKey(quota) || !usedKeys.includes(s.key))
+                  .map((s) => (
+                    <option key={s.key} value={s.key}>
+                      {s.label}
+                    </option>
+                  ))}
+              </select>
+              <span className="font-body text-sm text-slate-500">max</span>
+              <input
+                type="number"
+                min={1}
+                value={quota.limit}
+                onChange={(e) => updateQuota(index, { ...quota, limit: parseLimit(e.target.value) ?? 1 })}
+                aria-label="Responses per segment value"
+                className={`w-24 ${inputClassName}`}
+              />
+              <button
+                type="button"
+                onClick={() => onQuotasChange(visibleQuotas.filter((_, i) => i !== index))}
+                aria-label="Remove quota"
+                className="p-1 text-slate-400 hover:text-red-500 rounded transition-colors duration-200"
+              >
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {sources.length > 0 && (
+        <button
+          type="button"
+          onClick={() => unusedSource && onQuotasChange([...visibleQuotas, quotaFromKey(unusedSource.key, DEFAULT_QUOTA_LIMIT)])}
+          disabled={!canAdd}
+          className="inline-flex items-center gap-1 px-4 py-2 text-[#2663EB] hover:bg-blue-50 font-accent text-sm font-medium rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <PlusIcon className="w-4 h-4" />
+          Add quota
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import type { RandomizationSettings } from "@/types/survey";
+
+// ─────────────────────────────────────────────
+// Randomization Editor Component
+// ─────────────────────────────────────────────
+// Per-question order controls: pin the question when the survey shuffles
+// question order, and shuffle its options (optionally keeping the last
+// one, e.g. "Other" or "None of the above", at the end).
+
+interface RandomizationEditorProps {
+  questionId: string;
+  randomization: RandomizationSettings;
+  canPin: boolean; // The survey shuffles question order
+  canShuffleOptions: boolean; // Choice and ranking questions
+  hasDisplayLogic: boolean;
+  isLogicSource: boolean; // Another question's display logic reads this one
+  onChange: (randomization: RandomizationSettings) => void;
+}
+
+const checkboxClassName =
+  "w-4 h-4 text-[#2663EB] border-slate-300 rounded focus:ring-2 focus:ring-[#2663EB]";
+
+export function RandomizationEditor({
+  questionId,
+  randomization,
+  canPin,
+  canShuffleOptions,
+  hasDisplayLogic,
+  isLogicSource,
+  onChange,
+}: RandomizationEditorProps) {
+  if (!canPin && !canShuffleOptions) return null;
+
+  const isLocked = hasDisplayLogic || isLogicSource;
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-6 gap-y-2 pl-8 mt-2">
+      {canPin && (
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id={`pinned-${questionId}`}
+            // Questions with display logic, and the questions it reads, never move
+            checked={isLocked || !!randomization.pinned}
+            disabled={isLocked}
+            onChange={(e) => onChange({ ...randomization, pinned: e.target.checked })}
+            className={checkboxClassName}
+          />
+          <label htmlFor={`pinned-${questionId}`} className="font-body text-sm text-slate-700">
+            {hasDisplayLogic
+              ? "Keeps its place (has display logic)"
+              : isLogicSource
+                ? "Keeps its place (used by display logic)"
+                : "Keep in place when shuffling"}
+          </label>
+        </div>
+      )}
+
+      {canShuffleOptions && (
+        <>
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id={`shuffle-${questionId}`}
+              checked={!!randomization.shuffleOptions}
+              onChange={(e) =>
+                onChange({
+                  ...randomization,
+                  shuffleOptions: e.target.checked,
+                  keepLastOptionFixed: e.target.checked && randomization.keepLastOptionFixed,
+                })
+              }
+              className={checkboxClassName}
+            />
+            <label htmlFor={`shuffle-${questionId}`} className="font-body text-sm text-slate-700">
+              Shuffle options
+            </label>
+          </div>
+          {randomization.shuffleOptions && (
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id={`keep-last-${questionId}`}
+                checked={!!randomization.keepLastOptionFixed}
+                onChange={(e) => onChange({ ...randomization, keepLastOptionFixed: e.target.checked })}
+                className={checkboxClassName}
+              />
+              <label htmlFor={`keep-last-${questionId}`} className="font-body text-sm text-slate-700">
+                Keep last option fixed
+              </label>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
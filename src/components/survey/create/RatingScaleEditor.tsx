@@ -0,0 +1,130 @@
+import type { RatingSettings, RatingStyle } from "@/types/survey";
+import {
+  RATING_MIN_OPTIONS,
+  RATING_MAX_OPTIONS,
+  RATING_STEP_OPTIONS,
+  getRatingValues,
+  getRatingFace,
+} from "@/lib/questionSettings";
+
+// ─────────────────────────────────────────────
+// Rating Scale Editor Component
+// ─────────────────────────────────────────────
+// Range, step, endpoint labels and display style for rating questions,
+// with a live preview of what respondents will see.
+
+interface RatingScaleEditorProps {
+  rating: RatingSettings;
+  onChange: (rating: RatingSettings) => void;
+}
+
+const STYLE_OPTIONS: { value: RatingStyle; label: string }[] = [
+  { value: "numbers", label: "Numbers" },
+  { value: "stars", label: "Stars" },
+  { value: "emoji", label: "Emoji faces" },
+];
+
+const selectClassName =
+  "px-2 py-1 font-accent text-sm text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent";
+
+const inputClassName =
+  "flex-1 px-3 py-2 font-body text-sm text-slate-900 placeholder:text-slate-400 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent transition-all duration-200";
+
+export function RatingScaleEditor({ rating, onChange }: RatingScaleEditorProps) {
+  const values = getRatingValues(rating);
+
+  return (
+    <div className="pl-8 mb-4 space-y-3">
+      {/* Range, step and style */}
+      <div className="flex flex-wrap items-center gap-2 font-body text-sm text-slate-600">
+        <span>From</span>
+        <select
+          value={rating.min}
+          onChange={(e) => onChange({ ...rating, min: Number(e.target.value) })}
+          className={selectClassName}
+        >
+          {RATING_MIN_OPTIONS.map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+        <span>to</span>
+        <select
+          value={rating.max}
+          onChange={(e) => onChange({ ...rating, max: Number(e.target.value) })}
+          className={selectClassName}
+        >
+          {RATING_MAX_OPTIONS.map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+        <span>in steps of</span>
+        <select
+          value={rating.step}
+          onChange={(e) => onChange({ ...rating, step: Number(e.target.value) })}
+          className={selectClassName}
+        >
+          {RATING_STEP_OPTIONS.map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+        <span>shown as</span>
+        <select
+          value={rating.style}
+          onChange={(e) => onChange({ ...rating, style: e.target.value as RatingStyle })}
+          className={selectClassName}
+        >
+          {STYLE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Endpoint labels */}
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={rating.minLabel ?? ""}
+          onChange={(e) => onChange({ ...rating, minLabel: e.target.value })}
+          placeholder={`Label for ${rating.min} (e.g. Poor)`}
+          className={inputClassName}
+        />
+        <input
+          type="text"
+          value={rating.maxLabel ?? ""}
+          onChange={(e) => onChange({ ...rating, maxLabel: e.target.value })}
+          placeholder={`Label for ${rating.max} (e.g. Excellent)`}
+          className={inputClassName}
+        />
+      </div>
+
+      {/* Preview */}
+      <div>
+        <p className="font-body text-sm text-slate-600 mb-2">Preview:</p>
+        <div className="flex flex-wrap gap-2">
+          {values.map((value) => (
+            <div
+              key={value}
+              className="min-w-10 h-10 px-2 rounded-lg border-2 border-slate-300 flex items-center justify-center font-accent text-sm font-semibold text-slate-600"
+            >
+              {rating.style === "stars" ? "★" : rating.style === "emoji" ? getRatingFace(value, rating) : value}
+            </div>
+          ))}
+        </div>
+        {(rating.minLabel || rating.maxLabel) && (
+          <div className="flex justify-between mt-1 font-body text-xs text-slate-500">
+            <span>{rating.minLabel}</span>
+            <span>{rating.maxLabel}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
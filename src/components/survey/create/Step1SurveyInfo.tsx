@@ -1,5 +1,6 @@
 import type { SurveyData } from "@/types/survey";
 import { CheckCircleIcon } from "@heroicons/react/24/solid";
+import { HiddenFieldsEditor } from "./HiddenFieldsEditor";
 
 // ─────────────────────────────────────────────
 // STEP 1: Survey Info Component
@@ -226,6 +227,12 @@ export function Step1SurveyInfo({ surveyData, setSurveyData }: Step1SurveyInfoPr
             placeholder="e.g., New Customers, All Users, Beta Testers"
           />
         </div>
+
+        {/* Hidden Fields */}
+        <HiddenFieldsEditor
+          fields={surveyData.hiddenFields ?? []}
+          onChange={(hiddenFields) => setSurveyData({ ...surveyData, hiddenFields })}
+        />
       </div>
     </div>
   );
@@ -1,8 +1,11 @@
+import { Fragment } from "react";
 import { SparklesIcon } from "@heroicons/react/24/outline";
-import type { SurveyData, QuestionType, Question } from "@/types/survey";
+import type { SurveyData, QuestionType, Question, ResponseQuota } from "@/types/survey";
 import { QUESTION_TYPES } from "@/types/survey";
 import { QuestionTypeButton } from "./QuestionTypeButton";
 import { QuestionCard } from "./QuestionCard";
+import { PageBreakToggle } from "./PageBreakToggle";
+import { QuotaEditor } from "./QuotaEditor";
 import {
   DndContext,
   closestCenter,
@@ -28,6 +31,9 @@ interface Step2AddQuestionsProps {
   updateQuestion: (id: string, updates: Partial<Question>) => void;
   deleteQuestion: (id: string) => void;
   reorderQuestions: (activeId: string, overId: string) => void;
+  setRandomizeQuestions: (randomizeQuestions: boolean) => void;
+  setResponseLimit: (responseLimit: number | null) => void;
+  setQuotas: (quotas: ResponseQuota[]) => void;
   addOption: (questionId: string) => void;
   updateOption: (questionId: string, optionIndex: number, value: string) => void;
   deleteOption: (questionId: string, optionIndex: number) => void;
@@ -41,6 +47,9 @@ export function Step2AddQuestions({
   updateQuestion,
   deleteQuestion,
   reorderQuestions,
+  setRandomizeQuestions,
+  setResponseLimit,
+  setQuotas,
   addOption,
   updateOption,
   deleteOption,
@@ -59,6 +68,13 @@ export function Step2AddQuestions({
     })
   );
 
+  // Questions read by another question's display logic keep their place when shuffling
+  const logicSourceIds = new Set(
+    surveyData.questions.flatMap((question) =>
+      (question.displayLogic?.conditions ?? []).map((condition) => condition.questionId)
+    )
+  );
+
   // Handle drag end
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
@@ -67,6 +83,11 @@ export function Step2AddQuestions({
       reorderQuestions(active.id as string, over.id as string);
     }
   };
+
+  // Page number that starts at the question with this index
+  const getPageNumber = (index: number) =>
+    1 + surveyData.questions.slice(1, index + 1).filter((q) => q.pageBreakBefore).length;
+
   return (
     <div className="space-y-6">
       {/* Header with AI Button */}
@@ -92,6 +113,25 @@ export function Step2AddQuestions({
           </button>
         </div>
 
+        {/* Question Order */}
+        {surveyData.questions.length > 1 && (
+          <div className="flex items-start gap-2 mb-6">
+            <input
+              type="checkbox"
+              id="randomize-questions"
+              checked={!!surveyData.randomizeQuestions}
+              onChange={(e) => setRandomizeQuestions(e.target.checked)}
+              className="w-4 h-4 mt-0.5 text-[#2663EB] border-slate-300 rounded focus:ring-2 focus:ring-[#2663EB]"
+            />
+            <label htmlFor="randomize-questions" className="font-body text-sm text-slate-700">
+              Randomize question order for each respondent
+              <span className="block text-xs text-slate-500">
+                Questions are shuffled within their page. Pinned questions, questions with display logic and the questions their logic depends on keep their place.
+              </span>
+            </label>
+          </div>
+        )}
+
         {/* Add Question Buttons - Show when no questions */}
         {surveyData.questions.length === 0 && (
           <div className="flex flex-wrap gap-3">
@@ -121,16 +161,29 @@ export function Step2AddQuestions({
               strategy={verticalListSortingStrategy}
             >
               {surveyData.questions.map((question, index) => (
-                <QuestionCard
-                  key={question.id}
-                  question={question}
-                  index={index}
-                  updateQuestion={updateQuestion}
-                  deleteQuestion={deleteQuestion}
-                  addOption={addOption}
-                  updateOption={updateOption}
-                  deleteOption={deleteOption}
-                />
+                <Fragment key={question.id}>
+                  {index > 0 && (
+                    <PageBreakToggle
+                      active={!!question.pageBreakBefore}
+                      pageNumber={getPageNumber(index)}
+                      onToggle={() =>
+                        updateQuestion(question.id, { pageBreakBefore: !question.pageBreakBefore })
+                      }
+                    />
+                  )}
+                  <QuestionCard
+                    question={question}
+                    index={index}
+                    previousQuestions={surveyData.questions.slice(0, index)}
+                    randomizeQuestions={!!surveyData.randomizeQuestions}
+                    isLogicSource={logicSourceIds.has(question.id)}
+                    updateQuestion={updateQuestion}
+                    deleteQuestion={deleteQuestion}
+                    addOption={addOption}
+                    updateOption={updateOption}
+                    deleteOption={deleteOption}
+                  />
+                </Fragment>
               ))}
             </SortableContext>
           </DndContext>
@@ -152,6 +205,16 @@ export function Step2AddQuestions({
               ))}
             </div>
           </div>
+
+          {/* Response Quotas */}
+          <QuotaEditor
+            questions={surveyData.questions}
+            hiddenFields={surveyData.hiddenFields ?? []}
+            responseLimit={surveyData.responseLimit ?? null}
+            quotas={surveyData.quotas ?? []}
+            onResponseLimitChange={setResponseLimit}
+            onQuotasChange={setQuotas}
+          />
         </>
       )}
     </div>
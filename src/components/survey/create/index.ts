@@ -9,5 +9,15 @@ export { Step3Review } from "./Step3Review";
 export { NavigationButtons } from "./NavigationButtons";
 export { PublishModal } from "./PublishModal";
 export { QuestionCard } from "./QuestionCard";
+export { DisplayLogicEditor } from "./DisplayLogicEditor";
+export { PageBreakToggle } from "./PageBreakToggle";
+export { RatingScaleEditor } from "./RatingScaleEditor";
+export { MultiSelectSettingsEditor } from "./MultiSelectSettingsEditor";
+export { MatrixEditor } from "./MatrixEditor";
+export { FileUploadSettingsEditor } from "./FileUploadSettingsEditor";
+export { InputFormatEditor } from "./InputFormatEditor";
+export { HiddenFieldsEditor } from "./HiddenFieldsEditor";
+export { PipingVariablePicker } from "./PipingVariablePicker";
+export { RandomizationEditor } from "./RandomizationEditor";
+export { QuotaEditor } from "./QuotaEditor";
 export { QuestionTypeButton } from "./QuestionTypeButton";
-
@@ -1,5 +1,11 @@
 import { useState } from "react";
 import type { SurveyData } from "@/types/survey";
+import {
+  formatRatingRange,
+  getMatrixSettings,
+  getFileUploadSettings,
+  getInputFormatLabel,
+} from "@/lib/questionSettings";
 import { formatVersion, calculateNextVersion } from "@/lib/versionUtils";
 
 // ─────────────────────────────────────────────
@@ -105,13 +111,37 @@ export function Step3ReviewEdit({
                         )}
                       </p>
                       <p className="font-accent text-xs text-slate-500">
-                        {question.type === "short_text" && "Short text answer"}
+                        {question.type === "short_text" &&
+                          (getInputFormatLabel(question.settings) === "Text"
+                            ? "Short text answer"
+                            : `Short text answer (${getInputFormatLabel(question.settings)})`)}
                         {question.type === "long_text" && "Long text answer"}
                         {question.type === "multiple_choice" &&
                           `Multiple choice (${question.options?.length || 0} options)`}
-                        {question.type === "rating" && "Rating scale (1-5)"}
+                        {question.type === "multi_select" &&
+                          `Checkboxes (${question.options?.length || 0} options)`}
+                        {question.type === "ranking" &&
+                          `Ranking (${question.options?.length || 0} options)`}
+                        {question.type === "file_upload" &&
+                          `File upload (up to ${getFileUploadSettings(question.settings).maxSizeMb} MB)`}
+                        {question.type === "matrix" &&
+                          `Matrix (${getMatrixSettings(question.settings).rows.length} statements × ${
+                            getMatrixSettings(question.settings).columns.length
+                          } columns)`}
+                        {question.type === "rating" && `Rating scale (${formatRatingRange(question.settings)})`}
                         {question.type === "yes_no" && "Yes/No question"}
+                        {question.type === "nps" && "Net Promoter Score (0-10)"}
                       </p>
+                      {index > 0 && question.pageBreakBefore && (
+                        <p className="font-accent text-xs text-slate-500 mt-1">
+                          Starts a new page
+                        </p>
+                      )}
+                      {question.displayLogic && (
+                        <p className="font-accent text-xs text-[#2663EB] mt-1">
+                          Shown only when its display conditions are met
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
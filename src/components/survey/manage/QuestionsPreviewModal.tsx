@@ -2,7 +2,16 @@ import { useState, useEffect } from "react";
 import { XMarkIcon } from "@heroicons/react/24/outline";
 import { supabase } from "@/lib/supabaseClient";
 import { createLogger } from "@/lib/logger";
-import { QUESTION_TYPES } from "@/types/survey";
+import { QUESTION_TYPES, OPTION_QUESTION_TYPES } from "@/types/survey";
+import type { QuestionType } from "@/types/survey";
+import {
+  getRatingSettings,
+  formatRatingRange,
+  getMatrixSettings,
+  getFileUploadSettings,
+  getAllowedFileTypeLabels,
+  getInputFormatLabel,
+} from "@/lib/questionSettings";
 import type { Database } from "@/types/supabase";
 import { LoadingState, ErrorState } from "@/components/common";
 
@@ -134,8 +143,8 @@ export default function QuestionsPreviewModal({
                       </div>
                     </div>
 
-                    {/* Question Options (for multiple choice) */}
-                    {question.type === "multiple_choice" && question.options && (
+                    {/* Question Options (for multiple choice, checkboxes and ranking) */}
+                    {OPTION_QUESTION_TYPES.includes(question.type as QuestionType) && question.options && (
                       <div className="ml-11 mt-3 space-y-2">
                         <p className="font-body text-xs text-slate-600 mb-2">Options:</p>
                         {question.options.map((option: string, optIndex: number) => (
@@ -143,8 +152,12 @@ export default function QuestionsPreviewModal({
                             key={optIndex}
                             className="flex items-center gap-2 text-sm text-slate-700"
                           >
-                            <span className="w-5 h-5 rounded-full border-2 border-slate-300 flex items-center justify-center font-body text-xs">
-                              {String.fromCharCode(65 + optIndex)}
+                            <span
+                              className={`w-5 h-5 border-2 border-slate-300 flex items-center justify-center font-body text-xs ${
+                                question.type === "multi_select" ? "rounded" : "rounded-full"
+                              }`}
+                            >
+                              {question.type === "ranking" ? optIndex + 1 : String.fromCharCode(65 + optIndex)}
                             </span>
                             <span className="font-body">{option}</span>
                           </div>
@@ -152,11 +165,51 @@ export default function QuestionsPreviewModal({
                       </div>
                     )}
 
+                    {/* Matrix Info */}
+                    {question.type === "matrix" && (
+                      <div className="ml-11 mt-3 space-y-1">
+                        <p className="font-body text-xs text-slate-600">
+                          Statements: {getMatrixSettings(question.settings).rows.join(", ")}
+                        </p>
+                        <p className="font-body text-xs text-slate-600">
+                          Scale: {getMatrixSettings(question.settings).columns.join(" / ")}
+                        </p>
+                      </div>
+                    )}
+
+                    {/* File Upload Info */}
+                    {question.type === "file_upload" && (
+                      <div className="ml-11 mt-3">
+                        <p className="font-body text-xs text-slate-600">
+                          Accepts: {getAllowedFileTypeLabels(getFileUploadSettings(question.settings)).join(", ")}{" "}
+                          · up to {getFileUploadSettings(question.settings).maxSizeMb} MB
+                        </p>
+                      </div>
+                    )}
+
+                    {/* Input Format Info */}
+                    {question.type === "short_text" && getInputFormatLabel(question.settings) !== "Text" && (
+                      <div className="ml-11 mt-3">
+                        <p className="font-body text-xs text-slate-600">
+                          Format: {getInputFormatLabel(question.settings)}
+                        </p>
+                      </div>
+                    )}
+
                     {/* Rating Scale Info */}
                     {question.type === "rating" && (
                       <div className="ml-11 mt-3">
                         <p className="font-body text-xs text-slate-600">
-                          Scale: 1 to 5 stars
+                          Scale: {formatRatingRange(question.settings)} ({getRatingSettings(question.settings).style})
+                        </p>
+                      </div>
+                    )}
+
+                    {/* NPS Info */}
+                    {question.type === "nps" && (
+                      <div className="ml-11 mt-3">
+                        <p className="font-body text-xs text-slate-600">
+                          Scale: 0 (not at all likely) to 10 (extremely likely)
                         </p>
                       </div>
                     )}
@@ -13,6 +13,10 @@ import {
 import type { Database } from "@/types/supabase";
 import { supabase } from "@/lib/supabaseClient";
 import { createLogger } from "@/lib/logger";
+import { useOrg } from "@/context";
+import type { SurveyStatusAction } from "@/types/survey";
+import SurveyStatusBadge from "./SurveyStatusBadge";
+import SurveyStatusMenu from "./SurveyStatusMenu";
 
 const logger = createLogger('SurveyCard');
 
@@ -30,6 +34,8 @@ type Survey = Database["public"]["Tables"]["surveys"]["Row"];
  * - Navigate to analytics dashboard
  * - Download survey as JSON txt file (formatted per DB schema)
  * - Delete survey with loading state
+ * - Lifecycle status badge and status actions (open, schedule, close...)
+ * - Actions the member's role does not allow are hidden
  */
 
 interface SurveyCardProps {
@@ -40,11 +46,14 @@ interface SurveyCardProps {
   onDelete: (surveyId: string) => void;
   onViewHistory?: (surveyId: string) => void;
   onViewQuestions?: (surveyId: string) => void;
+  updatingStatusId?: string | null;
+  onStatusAction?: (surveyId: string, action: SurveyStatusAction) => void;
   isLatest?: boolean;
 }
 
-export default function SurveyCard({ survey, copiedId, deletingId, onCopyLink, onDelete, onViewHistory, onViewQuestions, isLatest = false }: SurveyCardProps) {
+export default function SurveyCard({ survey, copiedId, deletingId, onCopyLink, onDelete, onViewHistory, onViewQuestions, updatingStatusId = null, onStatusAction, isLatest = false }: SurveyCardProps) {
   const isDeleting = deletingId === survey.id;
+  const { can } = useOrg();
   const [isDownloading, setIsDownloading] = useState(false);
 
   const handleDownload = async () => {
@@ -129,7 +138,17 @@ export default function SurveyCard({ survey, copiedId, deletingId, onCopyLink, o
             Audience: {survey.audience}
           </p>
         )}
-        <div className="flex items-center gap-2 mt-2">
+        <div className="flex flex-wrap items-center gap-2 mt-2">
+          <div className="flex items-center gap-1">
+            <SurveyStatusBadge survey={survey} />
+            {onStatusAction && can("survey:edit") && (
+              <SurveyStatusMenu
+                survey={survey}
+                onSelect={(action) => onStatusAction(survey.id, action)}
+                isUpdating={updatingStatusId === survey.id}
+              />
+            )}
+          </div>
           <div className="flex items-center gap-1">
             <span className="inline-flex items-center px-2 py-1 bg-blue-100 text-[#2663EB] font-accent text-xs font-medium rounded-full">
               v{survey.version}
@@ -182,7 +201,7 @@ export default function SurveyCard({ survey, copiedId, deletingId, onCopyLink, o
       </button>
       
       {/* Only show Edit button for the latest version */}
-      {isLatest && (
+      {isLatest && can("survey:edit") && (
         <Link
           href={`/mojeremiah/edit/${survey.id}`}
           className="inline-flex items-center gap-1 px-3 py-1.5 bg-amber-100 text-amber-700 hover:bg-amber-200 font-accent text-xs font-medium rounded-lg transition-colors duration-200"
@@ -193,52 +212,58 @@ export default function SurveyCard({ survey, copiedId, deletingId, onCopyLink, o
         </Link>
       )}
       
-      <Link
-          href={`/mojeremiah/analytics/${survey.id}`}
-          className="inline-flex items-center gap-1 px-3 py-1.5 bg-blue-100 text-[#2663EB] hover:bg-blue-200 font-accent text-xs font-medium rounded-lg transition-colors duration-200"
-          title="View analytics"
-        >
-          <ChartBarIcon className="w-3.5 h-3.5" />
-          Analytics
-        </Link>
+        {can("analytics:view") && (
+          <Link
+            href={`/mojeremiah/analytics/${survey.id}`}
+            className="inline-flex items-center gap-1 px-3 py-1.5 bg-blue-100 text-[#2663EB] hover:bg-blue-200 font-accent text-xs font-medium rounded-lg transition-colors duration-200"
+            title="View analytics"
+          >
+            <ChartBarIcon className="w-3.5 h-3.5" />
+            Analytics
+          </Link>
+        )}
 
-        <button
-          onClick={handleDownload}
-          disabled={isDownloading}
-          className="inline-flex items-center gap-1 px-3 py-1.5 bg-green-100 text-green-700 hover:bg-green-200 font-accent text-xs font-medium rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-green-100"
-          title="Download survey as JSON"
-        >
-          {isDownloading ? (
-            <>
-              <div className="w-3.5 h-3.5 border-2 border-green-700/30 border-t-green-700 rounded-full animate-spin" />
-              Downloading...
-            </>
-          ) : (
-            <>
-              <ArrowDownTrayIcon className="w-3.5 h-3.5" />
-              Download
-            </>
-          )}
-        </button>
+        {can("analytics:export") && (
+          <button
+            onClick={handleDownload}
+            disabled={isDownloading}
+            className="inline-flex items-center gap-1 px-3 py-1.5 bg-green-100 text-green-700 hover:bg-green-200 font-accent text-xs font-medium rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-green-100"
+            title="Download survey as JSON"
+          >
+            {isDownloading ? (
+              <>
+                <div className="w-3.5 h-3.5 border-2 border-green-700/30 border-t-green-700 rounded-full animate-spin" />
+                Downloading...
+              </>
+            ) : (
+              <>
+                <ArrowDownTrayIcon className="w-3.5 h-3.5" />
+                Download
+              </>
+            )}
+          </button>
+        )}
 
-        <button
-          onClick={() => onDelete(survey.id)}
-          disabled={isDeleting}
-          className="inline-flex items-center gap-1 px-3 py-1.5 bg-red-100 text-red-700 hover:bg-red-200 font-accent text-xs font-medium rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-red-100"
-          title="Delete survey"
-        >
-          {isDeleting ? (
-            <>
-              <div className="w-3.5 h-3.5 border-2 border-red-700/30 border-t-red-700 rounded-full animate-spin" />
-              Deleting...
-            </>
-          ) : (
-            <>
-              <TrashIcon className="w-3.5 h-3.5" />
-              Delete
-            </>
-          )}
-        </button>
+        {can("survey:delete") && (
+          <button
+            onClick={() => onDelete(survey.id)}
+            disabled={isDeleting}
+            className="inline-flex items-center gap-1 px-3 py-1.5 bg-red-100 text-red-700 hover:bg-red-200 font-accent text-xs font-medium rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-red-100"
+            title="Delete survey"
+          >
+            {isDeleting ? (
+              <>
+                <div className="w-3.5 h-3.5 border-2 border-red-700/30 border-t-red-700 rounded-full animate-spin" />
+                Deleting...
+              </>
+            ) : (
+              <>
+                <TrashIcon className="w-3.5 h-3.5" />
+                Delete
+              </>
+            )}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -13,6 +13,10 @@ import {
 import type { Database } from "@/types/supabase";
 import { supabase } from "@/lib/supabaseClient";
 import { createLogger } from "@/lib/logger";
+import { useOrg } from "@/context";
+import type { SurveyStatusAction } from "@/types/survey";
+import SurveyStatusBadge from "./SurveyStatusBadge";
+import SurveyStatusMenu from "./SurveyStatusMenu";
 
 const logger = createLogger('SurveyListItem');
 
@@ -27,6 +31,7 @@ type Survey = Database["public"]["Tables"]["surveys"]["Row"];
  * Features:
  * - Horizontal layout with info and actions side by side
  * - Compact design for scanning many surveys
+ * - Lifecycle status badge with status actions
  * - Responsive on mobile (stacks vertically)
  */
 
@@ -38,6 +43,8 @@ interface SurveyListItemProps {
   onDelete: (surveyId: string) => void;
   onViewHistory?: (surveyId: string) => void;
   onViewQuestions: (surveyId: string) => void;
+  updatingStatusId?: string | null;
+  onStatusAction?: (surveyId: string, action: SurveyStatusAction) => void;
   isLatest?: boolean;
 }
 
@@ -49,9 +56,12 @@ export default function SurveyListItem({
   onDelete,
   onViewHistory,
   onViewQuestions,
+  updatingStatusId = null,
+  onStatusAction,
   isLatest = false,
 }: SurveyListItemProps) {
   const isDeleting = deletingId === survey.id;
+  const { can } = useOrg();
   const [isDownloading, setIsDownloading] = useState(false);
 
   const handleDownload = async () => {
@@ -136,6 +146,14 @@ export default function SurveyListItem({
                     {survey.audience}
                   </span>
                 )}
+                <SurveyStatusBadge survey={survey} />
+                {onStatusAction && can("survey:edit") && (
+                  <SurveyStatusMenu
+                    survey={survey}
+                    onSelect={(action) => onStatusAction(survey.id, action)}
+                    isUpdating={updatingStatusId === survey.id}
+                  />
+                )}
                 <span className="inline-flex items-center px-2 py-0.5 bg-blue-100 text-[#2663EB] font-accent text-xs font-medium rounded-full">
                   v{survey.version}
                 </span>
@@ -185,7 +203,7 @@ export default function SurveyListItem({
             <span className="hidden lg:inline">{copiedId === survey.id ? "Copied!" : "Link"}</span>
           </button>
 
-          {isLatest && (
+          {isLatest && can("survey:edit") && (
             <Link
               href={`/mojeremiah/edit/${survey.id}`}
               className="inline-flex items-center gap-1 px-2 py-1.5 text-amber-600 hover:text-amber-700 hover:bg-amber-50 font-accent text-xs font-medium rounded transition-colors duration-200"
@@ -196,40 +214,46 @@ export default function SurveyListItem({
             </Link>
           )}
 
-          <Link
-            href={`/mojeremiah/analytics/${survey.id}`}
-            className="inline-flex items-center gap-1 px-2 py-1.5 text-[#2663EB] hover:text-[#2054C8] hover:bg-blue-50 font-accent text-xs font-medium rounded transition-colors duration-200"
-            title="Analytics"
-          >
-            <ChartBarIcon className="w-3.5 h-3.5" />
-            <span className="hidden lg:inline">Analytics</span>
-          </Link>
+          {can("analytics:view") && (
+            <Link
+              href={`/mojeremiah/analytics/${survey.id}`}
+              className="inline-flex items-center gap-1 px-2 py-1.5 text-[#2663EB] hover:text-[#2054C8] hover:bg-blue-50 font-accent text-xs font-medium rounded transition-colors duration-200"
+              title="Analytics"
+            >
+              <ChartBarIcon className="w-3.5 h-3.5" />
+              <span className="hidden lg:inline">Analytics</span>
+            </Link>
+          )}
 
-          <button
-            onClick={handleDownload}
-            disabled={isDownloading}
-            className="p-1.5 text-green-600 hover:text-green-700 hover:bg-green-50 rounded transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-            title="Download"
-          >
-            {isDownloading ? (
-              <div className="w-3.5 h-3.5 border-2 border-green-600/30 border-t-green-600 rounded-full animate-spin" />
-            ) : (
-              <ArrowDownTrayIcon className="w-3.5 h-3.5" />
-            )}
-          </button>
+          {can("analytics:export") && (
+            <button
+              onClick={handleDownload}
+              disabled={isDownloading}
+              className="p-1.5 text-green-600 hover:text-green-700 hover:bg-green-50 rounded transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Download"
+            >
+              {isDownloading ? (
+                <div className="w-3.5 h-3.5 border-2 border-green-600/30 border-t-green-600 rounded-full animate-spin" />
+              ) : (
+                <ArrowDownTrayIcon className="w-3.5 h-3.5" />
+              )}
+            </button>
+          )}
 
-          <button
-            onClick={() => onDelete(survey.id)}
-            disabled={isDeleting}
-            className="p-1.5 text-red-600 hover:text-red-700 hover:bg-red-50 rounded transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-            title="Delete"
-          >
-            {isDeleting ? (
-              <div className="w-3.5 h-3.5 border-2 border-red-600/30 border-t-red-600 rounded-full animate-spin" />
-            ) : (
-              <TrashIcon className="w-3.5 h-3.5" />
-            )}
-          </button>
+          {can("survey:delete") && (
+            <button
+              onClick={() => onDelete(survey.id)}
+              disabled={isDeleting}
+              className="p-1.5 text-red-600 hover:text-red-700 hover:bg-red-50 rounded transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Delete"
+            >
+              {isDeleting ? (
+                <div className="w-3.5 h-3.5 border-2 border-red-600/30 border-t-red-600 rounded-full animate-spin" />
+              ) : (
+                <TrashIcon className="w-3.5 h-3.5" />
+              )}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { CalendarDaysIcon, XMarkIcon } from "@heroicons/react/24/outline";
+
+/**
+ * SurveyScheduleModal Component
+ *
+ * Picks the opening and closing times for a survey.
+ * - schedule: opening time (required) and optional closing time
+ * - set_close_date: closing time only; leave it empty to stay open
+ *   until closed by hand
+ *
+ * Times are entered in the browser's local time zone and sent as ISO.
+ */
+
+interface SurveyScheduleModalProps {
+  surveyTitle: string;
+  mode: "schedule" | "set_close_date";
+  opensAt: string | null;
+  closesAt: string | null;
+  onSave: (times: { opensAt: string | null; closesAt: string | null }) => void;
+  onCancel: () => void;
+  isLoading?: boolean;
+}
+
+// datetime-local inputs take "YYYY-MM-DDTHH:mm" in local time
+const toInputValue = (iso: string | null) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+const toIso = (value: string) => (value ? new Date(value).toISOString() : null);
+
+export default function SurveyScheduleModal({
+  surveyTitle,
+  mode,
+  opensAt,
+  closesAt,
+  onSave,
+  onCancel,
+  isLoading = false,
+}: SurveyScheduleModalProps) {
+  const [opensValue, setOpensValue] = useState(toInputValue(opensAt));
+  const [closesValue, setClosesValue] = useState(toInputValue(closesAt));
+
+  const isSchedule = mode === "schedule";
+  const canSave = !isLoading && (!isSchedule || !!opensValue);
+
+  const inputClassName =
+    "w-full px-3 py-2 border border-slate-300 rounded-lg font-body text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-[#2663EB] focus:border-transparent";
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm z-50 animate-in fade-in duration-200"
+        onClick={onCancel}
+        aria-hidden="true"
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        <div
+          className="bg-white rounded-lg shadow-2xl border border-slate-200 max-w-md w-full p-6 animate-in zoom-in-95 fade-in duration-200"
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="schedule-modal-title"
+        >
+          {/* Header */}
+          <div className="flex items-start gap-4 mb-4">
+            <div className="flex-shrink-0 w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center">
+              <CalendarDaysIcon className="w-6 h-6 text-[#2663EB]" />
+            </div>
+            <div className="flex-1">
+              <h3 id="schedule-modal-title" className="font-heading text-lg font-semibold text-slate-900">
+                {isSchedule ? "Schedule Survey" : "Set Close Date"}
+              </h3>
+              <p className="font-body text-sm text-slate-600">{surveyTitle}</p>
+            </div>
+            <button
+              onClick={onCancel}
+              disabled={isLoading}
+              className="flex-shrink-0 text-slate-400 hover:text-slate-600 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Close"
+            >
+              <XMarkIcon className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Times */}
+          <div className="space-y-4 mb-6">
+            {isSchedule && (
+              <label className="block">
+                <span className="block font-body text-sm font-medium text-slate-700 mb-1">Opens at</span>
+                <input
+                  type="datetime-local"
+                  value={opensValue}
+                  onChange={(e) => setOpensValue(e.target.value)}
+                  className={inputClassName}
+                />
+              </label>
+            )}
+            <label className="block">
+              <span className="block font-body text-sm font-medium text-slate-700 mb-1">
+                Closes at <span className="text-slate-400 font-normal">(optional)</span>
+              </span>
+              <input
+                type="datetime-local"
+                value={closesValue}
+                onChange={(e) => setClosesValue(e.target.value)}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 justify-end">
+            <button
+              onClick={onCancel}
+              disabled={isLoading}
+              className="px-4 py-2 border border-slate-300 font-accent text-sm font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 hover:border-slate-400 transition-all duration-200 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave({ opensAt: toIso(opensValue), closesAt: toIso(closesValue) })}
+              disabled={!canSave}
+              className="px-4 py-2 border border-transparent font-accent text-sm font-medium rounded-lg text-white bg-[#2663EB] hover:bg-[#2054C8] transition-all duration-200 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {isLoading && (
+                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+              )}
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,42 @@
+import type { Database } from "@/types/supabase";
+import { SURVEY_STATUSES, getEffectiveStatus } from "@/lib/surveyLifecycle";
+
+type Survey = Database["public"]["Tables"]["surveys"]["Row"];
+
+/**
+ * SurveyStatusBadge Component
+ *
+ * Shows a survey's lifecycle status as of now (a scheduled survey whose
+ * opening time has passed shows as Open). Hover for the opening or
+ * closing time.
+ */
+
+interface SurveyStatusBadgeProps {
+  survey: Pick<Survey, "status" | "opens_at" | "closes_at">;
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+export default function SurveyStatusBadge({ survey }: SurveyStatusBadgeProps) {
+  const status = getEffectiveStatus(survey);
+  const option = SURVEY_STATUSES.find((s) => s.value === status)!;
+
+  let detail: string | undefined;
+  if (status === "scheduled" && survey.opens_at) {
+    detail = `Opens ${formatDateTime(survey.opens_at)}`;
+  } else if (status === "active" && survey.closes_at) {
+    detail = `Closes ${formatDateTime(survey.closes_at)}`;
+  } else if ((status === "closed" || status === "archived") && survey.closes_at) {
+    detail = `Closed ${formatDateTime(survey.closes_at)}`;
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-1 font-accent text-xs font-medium rounded-full ${option.badgeClassName}`}
+      title={detail}
+    >
+      {option.label}
+    </span>
+  );
+}
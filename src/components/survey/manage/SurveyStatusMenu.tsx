@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { ChevronDownIcon } from "@heroicons/react/24/outline";
+import type { Database } from "@/types/supabase";
+import type { SurveyStatusAction } from "@/types/survey";
+import { SURVEY_STATUS_ACTIONS, getAvailableActions } from "@/lib/surveyLifecycle";
+
+type Survey = Database["public"]["Tables"]["surveys"]["Row"];
+
+/**
+ * SurveyStatusMenu Component
+ *
+ * Dropdown of the lifecycle actions available for a survey's current
+ * status (open, schedule, set close date, close, archive, unarchive)
+ */
+
+interface SurveyStatusMenuProps {
+  survey: Pick<Survey, "status" | "opens_at" | "closes_at">;
+  onSelect: (action: SurveyStatusAction) => void;
+  isUpdating?: boolean;
+}
+
+export default function SurveyStatusMenu({ survey, onSelect, isUpdating = false }: SurveyStatusMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const available = getAvailableActions(survey);
+  const actions = SURVEY_STATUS_ACTIONS.filter((action) => available.includes(action.value));
+
+  const handleSelect = (action: SurveyStatusAction) => {
+    setIsOpen(false);
+    onSelect(action);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isUpdating}
+        className="p-1 text-slate-400 hover:text-[#2663EB] hover:bg-blue-50 rounded transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Change status"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        {isUpdating ? (
+          <div className="w-4 h-4 border-2 border-slate-400/30 border-t-slate-500 rounded-full animate-spin" />
+        ) : (
+          <ChevronDownIcon className="w-4 h-4" />
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Click outside closes the menu */}
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} aria-hidden="true" />
+          <div
+            className="absolute left-0 z-20 mt-1 w-44 bg-white rounded-lg shadow-lg border border-slate-200 py-1"
+            role="menu"
+          >
+            {actions.map((action) => (
+              <button
+                key={action.value}
+                onClick={() => handleSelect(action.value)}
+                className="block w-full text-left px-3 py-2 font-body text-sm text-slate-700 hover:bg-slate-50 transition-colors duration-200"
+                role="menuitem"
+              >
+                {action.label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -13,6 +13,10 @@ import {
 import type { Database } from "@/types/supabase";
 import { supabase } from "@/lib/supabaseClient";
 import { createLogger } from "@/lib/logger";
+import { useOrg } from "@/context";
+import type { SurveyStatusAction } from "@/types/survey";
+import SurveyStatusBadge from "./SurveyStatusBadge";
+import SurveyStatusMenu from "./SurveyStatusMenu";
 
 const logger = createLogger('SurveyTableRow');
 
@@ -27,6 +31,7 @@ type Survey = Database["public"]["Tables"]["surveys"]["Row"];
  * Features:
  * - Compact table layout
  * - All actions inline
+ * - Lifecycle status badge with status actions
  * - Responsive on mobile (stacks vertically)
  */
 
@@ -38,6 +43,8 @@ interface SurveyTableRowProps {
   onDelete: (surveyId: string) => void;
   onViewHistory?: (surveyId: string) => void;
   onViewQuestions: (surveyId: string) => void;
+  updatingStatusId?: string | null;
+  onStatusAction?: (surveyId: string, action: SurveyStatusAction) => void;
   isLatest?: boolean;
 }
 
@@ -49,9 +56,12 @@ export default function SurveyTableRow({
   onDelete,
   onViewHistory,
   onViewQuestions,
+  updatingStatusId = null,
+  onStatusAction,
   isLatest = false,
 }: SurveyTableRowProps) {
   const isDeleting = deletingId === survey.id;
+  const { can } = useOrg();
   const [isDownloading, setIsDownloading] = useState(false);
 
   const handleDownload = async () => {
@@ -140,6 +150,20 @@ export default function SurveyTableRow({
         </div>
       </td>
 
+      {/* Status */}
+      <td className="px-4 py-4">
+        <div className="flex items-center gap-1">
+          <SurveyStatusBadge survey={survey} />
+          {onStatusAction && can("survey:edit") && (
+            <SurveyStatusMenu
+              survey={survey}
+              onSelect={(action) => onStatusAction(survey.id, action)}
+              isUpdating={updatingStatusId === survey.id}
+            />
+          )}
+        </div>
+      </td>
+
       {/* Version */}
       <td className="px-4 py-4">
         <div className="flex items-center gap-2">
@@ -197,7 +221,7 @@ export default function SurveyTableRow({
             <LinkIcon className="w-4 h-4" />
           </button>
 
-          {isLatest && (
+          {isLatest && can("survey:edit") && (
             <Link
               href={`/mojeremiah/edit/${survey.id}`}
               className="p-2 text-amber-600 hover:text-amber-700 hover:bg-amber-50 rounded transition-colors duration-200"
@@ -207,39 +231,45 @@ export default function SurveyTableRow({
             </Link>
           )}
 
-          <Link
-            href={`/mojeremiah/analytics/${survey.id}`}
-            className="p-2 text-[#2663EB] hover:text-[#2054C8] hover:bg-blue-50 rounded transition-colors duration-200"
-            title="View analytics"
-          >
-            <ChartBarIcon className="w-4 h-4" />
-          </Link>
+          {can("analytics:view") && (
+            <Link
+              href={`/mojeremiah/analytics/${survey.id}`}
+              className="p-2 text-[#2663EB] hover:text-[#2054C8] hover:bg-blue-50 rounded transition-colors duration-200"
+              title="View analytics"
+            >
+              <ChartBarIcon className="w-4 h-4" />
+            </Link>
+          )}
 
-          <button
-            onClick={handleDownload}
-            disabled={isDownloading}
-            className="p-2 text-green-600 hover:text-green-700 hover:bg-green-50 rounded transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-            title="Download survey as JSON"
-          >
-            {isDownloading ? (
-              <div className="w-4 h-4 border-2 border-green-600/30 border-t-green-600 rounded-full animate-spin" />
-            ) : (
-              <ArrowDownTrayIcon className="w-4 h-4" />
-            )}
-          </button>
+          {can("analytics:export") && (
+            <button
+              onClick={handleDownload}
+              disabled={isDownloading}
+              className="p-2 text-green-600 hover:text-green-700 hover:bg-green-50 rounded transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Download survey as JSON"
+            >
+              {isDownloading ? (
+                <div className="w-4 h-4 border-2 border-green-600/30 border-t-green-600 rounded-full animate-spin" />
+              ) : (
+                <ArrowDownTrayIcon className="w-4 h-4" />
+              )}
+            </button>
+          )}
 
-          <button
-            onClick={() => onDelete(survey.id)}
-            disabled={isDeleting}
-            className="p-2 text-red-600 hover:text-red-700 hover:bg-red-50 rounded transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-            title="Delete survey"
-          >
-            {isDeleting ? (
-              <div className="w-4 h-4 border-2 border-red-600/30 border-t-red-600 rounded-full animate-spin" />
-            ) : (
-              <TrashIcon className="w-4 h-4" />
-            )}
-          </button>
+          {can("survey:delete") && (
+            <button
+              onClick={() => onDelete(survey.id)}
+              disabled={isDeleting}
+              className="p-2 text-red-600 hover:text-red-700 hover:bg-red-50 rounded transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Delete survey"
+            >
+              {isDeleting ? (
+                <div className="w-4 h-4 border-2 border-red-600/30 border-t-red-600 rounded-full animate-spin" />
+              ) : (
+                <TrashIcon className="w-4 h-4" />
+              )}
+            </button>
+          )}
         </div>
       </td>
     </tr>
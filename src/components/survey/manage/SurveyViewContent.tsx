@@ -7,6 +7,7 @@ import {
 import { LoadingState, ErrorState, EmptyState } from "@/components/common";
 import type { Database } from "@/types/supabase";
 import type { ViewMode } from "@/components/survey/manage";
+import type { SurveyStatusAction } from "@/types/survey";
 
 type Survey = Database["public"]["Tables"]["surveys"]["Row"];
 
@@ -28,6 +29,8 @@ interface SurveyViewContentProps {
   onDelete: (surveyId: string) => void;
   onViewHistory?: (surveyId: string) => void;
   onViewQuestions: (surveyId: string) => void;
+  updatingStatusId?: string | null;
+  onStatusAction?: (surveyId: string, action: SurveyStatusAction) => void;
   onRetry: () => void;
   isLatestVersion: (survey: Survey) => boolean;
 }
@@ -43,6 +46,8 @@ export default function SurveyViewContent({
   onDelete,
   onViewHistory,
   onViewQuestions,
+  updatingStatusId = null,
+  onStatusAction,
   onRetry,
   isLatestVersion,
 }: SurveyViewContentProps) {
@@ -83,6 +88,8 @@ export default function SurveyViewContent({
             onDelete={onDelete}
             onViewHistory={onViewHistory}
             onViewQuestions={onViewQuestions}
+            updatingStatusId={updatingStatusId}
+            onStatusAction={onStatusAction}
             isLatest={isLatestVersion(survey)}
           />
         ))}
@@ -100,6 +107,9 @@ export default function SurveyViewContent({
               <th className="px-4 py-3 text-left font-heading text-xs font-semibold text-slate-700 uppercase tracking-wider">
                 Survey
               </th>
+              <th className="px-4 py-3 text-left font-heading text-xs font-semibold text-slate-700 uppercase tracking-wider">
+                Status
+              </th>
               <th className="px-4 py-3 text-left font-heading text-xs font-semibold text-slate-700 uppercase tracking-wider">
                 Version
               </th>
@@ -125,6 +135,8 @@ export default function SurveyViewContent({
                 onDelete={onDelete}
                 onViewHistory={onViewHistory}
                 onViewQuestions={onViewQuestions}
+                updatingStatusId={updatingStatusId}
+                onStatusAction={onStatusAction}
                 isLatest={isLatestVersion(survey)}
               />
             ))}
@@ -147,6 +159,8 @@ export default function SurveyViewContent({
           onDelete={onDelete}
           onViewHistory={onViewHistory}
           onViewQuestions={onViewQuestions}
+          updatingStatusId={updatingStatusId}
+          onStatusAction={onStatusAction}
           isLatest={isLatestVersion(survey)}
         />
       ))}
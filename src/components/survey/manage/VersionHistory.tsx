@@ -3,6 +3,7 @@ import { supabase } from "@/lib/supabaseClient";
 import { formatVersion, getVersionHistory } from "@/lib/versionUtils";
 import { ClockIcon, CheckCircleIcon } from "@heroicons/react/24/outline";
 import { createLogger } from "@/lib/logger";
+import { useOrg } from "@/context";
 
 const logger = createLogger('VersionHistory');
 
@@ -30,6 +31,7 @@ interface SurveyVersion {
 }
 
 export function VersionHistory({ surveyId, currentSurveyId, onRestore, onEdit }: VersionHistoryProps) {
+  const { orgId } = useOrg();
   const [versions, setVersions] = useState<SurveyVersion[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -105,12 +107,10 @@ export function VersionHistory({ surveyId, currentSurveyId, onRestore, onEdit }:
         // Sort by version ascending
         const surveysData = familySurveys.sort((a, b) => a.version - b.version);
 
-        // Fetch response counts for each version
-        const versionIds = surveysData.map(s => s.id);
-        const { data: responseCounts, error: responseError } = await supabase
-          .from('responses')
-          .select('survey_id')
-          .in('survey_id', versionIds);
+        // Fetch response counts for each version (counts only, so viewers see them too)
+        const { data: responseCounts, error: responseError } = orgId
+          ? await supabase.rpc('survey_response_stats', { p_org_id: orgId })
+          : { data: null, error: null };
 
         if (responseError) {
           logger.warn('Failed to fetch response counts', responseError);
@@ -120,7 +120,7 @@ export function VersionHistory({ surveyId, currentSurveyId, onRestore, onEdit }:
         const responseCountMap: Record<string, number> = {};
         if (responseCounts) {
           responseCounts.forEach(r => {
-            responseCountMap[r.survey_id] = (responseCountMap[r.survey_id] || 0) + 1;
+            responseCountMap[r.survey_id] = r.responses;
           });
         }
 
@@ -146,7 +146,7 @@ export function VersionHistory({ surveyId, currentSurveyId, onRestore, onEdit }:
     };
 
     fetchVersionHistory();
-  }, [surveyId]);
+  }, [surveyId, orgId]);
 
   // ─────────────────────────────────────────────
   // Loading State
@@ -2,12 +2,15 @@ import { XMarkIcon } from "@heroicons/react/24/outline";
 import { VersionHistory } from "./VersionHistory";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
+import { authFetch } from "@/lib/authFetch";
+import { useOrg } from "@/context";
 
 // ─────────────────────────────────────────────
 // VersionHistoryModal Component
 // ─────────────────────────────────────────────
 // Modal wrapper for VersionHistory component.
-// Provides restore functionality and navigation to edit page.
+// Provides restore functionality and navigation to edit page
+// (owners and editors only).
 
 interface VersionHistoryModalProps {
   surveyId: string;
@@ -23,6 +26,7 @@ export function VersionHistoryModal({
   onClose,
 }: VersionHistoryModalProps) {
   const router = useRouter();
+  const { can } = useOrg();
   const [isRestoring, setIsRestoring] = useState(false);
   const [restoreError, setRestoreError] = useState<string | null>(null);
 
@@ -35,16 +39,13 @@ export function VersionHistoryModal({
     setRestoreError(null);
 
     try {
-      // Get org ID from environment
-      const DEFAULT_ORG_ID = process.env.NEXT_PUBLIC_DEFAULT_ORG_ID || '00000000-0000-0000-0000-000000000001';
-
-      const response = await fetch('/api/surveys/restore-version', {
+      // Organization is resolved server-side from the session
+      const response = await authFetch('/api/surveys/restore-version', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           oldSurveyId: versionId,
           currentLatestSurveyId: currentSurveyId,
-          orgId: DEFAULT_ORG_ID,
         }),
       });
 
@@ -122,8 +123,8 @@ export function VersionHistoryModal({
             <VersionHistory
               surveyId={surveyId}
               currentSurveyId={currentSurveyId}
-              onRestore={handleRestore}
-              onEdit={handleEdit}
+              onRestore={can("survey:edit") ? handleRestore : undefined}
+              onEdit={can("survey:edit") ? handleEdit : undefined}
             />
           </div>
 
@@ -10,6 +10,9 @@ export { default as SurveyListItem } from './SurveyListItem';
 export { default as SurveyViewHeader } from './SurveyViewHeader';
 export { default as SurveyViewToolbar } from './SurveyViewToolbar';
 export { default as SurveyViewContent } from './SurveyViewContent';
+export { default as SurveyStatusBadge } from './SurveyStatusBadge';
+export { default as SurveyStatusMenu } from './SurveyStatusMenu';
+export { default as SurveyScheduleModal } from './SurveyScheduleModal';
 export type { ViewMode } from './ViewModeToggle';
 export type { FilterState } from './FilterControls';
 
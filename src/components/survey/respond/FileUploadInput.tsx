@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { PaperClipIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import type { Json } from "@/types/supabase";
+import type { FileAnswer } from "@/types/survey";
+import { getFileUploadSettings, getAllowedFileTypeLabels } from "@/lib/questionSettings";
+import { formatFileSize } from "@/lib/utils";
+import { createLogger } from "@/lib/logger";
+
+const logger = createLogger('FileUploadInput');
+
+// ─────────────────────────────────────────────
+// File Upload Input Component
+// ─────────────────────────────────────────────
+// Uploads the chosen file to POST /api/uploads straight away and hands
+// the returned metadata back as the answer. Type and size are checked
+// here for quick feedback and again by the API.
+
+interface FileUploadInputProps {
+  surveyId: string;
+  questionId: number;
+  settings: Json | null;
+  value: FileAnswer | null;
+  hasError: boolean;
+  onChange: (value: FileAnswer | "") => void;
+}
+
+export function FileUploadInput({
+  surveyId,
+  questionId,
+  settings,
+  value,
+  hasError,
+  onChange,
+}: FileUploadInputProps) {
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const fileSettings = getFileUploadSettings(settings);
+  const allowedLabels = getAllowedFileTypeLabels(fileSettings);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setUploadError(null);
+
+    if (!fileSettings.allowedTypes.includes(file.type)) {
+      setUploadError(`Please choose a file of type: ${allowedLabels.join(", ")}`);
+      return;
+    }
+    if (file.size > fileSettings.maxSizeMb * 1024 * 1024) {
+      setUploadError(`File must be ${fileSettings.maxSizeMb} MB or smaller`);
+      return;
+    }
+
+    try {
+      setIsUploading(true);
+
+      const form = new FormData();
+      form.append("survey_id", surveyId);
+      form.append("question_id", String(questionId));
+      form.append("file", file);
+
+      const res = await fetch("/api/uploads", { method: "POST", body: form });
+      const result = await res.json();
+
+      if (!res.ok || !result.success) {
+        throw new Error(result.error || "Upload failed");
+      }
+
+      onChange(result.file as FileAnswer);
+    } catch (err) {
+      logger.error('File upload failed', err, { surveyId, questionId });
+      setUploadError(err instanceof Error ? err.message : "Upload failed. Please try again.");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (value) {
+    return (
+      <div className="flex items-center justify-between gap-3 px-4 py-3 border border-slate-300 rounded-lg">
+        <div className="flex items-center gap-2 min-w-0">
+          <PaperClipIcon className="w-5 h-5 text-slate-400 flex-shrink-0" />
+          <span className="font-body text-sm text-slate-900 truncate">{value.name}</span>
+          <span className="font-accent text-xs text-slate-500 flex-shrink-0">
+            {formatFileSize(value.size)}
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange("")}
+          aria-label="Remove file"
+          className="p-1 text-slate-400 hover:text-red-500 transition-colors duration-200"
+        >
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <input
+        type="file"
+        id={`question-${questionId}`}
+        accept={fileSettings.allowedTypes.join(",")}
+        disabled={isUploading}
+        onChange={(e) => {
+          handleFile(e.target.files?.[0]);
+          e.target.value = "";
+        }}
+        className={`w-full px-4 py-3 font-body text-sm text-slate-700 border rounded-lg file:mr-3 file:px-3 file:py-1 file:border-0 file:rounded-lg file:bg-blue-50 file:text-[#2663EB] file:font-accent file:font-medium ${
+          hasError || uploadError ? "border-red-500" : "border-slate-300"
+        }`}
+      />
+      <p className="font-body text-xs text-slate-500 mt-2">
+        {isUploading
+          ? "Uploading..."
+          : `${allowedLabels.join(", ")} · up to ${fileSettings.maxSizeMb} MB`}
+      </p>
+      {uploadError && <p className="text-sm text-red-600 mt-1">{uploadError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import type { Json } from "@/types/supabase";
+import { getMatrixSettings } from "@/lib/questionSettings";
+
+// ─────────────────────────────────────────────
+// Matrix Input Component
+// ─────────────────────────────────────────────
+// Grid of row statements × shared column scale, one radio choice per
+// row. The answer maps each row statement to its chosen column.
+
+interface MatrixInputProps {
+  questionId: number;
+  settings: Json | null;
+  value: Record<string, string>;
+  hasError: boolean;
+  onChange: (value: Record<string, string>) => void;
+}
+
+export function MatrixInput({ questionId, settings, value, hasError, onChange }: MatrixInputProps) {
+  const { rows, columns } = getMatrixSettings(settings);
+
+  return (
+    <div
+      className={`overflow-x-auto rounded-lg border ${hasError ? "border-red-500" : "border-slate-200"}`}
+    >
+      <table className="w-full text-left">
+        <thead>
+          <tr className="bg-slate-50">
+            <th className="p-3" />
+            {columns.map((column) => (
+              <th
+                key={column}
+                scope="col"
+                className="p-3 font-accent text-xs font-medium text-slate-600 text-center"
+              >
+                {column}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, rowIndex) => (
+            <tr key={row} className="border-t border-slate-200">
+              <th scope="row" className="p-3 font-body text-sm font-normal text-slate-900">
+                {row}
+              </th>
+              {columns.map((column) => (
+                <td key={column} className="p-3 text-center">
+                  <input
+                    type="radio"
+                    name={`question-${questionId}-row-${rowIndex}`}
+                    checked={value[row] === column}
+                    onChange={() => onChange({ ...value, [row]: column })}
+                    aria-label={`${row}: ${column}`}
+                    className="w-4 h-4 text-[#2663EB] border-slate-300 focus:ring-2 focus:ring-[#2663EB]"
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
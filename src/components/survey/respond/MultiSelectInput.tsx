@@ -0,0 +1,117 @@
+import type { Json } from "@/types/supabase";
+import { getMultiSelectSettings, OTHER_OPTION_LABEL } from "@/lib/questionSettings";
+
+// ─────────────────────────────────────────────
+// Multi-Select Input Component
+// ─────────────────────────────────────────────
+// Checkbox list for multi_select questions. The "Other" text is kept in
+// the answer array next to the chosen options; an empty entry means
+// "Other" is ticked but not filled in yet (blank entries are dropped
+// when the answer is validated).
+
+interface MultiSelectInputProps {
+  questionId: number;
+  options: string[];
+  settings: Json | null;
+  value: string[];
+  hasError: boolean;
+  onChange: (value: string[]) => void;
+}
+
+export function MultiSelectInput({
+  questionId,
+  options,
+  settings,
+  value,
+  hasError,
+  onChange,
+}: MultiSelectInputProps) {
+  const multiSelect = getMultiSelectSettings(settings);
+  const otherText = value.find((entry) => !options.includes(entry));
+  const isOtherChecked = otherText !== undefined;
+
+  const toggleOption = (option: string) => {
+    onChange(
+      value.includes(option)
+        ? value.filter((entry) => entry !== option)
+        : [...value, option]
+    );
+  };
+
+  const toggleOther = () => {
+    onChange(isOtherChecked ? value.filter((entry) => options.includes(entry)) : [...value, ""]);
+  };
+
+  const changeOtherText = (text: string) => {
+    onChange([...value.filter((entry) => options.includes(entry)), text]);
+  };
+
+  // e.g. "Choose 1 to 3", "Choose at least 2"
+  const hint =
+    multiSelect.minSelections && multiSelect.maxSelections
+      ? `Choose ${multiSelect.minSelections} to ${multiSelect.maxSelections}`
+      : multiSelect.minSelections
+        ? `Choose at least ${multiSelect.minSelections}`
+        : multiSelect.maxSelections
+          ? `Choose up to ${multiSelect.maxSelections}`
+          : "Choose all that apply";
+
+  const checkboxClassName =
+    "w-4 h-4 text-[#2663EB] border-slate-300 rounded focus:ring-2 focus:ring-[#2663EB]";
+
+  return (
+    <div>
+      <p className="font-body text-xs text-slate-500 mb-3">{hint}</p>
+      <div
+        className={`space-y-2 rounded-lg ${hasError ? "p-3 border border-red-500" : ""}`}
+      >
+        {options.map((option, i) => (
+          <div key={i} className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id={`question-${questionId}-option-${i}`}
+              checked={value.includes(option)}
+              onChange={() => toggleOption(option)}
+              className={checkboxClassName}
+            />
+            <label
+              htmlFor={`question-${questionId}-option-${i}`}
+              className="font-body text-base text-slate-900"
+            >
+              {option}
+            </label>
+          </div>
+        ))}
+
+        {multiSelect.allowOther && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id={`question-${questionId}-other`}
+                checked={isOtherChecked}
+                onChange={toggleOther}
+                className={checkboxClassName}
+              />
+              <label
+                htmlFor={`question-${questionId}-other`}
+                className="font-body text-base text-slate-900"
+              >
+                {OTHER_OPTION_LABEL}
+              </label>
+            </div>
+            {isOtherChecked && (
+              <input
+                type="text"
+                value={otherText}
+                onChange={(e) => changeOtherText(e.target.value)}
+                placeholder="Please specify..."
+                className="w-full ml-7 max-w-[calc(100%-1.75rem)] px-4 py-2 font-body text-base text-slate-900 placeholder:text-slate-400 border border-slate-300 rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent transition-all duration-200"
+              />
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+// ─────────────────────────────────────────────
+// NPS Input Component
+// ─────────────────────────────────────────────
+// 0-10 "how likely are you to recommend" scale for nps questions.
+
+interface NPSInputProps {
+  value: string;
+  hasError: boolean;
+  onChange: (value: string) => void;
+}
+
+export function NPSInput({ value, hasError, onChange }: NPSInputProps) {
+  return (
+    <div>
+      <div className="grid grid-cols-11 gap-1">
+        {Array.from({ length: 11 }, (_, score) => (
+          <button
+            key={score}
+            type="button"
+            onClick={() => onChange(String(score))}
+            aria-pressed={value === String(score)}
+            className={`py-2 font-accent text-sm font-semibold rounded-lg border transition-all duration-200 ${
+              value === String(score)
+                ? "bg-[#2663EB] border-[#2663EB] text-white"
+                : hasError
+                  ? "border-red-500 text-slate-700 hover:bg-slate-50"
+                  : "border-slate-300 text-slate-700 hover:bg-slate-50"
+            }`}
+          >
+            {score}
+          </button>
+        ))}
+      </div>
+      <div className="flex justify-between mt-2 font-body text-xs text-slate-500">
+        <span>Not at all likely</span>
+        <span>Extremely likely</span>
+      </div>
+    </div>
+  );
+}
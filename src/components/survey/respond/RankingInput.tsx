@@ -0,0 +1,129 @@
+import { Bars3Icon } from "@heroicons/react/24/outline";
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+
+// ─────────────────────────────────────────────
+// Ranking Input Component
+// ─────────────────────────────────────────────
+// Drag-to-order list for ranking questions, using the same dnd-kit
+// setup as question reordering in the builder. The question counts as
+// unanswered until the respondent reorders the list or keeps the order
+// shown, so optional rankings can still be skipped.
+
+interface RankingInputProps {
+  options: string[];
+  value: string[];
+  hasError: boolean;
+  onChange: (value: string[]) => void;
+}
+
+interface RankingItemProps {
+  option: string;
+  rank: number;
+  isRanked: boolean;
+}
+
+function RankingItem({ option, rank, isRanked }: RankingItemProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } =
+    useSortable({ id: option });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  return (
+    <li
+      ref={setNodeRef}
+      style={style}
+      className="flex items-center gap-3 px-4 py-3 bg-white border border-slate-300 rounded-lg cursor-grab active:cursor-grabbing touch-none"
+      {...attributes}
+      {...listeners}
+    >
+      <Bars3Icon className="w-5 h-5 text-slate-400 flex-shrink-0" />
+      <span
+        className={`w-6 font-accent text-sm font-semibold ${isRanked ? "text-[#2663EB]" : "text-slate-400"}`}
+      >
+        {rank}.
+      </span>
+      <span className="font-body text-base text-slate-900">{option}</span>
+    </li>
+  );
+}
+
+export function RankingInput({ options, value, hasError, onChange }: RankingInputProps) {
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8, // 8px of movement required before drag starts
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const isRanked = value.length > 0;
+  const ordered = isRanked ? value : options;
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+
+    const oldIndex = ordered.indexOf(active.id as string);
+    const newIndex = ordered.indexOf(over.id as string);
+    if (oldIndex !== -1 && newIndex !== -1) {
+      onChange(arrayMove(ordered, oldIndex, newIndex));
+    }
+  };
+
+  return (
+    <div>
+      <p className="font-body text-xs text-slate-500 mb-3">
+        Drag to order, most important first
+      </p>
+      <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+        <SortableContext items={ordered} strategy={verticalListSortingStrategy}>
+          <ol className={`space-y-2 rounded-lg ${hasError ? "p-2 border border-red-500" : ""}`}>
+            {ordered.map((option, index) => (
+              <RankingItem key={option} option={option} rank={index + 1} isRanked={isRanked} />
+            ))}
+          </ol>
+        </SortableContext>
+      </DndContext>
+      {isRanked ? (
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          className="mt-2 font-accent text-xs text-slate-500 hover:text-slate-700"
+        >
+          Clear ranking
+        </button>
+      ) : (
+        <button
+          type="button"
+          onClick={() => onChange([...options])}
+          className="mt-2 font-accent text-xs font-medium text-[#2663EB] hover:underline"
+        >
+          Keep this order
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import type { Json } from "@/types/supabase";
+import { getRatingSettings, getRatingValues, getRatingFace } from "@/lib/questionSettings";
+
+// ─────────────────────────────────────────────
+// Rating Input Component
+// ─────────────────────────────────────────────
+// Respondent-facing rating scale using the question's configured range,
+// step, endpoint labels and style (numbers, stars or emoji faces).
+
+interface RatingInputProps {
+  settings: Json | null;
+  value: string;
+  hasError: boolean;
+  onChange: (value: string) => void;
+}
+
+export function RatingInput({ settings, value, hasError, onChange }: RatingInputProps) {
+  const rating = getRatingSettings(settings);
+  const values = getRatingValues(rating);
+  const selected = value === "" ? null : Number(value);
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        {values.map((option) => {
+          const isSelected = selected === option;
+          // Stars fill up to the selected value
+          const isFilled = rating.style === "stars" && selected !== null && option <= selected;
+
+          return (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onChange(String(option))}
+              aria-label={`${option}`}
+              aria-pressed={isSelected}
+              className={`min-w-11 h-11 px-2 flex items-center justify-center font-accent text-base font-semibold rounded-lg border transition-all duration-200 ${
+                rating.style === "stars"
+                  ? `${isFilled ? "text-amber-400" : "text-slate-300"} ${
+                      hasError ? "border-red-500" : "border-transparent"
+                    } text-2xl hover:text-amber-300`
+                  : isSelected
+                    ? "bg-[#2663EB] border-[#2663EB] text-white"
+                    : hasError
+                      ? "border-red-500 text-slate-700 hover:bg-slate-50"
+                      : "border-slate-300 text-slate-700 hover:bg-slate-50"
+              }`}
+            >
+              {rating.style === "stars"
+                ? "★"
+                : rating.style === "emoji"
+                  ? <span className={`text-2xl ${isSelected ? "" : "opacity-60"}`}>{getRatingFace(option, rating)}</span>
+                  : option}
+            </button>
+          );
+        })}
+      </div>
+      {(rating.minLabel || rating.maxLabel) && (
+        <div className="flex justify-between mt-2 font-body text-xs text-slate-500">
+          <span>{rating.minLabel && `${rating.min} - ${rating.minLabel}`}</span>
+          <span>{rating.maxLabel && `${rating.max} - ${rating.maxLabel}`}</span>
+        </div>
+      )}
+    </div>
+  );
+}
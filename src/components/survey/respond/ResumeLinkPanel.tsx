@@ -0,0 +1,56 @@
+import { useState } from "react";
+import { CheckIcon, LinkIcon } from "@heroicons/react/24/outline";
+
+// ─────────────────────────────────────────────
+// Resume Link Panel Component
+// ─────────────────────────────────────────────
+// Shown after "Save and continue later": the link that reopens the
+// survey with the saved answers, on this or any other device.
+
+interface ResumeLinkPanelProps {
+  link: string;
+  onClose: () => void;
+}
+
+export function ResumeLinkPanel({ link, onClose }: ResumeLinkPanelProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(link);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+      <p className="font-body text-sm font-medium text-slate-900 mb-1">Your progress is saved</p>
+      <p className="font-body text-sm text-slate-600 mb-3">
+        Use this link to pick up where you left off. Anyone with the link can see your answers.
+      </p>
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={link}
+          readOnly
+          onFocus={(e) => e.target.select()}
+          className="flex-1 min-w-0 px-3 py-2 font-accent text-sm text-slate-700 bg-white border border-slate-300 rounded-lg"
+        />
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="inline-flex items-center gap-1 px-3 py-2 bg-[#2663EB] text-white font-accent text-sm font-medium rounded-lg hover:bg-[#2054C8] transition-colors duration-200"
+        >
+          {copied ? <CheckIcon className="w-4 h-4" /> : <LinkIcon className="w-4 h-4" />}
+          {copied ? "Copied" : "Copy"}
+        </button>
+      </div>
+      <button
+        type="button"
+        onClick={onClose}
+        className="mt-3 font-accent text-sm text-slate-600 hover:text-slate-900"
+      >
+        Keep answering
+      </button>
+    </div>
+  );
+}
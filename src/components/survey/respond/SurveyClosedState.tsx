@@ -0,0 +1,55 @@
+import { ClockIcon, LockClosedIcon } from "@heroicons/react/24/outline";
+
+// ─────────────────────────────────────────────
+// Survey Closed State Component
+// ─────────────────────────────────────────────
+// Shown to respondents instead of the form when the survey is not open:
+// either it has not opened yet, it has stopped accepting responses, or it
+// has all the responses its quotas allow.
+
+interface SurveyClosedStateProps {
+  title?: string;
+  notOpenYet: boolean;
+  isFull?: boolean;
+  opensAt?: string | null;
+  closesAt?: string | null;
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: "long", timeStyle: "short" });
+
+export function SurveyClosedState({
+  title,
+  notOpenYet,
+  isFull = false,
+  opensAt,
+  closesAt,
+}: SurveyClosedStateProps) {
+  const Icon = notOpenYet ? ClockIcon : LockClosedIcon;
+
+  let message = "This survey is no longer accepting responses. Thank you for your interest.";
+  if (notOpenYet) {
+    message = opensAt
+      ? `This survey opens on ${formatDateTime(opensAt)}. Please come back then.`
+      : "This survey is not open yet. Please check back later.";
+  } else if (isFull) {
+    message = "This survey has all the responses it needs. Thank you for your interest.";
+  } else if (closesAt) {
+    message = `This survey closed on ${formatDateTime(closesAt)} and is no longer accepting responses.`;
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-8 max-w-md w-full text-center">
+        <div className="inline-flex items-center justify-center w-16 h-16 bg-slate-100 rounded-full mb-4">
+          <Icon className="w-8 h-8 text-slate-500" />
+        </div>
+        <h2 className="font-heading text-2xl font-semibold text-slate-900 mb-2">
+          {notOpenYet ? "Not Open Yet" : isFull ? "Survey Full" : "Survey Closed"}
+        </h2>
+        {title && <p className="font-body text-sm font-medium text-slate-700 mb-2">{title}</p>}
+        <p className="font-body text-slate-600">{message}</p>
+      </div>
+    </div>
+  );
+}
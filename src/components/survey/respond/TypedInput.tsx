@@ -0,0 +1,57 @@
+import type { Json } from "@/types/supabase";
+import type { InputFormat } from "@/types/survey";
+import { INPUT_FORMATS, getInputSettings } from "@/lib/questionSettings";
+
+// ─────────────────────────────────────────────
+// Typed Input Component
+// ─────────────────────────────────────────────
+// Single-line input for short text questions with an email, number,
+// date, phone or URL format. The browser hints are a convenience only;
+// the shared response validator has the final say.
+
+interface TypedInputProps {
+  questionId: number;
+  settings: Json | null;
+  value: string;
+  hasError: boolean;
+  onChange: (value: string) => void;
+}
+
+const INPUT_TYPES: Record<InputFormat, string> = {
+  text: "text",
+  email: "email",
+  number: "number",
+  date: "date",
+  phone: "tel",
+  url: "url",
+};
+
+const INPUT_MODES: Partial<Record<InputFormat, "email" | "decimal" | "numeric" | "tel" | "url">> = {
+  email: "email",
+  phone: "tel",
+  url: "url",
+};
+
+export function TypedInput({ questionId, settings, value, hasError, onChange }: TypedInputProps) {
+  const input = getInputSettings(settings);
+  const placeholder = INPUT_FORMATS.find((format) => format.value === input.format)?.placeholder;
+
+  return (
+    <input
+      id={`question-${questionId}`}
+      type={INPUT_TYPES[input.format]}
+      inputMode={
+        input.format === "number" ? (input.integer ? "numeric" : "decimal") : INPUT_MODES[input.format]
+      }
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      min={input.format === "number" ? input.min : input.minDate}
+      max={input.format === "number" ? input.max : input.maxDate}
+      step={input.format === "number" ? (input.integer ? 1 : "any") : undefined}
+      placeholder={placeholder}
+      className={`w-full px-4 py-3 font-body text-base text-slate-900 placeholder:text-slate-400 border rounded-lg focus:ring-2 focus:ring-[#2663EB] focus:border-transparent transition-all duration-200 ${
+        hasError ? "border-red-500" : "border-slate-300"
+      }`}
+    />
+  );
+}
@@ -0,0 +1,13 @@
+// ─────────────────────────────────────────────
+// Survey Respond Components - Barrel Export
+// ─────────────────────────────────────────────
+
+export { RatingInput } from "./RatingInput";
+export { NPSInput } from "./NPSInput";
+export { MultiSelectInput } from "./MultiSelectInput";
+export { MatrixInput } from "./MatrixInput";
+export { RankingInput } from "./RankingInput";
+export { FileUploadInput } from "./FileUploadInput";
+export { TypedInput } from "./TypedInput";
+export { ResumeLinkPanel } from "./ResumeLinkPanel";
+export { SurveyClosedState } from "./SurveyClosedState";
@@ -0,0 +1,150 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabaseClient";
+import { createLogger } from "@/lib/logger";
+import { hasPermission, type Permission } from "@/lib/permissions";
+import type { Database } from "@/types/supabase";
+
+const logger = createLogger("OrgContext");
+
+type Organization = Database["public"]["Tables"]["organizations"]["Row"];
+
+/**
+ * OrgContext
+ *
+ * Tracks the signed-in Supabase user and the organization they belong to.
+ *
+ * Features:
+ * - Subscribes to Supabase auth state (sign in, sign out, token refresh)
+ * - Resolves the user's organization and role from org_members
+ * - Exposes orgId so pages and hooks never fall back to a shared tenant
+ * - can() checks role permissions for hiding actions in the UI
+ */
+
+interface OrgContextType {
+  // Auth state
+  session: Session | null;
+  user: User | null;
+
+  // Organization state
+  organization: Organization | null;
+  orgId: string | null;
+  role: string | null;
+  can: (permission: Permission) => boolean;
+
+  // True until the session and membership have been resolved
+  loading: boolean;
+
+  signOut: () => Promise<void>;
+}
+
+const OrgContext = createContext<OrgContextType | undefined>(undefined);
+
+/**
+ * OrgProvider Component
+ *
+ * Wraps the application to provide auth and organization context
+ */
+export function OrgProvider({ children }: { children: ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [role, setRole] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  // User whose membership is loaded (or loading), so token refreshes don't reset loading
+  const membershipUserId = useRef<string | null>(null);
+
+  // Load the organization for the signed-in user
+  const loadMembership = useCallback(async (userId: string) => {
+    const { data, error } = await supabase
+      .from("org_members")
+      .select("role, organizations(*)")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      logger.error("Failed to load organization membership", error, { userId });
+    }
+
+    setOrganization(data?.organizations ?? null);
+    setRole(data?.role ?? null);
+    setLoading(false);
+  }, []);
+
+  // Subscribe to auth changes (fires immediately with the stored session)
+  useEffect(() => {
+    const { data: subscription } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+
+      if (!newSession) {
+        membershipUserId.current = null;
+        setOrganization(null);
+        setRole(null);
+        setLoading(false);
+        return;
+      }
+
+      // A new user signed in: loading until their organization is known
+      if (membershipUserId.current !== newSession.user.id) {
+        membershipUserId.current = newSession.user.id;
+        setLoading(true);
+      }
+
+      // Defer Supabase queries until the auth callback has returned
+      setTimeout(() => {
+        loadMembership(newSession.user.id);
+      }, 0);
+    });
+
+    return () => {
+      subscription.subscription.unsubscribe();
+    };
+  }, [loadMembership]);
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      logger.error("Failed to sign out", error);
+    }
+  }, []);
+
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
+  const value: OrgContextType = {
+    session,
+    user: session?.user ?? null,
+    organization,
+    orgId: organization?.id ?? null,
+    role,
+    can,
+    loading,
+    signOut,
+  };
+
+  return <OrgContext.Provider value={value}>{children}</OrgContext.Provider>;
+}
+
+/**
+ * useOrg Hook
+ *
+ * Custom hook to access the current user and organization
+ *
+ * Usage:
+ * ```tsx
+ * const { orgId, user, can, signOut } = useOrg();
+ * ```
+ */
+export function useOrg(): OrgContextType {
+  const context = useContext(OrgContext);
+
+  if (!context) {
+    throw new Error("useOrg must be used within an OrgProvider");
+  }
+
+  return context;
+}
+
+export default OrgContext;
@@ -2,7 +2,8 @@
  * Context Providers and Hooks
  * 
  * Clean exports for all application context providers and their custom hooks.
- * Usage: import { UIProvider, useUI } from "@/context"
+ * Usage: import { UIProvider, useUI, useOrg } from "@/context"
  */
 
 export { UIProvider, useUI, default as UIContext } from './UIContext';
+export { OrgProvider, useOrg, default as OrgContext } from './OrgContext';
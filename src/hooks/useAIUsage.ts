@@ -0,0 +1,51 @@
+/**
+ * useAIUsage Hook
+ * ────────────────────────────────────────────────────
+ * Loads the organization's AI token usage for this month.
+ *
+ * Why this hook exists:
+ * - Usage is written server-side on every AI completion; the dashboard
+ *   shows it against the org's monthly budget (GET /api/openai/usage)
+ */
+
+import { useState, useEffect } from 'react';
+import { authFetch } from '@/lib/authFetch';
+import { createLogger } from '@/lib/logger';
+import type { AIUsageSummary } from '@/lib/ai/usage';
+
+const logger = createLogger('useAIUsage');
+
+/**
+ * useAIUsage Hook
+ * ────────────────────────────────────────────────────
+ * @returns Usage (null until loaded), loading flag and error message
+ */
+export function useAIUsage() {
+  const [usage, setUsage] = useState<AIUsageSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchUsage = async () => {
+      try {
+        const res = await authFetch('/api/openai/usage');
+        const result = await res.json();
+
+        if (!res.ok || !result.success) {
+          throw new Error(result.error || 'Failed to load AI usage');
+        }
+
+        setUsage(result.usage);
+      } catch (err) {
+        logger.error('Failed to load AI usage', err);
+        setError('Failed to load AI usage');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchUsage();
+  }, []);
+
+  return { usage, loading, error };
+}
@@ -0,0 +1,75 @@
+/**
+ * useAnalysisQueue Hook
+ * ────────────────────────────────────────────────────
+ * Loads the organization's sentiment analysis queue status and re-queues
+ * failed jobs.
+ *
+ * Why this hook exists:
+ * - Analysis runs in a background queue (analysis_jobs); the dashboard
+ *   shows how many responses are waiting and which ones failed
+ *   (GET /api/analysis/status, POST /api/analysis/retry)
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { authFetch } from '@/lib/authFetch';
+import { createLogger } from '@/lib/logger';
+import type { AnalysisQueueStatus } from '@/lib/analysisJobs';
+
+const logger = createLogger('useAnalysisQueue');
+
+/**
+ * useAnalysisQueue Hook
+ * ────────────────────────────────────────────────────
+ * @returns Queue status (null until loaded), loading and error state,
+ *          and retryFailed() to re-queue failed jobs
+ */
+export function useAnalysisQueue() {
+  const [status, setStatus] = useState<AnalysisQueueStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [retrying, setRetrying] = useState(false);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const res = await authFetch('/api/analysis/status');
+      const result = await res.json();
+
+      if (!res.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load analysis queue');
+      }
+
+      setStatus(result.status);
+      setError(null);
+    } catch (err) {
+      logger.error('Failed to load analysis queue', err);
+      setError('Failed to load analysis queue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const retryFailed = async () => {
+    setRetrying(true);
+    try {
+      const res = await authFetch('/api/analysis/retry', { method: 'POST' });
+      const result = await res.json();
+
+      if (!res.ok || !result.success) {
+        throw new Error(result.error || 'Failed to retry analysis');
+      }
+
+      await fetchStatus();
+    } catch (err) {
+      logger.error('Failed to retry analysis jobs', err);
+      setError('Failed to retry analysis');
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  return { status, loading, error, retrying, retryFailed, refetch: fetchStatus };
+}
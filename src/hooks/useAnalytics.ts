@@ -31,6 +31,7 @@ interface UseAnalyticsReturn {
   survey: Survey | null;
   questions: SurveyQuestion[];
   responses: Response[];
+  partialResponses: Response[]; // Saved drafts never submitted
   analytics: AnalyticsSummary;
   
   // State
@@ -49,7 +50,7 @@ interface UseAnalyticsReturn {
  * Features:
  * - Fetches survey metadata
  * - Fetches survey questions
- * - Fetches survey responses
+ * - Fetches survey responses (completed, plus saved drafts for drop-off)
  * - Calculates analytics summary using lib/analytics
  * - Error handling with detailed logging
  * - Refetch capability
@@ -71,6 +72,7 @@ export function useAnalytics(surveyId: string | undefined): UseAnalyticsReturn {
   const [survey, setSurvey] = useState<Survey | null>(null);
   const [questions, setQuestions] = useState<SurveyQuestion[]>([]);
   const [responses, setResponses] = useState<Response[]>([]);
+  const [partialResponses, setPartialResponses] = useState<Response[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -120,7 +122,8 @@ export function useAnalytics(surveyId: string | undefined): UseAnalyticsReturn {
 
       setSurvey(surveyData);
       setQuestions(questionsData || []);
-      setResponses(responsesData || []);
+      setResponses((responsesData || []).filter((response) => response.completed));
+      setPartialResponses((responsesData || []).filter((response) => !response.completed));
 
       logger.debug('Analytics data loaded successfully', {
         surveyId,
@@ -147,6 +150,7 @@ export function useAnalytics(surveyId: string | undefined): UseAnalyticsReturn {
     survey,
     questions,
     responses,
+    partialResponses,
     analytics,
     loading,
     error,
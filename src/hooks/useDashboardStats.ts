@@ -1,6 +1,7 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/lib/supabaseClient";
 import { createLogger } from "@/lib/logger";
+import { useOrg } from "@/context";
 
 const logger = createLogger('DashboardStats');
 
@@ -9,7 +10,7 @@ const logger = createLogger('DashboardStats');
  * 
  * Defines the shape of dashboard metrics:
  * - totalSurveys: Total count of all surveys
- * - activeSurveys: Count of surveys with status='active'
+ * - activeSurveys: Count of surveys open right now (inside their opening window)
  * - totalResponses: Total count of all responses across all surveys
  */
 export interface DashboardStats {
@@ -24,8 +25,9 @@ export interface DashboardStats {
  * Fetches real-time dashboard statistics from Supabase.
  * This hook:
  * 1. Queries the surveys table for total and active counts
- * 2. Queries the responses table for total response count
+ * 2. Counts completed responses with survey_response_stats()
  * 3. Subscribes to Realtime updates for live data sync
+ * All queries are scoped to the signed-in user's organization.
  * 
  * @returns {Object} - { stats, loading, error }
  * 
@@ -35,6 +37,7 @@ export interface DashboardStats {
  * ```
  */
 export function useDashboardStats() {
+  const { orgId } = useOrg();
   const [stats, setStats] = useState<DashboardStats>({
     totalSurveys: 0,
     activeSurveys: 0,
@@ -43,60 +46,17 @@ export function useDashboardStats() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    // Fetch initial stats
-    fetchStats();
-
-    // Subscribe to Realtime updates for surveys table
-    const surveysChannel = supabase
-      .channel("dashboard-surveys")
-      .on(
-        "postgres_changes",
-        {
-          event: "*", // Listen to all events (INSERT, UPDATE, DELETE)
-          schema: "public",
-          table: "surveys",
-        },
-        () => {
-          // Refetch stats when surveys change
-          fetchStats();
-        }
-      )
-      .subscribe();
-
-    // Subscribe to Realtime updates for responses table
-    const responsesChannel = supabase
-      .channel("dashboard-responses")
-      .on(
-        "postgres_changes",
-        {
-          event: "*",
-          schema: "public",
-          table: "responses",
-        },
-        () => {
-          // Refetch stats when responses change
-          fetchStats();
-        }
-      )
-      .subscribe();
-
-    // Cleanup subscriptions on unmount
-    return () => {
-      supabase.removeChannel(surveysChannel);
-      supabase.removeChannel(responsesChannel);
-    };
-  }, []);
-
   /**
    * fetchStats
    * 
    * Queries Supabase for:
    * 1. Total survey count
-   * 2. Active survey count (status='active')
+   * 2. Open survey count (scheduled or active, inside the window)
    * 3. Total response count
    */
-  async function fetchStats() {
+  const fetchStats = useCallback(async () => {
+    if (!orgId) return;
+
     try {
       setLoading(true);
       setError(null);
@@ -104,25 +64,31 @@ export function useDashboardStats() {
       // Query 1: Get total surveys count
       const { count: totalSurveys, error: surveysError } = await supabase
         .from("surveys")
-        .select("*", { count: "exact", head: true });
+        .select("*", { count: "exact", head: true })
+        .eq("org_id", orgId);
 
       if (surveysError) throw surveysError;
 
-      // Query 2: Get active surveys count (status='active')
+      // Query 2: Get open surveys count (same rule as isAcceptingResponses)
+      const now = new Date().toISOString();
       const { count: activeSurveys, error: activeError } = await supabase
         .from("surveys")
         .select("*", { count: "exact", head: true })
-        .eq("status", "active");
+        .eq("org_id", orgId)
+        .in("status", ["scheduled", "active"])
+        .or(`opens_at.is.null,opens_at.lte.${now}`)
+        .or(`closes_at.is.null,closes_at.gt.${now}`);
 
       if (activeError) throw activeError;
 
-      // Query 3: Get total responses count
-      const { count: totalResponses, error: responsesError } = await supabase
-        .from("responses")
-        .select("*", { count: "exact", head: true });
+      // Query 3: Get total responses count (counts only, so viewers see it too)
+      const { data: responseStats, error: responsesError } = await supabase
+        .rpc("survey_response_stats", { p_org_id: orgId });
 
       if (responsesError) throw responsesError;
 
+      const totalResponses = (responseStats ?? []).reduce((sum, row) => sum + row.responses, 0);
+
       // Update state with fetched stats
       setStats({
         totalSurveys: totalSurveys ?? 0,
@@ -141,7 +107,56 @@ export function useDashboardStats() {
     } finally {
       setLoading(false);
     }
-  }
+  }, [orgId]);
+
+  useEffect(() => {
+    if (!orgId) return;
+
+    // Fetch initial stats
+    fetchStats();
+
+    // Subscribe to Realtime updates for surveys table
+    const surveysChannel = supabase
+      .channel("dashboard-surveys")
+      .on(
+        "postgres_changes",
+        {
+          event: "*", // Listen to all events (INSERT, UPDATE, DELETE)
+          schema: "public",
+          table: "surveys",
+          filter: `org_id=eq.${orgId}`,
+        },
+        () => {
+          // Refetch stats when surveys change
+          fetchStats();
+        }
+      )
+      .subscribe();
+
+    // Subscribe to Realtime updates for responses table
+    const responsesChannel = supabase
+      .channel("dashboard-responses")
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "responses",
+          filter: `org_id=eq.${orgId}`,
+        },
+        () => {
+          // Refetch stats when responses change
+          fetchStats();
+        }
+      )
+      .subscribe();
+
+    // Cleanup subscriptions on unmount
+    return () => {
+      supabase.removeChannel(surveysChannel);
+      supabase.removeChannel(responsesChannel);
+    };
+  }, [orgId, fetchStats]);
 
   return { stats, loading, error };
 }
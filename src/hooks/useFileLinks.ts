@@ -0,0 +1,79 @@
+/**
+ * useFileLinks Hook
+ * ────────────────────────────────────────────────────
+ * Fetches expiring download links for files attached to responses.
+ * 
+ * Why this hook exists:
+ * - File answers store only a storage key; links come from
+ *   POST /api/files/links, which checks the caller's organization
+ * - The analytics page and its CSV export share the same links
+ */
+
+import { useState, useEffect } from 'react';
+import { authFetch } from '@/lib/authFetch';
+import { createLogger } from '@/lib/logger';
+import { isFileAnswer } from '@/lib/utils';
+import type { Database } from '@/types/supabase';
+
+const logger = createLogger('useFileLinks');
+
+type Response = Database['public']['Tables']['responses']['Row'];
+type SurveyQuestion = Database['public']['Tables']['survey_questions']['Row'];
+
+/**
+ * useFileLinks Hook
+ * ────────────────────────────────────────────────────
+ * @param surveyId - Survey the responses belong to
+ * @param questions - Survey questions (only file_upload answers are linked)
+ * @param responses - Loaded responses
+ * @returns Download links keyed by storage key (empty until loaded)
+ */
+export function useFileLinks(
+  surveyId: string | undefined,
+  questions: SurveyQuestion[],
+  responses: Response[]
+): Record<string, string> {
+  const [links, setLinks] = useState<Record<string, string>>({});
+
+  const fileQuestionIds = questions
+    .filter((question) => question.type === 'file_upload')
+    .map((question) => question.id.toString());
+
+  const keys = responses.flatMap((response) => {
+    const answers = (response.answers ?? {}) as Record<string, unknown>;
+    return fileQuestionIds
+      .map((questionId) => answers[questionId])
+      .filter(isFileAnswer)
+      .map((file) => file.key);
+  });
+
+  // Refetch only when the set of files changes
+  const keysSignature = keys.join('|');
+
+  useEffect(() => {
+    if (!surveyId || keysSignature === '') return;
+
+    const fetchLinks = async () => {
+      try {
+        const res = await authFetch('/api/files/links', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ surveyId, keys: keysSignature.split('|') }),
+        });
+        const result = await res.json();
+
+        if (!res.ok || !result.success) {
+          throw new Error(result.error || 'Failed to load file links');
+        }
+
+        setLinks(result.links);
+      } catch (err) {
+        logger.error('Failed to load file links', err, { surveyId });
+      }
+    };
+
+    fetchLinks();
+  }, [surveyId, keysSignature]);
+
+  return links;
+}
@@ -1,6 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/lib/supabaseClient';
 import { createLogger } from '@/lib/logger';
+import { useOrg } from '@/context';
 import type { Database } from '@/types/supabase';
 
 const logger = createLogger('useInsightsData');
@@ -8,9 +9,6 @@ const logger = createLogger('useInsightsData');
 type Survey = Database['public']['Tables']['surveys']['Row'];
 type Response = Database['public']['Tables']['responses']['Row'];
 
-// Get default org ID from environment or use fallback
-const DEFAULT_ORG_ID = process.env.NEXT_PUBLIC_DEFAULT_ORG_ID || '00000000-0000-0000-0000-000000000001';
-
 export interface InsightsData {
   totalResponses: number;
   totalSurveys: number;
@@ -40,40 +38,47 @@ export interface InsightsData {
 /**
  * useInsightsData Hook
  * 
- * Fetches aggregate insights data across all surveys for the dashboard.
+ * Fetches aggregate insights data across the current organization's surveys.
  * Provides overall statistics, trends, and recent activity.
  */
 export function useInsightsData() {
+  const { orgId } = useOrg();
   const [data, setData] = useState<InsightsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    fetchInsightsData();
-  }, []);
+  const fetchInsightsData = useCallback(async () => {
+    if (!orgId) return;
 
-  const fetchInsightsData = async () => {
     try {
       setLoading(true);
       setError(null);
 
-      logger.info('Fetching insights data');
+      logger.info('Fetching insights data', { orgId });
 
       // Fetch all surveys
       const { data: surveys, error: surveysError } = await supabase
         .from('surveys')
         .select('*')
-        .eq('org_id', DEFAULT_ORG_ID)
+        .eq('org_id', orgId)
         .order('created_at', { ascending: false });
 
       if (surveysError) throw surveysError;
 
-      // Fetch all responses
+      // Counts per survey (available to every member, viewers included)
+      const { data: stats, error: statsError } = await supabase
+        .rpc('survey_response_stats', { p_org_id: orgId });
+
+      if (statsError) throw statsError;
+
+      // Latest raw responses (RLS returns none to viewers)
       const { data: responses, error: responsesError } = await supabase
         .from('responses')
         .select('*, survey:surveys(*)')
-        .eq('org_id', DEFAULT_ORG_ID)
-        .order('created_at', { ascending: false });
+        .eq('org_id', orgId)
+        .eq('completed', true)
+        .order('created_at', { ascending: false })
+        .limit(10);
 
       if (responsesError) throw responsesError;
 
@@ -86,46 +91,32 @@ export function useInsightsData() {
         unanalyzed: 0,
       };
 
-      (responses || []).forEach((r) => {
-        if (!r.sentiment) {
-          sentimentBreakdown.unanalyzed++;
-        } else if (r.sentiment === 'positive') {
-          sentimentBreakdown.positive++;
-        } else if (r.sentiment === 'negative') {
-          sentimentBreakdown.negative++;
-        } else if (r.sentiment === 'neutral') {
-          sentimentBreakdown.neutral++;
-        } else if (r.sentiment === 'mixed') {
-          sentimentBreakdown.mixed++;
-        }
+      (stats || []).forEach((row) => {
+        sentimentBreakdown.positive += row.positive;
+        sentimentBreakdown.neutral += row.neutral;
+        sentimentBreakdown.negative += row.negative;
+        sentimentBreakdown.mixed += row.mixed;
+        sentimentBreakdown.unanalyzed +=
+          row.responses - row.positive - row.neutral - row.negative - row.mixed;
       });
 
       // Calculate top surveys (by response count)
-      const surveyResponseCounts = new Map<string, number>();
       const surveyMap = new Map<string, Survey>();
-      
       (surveys || []).forEach(s => surveyMap.set(s.id, s));
-      (responses || []).forEach((r) => {
-        surveyResponseCounts.set(r.survey_id, (surveyResponseCounts.get(r.survey_id) || 0) + 1);
-      });
 
-      const topSurveys = Array.from(surveyResponseCounts.entries())
-        .map(([surveyId, count]) => {
-          const survey = surveyMap.get(surveyId);
+      const topSurveys = (stats || [])
+        .map((row) => {
+          const survey = surveyMap.get(row.survey_id);
           if (!survey) return null;
 
           // Calculate avg sentiment for this survey
-          const surveyResponses = (responses || []).filter(r => r.survey_id === surveyId);
-          const posCount = surveyResponses.filter(r => r.sentiment === 'positive').length;
-          const negCount = surveyResponses.filter(r => r.sentiment === 'negative').length;
-          
           let avgSentiment = 'Neutral';
-          if (posCount > negCount && posCount > 0) avgSentiment = 'Positive';
-          else if (negCount > posCount && negCount > 0) avgSentiment = 'Negative';
+          if (row.positive > row.negative && row.positive > 0) avgSentiment = 'Positive';
+          else if (row.negative > row.positive && row.negative > 0) avgSentiment = 'Negative';
 
           return {
             survey,
-            responseCount: count,
+            responseCount: row.responses,
             avgSentiment,
           };
         })
@@ -134,25 +125,20 @@ export function useInsightsData() {
         .slice(0, 5);
 
       // Get recent responses (last 10)
-      const recentResponses = (responses || []).slice(0, 10).map(r => ({
+      const recentResponses = (responses || []).map(r => ({
         response: r,
         survey: (r as any).survey || null,
       }));
 
       // Calculate response trends
-      const now = new Date();
-      const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-      const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      const oneMonthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-
       const responseTrend = {
-        today: (responses || []).filter(r => new Date(r.created_at) > oneDayAgo).length,
-        thisWeek: (responses || []).filter(r => new Date(r.created_at) > oneWeekAgo).length,
-        thisMonth: (responses || []).filter(r => new Date(r.created_at) > oneMonthAgo).length,
+        today: (stats || []).reduce((sum, row) => sum + row.last_day, 0),
+        thisWeek: (stats || []).reduce((sum, row) => sum + row.last_week, 0),
+        thisMonth: (stats || []).reduce((sum, row) => sum + row.last_month, 0),
       };
 
       const insightsData: InsightsData = {
-        totalResponses: responses?.length || 0,
+        totalResponses: (stats || []).reduce((sum, row) => sum + row.responses, 0),
         totalSurveys: surveys?.length || 0,
         sentimentBreakdown,
         topSurveys,
@@ -172,7 +158,11 @@ export function useInsightsData() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [orgId]);
+
+  useEffect(() => {
+    fetchInsightsData();
+  }, [fetchInsightsData]);
 
   return {
     data,
@@ -13,15 +13,13 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { supabase } from '@/lib/supabaseClient';
 import { createLogger } from '@/lib/logger';
+import { useOrg } from '@/context';
 import type { Database } from '@/types/supabase';
 
 const logger = createLogger('useRealtimeActivityFeed');
 
 type ActivityFeedRow = Database['public']['Tables']['activity_feed']['Row'];
 
-const DEFAULT_ORG_ID =
-  process.env.NEXT_PUBLIC_DEFAULT_ORG_ID || '00000000-0000-0000-0000-000000000001';
-
 /**
  * Realtime Status Types
  */
@@ -50,14 +48,17 @@ interface UseRealtimeActivityFeedReturn {
  * - Safe state updates (prevents updates after unmount)
  * - Connection status tracking
  * 
- * @param orgId - Organization ID (defaults to DEFAULT_ORG_ID)
+ * @param orgIdOverride - Organization ID (defaults to the signed-in user's organization)
  * @param limit - Number of activities to fetch (default: 10)
  * @returns Activity feed data and helpers
  */
 export function useRealtimeActivityFeed(
-  orgId: string = DEFAULT_ORG_ID,
+  orgIdOverride?: string,
   limit: number = 10
 ): UseRealtimeActivityFeedReturn {
+  const { orgId: sessionOrgId } = useOrg();
+  const orgId = orgIdOverride ?? sessionOrgId;
+
   const [activities, setActivities] = useState<ActivityFeedRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -70,6 +71,8 @@ export function useRealtimeActivityFeed(
    * Fetch activities from database
    */
   const fetchActivities = useCallback(async () => {
+    if (!orgId) return;
+
     try {
       // Only update state if component is still mounted
       if (!isMountedRef.current) return;
@@ -117,6 +120,9 @@ export function useRealtimeActivityFeed(
     // Mark component as mounted
     isMountedRef.current = true;
 
+    // Wait until the organization is known
+    if (!orgId) return;
+
     // Initial fetch
     fetchActivities();
 
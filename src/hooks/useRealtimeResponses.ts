@@ -157,6 +157,9 @@ export function useRealtimeResponses(
           // Only process if still mounted
           if (!isMountedRef.current) return;
 
+          // Saved drafts are not new responses
+          if (payload.new.completed === false) return;
+
           const responseId = payload.new.id as string;
           
           logger.info('New response detected', {
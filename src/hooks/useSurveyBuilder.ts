@@ -1,6 +1,10 @@
 import { useState } from "react";
-import type { SurveyData, Question, QuestionType } from "@/types/survey";
+import type { SurveyData, Question, QuestionType, ResponseQuota } from "@/types/survey";
+import { NPS_QUESTION_TEXT, OPTION_QUESTION_TYPES } from "@/types/survey";
 import { createLogger } from "@/lib/logger";
+import { DEFAULT_MATRIX_SETTINGS } from "@/lib/questionSettings";
+import { authFetch } from "@/lib/authFetch";
+import { carryPipingReferences } from "@/lib/answerPiping";
 
 const logger = createLogger('SurveyBuilder');
 
@@ -30,9 +34,10 @@ export function useSurveyBuilder() {
     const newQuestion: Question = {
       id: `q-${Date.now()}`,
       type,
-      text: "",
+      text: type === "nps" ? NPS_QUESTION_TEXT : "",
       required: true,
-      options: type === "multiple_choice" ? ["Option 1", "Option 2"] : undefined,
+      options: OPTION_QUESTION_TYPES.includes(type) ? ["Option 1", "Option 2"] : undefined,
+      settings: type === "matrix" ? { matrix: DEFAULT_MATRIX_SETTINGS } : undefined,
     };
     setSurveyData({
       ...surveyData,
@@ -52,7 +57,10 @@ export function useSurveyBuilder() {
   const deleteQuestion = (id: string) => {
     setSurveyData({
       ...surveyData,
-      questions: surveyData.questions.filter((q) => q.id !== id),
+      questions: carryPipingReferences(
+        surveyData.questions,
+        surveyData.questions.filter((q) => q.id !== id)
+      ),
     });
   };
 
@@ -67,11 +75,23 @@ export function useSurveyBuilder() {
       
       setSurveyData({
         ...surveyData,
-        questions: newQuestions,
+        questions: carryPipingReferences(surveyData.questions, newQuestions),
       });
     }
   };
 
+  const setRandomizeQuestions = (randomizeQuestions: boolean) => {
+    setSurveyData({ ...surveyData, randomizeQuestions });
+  };
+
+  const setResponseLimit = (responseLimit: number | null) => {
+    setSurveyData({ ...surveyData, responseLimit });
+  };
+
+  const setQuotas = (quotas: ResponseQuota[]) => {
+    setSurveyData({ ...surveyData, quotas });
+  };
+
   // ─────────────────────────────────────────────
   // Multiple Choice Option Management
   // ─────────────────────────────────────────────
@@ -112,7 +132,7 @@ export function useSurveyBuilder() {
     setPublishError(null);
 
     try {
-      const response = await fetch('/api/openai/generate', {
+      const response = await authFetch('/api/openai/generate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -127,6 +147,10 @@ export function useSurveyBuilder() {
       if (data.success) {
         setAIGeneratedQuestions(data.questions);
         setIsAIMock(data.isMock || false);
+      } else if (response.status === 429) {
+        // Rate limited: show the server's message rather than a generic one
+        setPublishError(data.error);
+        setShowAIPreview(false);
       } else {
         throw new Error(data.error || 'Failed to generate questions');
       }
@@ -161,17 +185,17 @@ export function useSurveyBuilder() {
   // Survey Publishing
   // ─────────────────────────────────────────────
 
-  const publishSurvey = async (orgId: string): Promise<{ success: boolean; surveyId?: string; error?: string }> => {
+  // The API resolves the organization from the signed-in user's session
+  const publishSurvey = async (): Promise<{ success: boolean; surveyId?: string; error?: string }> => {
     setIsPublishing(true);
     setPublishError(null);
 
     try {
-      const response = await fetch('/api/surveys/save', {
+      const response = await authFetch('/api/surveys/save', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          surveyData,
-          orgId
+          surveyData
         })
       });
 
@@ -210,6 +234,9 @@ export function useSurveyBuilder() {
     updateQuestion,
     deleteQuestion,
     reorderQuestions,
+    setRandomizeQuestions,
+    setResponseLimit,
+    setQuotas,
     addOption,
     updateOption,
     deleteOption,
@@ -1,7 +1,11 @@
 import { useState, useEffect } from "react";
-import type { SurveyData, Question, QuestionType } from "@/types/survey";
+import type { SurveyData, Question, QuestionType, ResponseQuota } from "@/types/survey";
+import { dbQuestionToUi, quotasFromDb, NPS_QUESTION_TEXT, OPTION_QUESTION_TYPES } from "@/types/survey";
 import { createLogger } from "@/lib/logger";
+import { DEFAULT_MATRIX_SETTINGS } from "@/lib/questionSettings";
 import { supabase } from "@/lib/supabaseClient";
+import { authFetch } from "@/lib/authFetch";
+import { carryPipingReferences } from "@/lib/answerPiping";
 
 const logger = createLogger('SurveyEditor');
 
@@ -11,16 +15,6 @@ const logger = createLogger('SurveyEditor');
 // Similar to useSurveyBuilder but designed for editing existing surveys.
 // Loads survey data from database, allows editing, and saves as new version.
 
-interface DbQuestion {
-  id: number;
-  survey_id: string;
-  question: string;
-  type: string;
-  position: number;
-  options: string[] | null;
-  required: boolean;
-}
-
 export function useSurveyEditor(surveyId: string | null) {
   const [surveyData, setSurveyData] = useState<SurveyData>({
     title: "",
@@ -38,6 +32,7 @@ export function useSurveyEditor(surveyId: string | null) {
   const [isAIMock, setIsAIMock] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
+  const [saveWarnings, setSaveWarnings] = useState<string[]>([]);
 
   // ─────────────────────────────────────────────
   // Load Existing Survey Data
@@ -77,20 +72,18 @@ export function useSurveyEditor(surveyId: string | null) {
           throw new Error('Failed to load survey questions');
         }
 
-        // Convert database questions to Question format
-        const convertedQuestions: Question[] = (questions as DbQuestion[]).map((q) => ({
-          id: q.id.toString(),
-          type: q.type as QuestionType,
-          text: q.question,
-          required: q.required,
-          options: q.options || undefined,
-        }));
+        // Convert database questions to Question format (incl. display logic)
+        const convertedQuestions: Question[] = questions.map((q) => dbQuestionToUi(q, questions));
 
         // Set survey data
         setSurveyData({
           title: survey.title,
           description: survey.description || "",
           audience: survey.audience || "",
+          randomizeQuestions: survey.randomize_questions,
+          hiddenFields: survey.hidden_fields,
+          responseLimit: survey.response_limit,
+          quotas: quotasFromDb(survey.quotas, questions),
           questions: convertedQuestions,
         });
 
@@ -123,9 +116,10 @@ export function useSurveyEditor(surveyId: string | null) {
     const newQuestion: Question = {
       id: `q-${Date.now()}`,
       type,
-      text: "",
+      text: type === "nps" ? NPS_QUESTION_TEXT : "",
       required: true,
-      options: type === "multiple_choice" ? ["Option 1", "Option 2"] : undefined,
+      options: OPTION_QUESTION_TYPES.includes(type) ? ["Option 1", "Option 2"] : undefined,
+      settings: type === "matrix" ? { matrix: DEFAULT_MATRIX_SETTINGS } : undefined,
     };
     setSurveyData({
       ...surveyData,
@@ -145,7 +139,10 @@ export function useSurveyEditor(surveyId: string | null) {
   const deleteQuestion = (id: string) => {
     setSurveyData({
       ...surveyData,
-      questions: surveyData.questions.filter((q) => q.id !== id),
+      questions: carryPipingReferences(
+        surveyData.questions,
+        surveyData.questions.filter((q) => q.id !== id)
+      ),
     });
   };
 
@@ -156,10 +153,22 @@ export function useSurveyEditor(surveyId: string | null) {
     if (activeIndex !== -1 && overIndex !== -1) {
       const newQuestions = [...surveyData.questions];
       [newQuestions[activeIndex], newQuestions[overIndex]] = [newQuestions[overIndex], newQuestions[activeIndex]];
-      setSurveyData({ ...surveyData, questions: newQuestions });
+      setSurveyData({ ...surveyData, questions: carryPipingReferences(surveyData.questions, newQuestions) });
     }
   };
 
+  const setRandomizeQuestions = (randomizeQuestions: boolean) => {
+    setSurveyData({ ...surveyData, randomizeQuestions });
+  };
+
+  const setResponseLimit = (responseLimit: number | null) => {
+    setSurveyData({ ...surveyData, responseLimit });
+  };
+
+  const setQuotas = (quotas: ResponseQuota[]) => {
+    setSurveyData({ ...surveyData, quotas });
+  };
+
   // ─────────────────────────────────────────────
   // Multiple Choice Option Management
   // ─────────────────────────────────────────────
@@ -200,7 +209,7 @@ export function useSurveyEditor(surveyId: string | null) {
     setSaveError(null);
 
     try {
-      const response = await fetch('/api/openai/generate', {
+      const response = await authFetch('/api/openai/generate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -215,6 +224,10 @@ export function useSurveyEditor(surveyId: string | null) {
       if (data.success) {
         setAIGeneratedQuestions(data.questions);
         setIsAIMock(data.isMock || false);
+      } else if (response.status === 429) {
+        // Rate limited: show the server's message rather than a generic one
+        setSaveError(data.error);
+        setShowAIPreview(false);
       } else {
         throw new Error(data.error || 'Failed to generate questions');
       }
@@ -249,21 +262,21 @@ export function useSurveyEditor(surveyId: string | null) {
   // Save New Version (different from publishSurvey)
   // ─────────────────────────────────────────────
 
+  // The API resolves the organization from the signed-in user's session
   const saveVersion = async (
-    orgId: string, 
     isMajorVersion: boolean, 
     changelog: string
-  ): Promise<{ success: boolean; surveyId?: string; error?: string }> => {
+  ): Promise<{ success: boolean; surveyId?: string; warnings?: string[]; error?: string }> => {
     setIsSaving(true);
     setSaveError(null);
+    setSaveWarnings([]);
 
     try {
-      const response = await fetch('/api/surveys/update-version', {
+      const response = await authFetch('/api/surveys/update-version', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           surveyData,
-          orgId,
           parentId,
           currentVersion: originalVersion,
           isMajorVersion,
@@ -278,7 +291,13 @@ export function useSurveyEditor(surveyId: string | null) {
           newSurveyId: data.survey.id,
           version: data.survey.version
         });
-        return { success: true, surveyId: data.survey.id };
+        // Piped references to removed questions are shown to the author
+        const warnings: string[] = data.warnings ?? [];
+        if (warnings.length > 0) {
+          logger.warn('Saved version has broken piped references', { warnings });
+          setSaveWarnings(warnings);
+        }
+        return { success: true, surveyId: data.survey.id, warnings };
       } else {
         setSaveError(data.error || 'Failed to save survey version');
         return { success: false, error: data.error };
@@ -310,10 +329,14 @@ export function useSurveyEditor(surveyId: string | null) {
     isAIMock,
     isSaving,
     saveError,
+    saveWarnings,
     addQuestion,
     updateQuestion,
     deleteQuestion,
     reorderQuestions,
+    setRandomizeQuestions,
+    setResponseLimit,
+    setQuotas,
     addOption,
     updateOption,
     deleteOption,
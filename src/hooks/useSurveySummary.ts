@@ -0,0 +1,88 @@
+/**
+ * useSurveySummary Hook
+ * ────────────────────────────────────────────────────
+ * Loads a survey's latest AI summary report and generates new ones.
+ *
+ * Why this hook exists:
+ * - Reports are generated and stored server-side (the AI provider and
+ *   token budget live there); the analytics page reads the latest one
+ *   and asks for a new one (GET/POST /api/surveys/summary)
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { authFetch } from '@/lib/authFetch';
+import { createLogger } from '@/lib/logger';
+import type { SummaryFilters, SurveySummary } from '@/lib/surveySummaries';
+
+const logger = createLogger('useSurveySummary');
+
+/**
+ * useSurveySummary Hook
+ * ────────────────────────────────────────────────────
+ * @param surveyId - Survey (version) the report is for
+ * @returns Latest report (null when none), loading and generating
+ *          state, error or fallback notice, and generate()
+ */
+export function useSurveySummary(surveyId: string | undefined) {
+  const [summary, setSummary] = useState<SurveySummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSummary = useCallback(async () => {
+    if (!surveyId) return;
+
+    try {
+      setLoading(true);
+      const res = await authFetch(`/api/surveys/summary?surveyId=${encodeURIComponent(surveyId)}`);
+      const result = await res.json();
+
+      if (!res.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load summary');
+      }
+
+      setSummary(result.summary);
+    } catch (err) {
+      logger.error('Failed to load survey summary', err, { surveyId });
+      setError('Failed to load the AI summary');
+    } finally {
+      setLoading(false);
+    }
+  }, [surveyId]);
+
+  const generate = async (filters: SummaryFilters) => {
+    if (!surveyId) return;
+
+    setGenerating(true);
+    setError(null);
+    try {
+      const res = await authFetch('/api/surveys/summary', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ surveyId, ...filters }),
+      });
+      const result = await res.json();
+
+      if (!res.ok || !result.success) {
+        // Validation, rate limit and empty-range messages are shown as is
+        setError(result.error || 'Failed to generate summary');
+        return;
+      }
+
+      setSummary(result.summary);
+      // Set when offline results were used (provider down or over budget)
+      if (result.error) setError(result.error);
+    } catch (err) {
+      logger.error('Failed to generate survey summary', err, { surveyId });
+      setError('Failed to generate summary. Please try again.');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary]);
+
+  return { summary, loading, generating, error, generate };
+}
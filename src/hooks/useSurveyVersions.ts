@@ -13,6 +13,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/lib/supabaseClient';
 import { createLogger } from '@/lib/logger';
+import { useOrg } from '@/context';
 import type { Database } from '@/types/supabase';
 
 const logger = createLogger('useSurveyVersions');
@@ -20,16 +21,13 @@ const logger = createLogger('useSurveyVersions');
 type Survey = Database['public']['Tables']['surveys']['Row'];
 type SurveyVersion = Pick<Survey, 'id' | 'version' | 'title'>;
 
-const DEFAULT_ORG_ID =
-  process.env.NEXT_PUBLIC_DEFAULT_ORG_ID || '00000000-0000-0000-0000-000000000001';
-
 /**
  * Hook Options
  */
 interface UseSurveyVersionsOptions {
   /**
    * Organization ID to filter versions
-   * @default DEFAULT_ORG_ID
+   * @default The signed-in user's organization
    */
   orgId?: string;
   
@@ -118,7 +116,8 @@ export function useSurveyVersions(
   surveyTitle: string | undefined,
   options: UseSurveyVersionsOptions = {}
 ): UseSurveyVersionsReturn {
-  const { orgId = DEFAULT_ORG_ID, autoFetch = true } = options;
+  const { orgId: sessionOrgId } = useOrg();
+  const { orgId = sessionOrgId, autoFetch = true } = options;
 
   const [versions, setVersions] = useState<SurveyVersion[]>([]);
   const [selectedVersionId, setSelectedVersionId] = useState<string | null>(surveyId || null);
@@ -129,8 +128,8 @@ export function useSurveyVersions(
    * Fetch all versions of the survey
    */
   const fetchVersions = useCallback(async () => {
-    if (!surveyTitle || !autoFetch) {
-      logger.debug('Skipping version fetch', { surveyTitle, autoFetch });
+    if (!surveyTitle || !orgId || !autoFetch) {
+      logger.debug('Skipping version fetch', { surveyTitle, orgId, autoFetch });
       return;
     }
 
@@ -0,0 +1,378 @@
+/**
+ * AI Providers
+ * ────────────────────────────────────────────────────
+ * Question generation, sentiment analysis and summaries behind one
+ * AIProvider interface.
+ *
+ * Why this file exists:
+ * - Routes talk to one AIProvider interface, not a specific vendor
+ * - Each organization picks its provider and model
+ *   (organizations.ai_settings); endpoints and keys stay in env vars so
+ *   an org can never point the server at an arbitrary URL
+ * - The offline provider is deterministic and needs no network, for
+ *   tests and air-gapped demos; it is also the fallback when a network
+ *   provider fails
+ *
+ * Providers (ai_settings.provider, or the AI_PROVIDER env var):
+ * - openai            → OPENAI_API_KEY, model OPENAI_MODEL (default gpt-4o-mini)
+ * - azure_openai      → AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY,
+ *                       AZURE_OPENAI_DEPLOYMENT, AZURE_OPENAI_API_VERSION
+ * - openai_compatible → LOCAL_AI_BASE_URL (default Ollama at
+ *                       http://localhost:11434/v1), LOCAL_AI_MODEL,
+ *                       optional LOCAL_AI_API_KEY
+ * - offline           → no configuration
+ * With neither set, openai is used when OPENAI_API_KEY exists, offline
+ * otherwise. ai_settings.model overrides the model (deployment on Azure).
+ *
+ * Tokens used are recorded per org and capped by a monthly budget
+ * (./usage); over budget, results come from the offline provider.
+ *
+ * ⚠️ Server-side ONLY
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { createLogger } from '@/lib/logger';
+import type { Question, QuestionType } from '@/types/survey';
+import type { Json } from '@/types/supabase';
+import { createOfflineProvider } from './offlineProvider';
+import { createAzureOpenAIProvider, createLocalProvider, createOpenAIProvider } from './openAICompatibleProvider';
+import { isOverMonthlyBudget, recordAIUsage } from './usage';
+
+const logger = createLogger('AIProvider');
+
+/**
+ * AI Provider Interface
+ * ────────────────────────────────────────────────────
+ */
+export const AI_PROVIDER_NAMES = ['openai', 'azure_openai', 'openai_compatible', 'offline'] as const;
+
+export type AIProviderName = (typeof AI_PROVIDER_NAMES)[number];
+
+export interface QuestionGenerationInput {
+  title: string;
+  audience: string;
+  description?: string;
+}
+
+export interface GeneratedQuestion {
+  type: QuestionType;
+  text: string;
+  options?: string[] | null;
+}
+
+export interface AnalysisResult {
+  sentiment: 'positive' | 'negative' | 'neutral' | 'mixed';
+  summary: string;
+}
+
+/**
+ * Where an analysis came from
+ * - ai: the org's provider
+ * - fallback: offline analysis because the provider failed (worth re-running)
+ * - offline: the org uses the offline provider
+ */
+export type AnalysisSource = 'ai' | 'fallback' | 'offline';
+
+export interface SummaryInput {
+  title: string; // Survey title
+  texts: string[]; // One combined text per response
+}
+
+export interface SummaryResult {
+  summary: string; // Overview in a few sentences
+  keyThemes: string[];
+  topComplaints: string[];
+  topPraise: string[];
+  recommendedActions: string[];
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export type AIOperation = 'generate_questions' | 'analyze_sentiment' | 'summarize';
+
+/** Result of one provider call, with the tokens it used (null when none were) */
+export interface AICompletion<T> {
+  data: T;
+  usage: TokenUsage | null;
+}
+
+export interface AIProvider {
+  name: AIProviderName;
+  model: string;
+
+  /** Suggest questions for a survey */
+  generateQuestions(input: QuestionGenerationInput): Promise<AICompletion<GeneratedQuestion[]>>;
+
+  /** Sentiment and a one-line summary of one response */
+  analyzeSentiment(text: string): Promise<AICompletion<AnalysisResult>>;
+
+  /** Themes, complaints, praise and actions across many responses */
+  summarize(input: SummaryInput): Promise<AICompletion<SummaryResult>>;
+}
+
+/**
+ * Organization AI Settings
+ * ────────────────────────────────────────────────────
+ * Stored in organizations.ai_settings
+ */
+export interface AISettings {
+  provider?: AIProviderName;
+  model?: string;
+}
+
+/**
+ * Parse Stored AI Settings
+ * ────────────────────────────────────────────────────
+ * @param value - organizations.ai_settings
+ * @returns Settings with unknown or malformed keys dropped
+ */
+export function parseAISettings(value: Json | null | undefined): AISettings {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  const settings: AISettings = {};
+  if (AI_PROVIDER_NAMES.includes(value.provider as AIProviderName)) {
+    settings.provider = value.provider as AIProviderName;
+  }
+  if (typeof value.model === 'string' && value.model.trim()) {
+    settings.model = value.model.trim();
+  }
+  return settings;
+}
+
+/**
+ * Get an AI Provider
+ * ────────────────────────────────────────────────────
+ * A provider that is selected but not configured (e.g. openai without
+ * OPENAI_API_KEY) resolves to the offline provider.
+ *
+ * @param settings - Organization settings (env defaults when empty)
+ * @returns AIProvider for the settings
+ */
+export function getAIProvider(settings: AISettings = {}): AIProvider {
+  const env = process.env;
+  const envProvider = AI_PROVIDER_NAMES.find((name) => name === env.AI_PROVIDER);
+  const provider = settings.provider ?? envProvider ?? (env.OPENAI_API_KEY ? 'openai' : 'offline');
+
+  switch (provider) {
+    case 'openai':
+      if (env.OPENAI_API_KEY) {
+        return createOpenAIProvider(env.OPENAI_API_KEY, settings.model || env.OPENAI_MODEL || 'gpt-4o-mini');
+      }
+      break;
+    case 'azure_openai': {
+      const deployment = settings.model || env.AZURE_OPENAI_DEPLOYMENT;
+      if (env.AZURE_OPENAI_ENDPOINT && env.AZURE_OPENAI_API_KEY && deployment) {
+        return createAzureOpenAIProvider(
+          env.AZURE_OPENAI_ENDPOINT,
+          env.AZURE_OPENAI_API_KEY,
+          deployment,
+          env.AZURE_OPENAI_API_VERSION || '2024-06-01'
+        );
+      }
+      break;
+    }
+    case 'openai_compatible':
+      return createLocalProvider(
+        env.LOCAL_AI_BASE_URL || 'http://localhost:11434/v1',
+        settings.model || env.LOCAL_AI_MODEL || 'llama3.1',
+        env.LOCAL_AI_API_KEY
+      );
+    case 'offline':
+      return createOfflineProvider();
+  }
+
+  logger.warn('AI provider is not configured, using the offline provider', { provider });
+  return createOfflineProvider();
+}
+
+/**
+ * Get an Organization's AI Provider
+ * ────────────────────────────────────────────────────
+ * @param orgId - Organization, or null for the env defaults
+ * @returns AIProvider from the org's ai_settings
+ */
+export async function getOrgAIProvider(orgId: string | null): Promise<AIProvider> {
+  if (!orgId) return getAIProvider();
+
+  const { data, error } = await supabaseAdmin
+    .from('organizations')
+    .select('ai_settings')
+    .eq('id', orgId)
+    .maybeSingle();
+
+  if (error) {
+    logger.warn('Failed to load AI settings, using defaults', { orgId, error: error.message });
+  }
+
+  return getAIProvider(parseAISettings(data?.ai_settings));
+}
+
+/**
+ * Run a Provider Call with Fallback
+ * ────────────────────────────────────────────────────
+ * Calls the org's provider and records the tokens it used. Falls back
+ * to the offline provider when the provider fails or the org has used
+ * its monthly token budget.
+ *
+ * @param orgId - Organization whose provider and budget to use
+ * @param operation - What the call is for (ai_usage.operation)
+ * @param call - Provider method to run
+ * @returns Result, its source and model, and an error message when the
+ *          fallback was used
+ */
+async function runWithFallback<T>(
+  orgId: string | null,
+  operation: AIOperation,
+  call: (provider: AIProvider) => Promise<AICompletion<T>>
+): Promise<{ data: T; source: AnalysisSource; model: string; error?: string }> {
+  const provider = await getOrgAIProvider(orgId);
+
+  if (provider.name === 'offline') {
+    const { data } = await call(provider);
+    return { data, source: 'offline', model: 'offline' };
+  }
+
+  const fallback = async (error: string) => {
+    const { data } = await call(createOfflineProvider());
+    return { data, source: 'fallback' as const, model: 'offline', error };
+  };
+
+  if (orgId && (await isOverMonthlyBudget(orgId))) {
+    logger.warn('Monthly AI token budget reached, using the offline provider', { orgId, operation });
+    return fallback('Monthly AI token budget reached');
+  }
+
+  try {
+    logger.debug('Calling AI provider', { operation, provider: provider.name, model: provider.model });
+    const { data, usage } = await call(provider);
+    if (orgId && usage) {
+      await recordAIUsage(orgId, operation, provider, usage);
+    }
+    return { data, source: 'ai', model: `${provider.name}/${provider.model}` };
+  } catch (error) {
+    logger.warn('AI provider error, falling back to the offline provider', {
+      operation,
+      provider: provider.name,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return fallback('AI unavailable');
+  }
+}
+
+/**
+ * Generate Survey Questions
+ * ────────────────────────────────────────────────────
+ * Falls back to the offline provider if the org's provider fails or the
+ * org is over its token budget.
+ *
+ * @param input - Survey title, audience and optional description
+ * @param orgId - Organization whose provider to use
+ * @returns Questions with builder IDs; isMock when offline results were used
+ */
+export async function generateQuestions(
+  input: QuestionGenerationInput,
+  orgId: string | null
+): Promise<{ questions: Question[]; isMock: boolean; error?: string }> {
+  const result = await runWithFallback(orgId, 'generate_questions', (provider) => provider.generateQuestions(input));
+  const isMock = result.source !== 'ai';
+
+  // Offline suggestions leave their open-ended questions optional
+  const questions: Question[] = result.data.map((q, idx) => ({
+    id: `${isMock ? 'q-mock' : 'q-ai'}-${Date.now()}-${idx}`,
+    type: q.type,
+    text: q.text,
+    options: q.options || undefined,
+    required: !isMock || (q.type !== 'short_text' && q.type !== 'long_text'),
+  }));
+
+  if (!isMock) {
+    logger.info('AI generated questions', { model: result.model, questionCount: questions.length });
+  }
+  return {
+    questions,
+    isMock,
+    ...(result.error && { error: `${result.error}, using fallback questions` }),
+  };
+}
+
+/**
+ * Analyze Response Sentiment
+ * ────────────────────────────────────────────────────
+ * Falls back to the offline provider if the org's provider fails or the
+ * org is over its token budget.
+ *
+ * @param answers - Record of question IDs to answer text
+ * @param orgId - Organization whose provider to use
+ * @returns Analysis result, its source and model; isMock when offline
+ *          results were used
+ * @throws When there is no text to analyze
+ */
+export async function analyzeSentiment(
+  answers: Record<string, string>,
+  orgId: string | null
+): Promise<{ analysis: AnalysisResult; isMock: boolean; source: AnalysisSource; model: string; error?: string }> {
+  // Combine all answers into a single text for analysis
+  const combinedText = Object.values(answers)
+    .filter((answer) => answer && answer.trim().length > 0)
+    .join(' | ');
+
+  if (!combinedText) {
+    logger.warn('No text content to analyze');
+    throw new Error('No text content to analyze');
+  }
+
+  const result = await runWithFallback(orgId, 'analyze_sentiment', (provider) =>
+    provider.analyzeSentiment(combinedText)
+  );
+
+  if (result.source === 'ai') {
+    logger.info('AI analyzed sentiment', { model: result.model, sentiment: result.data.sentiment });
+  }
+  return {
+    analysis: result.data,
+    isMock: result.source !== 'ai',
+    source: result.source,
+    model: result.model,
+    ...(result.error && { error: `${result.error}, using fallback analysis` }),
+  };
+}
+
+/**
+ * Summarize Survey Responses
+ * ────────────────────────────────────────────────────
+ * Falls back to the offline provider if the org's provider fails or the
+ * org is over its token budget.
+ *
+ * @param input - Survey title and one combined text per response
+ * @param orgId - Organization whose provider to use
+ * @returns Summary, its source and model, and an error message when
+ *          offline results were used instead of the org's provider
+ * @throws When there are no responses to summarize
+ */
+export async function summarizeResponses(
+  input: SummaryInput,
+  orgId: string
+): Promise<{ summary: SummaryResult; source: AnalysisSource; model: string; error?: string }> {
+  if (input.texts.length === 0) {
+    throw new Error('No responses to summarize');
+  }
+
+  const result = await runWithFallback(orgId, 'summarize', (provider) => provider.summarize(input));
+
+  if (result.source === 'ai') {
+    logger.info('AI summarized responses', { model: result.model, responseCount: input.texts.length });
+  }
+  return {
+    summary: result.data,
+    source: result.source,
+    model: result.model,
+    ...(result.error && { error: `${result.error}, using fallback summary` }),
+  };
+}
+
+export { createOfflineProvider } from './offlineProvider';
+export { getAIUsage, type AIUsageSummary } from './usage';
@@ -0,0 +1,180 @@
+/**
+ * Offline Provider
+ * ────────────────────────────────────────────────────
+ * Deterministic AI provider that never touches the network.
+ *
+ * Why this file exists:
+ * - Tests, demos and air-gapped installs get the same AI features
+ *   without an API key
+ * - The same input always gives the same output, so results can be
+ *   asserted on
+ * - Used as the fallback when a network provider fails
+ *
+ * Questions come from templates, sentiment from keyword counts and
+ * summaries from sentiment counts, the most repeated words and answers
+ * with clear positive or negative keywords.
+ */
+
+import type { AIProvider, AnalysisResult, GeneratedQuestion } from './index';
+
+const POSITIVE_WORDS = [
+  'great',
+  'excellent',
+  'good',
+  'love',
+  'amazing',
+  'perfect',
+  'happy',
+  'satisfied',
+  'wonderful',
+  'fantastic',
+];
+
+const NEGATIVE_WORDS = [
+  'bad',
+  'poor',
+  'terrible',
+  'awful',
+  'hate',
+  'disappointed',
+  'frustrated',
+  'angry',
+  'unhappy',
+  'worst',
+];
+
+// Words too common to count as a theme
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'was', 'are', 'but', 'not', 'you', 'your',
+  'have', 'has', 'had', 'they', 'them', 'very', 'really', 'just', 'from', 'would', 'could',
+  'more', 'some', 'about', 'there', 'their', 'what', 'when', 'which', 'were', 'been', 'also',
+  'yes', 'our', 'out', 'too', 'can', 'all', 'its', 'it\'s', 'i\'m', 'don\'t',
+]);
+
+/**
+ * Classify Text by Keywords
+ * ────────────────────────────────────────────────────
+ * @param text - Response text
+ * @returns Sentiment from positive and negative keyword counts
+ */
+function classify(text: string): AnalysisResult['sentiment'] {
+  const lowerText = text.toLowerCase();
+  const positiveCount = POSITIVE_WORDS.filter((word) => lowerText.includes(word)).length;
+  const negativeCount = NEGATIVE_WORDS.filter((word) => lowerText.includes(word)).length;
+
+  if (positiveCount > negativeCount) return 'positive';
+  if (negativeCount > positiveCount) return 'negative';
+  if (positiveCount > 0) return 'mixed';
+  return 'neutral';
+}
+
+const SENTIMENT_SUMMARIES: Record<AnalysisResult['sentiment'], string> = {
+  positive: 'User expressed positive feedback and satisfaction with the experience.',
+  negative: 'User expressed concerns or dissatisfaction that should be addressed.',
+  mixed: 'User provided balanced feedback with both positive aspects and areas for improvement.',
+  neutral: 'User provided factual feedback without strong positive or negative sentiment.',
+};
+
+/**
+ * Most Repeated Words
+ * ────────────────────────────────────────────────────
+ * @param texts - Response texts
+ * @param limit - How many words to return
+ * @returns Words used in more than one response, most frequent first
+ *          (ties in alphabetical order)
+ */
+function topWords(texts: string[], limit: number): string[] {
+  const counts = new Map<string, number>();
+  for (const text of texts) {
+    const words = new Set(text.toLowerCase().match(/[a-z][a-z']{2,}/g) ?? []);
+    for (const word of words) {
+      if (!STOP_WORDS.has(word)) counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+  }
+
+  return [...counts.entries()]
+    .filter(([, count]) => count > 1)
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, limit)
+    .map(([word]) => word);
+}
+
+/**
+ * Answers with a Sentiment
+ * ────────────────────────────────────────────────────
+ * @param texts - Response texts (answers joined with " | ")
+ * @param sentiment - Sentiment to look for
+ * @returns Up to 5 distinct answers with that sentiment, shortened to
+ *          120 characters, in response order
+ */
+function excerpts(texts: string[], sentiment: 'positive' | 'negative'): string[] {
+  const answers = texts.flatMap((text) => text.split(' | ')).map((answer) => answer.trim());
+  const matching = answers
+    .filter((answer) => answer && classify(answer) === sentiment)
+    .map((answer) => (answer.length > 120 ? `${answer.slice(0, 117)}...` : answer));
+  return [...new Set(matching)].slice(0, 5);
+}
+
+/**
+ * Create the Offline Provider
+ * ────────────────────────────────────────────────────
+ * @returns AIProvider with deterministic, local results (no token usage)
+ */
+export function createOfflineProvider(): AIProvider {
+  return {
+    name: 'offline',
+    model: 'offline',
+
+    async generateQuestions({ title, audience }) {
+      const questions: GeneratedQuestion[] = [
+        { type: 'rating', text: `How would you rate your overall experience with ${title}?` },
+        {
+          type: 'multiple_choice',
+          text: `What aspect is most important to you as a ${audience}?`,
+          options: ['Quality', 'Speed', 'Price', 'Support'],
+        },
+        { type: 'yes_no', text: 'Would you recommend this to others?' },
+        { type: 'long_text', text: 'What could we improve to better serve you?' },
+        { type: 'short_text', text: 'How did you hear about us?' },
+      ];
+      return { data: questions, usage: null };
+    },
+
+    async analyzeSentiment(text) {
+      const sentiment = classify(text);
+      return { data: { sentiment, summary: SENTIMENT_SUMMARIES[sentiment] }, usage: null };
+    },
+
+    async summarize({ title, texts }) {
+      const counts = { positive: 0, negative: 0, neutral: 0, mixed: 0 };
+      texts.forEach((text) => counts[classify(text)]++);
+
+      const keyThemes = topWords(texts, 5);
+      const summary = [
+        `${texts.length} response${texts.length === 1 ? '' : 's'} to "${title}": ` +
+          `${counts.positive} positive, ${counts.negative} negative, ${counts.mixed} mixed and ${counts.neutral} neutral.`,
+        keyThemes.length > 0 ? `Recurring topics: ${keyThemes.join(', ')}.` : '',
+      ].filter(Boolean).join(' ');
+
+      const recommendedActions = [
+        counts.negative > 0
+          ? `Follow up on the ${counts.negative} negative response${counts.negative === 1 ? '' : 's'}.`
+          : '',
+        keyThemes.length > 0 ? `Look into what respondents say about "${keyThemes[0]}".` : '',
+        counts.positive > counts.negative ? 'Share the praise with the team and keep what works.' : '',
+        texts.length < 5 ? 'Collect more responses before making big changes.' : '',
+      ].filter(Boolean);
+
+      return {
+        data: {
+          summary,
+          keyThemes,
+          topComplaints: excerpts(texts, 'negative'),
+          topPraise: excerpts(texts, 'positive'),
+          recommendedActions,
+        },
+        usage: null,
+      };
+    },
+  };
+}
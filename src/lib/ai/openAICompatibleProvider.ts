@@ -0,0 +1,169 @@
+/**
+ * OpenAI-Compatible Provider
+ * ────────────────────────────────────────────────────
+ * Talks to any chat completions API that follows OpenAI's format.
+ *
+ * Why this file exists:
+ * - OpenAI, Azure OpenAI and local servers (Ollama, LM Studio, vLLM)
+ *   differ only in URL and auth header, so they share one client
+ * - Requests time out, retry and trip a circuit breaker per endpoint
+ *   (./resilience)
+ * - Failed requests and malformed replies throw; callers decide
+ *   whether to fall back to the offline provider
+ *
+ * ⚠️ Server-side ONLY (sends API keys)
+ */
+
+import type { AIProvider, AIProviderName, TokenUsage } from './index';
+import { fetchWithRetry, getCircuitBreaker, getRetryOptions } from './resilience';
+import {
+  buildQuestionGenerationPrompt,
+  buildSentimentAnalysisPrompt,
+  buildSummaryPrompt,
+  parseAnalysis,
+  parseGeneratedQuestions,
+  parseSummary,
+  type ChatPrompt,
+} from './prompts';
+
+/**
+ * Provider Options
+ * ────────────────────────────────────────────────────
+ */
+export interface OpenAICompatibleOptions {
+  name: Exclude<AIProviderName, 'offline'>;
+  url: string; // Full chat completions URL
+  model: string;
+  headers: Record<string, string>; // Auth headers
+}
+
+/**
+ * Parse Token Usage
+ * ────────────────────────────────────────────────────
+ * @param usage - `usage` from a chat completion reply
+ * @returns Token counts, or null when the server reports none
+ */
+function parseUsage(usage: unknown): TokenUsage | null {
+  if (!usage || typeof usage !== 'object') return null;
+
+  const { prompt_tokens, completion_tokens, total_tokens } = usage as Record<string, unknown>;
+  const count = (value: unknown) => (typeof value === 'number' && value >= 0 ? Math.round(value) : 0);
+  const promptTokens = count(prompt_tokens);
+  const completionTokens = count(completion_tokens);
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: count(total_tokens) || promptTokens + completionTokens,
+  };
+}
+
+/**
+ * Create an OpenAI-Compatible Provider
+ * ────────────────────────────────────────────────────
+ * @param options - Endpoint, model and auth headers
+ * @returns AIProvider calling the chat completions endpoint
+ */
+export function createOpenAICompatibleProvider({ name, url, model, headers }: OpenAICompatibleOptions): AIProvider {
+  // One breaker per endpoint (the query string holds no secrets)
+  const breaker = getCircuitBreaker(`${name}:${url}`);
+
+  const complete = async ({ messages, temperature }: ChatPrompt): Promise<{ content: string; usage: TokenUsage | null }> => {
+    const init: RequestInit = {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature,
+        response_format: { type: 'json_object' },
+      }),
+    };
+
+    const response = await breaker.execute(() => fetchWithRetry(url, init, getRetryOptions(), name));
+
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error(`${name} API returned no content`);
+    }
+    return { content, usage: parseUsage(data?.usage) };
+  };
+
+  return {
+    name,
+    model,
+
+    async generateQuestions(input) {
+      const { content, usage } = await complete(buildQuestionGenerationPrompt(input));
+      return { data: parseGeneratedQuestions(content), usage };
+    },
+
+    async analyzeSentiment(text) {
+      const { content, usage } = await complete(buildSentimentAnalysisPrompt(text));
+      return { data: parseAnalysis(content), usage };
+    },
+
+    async summarize(input) {
+      const { content, usage } = await complete(buildSummaryPrompt(input));
+      return { data: parseSummary(content), usage };
+    },
+  };
+}
+
+/**
+ * Create the OpenAI Provider
+ * ────────────────────────────────────────────────────
+ * @param apiKey - OPENAI_API_KEY
+ * @param model - Chat model, e.g. gpt-4o-mini
+ */
+export function createOpenAIProvider(apiKey: string, model: string): AIProvider {
+  return createOpenAICompatibleProvider({
+    name: 'openai',
+    url: 'https://api.openai.com/v1/chat/completions',
+    model,
+    headers: { Authorization: `Bearer ${apiKey}` },
+  });
+}
+
+/**
+ * Create the Azure OpenAI Provider
+ * ────────────────────────────────────────────────────
+ * Azure routes requests by deployment; the deployment name doubles as
+ * the model name.
+ *
+ * @param endpoint - Resource endpoint, e.g. https://my-resource.openai.azure.com
+ * @param apiKey - Resource key
+ * @param deployment - Deployment name
+ * @param apiVersion - API version, e.g. 2024-06-01
+ */
+export function createAzureOpenAIProvider(
+  endpoint: string,
+  apiKey: string,
+  deployment: string,
+  apiVersion: string
+): AIProvider {
+  const base = endpoint.replace(/\/+$/, '');
+  return createOpenAICompatibleProvider({
+    name: 'azure_openai',
+    url: `${base}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${encodeURIComponent(apiVersion)}`,
+    model: deployment,
+    headers: { 'api-key': apiKey },
+  });
+}
+
+/**
+ * Create a Local OpenAI-Compatible Provider
+ * ────────────────────────────────────────────────────
+ * @param baseUrl - API base, e.g. http://localhost:11434/v1 for Ollama
+ * @param model - Model the server has pulled, e.g. llama3.1
+ * @param apiKey - Optional key for servers that require one
+ */
+export function createLocalProvider(baseUrl: string, model: string, apiKey?: string): AIProvider {
+  return createOpenAICompatibleProvider({
+    name: 'openai_compatible',
+    url: `${baseUrl.replace(/\/+$/, '')}/chat/completions`,
+    model,
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+  });
+}
@@ -0,0 +1,234 @@
+/**
+ * AI Prompts
+ * ────────────────────────────────────────────────────
+ * Prompts sent to chat completion providers and parsers for their
+ * JSON replies.
+ *
+ * Why this file exists:
+ * - OpenAI, Azure OpenAI and local OpenAI-compatible models all get the
+ *   same prompts, so results do not depend on which provider an org uses
+ * - Replies are checked here; a malformed reply throws instead of
+ *   reaching the database
+ */
+
+import type { QuestionType } from '@/types/survey';
+import type { AnalysisResult, GeneratedQuestion, QuestionGenerationInput, SummaryInput, SummaryResult } from './index';
+
+/**
+ * Chat Messages
+ * ────────────────────────────────────────────────────
+ */
+export interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+export interface ChatPrompt {
+  messages: ChatMessage[];
+  temperature: number;
+}
+
+// Types the model may return (the other types need settings it cannot pick)
+const GENERATED_QUESTION_TYPES: QuestionType[] = ['short_text', 'long_text', 'multiple_choice', 'rating', 'yes_no'];
+
+const SENTIMENTS: AnalysisResult['sentiment'][] = ['positive', 'negative', 'neutral', 'mixed'];
+
+/**
+ * Question Generation Prompt
+ * ────────────────────────────────────────────────────
+ * @param input - Survey title, audience and optional description
+ * @returns Chat prompt asking for {"questions": [...]}
+ */
+export function buildQuestionGenerationPrompt({ title, audience, description }: QuestionGenerationInput): ChatPrompt {
+  return {
+    temperature: 0.7,
+    messages: [
+      {
+        role: 'system',
+        content:
+          'You are a survey design expert. Generate engaging, clear, and relevant survey questions. Return questions as a JSON array.',
+      },
+      {
+        role: 'user',
+        content: `Generate 5 engaging survey questions for the following survey:
+
+Title: ${title}
+Target Audience: ${audience}
+${description ? `Description: ${description}` : ''}
+
+Return a JSON object with this exact structure:
+{
+  "questions": [
+    {
+      "type": "rating",
+      "text": "How would you rate your experience?",
+      "options": null
+    },
+    {
+      "type": "multiple_choice",
+      "text": "What did you like most?",
+      "options": ["Option 1", "Option 2", "Option 3", "Option 4"]
+    }
+  ]
+}
+
+Valid question types: "short_text", "long_text", "multiple_choice", "rating", "yes_no"
+
+Requirements:
+- Create 5 diverse questions using different question types
+- Questions should be clear, specific, and relevant to the survey context
+- Multiple choice questions must have 3-5 options
+- Include at least one open-ended question (short_text or long_text)
+- Tailor language and topics to the target audience`,
+      },
+    ],
+  };
+}
+
+/**
+ * Sentiment Analysis Prompt
+ * ────────────────────────────────────────────────────
+ * @param text - Combined response text
+ * @returns Chat prompt asking for {"sentiment", "summary"}
+ */
+export function buildSentimentAnalysisPrompt(text: string): ChatPrompt {
+  return {
+    temperature: 0.3,
+    messages: [
+      {
+        role: 'system',
+        content:
+          'You are a sentiment analysis expert. Analyze survey responses and provide clear, concise summaries. Return results as JSON only.',
+      },
+      {
+        role: 'user',
+        content: `Analyze the sentiment of this survey response and generate a brief summary.
+
+Response text: "${text}"
+
+Return a JSON object with this exact structure:
+{
+  "sentiment": "positive",
+  "summary": "Brief one-sentence summary of the key points or sentiment"
+}
+
+Sentiment options: "positive", "negative", "neutral", or "mixed"
+
+Rules:
+- "positive" = clearly positive feedback, satisfaction, praise
+- "negative" = clearly negative feedback, dissatisfaction, complaints
+- "neutral" = factual, balanced, or no strong sentiment
+- "mixed" = contains both positive and negative elements
+
+Summary should be 1-2 sentences maximum and capture the main theme or feeling.`,
+      },
+    ],
+  };
+}
+
+/**
+ * Summary Prompt
+ * ────────────────────────────────────────────────────
+ * @param input - Survey title and one text per response
+ * @returns Chat prompt asking for {"summary"}
+ */
+export function buildSummaryPrompt({ title, texts }: SummaryInput): ChatPrompt {
+  return {
+    temperature: 0.3,
+    messages: [
+      {
+        role: 'system',
+        content:
+          'You are a research analyst. Summarize survey feedback accurately and concisely. Return results as JSON only.',
+      },
+      {
+        role: 'user',
+        content: `Summarize the ${texts.length} responses to the survey "${title}".
+
+Responses (one per line):
+${texts.map((text) => `- ${text}`).join('\n')}
+
+Return a JSON object with this exact structure:
+{
+  "summary": "2-4 sentences covering the main themes and overall sentiment",
+  "keyThemes": ["up to 5 short themes, most common first"],
+  "topComplaints": ["up to 5 specific complaints, most common first"],
+  "topPraise": ["up to 5 specific things respondents liked, most common first"],
+  "recommendedActions": ["up to 5 concrete actions that address the feedback"]
+}
+
+Use an empty array when the responses give nothing for a list.`,
+      },
+    ],
+  };
+}
+
+/**
+ * Parse a Question Generation Reply
+ * ────────────────────────────────────────────────────
+ * Skips questions with unknown types or missing text.
+ *
+ * @param content - JSON reply from the model
+ * @returns Generated questions
+ * @throws When the reply is not JSON
+ */
+export function parseGeneratedQuestions(content: string): GeneratedQuestion[] {
+  const parsed = JSON.parse(content);
+  const questions: unknown[] = Array.isArray(parsed?.questions) ? parsed.questions : [];
+
+  return questions.flatMap((q): GeneratedQuestion[] => {
+    if (!q || typeof q !== 'object') return [];
+    const { type, text, options } = q as Record<string, unknown>;
+    if (!GENERATED_QUESTION_TYPES.includes(type as QuestionType) || typeof text !== 'string' || !text.trim()) {
+      return [];
+    }
+    return [{
+      type: type as QuestionType,
+      text: text.trim(),
+      options: Array.isArray(options) ? options.filter((o): o is string => typeof o === 'string') : null,
+    }];
+  });
+}
+
+/**
+ * Parse a Sentiment Analysis Reply
+ * ────────────────────────────────────────────────────
+ * @param content - JSON reply from the model
+ * @returns Analysis result (neutral when the sentiment is not recognised)
+ * @throws When the reply is not JSON
+ */
+export function parseAnalysis(content: string): AnalysisResult {
+  const parsed = JSON.parse(content);
+  return {
+    sentiment: SENTIMENTS.includes(parsed?.sentiment) ? parsed.sentiment : 'neutral',
+    summary: typeof parsed?.summary === 'string' && parsed.summary ? parsed.summary : 'No summary available',
+  };
+}
+
+/**
+ * Parse a Summary Reply
+ * ────────────────────────────────────────────────────
+ * @param content - JSON reply from the model
+ * @returns Summary result; missing or malformed lists become empty
+ *          and each list keeps at most 5 items
+ * @throws When the reply is not JSON or has no summary
+ */
+export function parseSummary(content: string): SummaryResult {
+  const parsed = JSON.parse(content);
+  if (typeof parsed?.summary !== 'string' || !parsed.summary) {
+    throw new Error('AI reply has no summary');
+  }
+
+  const list = (value: unknown): string[] =>
+    Array.isArray(value)
+      ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').slice(0, 5)
+      : [];
+
+  return {
+    summary: parsed.summary,
+    keyThemes: list(parsed.keyThemes),
+    topComplaints: list(parsed.topComplaints),
+    topPraise: list(parsed.topPraise),
+    recommendedActions: list(parsed.recommendedActions),
+  };
+}
@@ -0,0 +1,302 @@
+/**
+ * AI Request Resilience
+ * ────────────────────────────────────────────────────
+ * Timeouts, retries with exponential backoff and a circuit breaker for
+ * calls to AI providers.
+ *
+ * Why this file exists:
+ * - A hung provider must not hold a request (or an after() task) open
+ * - 429 and 5xx replies are usually temporary; retrying with backoff,
+ *   and waiting as long as Retry-After asks, rides them out
+ * - When a provider keeps failing, the circuit breaker stops calling it
+ *   for a while so every request falls back straight away instead of
+ *   waiting out its retries
+ *
+ * Configuration (env vars, all optional):
+ * - AI_TIMEOUT_MS                  per attempt (default 15000)
+ * - AI_MAX_RETRIES                 retries after the first attempt (default 2)
+ * - AI_RETRY_BASE_DELAY_MS         first backoff delay (default 500)
+ * - AI_RETRY_MAX_DELAY_MS          longest wait, incl. Retry-After (default 10000)
+ * - AI_CIRCUIT_FAILURE_THRESHOLD   retryable failures in a row that open the circuit (default 5)
+ * - AI_CIRCUIT_RESET_MS            how long it stays open (default 30000)
+ *
+ * Breakers live in server memory: each server instance tracks its own.
+ */
+
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('AIResilience');
+
+/**
+ * Retry Options
+ * ────────────────────────────────────────────────────
+ */
+export interface RetryOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+function readEnvInt(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Get Retry Options
+ * ────────────────────────────────────────────────────
+ * @returns Retry options from env vars
+ */
+export function getRetryOptions(): RetryOptions {
+  return {
+    timeoutMs: readEnvInt('AI_TIMEOUT_MS', 15000),
+    maxRetries: readEnvInt('AI_MAX_RETRIES', 2),
+    baseDelayMs: readEnvInt('AI_RETRY_BASE_DELAY_MS', 500),
+    maxDelayMs: readEnvInt('AI_RETRY_MAX_DELAY_MS', 10000),
+  };
+}
+
+/**
+ * Get Circuit Breaker Options
+ * ────────────────────────────────────────────────────
+ * @returns Circuit breaker options from env vars
+ */
+export function getCircuitBreakerOptions(): CircuitBreakerOptions {
+  return {
+    failureThreshold: Math.max(1, readEnvInt('AI_CIRCUIT_FAILURE_THRESHOLD', 5)),
+    resetTimeoutMs: readEnvInt('AI_CIRCUIT_RESET_MS', 30000),
+  };
+}
+
+/**
+ * Check a Status Is Worth Retrying
+ * ────────────────────────────────────────────────────
+ * @param status - HTTP status
+ * @returns True for rate limits (429) and server errors (5xx)
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Check an Error Is Worth Retrying
+ * ────────────────────────────────────────────────────
+ * @param error - Error thrown by fetchWithRetry
+ * @returns True for timeouts, network errors, 429 and 5xx; false for
+ *          other HTTP errors (bad request, invalid key, content filter)
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status !== 'number' || isRetryableStatus(status);
+}
+
+/**
+ * Parse a Retry-After Header
+ * ────────────────────────────────────────────────────
+ * @param header - Retry-After value: seconds or an HTTP date
+ * @param now - Current time (ms)
+ * @returns Milliseconds to wait, or null when missing or invalid
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (header.trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Backoff Delay
+ * ────────────────────────────────────────────────────
+ * Exponential backoff with jitter (base, 2×base, 4×base...), each
+ * randomised between half and the full delay so retries from many
+ * requests do not line up.
+ *
+ * @param attempt - Retry number, starting at 0
+ * @param options - Retry options
+ * @returns Milliseconds to wait
+ */
+export function getBackoffDelay(attempt: number, options: RetryOptions): number {
+  const delay = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Fetch with Timeout and Retries
+ * ────────────────────────────────────────────────────
+ * Retries timeouts, network errors, 429 and 5xx. Retry-After is honored
+ * when it asks for longer than the backoff delay; when it asks for more
+ * than maxDelayMs the request fails instead of waiting.
+ *
+ * @param url - Request URL
+ * @param init - Fetch options (signal is replaced by the timeout)
+ * @param options - Retry options
+ * @param label - Provider name for logs and errors
+ * @returns The first successful response
+ * @throws The last error once retries are used up, or straight away
+ *         for other 4xx replies; HTTP errors carry the reply's status
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: RetryOptions,
+  label: string
+): Promise<Response> {
+  let lastError: Error = new Error(`${label} request failed`);
+
+  for (let attempt = 0; attempt <= options.maxRetries; attempt++) {
+    let retryAfterMs: number | null = null;
+
+    try {
+      const response = await fetch(url, { ...init, signal: AbortSignal.timeout(options.timeoutMs) });
+      if (response.ok) return response;
+
+      lastError = Object.assign(new Error(`${label} API error: ${response.status} ${response.statusText}`), {
+        status: response.status,
+      });
+      if (!isRetryableStatus(response.status)) throw lastError;
+
+      retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+    } catch (error) {
+      if (error === lastError) throw error;
+      lastError =
+        error instanceof Error && error.name === 'TimeoutError'
+          ? new Error(`${label} API timed out after ${options.timeoutMs}ms`)
+          : error instanceof Error
+            ? error
+            : new Error(String(error));
+    }
+
+    if (attempt === options.maxRetries) break;
+
+    if (retryAfterMs !== null && retryAfterMs > options.maxDelayMs) {
+      logger.warn('Retry-After is longer than the maximum delay, giving up', { label, retryAfterMs });
+      break;
+    }
+
+    const delay = Math.max(retryAfterMs ?? 0, getBackoffDelay(attempt, options));
+    logger.warn('AI request failed, retrying', {
+      label,
+      attempt: attempt + 1,
+      delayMs: delay,
+      error: lastError.message,
+    });
+    await sleep(delay);
+  }
+
+  throw lastError;
+}
+
+/**
+ * Circuit Breaker
+ * ────────────────────────────────────────────────────
+ * closed    → calls go through; failures in a row are counted
+ * open      → calls fail immediately until resetTimeoutMs has passed
+ * half_open → one trial call; success closes the circuit, failure
+ *             opens it again
+ *
+ * Only retryable failures (isRetryableError) count. Other HTTP errors
+ * (bad request, invalid key) mean the provider answered: they leave the
+ * count alone, and close the circuit when they answer the trial call.
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreaker {
+  getState(): CircuitState;
+  execute<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Create a Circuit Breaker
+ * ────────────────────────────────────────────────────
+ * @param name - Name for logs and errors
+ * @param options - Failure threshold and reset timeout
+ * @param now - Clock (ms), replaceable for tests
+ * @returns Circuit breaker
+ */
+export function createCircuitBreaker(
+  name: string,
+  options: CircuitBreakerOptions,
+  now: () => number = Date.now
+): CircuitBreaker {
+  let state: CircuitState = 'closed';
+  let failures = 0;
+  let openedAt = 0;
+
+  const getState = (): CircuitState => {
+    if (state === 'open' && now() - openedAt >= options.resetTimeoutMs) {
+      state = 'half_open';
+    }
+    return state;
+  };
+
+  return {
+    getState,
+
+    async execute(fn) {
+      const current = getState();
+      if (current === 'open') {
+        throw new Error(`${name} circuit is open; skipping the request`);
+      }
+      // Only one trial call while half open
+      if (current === 'half_open') {
+        state = 'open';
+        openedAt = now();
+      }
+
+      try {
+        const result = await fn();
+        if (current === 'half_open') {
+          logger.info('AI circuit closed', { name });
+        }
+        state = 'closed';
+        failures = 0;
+        return result;
+      } catch (error) {
+        if (!isRetryableError(error)) {
+          if (current === 'half_open') {
+            state = 'closed';
+            failures = 0;
+          }
+          throw error;
+        }
+        failures++;
+        if (current === 'half_open' || failures >= options.failureThreshold) {
+          state = 'open';
+          openedAt = now();
+          logger.warn('AI circuit opened', { name, failures, resetTimeoutMs: options.resetTimeoutMs });
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Get the Circuit Breaker for an Endpoint
+ * ────────────────────────────────────────────────────
+ * @param key - Endpoint key, e.g. provider name and URL
+ * @returns Breaker shared by every call to that endpoint in this process
+ */
+export function getCircuitBreaker(key: string): CircuitBreaker {
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = createCircuitBreaker(key, getCircuitBreakerOptions());
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
@@ -0,0 +1,120 @@
+/**
+ * AI Usage and Budgets
+ * ────────────────────────────────────────────────────
+ * Records the tokens every AI completion uses and checks them against
+ * the organization's monthly budget.
+ *
+ * Why this file exists:
+ * - Token counts come back with each completion; they are written to
+ *   ai_usage so spend can be tracked per org
+ * - Orgs over their monthly budget get offline results instead of
+ *   spending more tokens
+ * - The dashboard shows usage against the budget (GET /api/openai/usage)
+ *
+ * Budget: organizations.ai_monthly_token_budget, falling back to the
+ * AI_MONTHLY_TOKEN_BUDGET env var; with neither set usage is unlimited.
+ * Months are calendar months in UTC.
+ *
+ * ⚠️ Server-side ONLY (uses the service role client)
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { createLogger } from '@/lib/logger';
+import type { AIOperation, AIProvider, TokenUsage } from './index';
+
+const logger = createLogger('AIUsage');
+
+/**
+ * Monthly Usage
+ * ────────────────────────────────────────────────────
+ */
+export interface AIUsageSummary {
+  tokensUsed: number;
+  budget: number | null; // null = unlimited
+  periodStart: string; // Start of the current month (UTC, ISO)
+}
+
+function getDefaultBudget(): number | null {
+  const budget = Number(process.env.AI_MONTHLY_TOKEN_BUDGET);
+  return Number.isInteger(budget) && budget > 0 ? budget : null;
+}
+
+function getPeriodStart(now: Date = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+}
+
+/**
+ * Get an Organization's Usage This Month
+ * ────────────────────────────────────────────────────
+ * @param orgId - Organization
+ * @returns Tokens used since the start of the month and the budget
+ * @throws When usage cannot be loaded
+ */
+export async function getAIUsage(orgId: string): Promise<AIUsageSummary> {
+  const [{ data: org, error: orgError }, { data: tokensUsed, error: usageError }] = await Promise.all([
+    supabaseAdmin.from('organizations').select('ai_monthly_token_budget').eq('id', orgId).maybeSingle(),
+    supabaseAdmin.rpc('ai_tokens_used_this_month', { p_org_id: orgId }),
+  ]);
+
+  if (orgError || usageError) {
+    throw orgError ?? usageError;
+  }
+
+  return {
+    tokensUsed: Number(tokensUsed ?? 0),
+    budget: org?.ai_monthly_token_budget ?? getDefaultBudget(),
+    periodStart: getPeriodStart(),
+  };
+}
+
+/**
+ * Check an Organization Is Over Budget
+ * ────────────────────────────────────────────────────
+ * Fails open: when usage cannot be loaded the request goes ahead.
+ *
+ * @param orgId - Organization
+ * @returns True when this month's usage has reached the budget
+ */
+export async function isOverMonthlyBudget(orgId: string): Promise<boolean> {
+  try {
+    const { tokensUsed, budget } = await getAIUsage(orgId);
+    return budget !== null && tokensUsed >= budget;
+  } catch (error) {
+    logger.warn('Failed to check AI budget, allowing the request', {
+      orgId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+/**
+ * Record Token Usage
+ * ────────────────────────────────────────────────────
+ * Failures are logged, never thrown: the completion already succeeded.
+ *
+ * @param orgId - Organization billed for the tokens
+ * @param operation - What the completion was for
+ * @param provider - Provider that ran it
+ * @param usage - Token counts from the reply
+ */
+export async function recordAIUsage(
+  orgId: string,
+  operation: AIOperation,
+  provider: AIProvider,
+  usage: TokenUsage
+): Promise<void> {
+  const { error } = await supabaseAdmin.from('ai_usage').insert({
+    org_id: orgId,
+    operation,
+    provider: provider.name,
+    model: provider.model,
+    prompt_tokens: usage.promptTokens,
+    completion_tokens: usage.completionTokens,
+    total_tokens: usage.totalTokens,
+  });
+
+  if (error) {
+    logger.error('Failed to record AI usage', error, { orgId, operation, totalTokens: usage.totalTokens });
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * Analysis Jobs
+ * ────────────────────────────────────────────────────
+ * Worker for the sentiment analysis queue (analysis_jobs).
+ *
+ * Why this file exists:
+ * - A database trigger queues one job per submitted response, in the
+ *   same transaction as the response, so analysis is never lost when
+ *   the respondent closes the tab or the server restarts
+ * - The worker claims due jobs, analyzes them, and on failure pushes
+ *   them back with exponential backoff until max_attempts, then marks
+ *   them failed with the last error
+ * - Fallback (offline) results are saved straight away but retried for
+ *   an AI result; the last attempt keeps whatever it gets
+ * - Jobs are unique per response, so queueing twice is harmless
+ *
+ * The worker runs right after each submission (POST /api/responses)
+ * and on a schedule (POST /api/analysis/worker) to pick up retries.
+ *
+ * Env vars:
+ * - ANALYSIS_JOB_BATCH_SIZE         jobs per run (default 10)
+ * - ANALYSIS_JOB_LOCK_SECONDS       when a claimed job counts as abandoned (default 300)
+ * - ANALYSIS_RETRY_BASE_SECONDS     first retry delay, doubled per attempt (default 30)
+ * - ANALYSIS_RETRY_MAX_SECONDS      longest retry delay (default 3600)
+ *
+ * ⚠️ Server-side ONLY (uses the service role client)
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { createLogger } from '@/lib/logger';
+import { analyzeAndStoreResponse } from '@/lib/responseAnalysis';
+import type { Database } from '@/types/supabase';
+import type { AnswerValue } from '@/types/survey';
+
+const logger = createLogger('AnalysisJobs');
+
+type AnalysisJob = Database['public']['Tables']['analysis_jobs']['Row'];
+
+export type AnalysisJobStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+function readSeconds(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Retry Delay
+ * ────────────────────────────────────────────────────
+ * @param attempts - Attempts made so far (1 after the first failure)
+ * @returns Seconds to wait before the next attempt
+ */
+export function getRetryDelaySeconds(attempts: number): number {
+  const base = readSeconds('ANALYSIS_RETRY_BASE_SECONDS', 30);
+  const max = readSeconds('ANALYSIS_RETRY_MAX_SECONDS', 3600);
+  return Math.min(max, base * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * Finish a Job
+ * ────────────────────────────────────────────────────
+ * @param job - Claimed job
+ * @param error - Why the attempt failed, or null when it succeeded
+ * @returns The job's new status, or 'running' when its lock expired and
+ *          another worker claimed it (that worker's result stands)
+ */
+async function finishJob(job: AnalysisJob, error: string | null): Promise<AnalysisJobStatus> {
+  const now = new Date();
+  const status: AnalysisJobStatus = !error ? 'succeeded' : job.attempts >= job.max_attempts ? 'failed' : 'pending';
+
+  // Only while this worker still holds the claim: once the lock expires,
+  // claim_analysis_jobs can hand the job to another worker
+  let update = supabaseAdmin
+    .from('analysis_jobs')
+    .update({
+      status,
+      locked_at: null,
+      last_error: error,
+      run_after:
+        status === 'pending'
+          ? new Date(now.getTime() + getRetryDelaySeconds(job.attempts) * 1000).toISOString()
+          : job.run_after,
+      completed_at: status === 'succeeded' ? now.toISOString() : null,
+      updated_at: now.toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('status', 'running');
+  update = job.locked_at ? update.eq('locked_at', job.locked_at) : update.is('locked_at', null);
+
+  const { data: updated, error: updateError } = await update.select('id');
+
+  // The lock expires, so the job is picked up again either way
+  if (updateError) {
+    logger.error('Failed to update analysis job', updateError, { jobId: job.id, status });
+    return status;
+  }
+  if (!updated || updated.length === 0) {
+    logger.warn('Lost the lock on analysis job', { jobId: job.id, status });
+    return 'running';
+  }
+  return status;
+}
+
+/**
+ * Run One Job
+ * ────────────────────────────────────────────────────
+ * @param job - Claimed job
+ * @param answers - The response's answers, or undefined if it is gone
+ * @returns The job's new status
+ */
+async function runJob(job: AnalysisJob, answers: Record<string, AnswerValue> | undefined): Promise<AnalysisJobStatus> {
+  if (!answers) {
+    return finishJob(job, 'Response not found');
+  }
+
+  try {
+    const { source } = await analyzeAndStoreResponse(job.response_id, answers, job.org_id);
+
+    // Offline results are already saved; try again later for an AI result
+    if (source === 'fallback' && job.attempts < job.max_attempts) {
+      return finishJob(job, 'AI unavailable, saved fallback analysis');
+    }
+    return finishJob(job, null);
+  } catch (error) {
+    return finishJob(job, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Process Due Jobs
+ * ────────────────────────────────────────────────────
+ * Claims up to one batch of due jobs and runs them one at a time (so a
+ * batch doesn't trip the AI provider's rate limits).
+ *
+ * @returns How many jobs were claimed and how each ended (lost = the
+ *          lock expired first and another worker took the job over)
+ * @throws When jobs cannot be claimed
+ */
+export async function processAnalysisJobs(): Promise<{
+  claimed: number;
+  succeeded: number;
+  retrying: number;
+  failed: number;
+  lost: number;
+}> {
+  const { data: jobs, error: claimError } = await supabaseAdmin.rpc('claim_analysis_jobs', {
+    p_limit: readSeconds('ANALYSIS_JOB_BATCH_SIZE', 10),
+    p_lock_seconds: readSeconds('ANALYSIS_JOB_LOCK_SECONDS', 300),
+  });
+
+  if (claimError) {
+    throw claimError;
+  }
+
+  const result = { claimed: jobs?.length ?? 0, succeeded: 0, retrying: 0, failed: 0, lost: 0 };
+  if (!jobs || jobs.length === 0) {
+    return result;
+  }
+
+  const { data: responses, error: responsesError } = await supabaseAdmin
+    .from('responses')
+    .select('id, answers')
+    .in('id', jobs.map((job) => job.response_id));
+
+  if (responsesError) {
+    throw responsesError;
+  }
+
+  const answersById = new Map(
+    (responses ?? []).map((response) => [response.id, (response.answers ?? {}) as Record<string, AnswerValue>])
+  );
+
+  for (const job of jobs) {
+    const status = await runJob(job, answersById.get(job.response_id));
+    if (status === 'succeeded') result.succeeded++;
+    else if (status === 'failed') result.failed++;
+    else if (status === 'running') result.lost++;
+    else result.retrying++;
+  }
+
+  logger.info('Processed analysis jobs', result);
+  return result;
+}
+
+/**
+ * Queue Status
+ * ────────────────────────────────────────────────────
+ */
+export interface FailedAnalysisJob {
+  id: number;
+  responseId: string;
+  surveyId: string | null;
+  surveyTitle: string | null;
+  attempts: number;
+  lastError: string | null;
+  failedAt: string;
+}
+
+export interface AnalysisQueueStatus {
+  pending: number;
+  running: number;
+  failed: number;
+  succeeded: number;
+  oldestQueuedAt: string | null;
+  failedJobs: FailedAnalysisJob[]; // Most recent first
+}
+
+/**
+ * Get an Organization's Queue Status
+ * ────────────────────────────────────────────────────
+ * @param orgId - Organization
+ * @param failedLimit - How many failed jobs to list
+ * @returns Queue depth and the most recent failed jobs
+ * @throws When the status cannot be loaded
+ */
+export async function getAnalysisQueueStatus(orgId: string, failedLimit = 20): Promise<AnalysisQueueStatus> {
+  const [{ data: counts, error: countsError }, { data: failed, error: failedError }] = await Promise.all([
+    supabaseAdmin.from('analysis_queue_status').select('*').eq('org_id', orgId).maybeSingle(),
+    supabaseAdmin
+      .from('analysis_jobs')
+      .select('id, response_id, attempts, last_error, updated_at, responses(survey_id, surveys(title))')
+      .eq('org_id', orgId)
+      .eq('status', 'failed')
+      .order('updated_at', { ascending: false })
+      .limit(failedLimit),
+  ]);
+
+  if (countsError || failedError) {
+    throw countsError ?? failedError;
+  }
+
+  return {
+    pending: counts?.pending ?? 0,
+    running: counts?.running ?? 0,
+    failed: counts?.failed ?? 0,
+    succeeded: counts?.succeeded ?? 0,
+    oldestQueuedAt: counts?.oldest_queued_at ?? null,
+    failedJobs: (failed ?? []).map((job) => ({
+      id: job.id,
+      responseId: job.response_id,
+      surveyId: job.responses?.survey_id ?? null,
+      surveyTitle: job.responses?.surveys?.title ?? null,
+      attempts: job.attempts,
+      lastError: job.last_error,
+      failedAt: job.updated_at,
+    })),
+  };
+}
+
+/**
+ * Retry Failed Jobs
+ * ────────────────────────────────────────────────────
+ * @param orgId - Organization whose failed jobs to re-queue
+ * @returns Number of jobs re-queued
+ * @throws When the jobs cannot be updated
+ */
+export async function retryFailedAnalysisJobs(orgId: string): Promise<number> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('analysis_jobs')
+    .update({ status: 'pending', attempts: 0, run_after: now, last_error: null, updated_at: now })
+    .eq('org_id', orgId)
+    .eq('status', 'failed')
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  logger.info('Re-queued failed analysis jobs', { orgId, count: data?.length ?? 0 });
+  return data?.length ?? 0;
+}
@@ -11,8 +11,13 @@
  */
 
 import type { Database } from '@/types/supabase';
+import { getMatrixSettings, getRatingSettings, getRatingValues } from '@/lib/questionSettings';
+import { isValidDate } from '@/lib/responseValidation';
+import { getHiddenFieldValues } from '@/lib/hiddenFields';
+import { isAnswered } from '@/lib/utils';
 
 type Response = Database['public']['Tables']['responses']['Row'];
+type SurveyQuestion = Database['public']['Tables']['survey_questions']['Row'];
 type Sentiment = 'positive' | 'negative' | 'neutral' | 'mixed';
 
 /**
@@ -106,6 +111,682 @@ export function calculateAnalyticsSummary(responses: Response[]): AnalyticsSumma
   };
 }
 
+/**
+ * Question Answer Rate
+ * ────────────────────────────────────────────────────
+ * How often a question was answered by the people who saw it.
+ * "Skipped" means shown but left blank; "not shown" means the
+ * respondent never saw the question.
+ */
+export interface QuestionAnswerRate {
+  questionId: number;
+  answered: number;
+  skipped: number;
+  notShown: number;
+  answerRate: number; // answered / shown, 0-100
+}
+
+/**
+ * Calculate per-question answer rates
+ * 
+ * Responses without presented_question_ids predate tracking and
+ * count as having seen every question.
+ * 
+ * @param questions - Survey questions
+ * @param responses - Array of survey responses
+ * @returns Answer rate for each question, in question order
+ */
+export function calculateQuestionAnswerRates(
+  questions: SurveyQuestion[],
+  responses: Response[]
+): QuestionAnswerRate[] {
+  return questions.map((question) => {
+    const key = question.id.toString();
+    let answered = 0;
+    let skipped = 0;
+    let notShown = 0;
+
+    responses.forEach((response) => {
+      const presented = response.presented_question_ids;
+      if (presented && !presented.includes(question.id)) {
+        notShown++;
+        return;
+      }
+
+      const answers = (response.answers ?? {}) as Record<string, unknown>;
+      if (isAnswered(answers[key])) {
+        answered++;
+      } else {
+        skipped++;
+      }
+    });
+
+    const shown = answered + skipped;
+
+    return {
+      questionId: question.id,
+      answered,
+      skipped,
+      notShown,
+      answerRate: shown === 0 ? 0 : Math.round((answered / shown) * 100),
+    };
+  });
+}
+
+/**
+ * Question Drop-Off
+ * ────────────────────────────────────────────────────
+ * How many respondents reached a question and how many left the
+ * survey there without submitting. A respondent who stopped is counted
+ * at the first question they reached but did not answer, or at their
+ * last question when they answered everything they reached.
+ */
+export interface QuestionDropOff {
+  questionId: number;
+  reached: number;
+  droppedOff: number;
+  dropOffRate: number; // droppedOff / reached, 0-100
+}
+
+/**
+ * Drop-Off Summary
+ * ────────────────────────────────────────────────────
+ * Started counts completed responses plus saved drafts that were
+ * never submitted.
+ */
+export interface DropOffSummary {
+  started: number;
+  completed: number;
+  completionRate: number; // completed / started, 0-100
+  questions: QuestionDropOff[];
+}
+
+/**
+ * Calculate where respondents stop
+ * 
+ * Completed responses without presented_question_ids predate
+ * tracking and count as having reached every question.
+ * 
+ * @param questions - Survey questions
+ * @param responses - Completed responses
+ * @param partialResponses - Drafts that were never submitted
+ * @returns Completion rate and drop-off for each question, in question order
+ */
+export function calculateDropOff(
+  questions: SurveyQuestion[],
+  responses: Response[],
+  partialResponses: Response[]
+): DropOffSummary {
+  const allIds = questions.map((question) => question.id);
+  const reached = new Map<number, number>();
+  const droppedOff = new Map<number, number>();
+  const increment = (counts: Map<number, number>, id: number) => counts.set(id, (counts.get(id) ?? 0) + 1);
+
+  responses.forEach((response) => {
+    (response.presented_question_ids ?? allIds).forEach((id) => increment(reached, id));
+  });
+
+  partialResponses.forEach((response) => {
+    const presented = response.presented_question_ids ?? [];
+    presented.forEach((id) => increment(reached, id));
+
+    const answers = (response.answers ?? {}) as Record<string, unknown>;
+    const stoppedAt = presented.find((id) => !isAnswered(answers[id.toString()])) ?? presented[presented.length - 1];
+    if (stoppedAt !== undefined) increment(droppedOff, stoppedAt);
+  });
+
+  const started = responses.length + partialResponses.length;
+
+  return {
+    started,
+    completed: responses.length,
+    completionRate: started === 0 ? 0 : Math.round((responses.length / started) * 100),
+    questions: questions.map((question) => {
+      const questionReached = reached.get(question.id) ?? 0;
+      const questionDroppedOff = droppedOff.get(question.id) ?? 0;
+      return {
+        questionId: question.id,
+        reached: questionReached,
+        droppedOff: questionDroppedOff,
+        dropOffRate: questionReached === 0 ? 0 : Math.round((questionDroppedOff / questionReached) * 100),
+      };
+    }),
+  };
+}
+
+/**
+ * NPS Summary
+ * ────────────────────────────────────────────────────
+ * Net Promoter Score breakdown for one nps question.
+ * Promoters score 9-10, passives 7-8, detractors 0-6.
+ */
+export interface NPSSummary {
+  total: number;
+  promoters: number;
+  passives: number;
+  detractors: number;
+  promoterPercentage: number;
+  passivePercentage: number;
+  detractorPercentage: number;
+  score: number; // % promoters - % detractors, -100 to 100
+}
+
+/**
+ * Calculate Net Promoter Score for a question
+ * 
+ * @param questionId - ID of the nps question
+ * @param responses - Array of survey responses
+ * @returns NPS breakdown and score (0 when nobody answered)
+ */
+export function calculateNPS(questionId: number, responses: Response[]): NPSSummary {
+  const key = questionId.toString();
+  let promoters = 0;
+  let passives = 0;
+  let detractors = 0;
+
+  responses.forEach((response) => {
+    const answers = (response.answers ?? {}) as Record<string, unknown>;
+    const score = Number(answers[key]);
+    if (answers[key] == null || answers[key] === '' || !Number.isInteger(score)) return;
+
+    if (score >= 9) {
+      promoters++;
+    } else if (score >= 7) {
+      passives++;
+    } else {
+      detractors++;
+    }
+  });
+
+  const total = promoters + passives + detractors;
+  const percentage = (count: number) => (total === 0 ? 0 : (count / total) * 100);
+
+  return {
+    total,
+    promoters,
+    passives,
+    detractors,
+    promoterPercentage: Math.round(percentage(promoters)),
+    passivePercentage: Math.round(percentage(passives)),
+    detractorPercentage: Math.round(percentage(detractors)),
+    score: Math.round(percentage(promoters) - percentage(detractors)),
+  };
+}
+
+/**
+ * Rating Statistics
+ * ────────────────────────────────────────────────────
+ * Summary of one rating question on its configured scale
+ */
+export interface RatingStats {
+  count: number;
+  mean: number | null;
+  median: number | null;
+  min: number; // Scale bounds, not observed values
+  max: number;
+  distribution: { value: number; count: number; percentage: number }[];
+}
+
+/**
+ * Calculate rating statistics for a question
+ * 
+ * Answers outside the question's scale (e.g. from before the scale
+ * was changed) are ignored.
+ * 
+ * @param question - Rating question (its settings define the scale)
+ * @param responses - Array of survey responses
+ * @returns Mean, median and per-value distribution
+ */
+export function calculateRatingStats(question: SurveyQuestion, responses: Response[]): RatingStats {
+  const rating = getRatingSettings(question.settings);
+  const scale = getRatingValues(rating);
+  const key = question.id.toString();
+
+  const values = responses
+    .map((response) => {
+      const answer = ((response.answers ?? {}) as Record<string, unknown>)[key];
+      return answer == null || answer === '' ? NaN : Number(answer);
+    })
+    .filter((value) => scale.includes(value))
+    .sort((a, b) => a - b);
+
+  const count = values.length;
+  const mean = count === 0 ? null : values.reduce((sum, value) => sum + value, 0) / count;
+  const middle = Math.floor(count / 2);
+  const median =
+    count === 0 ? null : count % 2 === 1 ? values[middle] : (values[middle - 1] + values[middle]) / 2;
+
+  return {
+    count,
+    mean: mean === null ? null : Math.round(mean * 100) / 100,
+    median,
+    min: rating.min,
+    max: rating.max,
+    distribution: scale.map((value) => {
+      const valueCount = values.filter((v) => v === value).length;
+      return {
+        value,
+        count: valueCount,
+        percentage: count === 0 ? 0 : Math.round((valueCount / count) * 100),
+      };
+    }),
+  };
+}
+
+/**
+ * Option Counts
+ * ────────────────────────────────────────────────────
+ * How often each option of a choice question was picked.
+ * Percentages are of respondents who answered, so multi-select
+ * percentages can add up to more than 100.
+ */
+export interface OptionCounts {
+  respondents: number;
+  options: { option: string; count: number; percentage: number }[];
+  other: { count: number; percentage: number; answers: string[] };
+}
+
+/**
+ * Count selections per option for a choice question
+ * 
+ * Works for multiple_choice (one option per response) and
+ * multi_select (each selected option counts). Answers that are not
+ * listed options are grouped as "Other".
+ * 
+ * @param question - multiple_choice or multi_select question
+ * @param responses - Array of survey responses
+ * @returns Count and percentage for each option, plus "Other" answers
+ */
+export function calculateOptionCounts(question: SurveyQuestion, responses: Response[]): OptionCounts {
+  const key = question.id.toString();
+  const options = question.options ?? [];
+  const counts = new Map<string, number>(options.map((option) => [option, 0]));
+  const otherAnswers: string[] = [];
+  let respondents = 0;
+
+  responses.forEach((response) => {
+    const answer = ((response.answers ?? {}) as Record<string, unknown>)[key];
+    if (!isAnswered(answer)) return;
+    respondents++;
+
+    const selected = Array.isArray(answer) ? answer.map(String) : [String(answer)];
+    selected.forEach((entry) => {
+      if (counts.has(entry)) {
+        counts.set(entry, (counts.get(entry) ?? 0) + 1);
+      } else if (entry.trim() !== '') {
+        otherAnswers.push(entry);
+      }
+    });
+  });
+
+  const percentage = (count: number) => (respondents === 0 ? 0 : Math.round((count / respondents) * 100));
+
+  return {
+    respondents,
+    options: options.map((option) => ({
+      option,
+      count: counts.get(option) ?? 0,
+      percentage: percentage(counts.get(option) ?? 0),
+    })),
+    other: {
+      count: otherAnswers.length,
+      percentage: percentage(otherAnswers.length),
+      answers: otherAnswers,
+    },
+  };
+}
+
+/**
+ * Ranking Statistics
+ * ────────────────────────────────────────────────────
+ * Average position (1 = first) and first-place share per option,
+ * ordered from best to worst average rank.
+ */
+export interface RankingStats {
+  respondents: number;
+  options: {
+    option: string;
+    averageRank: number | null;
+    firstPlaceCount: number;
+    firstPlacePercentage: number;
+  }[];
+}
+
+/**
+ * Calculate ranking statistics for a question
+ * 
+ * Options added after a response was given simply have fewer ranks;
+ * entries that are no longer options are ignored.
+ * 
+ * @param question - Ranking question
+ * @param responses - Array of survey responses
+ * @returns Average rank and first-place share for each option
+ */
+export function calculateRankingStats(question: SurveyQuestion, responses: Response[]): RankingStats {
+  const key = question.id.toString();
+  const options = question.options ?? [];
+  const rankSums = new Map<string, { total: number; count: number }>(
+    options.map((option) => [option, { total: 0, count: 0 }])
+  );
+  const firstPlaces = new Map<string, number>(options.map((option) => [option, 0]));
+  let respondents = 0;
+
+  responses.forEach((response) => {
+    const answer = ((response.answers ?? {}) as Record<string, unknown>)[key];
+    if (!Array.isArray(answer) || answer.length === 0) return;
+    respondents++;
+
+    answer.map(String).forEach((entry, index) => {
+      const sum = rankSums.get(entry);
+      if (!sum) return;
+      sum.total += index + 1;
+      sum.count++;
+      if (index === 0) {
+        firstPlaces.set(entry, (firstPlaces.get(entry) ?? 0) + 1);
+      }
+    });
+  });
+
+  const stats = options.map((option) => {
+    const sum = rankSums.get(option) ?? { total: 0, count: 0 };
+    const firstPlaceCount = firstPlaces.get(option) ?? 0;
+    return {
+      option,
+      averageRank: sum.count === 0 ? null : Math.round((sum.total / sum.count) * 100) / 100,
+      firstPlaceCount,
+      firstPlacePercentage: respondents === 0 ? 0 : Math.round((firstPlaceCount / respondents) * 100),
+    };
+  });
+
+  // Unranked options sort last
+  stats.sort((a, b) => (a.averageRank ?? Infinity) - (b.averageRank ?? Infinity));
+
+  return { respondents, options: stats };
+}
+
+/**
+ * Matrix Counts
+ * ────────────────────────────────────────────────────
+ * Row × column answer counts for one matrix question.
+ * counts[rowIndex][columnIndex] follows the order of rows and columns.
+ */
+export interface MatrixCounts {
+  rows: string[];
+  columns: string[];
+  counts: number[][];
+  rowTotals: number[];
+  maxCount: number; // Largest single cell, for heat-map shading
+}
+
+/**
+ * Count answers per cell of a matrix question
+ * 
+ * Rows or columns that were renamed or removed after responses came
+ * in are ignored.
+ * 
+ * @param question - Matrix question (its settings define rows and columns)
+ * @param responses - Array of survey responses
+ * @returns Row × column counts
+ */
+export function calculateMatrixCounts(question: SurveyQuestion, responses: Response[]): MatrixCounts {
+  const { rows, columns } = getMatrixSettings(question.settings);
+  const key = question.id.toString();
+  const counts = rows.map(() => columns.map(() => 0));
+
+  responses.forEach((response) => {
+    const answer = ((response.answers ?? {}) as Record<string, unknown>)[key];
+    if (!answer || typeof answer !== 'object' || Array.isArray(answer)) return;
+
+    Object.entries(answer as Record<string, unknown>).forEach(([row, column]) => {
+      const rowIndex = rows.indexOf(row);
+      const columnIndex = columns.indexOf(String(column));
+      if (rowIndex !== -1 && columnIndex !== -1) {
+        counts[rowIndex][columnIndex]++;
+      }
+    });
+  });
+
+  return {
+    rows,
+    columns,
+    counts,
+    rowTotals: counts.map((rowCounts) => rowCounts.reduce((sum, count) => sum + count, 0)),
+    maxCount: Math.max(0, ...counts.flat()),
+  };
+}
+
+/**
+ * Numeric Statistics
+ * ────────────────────────────────────────────────────
+ * Summary of one number-format short_text question.
+ * Histogram bins are equal width and include their lower bound;
+ * the last bin also includes the maximum.
+ */
+export interface NumericStats {
+  count: number;
+  mean: number | null;
+  min: number | null; // Observed values, not configured limits
+  max: number | null;
+  percentiles: { p25: number; p50: number; p75: number; p90: number } | null;
+  histogram: { from: number; to: number; count: number; percentage: number }[];
+}
+
+const MAX_HISTOGRAM_BINS = 10;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Linear interpolation between the closest ranks
+function percentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Calculate numeric statistics for a question
+ * 
+ * Answers that are not numbers (e.g. from before the format was
+ * changed) are ignored.
+ * 
+ * @param question - short_text question with the number format
+ * @param responses - Array of survey responses
+ * @returns Mean, range, percentiles and histogram
+ */
+export function calculateNumericStats(question: SurveyQuestion, responses: Response[]): NumericStats {
+  const key = question.id.toString();
+
+  const values = responses
+    .map((response) => {
+      const answer = ((response.answers ?? {}) as Record<string, unknown>)[key];
+      return typeof answer === 'string' && answer.trim() !== '' ? Number(answer) : NaN;
+    })
+    .filter((value) => Number.isFinite(value))
+    .sort((a, b) => a - b);
+
+  const count = values.length;
+  if (count === 0) {
+    return { count, mean: null, min: null, max: null, percentiles: null, histogram: [] };
+  }
+
+  const min = values[0];
+  const max = values[count - 1];
+  const binCount = min === max ? 1 : Math.min(MAX_HISTOGRAM_BINS, Math.ceil(Math.sqrt(count)));
+  const width = (max - min) / binCount || 1;
+  const binCounts = new Array<number>(binCount).fill(0);
+  values.forEach((value) => {
+    binCounts[Math.min(binCount - 1, Math.floor((value - min) / width))]++;
+  });
+
+  return {
+    count,
+    mean: round2(values.reduce((sum, value) => sum + value, 0) / count),
+    min,
+    max,
+    percentiles: {
+      p25: round2(percentile(values, 0.25)),
+      p50: round2(percentile(values, 0.5)),
+      p75: round2(percentile(values, 0.75)),
+      p90: round2(percentile(values, 0.9)),
+    },
+    histogram: binCounts.map((binTotal, i) => ({
+      from: round2(min + i * width),
+      to: round2(i === binCount - 1 ? max : min + (i + 1) * width),
+      count: binTotal,
+      percentage: Math.round((binTotal / count) * 100),
+    })),
+  };
+}
+
+/**
+ * Date Distribution
+ * ────────────────────────────────────────────────────
+ * Answers to one date-format short_text question grouped by month,
+ * or by year when they span more than two years. Empty periods
+ * between the earliest and latest answer are included.
+ */
+export interface DateDistribution {
+  count: number;
+  earliest: string | null; // YYYY-MM-DD
+  latest: string | null;
+  granularity: 'month' | 'year';
+  buckets: { label: string; count: number; percentage: number }[];
+}
+
+const MAX_MONTH_BUCKETS = 24;
+
+/**
+ * Calculate the date distribution for a question
+ * 
+ * @param question - short_text question with the date format
+ * @param responses - Array of survey responses
+ * @returns Earliest/latest answer and counts per period
+ */
+export function calculateDateDistribution(question: SurveyQuestion, responses: Response[]): DateDistribution {
+  const key = question.id.toString();
+
+  const dates = responses
+    .map((response) => ((response.answers ?? {}) as Record<string, unknown>)[key])
+    .filter((answer): answer is string => typeof answer === 'string' && isValidDate(answer))
+    .sort();
+
+  const count = dates.length;
+  if (count === 0) {
+    return { count, earliest: null, latest: null, granularity: 'month', buckets: [] };
+  }
+
+  const earliest = dates[0];
+  const latest = dates[count - 1];
+  const [startYear, startMonth] = earliest.split('-').map(Number);
+  const [endYear, endMonth] = latest.split('-').map(Number);
+  const monthSpan = (endYear - startYear) * 12 + (endMonth - startMonth) + 1;
+  const granularity = monthSpan > MAX_MONTH_BUCKETS ? 'year' : 'month';
+
+  // Dates are YYYY-MM-DD, so a prefix identifies the period
+  const labels: string[] = [];
+  if (granularity === 'year') {
+    for (let year = startYear; year <= endYear; year++) labels.push(String(year));
+  } else {
+    for (let i = 0; i < monthSpan; i++) {
+      const month = startMonth - 1 + i;
+      const year = startYear + Math.floor(month / 12);
+      labels.push(`${year}-${String((month % 12) + 1).padStart(2, '0')}`);
+    }
+  }
+
+  return {
+    count,
+    earliest,
+    latest,
+    granularity,
+    buckets: labels.map((label) => {
+      const periodCount = dates.filter((date) => date.startsWith(label)).length;
+      return { label, count: periodCount, percentage: Math.round((periodCount / count) * 100) };
+    }),
+  };
+}
+
+/**
+ * Position Effect
+ * ────────────────────────────────────────────────────
+ * How often something at a given presented position (1-based) was
+ * picked or answered. With shuffled order, a rate that falls with
+ * position points to order bias rather than real preference.
+ */
+export interface PositionEffect {
+  position: number;
+  shown: number;
+  hits: number; // Picked (options) or answered (questions)
+  rate: number; // Percentage of shown
+}
+
+const toPositionEffects = (shown: number[], hits: number[]): PositionEffect[] =>
+  shown.map((shownCount, i) => ({
+    position: i + 1,
+    shown: shownCount,
+    hits: hits[i],
+    rate: shownCount === 0 ? 0 : Math.round((hits[i] / shownCount) * 100),
+  }));
+
+/**
+ * Calculate option position effects for a shuffled question
+ * 
+ * Uses the option order recorded with each response, counting only
+ * respondents who answered. For ranking questions an option counts as
+ * picked when it was ranked first.
+ * 
+ * @param question - Choice or ranking question with shuffled options
+ * @param responses - Array of survey responses
+ * @returns Pick rate for each presented option position
+ */
+export function calculateOptionPositionEffects(
+  question: SurveyQuestion,
+  responses: Response[]
+): PositionEffect[] {
+  const key = question.id.toString();
+  const shown: number[] = [];
+  const hits: number[] = [];
+
+  responses.forEach((response) => {
+    const order = ((response.presented_option_orders ?? {}) as Record<string, unknown>)[key];
+    const answer = ((response.answers ?? {}) as Record<string, unknown>)[key];
+    if (!Array.isArray(order) || !isAnswered(answer)) return;
+
+    const selected = Array.isArray(answer) ? answer.map(String) : [String(answer)];
+    order.forEach((option, i) => {
+      const isHit = question.type === 'ranking' ? selected[0] === option : selected.includes(String(option));
+      shown[i] = (shown[i] ?? 0) + 1;
+      hits[i] = (hits[i] ?? 0) + (isHit ? 1 : 0);
+    });
+  });
+
+  return toPositionEffects(shown, hits);
+}
+
+/**
+ * Calculate question position effects
+ * 
+ * Uses the display order recorded in presented_question_ids, so it
+ * is only meaningful when the survey shuffles question order.
+ * 
+ * @param responses - Array of survey responses
+ * @returns Answer rate for each presented question position
+ */
+export function calculateQuestionPositionEffects(responses: Response[]): PositionEffect[] {
+  const shown: number[] = [];
+  const hits: number[] = [];
+
+  responses.forEach((response) => {
+    const answers = (response.answers ?? {}) as Record<string, unknown>;
+    (response.presented_question_ids ?? []).forEach((questionId, i) => {
+      shown[i] = (shown[i] ?? 0) + 1;
+      hits[i] = (hits[i] ?? 0) + (isAnswered(answers[questionId.toString()]) ? 1 : 0);
+    });
+  });
+
+  return toPositionEffects(shown, hits);
+}
+
 /**
  * Calculate sentiment percentage
  * 
@@ -178,6 +859,75 @@ export function getSentimentIcon(sentiment: Sentiment | null): string {
   }
 }
 
+/**
+ * Hidden Field Group
+ * ────────────────────────────────────────────────────
+ * Responses sharing one value of a hidden field (e.g. one campaign).
+ * value is '' for responses without the field.
+ */
+export interface HiddenFieldGroup {
+  value: string;
+  count: number;
+  percentage: number;
+  sentimentCounts: SentimentCounts;
+}
+
+/**
+ * List the values of a hidden field
+ * 
+ * @param responses - Array of survey responses
+ * @param field - Hidden field name
+ * @returns Distinct non-empty values, sorted
+ */
+export function getHiddenFieldOptions(responses: Response[], field: string): string[] {
+  const values = new Set<string>();
+  responses.forEach((response) => {
+    const value = getHiddenFieldValues(response.metadata)[field];
+    if (value) values.add(value);
+  });
+  return [...values].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Filter responses by a hidden field value
+ * 
+ * @param responses - Array of survey responses
+ * @param field - Hidden field name
+ * @param value - Value to keep ('' keeps responses without the field)
+ * @returns Matching responses, in their original order
+ */
+export function filterResponsesByHiddenField(
+  responses: Response[],
+  field: string,
+  value: string
+): Response[] {
+  return responses.filter((response) => (getHiddenFieldValues(response.metadata)[field] ?? '') === value);
+}
+
+/**
+ * Group responses by a hidden field
+ * 
+ * @param responses - Array of survey responses
+ * @param field - Hidden field name
+ * @returns One group per value, largest first
+ */
+export function groupResponsesByHiddenField(responses: Response[], field: string): HiddenFieldGroup[] {
+  const groups = new Map<string, Response[]>();
+  responses.forEach((response) => {
+    const value = getHiddenFieldValues(response.metadata)[field] ?? '';
+    groups.set(value, [...(groups.get(value) ?? []), response]);
+  });
+
+  return [...groups.entries()]
+    .map(([value, groupResponses]) => ({
+      value,
+      count: groupResponses.length,
+      percentage: calculateSentimentPercentage(groupResponses.length, responses.length),
+      sentimentCounts: calculateSentimentCounts(groupResponses),
+    }))
+    .sort((a, b) => b.count - a.count);
+}
+
 /**
  * Calculate response rate (if you track expected vs actual responses)
  * 
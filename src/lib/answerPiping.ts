@@ -0,0 +1,178 @@
+/**
+ * Answer Piping
+ * ────────────────────────────────────────────────────
+ * Fills placeholders in question text with earlier answers or URL
+ * parameters, e.g. "Why did you rate us {{q3}}?" or "Hi {{name|there}}".
+ *
+ * Why this file exists:
+ * - The respond page resolves placeholders live as answers change
+ * - The builder renumbers {{qN}} references when questions move, and
+ *   the version routes warn about references that no longer resolve
+ * - Pure functions only (no Supabase), safe to import on the client
+ *
+ * Syntax:
+ * - {{qN}} is the answer to question N (its 1-based position)
+ * - {{name}} is the "name" URL parameter of the respond link
+ * - {{...|fallback}} is shown when there is nothing to fill in
+ */
+
+import type { AnswerValue, Question } from '@/types/survey';
+import { formatAnswer } from '@/lib/utils';
+
+/**
+ * Placeholder Syntax
+ * ────────────────────────────────────────────────────
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z][\w-]*)\s*(?:\|([^{}]*))?\}\}/g;
+const QUESTION_REFERENCE_PATTERN = /^q(\d+)$/i;
+
+// Longest URL parameter value shown to respondents
+export const MAX_PIPED_PARAM_LENGTH = 100;
+
+/**
+ * Piping Reference
+ * ────────────────────────────────────────────────────
+ * One placeholder found in question text
+ */
+export interface PipingReference {
+  token: string; // Full placeholder, e.g. "{{q3|it}}"
+  name: string; // "q3" or the URL parameter name
+  questionNumber: number | null; // Set for {{qN}} references
+  fallback?: string;
+}
+
+/**
+ * Values available to placeholders on the respond page
+ */
+export interface PipingContext {
+  answers: Record<number, AnswerValue | undefined>; // Keyed by question number
+  params: Record<string, string>;
+}
+
+/**
+ * Broken Reference
+ * ────────────────────────────────────────────────────
+ * A {{qN}} that cannot be filled in: the question was removed, or it
+ * does not come before the question that refers to it.
+ */
+export interface BrokenPipingReference {
+  questionNumber: number; // Question whose text holds the reference
+  reference: string; // The placeholder as written
+  reason: 'removed' | 'not_earlier';
+}
+
+/**
+ * Find Placeholders
+ * ────────────────────────────────────────────────────
+ * @param text - Question text
+ * @returns Every placeholder, in order of appearance
+ */
+export function getPipingReferences(text: string): PipingReference[] {
+  return Array.from(text.matchAll(PLACEHOLDER_PATTERN), (match) => {
+    const questionMatch = QUESTION_REFERENCE_PATTERN.exec(match[1]);
+    return {
+      token: match[0],
+      name: match[1],
+      questionNumber: questionMatch ? Number(questionMatch[1]) : null,
+      fallback: match[2]?.trim() || undefined,
+    };
+  });
+}
+
+/**
+ * Build a Question Placeholder
+ * ────────────────────────────────────────────────────
+ * @param questionNumber - 1-based question position
+ * @returns Placeholder such as "{{q3}}"
+ */
+export function buildQuestionPlaceholder(questionNumber: number): string {
+  return `{{q${questionNumber}}}`;
+}
+
+/**
+ * Resolve Placeholders
+ * ────────────────────────────────────────────────────
+ * Unanswered questions and missing parameters use the placeholder's
+ * fallback, or disappear when it has none.
+ *
+ * @param text - Question text
+ * @param context - Answers by question number and URL parameters
+ * @returns Text with every placeholder filled in
+ */
+export function resolvePipedText(text: string, context: PipingContext): string {
+  if (!text.includes('{{')) return text;
+
+  return text.replace(PLACEHOLDER_PATTERN, (_token, name: string, fallback?: string) => {
+    const questionMatch = QUESTION_REFERENCE_PATTERN.exec(name);
+    const value = questionMatch
+      ? formatAnswer(context.answers[Number(questionMatch[1])]).trim()
+      : (context.params[name] ?? '').trim().slice(0, MAX_PIPED_PARAM_LENGTH);
+    return value || fallback?.trim() || '';
+  });
+}
+
+/**
+ * Carry References Forward
+ * ────────────────────────────────────────────────────
+ * Rewrites {{qN}} references after questions are reordered or deleted
+ * in the builder, so each still points at the same question. References
+ * to a deleted question become {{q0}}, which is reported as removed.
+ *
+ * @param before - Questions before the change
+ * @param after - Questions after the change
+ * @returns The "after" questions with references renumbered
+ */
+export function carryPipingReferences(before: Question[], after: Question[]): Question[] {
+  const renumber = (text: string) =>
+    text.replace(PLACEHOLDER_PATTERN, (token: string, name: string, fallback?: string) => {
+      const questionMatch = QUESTION_REFERENCE_PATTERN.exec(name);
+      if (!questionMatch) return token;
+
+      const source = before[Number(questionMatch[1]) - 1];
+      if (!source) return token;
+
+      const newNumber = after.findIndex((q) => q.id === source.id) + 1;
+      const placeholder = buildQuestionPlaceholder(newNumber);
+      return fallback === undefined ? placeholder : `${placeholder.slice(0, -2)}|${fallback}}}`;
+    });
+
+  return after.map((question) => {
+    const text = renumber(question.text);
+    return text === question.text ? question : { ...question, text };
+  });
+}
+
+/**
+ * Find Broken References
+ * ────────────────────────────────────────────────────
+ * @param texts - Question texts in survey order
+ * @returns {{qN}} references that will never be filled in
+ */
+export function findBrokenPipingReferences(texts: string[]): BrokenPipingReference[] {
+  return texts.flatMap((text, index) =>
+    getPipingReferences(text)
+      .filter((reference) => reference.questionNumber !== null)
+      .flatMap((reference): BrokenPipingReference[] => {
+        const target = reference.questionNumber!;
+        if (target < 1 || target > texts.length) {
+          return [{ questionNumber: index + 1, reference: reference.token, reason: 'removed' }];
+        }
+        if (target > index) {
+          return [{ questionNumber: index + 1, reference: reference.token, reason: 'not_earlier' }];
+        }
+        return [];
+      })
+  );
+}
+
+/**
+ * Describe a Broken Reference
+ * ────────────────────────────────────────────────────
+ * @param broken - Broken reference
+ * @returns Message for authors, e.g. "Q4 refers to {{q0}}, a question that was removed"
+ */
+export function describeBrokenPipingReference(broken: BrokenPipingReference): string {
+  return broken.reason === 'removed'
+    ? `Q${broken.questionNumber} refers to ${broken.reference}, a question that was removed`
+    : `Q${broken.questionNumber} refers to ${broken.reference}, which does not come before it`;
+}
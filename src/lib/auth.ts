@@ -0,0 +1,117 @@
+/**
+ * Request Authentication
+ * ────────────────────────────────────────────────────
+ * Resolves the signed-in user and their organization for API routes.
+ *
+ * Why this file exists:
+ * - API routes must never trust an org_id sent by the browser
+ * - One place to turn a Supabase access token into a tenant
+ * - Consistent 401 handling across every protected route
+ *
+ * ⚠️ Server-side ONLY (uses the service role client)
+ */
+
+import type { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('Auth');
+
+/**
+ * Authenticated Request Context
+ * ────────────────────────────────────────────────────
+ */
+export interface AuthContext {
+  userId: string;
+  email: string | null;
+  orgId: string;
+  role: string;
+}
+
+/**
+ * Extract Bearer Token
+ * ────────────────────────────────────────────────────
+ * @param request - Incoming API request
+ * @returns Access token or null when the header is missing
+ */
+function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  if (!header) return null;
+
+  const [scheme, token] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token) return null;
+
+  return token;
+}
+
+/**
+ * Get Auth Context
+ * ────────────────────────────────────────────────────
+ * Verifies the Supabase access token on the request and looks up the
+ * organization the user belongs to. Users belonging to several
+ * organizations resolve to the one they joined first.
+ *
+ * @param request - Incoming API request
+ * @returns Auth context, or null if the request is not authenticated
+ */
+export async function getAuthContext(request: NextRequest): Promise<AuthContext | null> {
+  const token = getBearerToken(request);
+  if (!token) return null;
+
+  const { data: userData, error: userError } = await supabaseAdmin.auth.getUser(token);
+
+  if (userError || !userData.user) {
+    logger.warn('Rejected invalid access token', { error: userError?.message });
+    return null;
+  }
+
+  const user = userData.user;
+
+  const { data: membership, error: membershipError } = await supabaseAdmin
+    .from('org_members')
+    .select('org_id, role')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (membershipError) {
+    logger.error('Failed to load organization membership', membershipError, { userId: user.id });
+    return null;
+  }
+
+  if (!membership) {
+    logger.warn('Authenticated user has no organization', { userId: user.id });
+    return null;
+  }
+
+  return {
+    userId: user.id,
+    email: user.email ?? null,
+    orgId: membership.org_id,
+    role: membership.role,
+  };
+}
+
+/**
+ * Verify Survey Ownership
+ * ────────────────────────────────────────────────────
+ * @param surveyId - Survey to check
+ * @param orgId - Organization of the caller
+ * @returns True if the survey exists and belongs to the organization
+ */
+export async function surveyBelongsToOrg(surveyId: string, orgId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('surveys')
+    .select('id')
+    .eq('id', surveyId)
+    .eq('org_id', orgId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to verify survey ownership', error, { surveyId, orgId });
+    return false;
+  }
+
+  return data !== null;
+}
@@ -0,0 +1,29 @@
+/**
+ * Authenticated Fetch
+ * ────────────────────────────────────────────────────
+ * Client-side fetch wrapper that forwards the Supabase session to our API.
+ *
+ * Why this file exists:
+ * - Protected API routes derive the organization from the access token
+ * - Keeps Authorization header handling out of every component
+ */
+
+import { supabase } from '@/lib/supabaseClient';
+
+/**
+ * Fetch with the current user's access token
+ *
+ * @param input - Request URL
+ * @param init - Standard fetch options
+ * @returns Fetch response
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const { data } = await supabase.auth.getSession();
+  const headers = new Headers(init.headers);
+
+  if (data.session) {
+    headers.set('Authorization', `Bearer ${data.session.access_token}`);
+  }
+
+  return fetch(input, { ...init, headers });
+}
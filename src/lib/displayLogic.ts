@@ -0,0 +1,115 @@
+/**
+ * Display Logic
+ * ────────────────────────────────────────────────────
+ * Decides which questions a respondent sees based on earlier answers.
+ *
+ * Why this file exists:
+ * - The respond page hides questions live as answers change
+ * - POST /api/responses must agree on which questions were shown,
+ *   so hidden required questions are not enforced
+ * - Pure functions only (no Supabase), safe to import on the client
+ */
+
+import type {
+  AnswerValue,
+  DbQuestion,
+  DbDisplayCondition,
+  DbDisplayLogic,
+  DisplayConditionOperator,
+} from '@/types/survey';
+
+/**
+ * Operator Labels
+ * ────────────────────────────────────────────────────
+ * Used by the builder's rule editor
+ */
+export const DISPLAY_CONDITION_OPERATORS: { value: DisplayConditionOperator; label: string }[] = [
+  { value: 'equals', label: 'is' },
+  { value: 'not_equals', label: 'is not' },
+  { value: 'at_most', label: 'is at most' },
+  { value: 'at_least', label: 'is at least' },
+];
+
+/**
+ * Evaluate a Single Condition
+ * ────────────────────────────────────────────────────
+ * An unanswered source never satisfies a condition. For multi-select
+ * answers "is" means the option was one of those chosen. Ranking, matrix
+ * and file upload questions are not offered as sources by the builder.
+ *
+ * @param condition - Stored condition
+ * @param answer - Answer to the source question
+ * @returns True when the condition holds
+ */
+export function evaluateCondition(condition: DbDisplayCondition, answer: AnswerValue | undefined): boolean {
+  if (Array.isArray(answer)) {
+    if (answer.length === 0) return false;
+    if (condition.operator === 'equals') return answer.includes(condition.value);
+    if (condition.operator === 'not_equals') return !answer.includes(condition.value);
+    return false;
+  }
+
+  if (typeof answer === 'object') return false;
+
+  const text = answer?.trim();
+  if (!text) return false;
+
+  switch (condition.operator) {
+    case 'equals':
+      return text === condition.value;
+    case 'not_equals':
+      return text !== condition.value;
+    case 'at_most':
+    case 'at_least': {
+      const actual = Number(text);
+      const expected = Number(condition.value);
+      if (!Number.isFinite(actual) || !Number.isFinite(expected)) return false;
+      return condition.operator === 'at_most' ? actual <= expected : actual >= expected;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Get Visible Question IDs
+ * ────────────────────────────────────────────────────
+ * Walks the questions in order. A condition only counts when its source
+ * is an earlier question that is itself visible, so hiding a question
+ * also hides anything that depends on it.
+ *
+ * @param questions - The survey's questions
+ * @param answers - Answers keyed by question ID
+ * @returns IDs of the questions that should be shown
+ */
+export function getVisibleQuestionIds(
+  questions: DbQuestion[],
+  answers: Record<string, AnswerValue>
+): Set<number> {
+  const visible = new Set<number>();
+  const ordered = [...questions].sort((a, b) => a.position - b.position);
+
+  ordered.forEach((question) => {
+    const logic = question.display_logic as DbDisplayLogic | null;
+
+    if (!logic?.conditions?.length) {
+      visible.add(question.id);
+      return;
+    }
+
+    const results = logic.conditions.map((condition) => {
+      const source = ordered.find((q) => q.position === condition.position);
+      if (!source || source.position >= question.position || !visible.has(source.id)) {
+        return false;
+      }
+      return evaluateCondition(condition, answers[source.id.toString()]);
+    });
+
+    const shown = logic.match === 'any' ? results.some(Boolean) : results.every(Boolean);
+    if (shown) {
+      visible.add(question.id);
+    }
+  });
+
+  return visible;
+}
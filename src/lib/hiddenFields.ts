@@ -0,0 +1,90 @@
+/**
+ * Hidden Fields
+ * ────────────────────────────────────────────────────
+ * Values passed in the respond link's query string, e.g.
+ * ?customer_id=123&campaign=spring, saved with the response.
+ *
+ * Why this file exists:
+ * - Campaign links identify who responded and from where without
+ *   asking respondents
+ * - The respond page captures the values and POST /api/responses keeps
+ *   only the fields the survey declares, with the same rules
+ * - Pure functions only (no Supabase), safe to import on the client
+ */
+
+import type { Json } from '@/types/supabase';
+
+/**
+ * Field Limits
+ * ────────────────────────────────────────────────────
+ */
+export const MAX_HIDDEN_FIELDS = 20;
+export const MAX_HIDDEN_FIELD_VALUE_LENGTH = 500;
+
+const FIELD_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,39}$/;
+// {{q3}} pipes answers, so q<number> cannot be a field name
+const RESERVED_NAME_PATTERN = /^q\d+$/i;
+
+/**
+ * Check a Field Name
+ * ────────────────────────────────────────────────────
+ * @param name - Proposed field name
+ * @returns True for letters, digits and underscores (starting with a
+ *          letter, up to 40 characters) that do not clash with {{qN}}
+ */
+export function isValidHiddenFieldName(name: string): boolean {
+  return FIELD_NAME_PATTERN.test(name) && !RESERVED_NAME_PATTERN.test(name);
+}
+
+/**
+ * Normalize Declared Fields
+ * ────────────────────────────────────────────────────
+ * @param fields - Field names from the builder
+ * @returns Valid, unique names, at most MAX_HIDDEN_FIELDS
+ */
+export function normalizeHiddenFields(fields: unknown): string[] {
+  if (!Array.isArray(fields)) return [];
+
+  const names = fields.filter(
+    (field): field is string => typeof field === 'string' && isValidHiddenFieldName(field)
+  );
+  return [...new Set(names)].slice(0, MAX_HIDDEN_FIELDS);
+}
+
+/**
+ * Capture Hidden Field Values
+ * ────────────────────────────────────────────────────
+ * Undeclared parameters and empty values are dropped; long values
+ * are cut to MAX_HIDDEN_FIELD_VALUE_LENGTH.
+ *
+ * @param fields - surveys.hidden_fields
+ * @param params - Query string values (or submitted metadata)
+ * @returns Values keyed by field name, or null when there are none
+ */
+export function captureHiddenFields(
+  fields: string[],
+  params: Record<string, string | undefined>
+): Record<string, string> | null {
+  const values: Record<string, string> = {};
+
+  fields.forEach((field) => {
+    const value = params[field]?.trim().slice(0, MAX_HIDDEN_FIELD_VALUE_LENGTH);
+    if (value) values[field] = value;
+  });
+
+  return Object.keys(values).length > 0 ? values : null;
+}
+
+/**
+ * Read Hidden Field Values
+ * ────────────────────────────────────────────────────
+ * @param metadata - responses.metadata
+ * @returns Values keyed by field name (empty for older responses)
+ */
+export function getHiddenFieldValues(metadata: Json | null | undefined): Record<string, string> {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return {};
+
+  return Object.fromEntries(
+    Object.entries(metadata).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * Role Permissions
+ * ────────────────────────────────────────────────────
+ * Maps organization roles to the actions they may perform.
+ *
+ * Why this file exists:
+ * - One source of truth shared by API routes and UI
+ * - API routes enforce permissions, components only hide actions
+ * - Mirrors the role checks in the org-scoped RLS policies
+ *
+ * Roles:
+ * - owner   → everything
+ * - editor  → create, edit, version and delete surveys, plus analytics
+ * - analyst → survey analytics and exports, no editing
+ * - viewer  → dashboards only
+ */
+
+export type OrgRole = 'owner' | 'editor' | 'analyst' | 'viewer';
+
+export type Permission =
+  | 'survey:edit'       // Create surveys, create/update/restore versions, open/close
+  | 'survey:delete'
+  | 'analytics:view'    // Per-survey analytics page
+  | 'analytics:export'; // CSV/JSON exports and survey downloads
+
+export const ORG_ROLES: readonly OrgRole[] = ['owner', 'editor', 'analyst', 'viewer'] as const;
+
+const ROLE_PERMISSIONS: Record<OrgRole, readonly Permission[]> = {
+  owner: ['survey:edit', 'survey:delete', 'analytics:view', 'analytics:export'],
+  editor: ['survey:edit', 'survey:delete', 'analytics:view', 'analytics:export'],
+  analyst: ['analytics:view', 'analytics:export'],
+  viewer: [],
+};
+
+/**
+ * Type guard to check if a string is a valid OrgRole
+ *
+ * @param role - String to check
+ * @returns True if valid role
+ */
+export function isOrgRole(role: string | null | undefined): role is OrgRole {
+  return !!role && ORG_ROLES.includes(role as OrgRole);
+}
+
+/**
+ * Check whether a role grants a permission
+ *
+ * Unknown or missing roles get no permissions.
+ *
+ * @param role - Member role from org_members
+ * @param permission - Action to check
+ * @returns True if the role may perform the action
+ */
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  if (!isOrgRole(role)) return false;
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
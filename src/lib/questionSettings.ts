@@ -0,0 +1,411 @@
+/**
+ * Question Settings
+ * ────────────────────────────────────────────────────
+ * Reads type-specific configuration stored in survey_questions.settings.
+ *
+ * Why this file exists:
+ * - The builder, respond page, validator and analytics must agree on
+ *   the same scale for a question
+ * - Older questions have no settings and keep their original behaviour
+ * - Pure functions only (no Supabase), safe to import on the client
+ */
+
+import type { Json } from '@/types/supabase';
+import type {
+  FileUploadSettings,
+  InputFormat,
+  InputSettings,
+  MatrixSettings,
+  MultiSelectSettings,
+  QuestionSettings,
+  RandomizationSettings,
+  RatingSettings,
+} from '@/types/survey';
+
+/**
+ * Rating Scale Limits
+ * ────────────────────────────────────────────────────
+ */
+export const RATING_MIN_OPTIONS = [0, 1];
+export const RATING_MAX_OPTIONS = [3, 4, 5, 6, 7, 8, 9, 10];
+export const RATING_STEP_OPTIONS = [0.5, 1, 2];
+
+export const DEFAULT_RATING_SETTINGS: RatingSettings = {
+  min: 1,
+  max: 5,
+  step: 1,
+  minLabel: 'Poor',
+  maxLabel: 'Excellent',
+  style: 'numbers',
+};
+
+// Faces from unhappy to happy, spread across the scale
+const RATING_FACES = ['😞', '🙁', '😐', '🙂', '😄'];
+
+/**
+ * Read Rating Settings
+ * ────────────────────────────────────────────────────
+ * Falls back to the 1-5 default and clamps bad values, so a
+ * malformed setting never breaks the respond page.
+ *
+ * @param settings - survey_questions.settings (or the UI equivalent)
+ * @returns Complete rating settings
+ */
+export function getRatingSettings(settings: Json | QuestionSettings | null | undefined): RatingSettings {
+  const rating = (settings as QuestionSettings | null | undefined)?.rating;
+  if (!rating) return DEFAULT_RATING_SETTINGS;
+
+  const min = RATING_MIN_OPTIONS.includes(rating.min) ? rating.min : DEFAULT_RATING_SETTINGS.min;
+  const max = RATING_MAX_OPTIONS.includes(rating.max) ? rating.max : DEFAULT_RATING_SETTINGS.max;
+  const step = RATING_STEP_OPTIONS.includes(rating.step) ? rating.step : DEFAULT_RATING_SETTINGS.step;
+
+  return {
+    min,
+    max,
+    step,
+    minLabel: rating.minLabel,
+    maxLabel: rating.maxLabel,
+    style: rating.style ?? 'numbers',
+  };
+}
+
+/**
+ * Get Rating Values
+ * ────────────────────────────────────────────────────
+ * @param rating - Rating settings
+ * @returns Every selectable value from min to max
+ */
+export function getRatingValues(rating: RatingSettings): number[] {
+  const values: number[] = [];
+  // Count steps rather than adding floats so 0.5 steps stay exact
+  const count = Math.floor((rating.max - rating.min) / rating.step);
+  for (let i = 0; i <= count; i++) {
+    values.push(rating.min + i * rating.step);
+  }
+  return values;
+}
+
+/**
+ * Format Rating Range
+ * ────────────────────────────────────────────────────
+ * @param settings - survey_questions.settings (or the UI equivalent)
+ * @returns Range label such as "1-5" or "0-10"
+ */
+export function formatRatingRange(settings: Json | QuestionSettings | null | undefined): string {
+  const rating = getRatingSettings(settings);
+  return `${rating.min}-${rating.max}`;
+}
+
+/**
+ * Get Rating Face
+ * ────────────────────────────────────────────────────
+ * @param value - Selected value
+ * @param rating - Rating settings
+ * @returns Emoji face for the value's place on the scale
+ */
+export function getRatingFace(value: number, rating: RatingSettings): string {
+  const ratio = rating.max === rating.min ? 0 : (value - rating.min) / (rating.max - rating.min);
+  return RATING_FACES[Math.round(ratio * (RATING_FACES.length - 1))];
+}
+
+/**
+ * Multi-Select Settings
+ * ────────────────────────────────────────────────────
+ */
+export const OTHER_OPTION_LABEL = 'Other (please specify)';
+
+/**
+ * Read Multi-Select Settings
+ * ────────────────────────────────────────────────────
+ * Drops limits that are not positive whole numbers and a minimum
+ * larger than the maximum, so a bad setting never locks respondents out.
+ *
+ * @param settings - survey_questions.settings (or the UI equivalent)
+ * @returns Multi-select settings (limits omitted when not set)
+ */
+export function getMultiSelectSettings(settings: Json | QuestionSettings | null | undefined): MultiSelectSettings {
+  const multiSelect = (settings as QuestionSettings | null | undefined)?.multiSelect;
+  if (!multiSelect) return { allowOther: false };
+
+  const isLimit = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+  const maxSelections = isLimit(multiSelect.maxSelections) ? multiSelect.maxSelections : undefined;
+  let minSelections = isLimit(multiSelect.minSelections) ? multiSelect.minSelections : undefined;
+  if (minSelections !== undefined && maxSelections !== undefined && minSelections > maxSelections) {
+    minSelections = undefined;
+  }
+
+  return {
+    minSelections,
+    maxSelections,
+    allowOther: multiSelect.allowOther === true,
+  };
+}
+
+/**
+ * Matrix Defaults
+ * ────────────────────────────────────────────────────
+ */
+export const DEFAULT_MATRIX_SETTINGS: MatrixSettings = {
+  rows: ['Statement 1', 'Statement 2'],
+  columns: ['Strongly Disagree', 'Disagree', 'Neutral', 'Agree', 'Strongly Agree'],
+};
+
+/**
+ * Read Matrix Settings
+ * ────────────────────────────────────────────────────
+ * Drops blank rows and columns left in the builder, and falls back
+ * to the default rows and five-point agreement scale when either list
+ * ends up empty.
+ *
+ * @param settings - survey_questions.settings (or the UI equivalent)
+ * @returns Row statements and column scale
+ */
+export function getMatrixSettings(settings: Json | QuestionSettings | null | undefined): MatrixSettings {
+  const matrix = (settings as QuestionSettings | null | undefined)?.matrix;
+  const rows = (matrix?.rows ?? []).filter((row) => row.trim() !== '');
+  const columns = (matrix?.columns ?? []).filter((column) => column.trim() !== '');
+
+  return {
+    rows: rows.length ? rows : DEFAULT_MATRIX_SETTINGS.rows,
+    columns: columns.length ? columns : DEFAULT_MATRIX_SETTINGS.columns,
+  };
+}
+
+/**
+ * File Upload Limits
+ * ────────────────────────────────────────────────────
+ * Authors pick allowed types by group; the stored setting is the
+ * flat list of MIME types.
+ */
+export const FILE_TYPE_GROUPS: { label: string; types: string[] }[] = [
+  { label: 'Images', types: ['image/png', 'image/jpeg', 'image/gif', 'image/webp'] },
+  { label: 'PDF', types: ['application/pdf'] },
+  {
+    label: 'Documents',
+    types: [
+      'text/plain',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    ],
+  },
+  {
+    label: 'Spreadsheets',
+    types: [
+      'text/csv',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    ],
+  },
+];
+
+export const FILE_SIZE_OPTIONS_MB = [1, 2, 5, 10, 25];
+
+export const DEFAULT_FILE_SETTINGS: FileUploadSettings = {
+  allowedTypes: [...FILE_TYPE_GROUPS[0].types, ...FILE_TYPE_GROUPS[1].types],
+  maxSizeMb: 5,
+};
+
+/**
+ * Read File Upload Settings
+ * ────────────────────────────────────────────────────
+ * Only MIME types from FILE_TYPE_GROUPS are honoured and the size is
+ * capped at the largest option, whatever the stored setting says.
+ *
+ * @param settings - survey_questions.settings (or the UI equivalent)
+ * @returns Allowed MIME types and size limit
+ */
+export function getFileUploadSettings(settings: Json | QuestionSettings | null | undefined): FileUploadSettings {
+  const file = (settings as QuestionSettings | null | undefined)?.file;
+  if (!file) return DEFAULT_FILE_SETTINGS;
+
+  const knownTypes = FILE_TYPE_GROUPS.flatMap((group) => group.types);
+  const allowedTypes = (file.allowedTypes ?? []).filter((type) => knownTypes.includes(type));
+
+  return {
+    allowedTypes: allowedTypes.length ? allowedTypes : DEFAULT_FILE_SETTINGS.allowedTypes,
+    maxSizeMb: FILE_SIZE_OPTIONS_MB.includes(file.maxSizeMb) ? file.maxSizeMb : DEFAULT_FILE_SETTINGS.maxSizeMb,
+  };
+}
+
+/**
+ * Get Allowed File Type Labels
+ * ────────────────────────────────────────────────────
+ * @param file - File upload settings
+ * @returns Group labels with at least one allowed type, e.g. ["Images", "PDF"]
+ */
+export function getAllowedFileTypeLabels(file: FileUploadSettings): string[] {
+  return FILE_TYPE_GROUPS
+    .filter((group) => group.types.some((type) => file.allowedTypes.includes(type)))
+    .map((group) => group.label);
+}
+
+/**
+ * Input Formats
+ * ────────────────────────────────────────────────────
+ * Typed variants of short_text questions
+ */
+export const INPUT_FORMATS: { value: InputFormat; label: string; placeholder: string }[] = [
+  { value: 'text', label: 'Text', placeholder: 'Type your answer here...' },
+  { value: 'email', label: 'Email', placeholder: 'name@example.com' },
+  { value: 'number', label: 'Number', placeholder: 'Enter a number' },
+  { value: 'date', label: 'Date', placeholder: 'YYYY-MM-DD' },
+  { value: 'phone', label: 'Phone', placeholder: '+1 555 123 4567' },
+  { value: 'url', label: 'URL', placeholder: 'https://example.com' },
+];
+
+// Keeps author regexes short enough to reason about
+export const MAX_PATTERN_LENGTH = 200;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Repeats that can match an unbounded number of times: *, + and {n,}
+const UNBOUNDED_QUANTIFIER = /^(?:[*+]|\{\d+,\})/;
+// Any repeat of a group: *, +, {n}, {n,} and {n,m}
+const GROUP_QUANTIFIER = /^(?:[*+]|\{\d+(?:,\d*)?\})/;
+
+/**
+ * Check an Author Pattern
+ * ────────────────────────────────────────────────────
+ * Custom patterns run on the server against respondent answers, so
+ * patterns that can backtrack catastrophically are refused: repeated
+ * groups that contain an unbounded repeat or alternatives (e.g. (a+)+
+ * or (a|aa)*) and backreferences.
+ *
+ * @param pattern - Regular expression source, without anchors
+ * @returns Error message for the author, or null when the pattern is safe
+ */
+export function getPatternError(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Patterns can be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+  try {
+    new RegExp(pattern);
+  } catch {
+    return 'This pattern is not a valid regular expression';
+  }
+
+  // One entry per open group: does it repeat or branch inside?
+  const groups: boolean[] = [false];
+  const markRisky = () => {
+    groups[groups.length - 1] = true;
+  };
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) {
+        return 'Patterns cannot use backreferences';
+      }
+      i++;
+    } else if (char === '[') {
+      // Skip the character class; nothing inside it repeats
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const risky = groups.pop() ?? false;
+      const rest = pattern.slice(i + 1);
+      if (risky && GROUP_QUANTIFIER.test(rest)) {
+        return 'Patterns cannot repeat a group that itself repeats or has alternatives, e.g. (a+)+';
+      }
+      if (risky || UNBOUNDED_QUANTIFIER.test(rest)) markRisky();
+    } else if (char === '|' || UNBOUNDED_QUANTIFIER.test(pattern.slice(i))) {
+      markRisky();
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find an Unsafe Answer Pattern
+ * ────────────────────────────────────────────────────
+ * @param questions - Questions about to be saved
+ * @returns The first short text question whose pattern is refused by
+ *          getPatternError, or null when every pattern is safe
+ */
+export function findPatternError(
+  questions: { type: string; settings?: Json | QuestionSettings | null }[]
+): { index: number; error: string } | null {
+  for (const [index, question] of questions.entries()) {
+    const { pattern } = getInputSettings(question.settings);
+    const error = question.type === 'short_text' && pattern ? getPatternError(pattern) : null;
+    if (error) return { index, error };
+  }
+  return null;
+}
+
+/**
+ * Read Input Settings
+ * ────────────────────────────────────────────────────
+ * Unknown formats fall back to plain text and limits of the wrong
+ * kind for the format are dropped.
+ *
+ * @param settings - survey_questions.settings (or the UI equivalent)
+ * @returns Input format and its limits
+ */
+export function getInputSettings(settings: Json | QuestionSettings | null | undefined): InputSettings {
+  const input = (settings as QuestionSettings | null | undefined)?.input;
+  const format = INPUT_FORMATS.some((option) => option.value === input?.format) ? input!.format : 'text';
+
+  switch (format) {
+    case 'number':
+      return {
+        format,
+        min: Number.isFinite(input?.min) ? input?.min : undefined,
+        max: Number.isFinite(input?.max) ? input?.max : undefined,
+        integer: input?.integer === true,
+      };
+    case 'date':
+      return {
+        format,
+        minDate: input?.minDate && DATE_PATTERN.test(input.minDate) ? input.minDate : undefined,
+        maxDate: input?.maxDate && DATE_PATTERN.test(input.maxDate) ? input.maxDate : undefined,
+      };
+    case 'text':
+      return {
+        format,
+        pattern: input?.pattern && input.pattern.length <= MAX_PATTERN_LENGTH ? input.pattern : undefined,
+        patternMessage: input?.patternMessage,
+      };
+    default:
+      return { format };
+  }
+}
+
+/**
+ * Get Input Format Label
+ * ────────────────────────────────────────────────────
+ * @param settings - survey_questions.settings (or the UI equivalent)
+ * @returns Format label such as "Email" (or "Text" for plain answers)
+ */
+export function getInputFormatLabel(settings: Json | QuestionSettings | null | undefined): string {
+  const { format } = getInputSettings(settings);
+  return INPUT_FORMATS.find((option) => option.value === format)?.label ?? 'Text';
+}
+
+/**
+ * Read Randomization Settings
+ * ────────────────────────────────────────────────────
+ * keepLastOptionFixed only applies when options are shuffled.
+ *
+ * @param settings - survey_questions.settings (or the UI equivalent)
+ * @returns Pinning and option shuffle flags
+ */
+export function getRandomizationSettings(
+  settings: Json | QuestionSettings | null | undefined
+): Required<RandomizationSettings> {
+  const randomization = (settings as QuestionSettings | null | undefined)?.randomization;
+  const shuffleOptions = randomization?.shuffleOptions === true;
+
+  return {
+    pinned: randomization?.pinned === true,
+    shuffleOptions,
+    keepLastOptionFixed: shuffleOptions && randomization?.keepLastOptionFixed === true,
+  };
+}
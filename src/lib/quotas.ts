@@ -0,0 +1,109 @@
+/**
+ * Response Quotas
+ * ────────────────────────────────────────────────────
+ * Caps on how many responses a survey accepts: in total
+ * (surveys.response_limit) and per segment (surveys.quotas), e.g. at
+ * most 50 per answer to "Which plan are you on?" or per value of the
+ * campaign hidden field.
+ *
+ * Why this file exists:
+ * - The builder and the save routes must agree on which quotas are valid
+ * - The database enforces quotas in a trigger (enforce_response_quotas)
+ *   so concurrent submissions cannot overfill them; this file names the
+ *   errors it raises so POST /api/responses can report a full survey
+ * - Pure functions only (no Supabase), safe to import on the client
+ */
+
+import type { DbResponseQuota, Question, QuestionType } from '@/types/survey';
+import { isValidHiddenFieldName } from '@/lib/hiddenFields';
+
+/**
+ * Quota Limits
+ * ────────────────────────────────────────────────────
+ */
+export const MAX_QUOTAS = 10;
+
+// Questions with exactly one answer per respondent can be segmented on
+export const QUOTA_QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'yes_no'];
+
+/**
+ * Full Survey Errors
+ * ────────────────────────────────────────────────────
+ * Hints on the errors raised by enforce_response_quotas()
+ */
+export const QUOTA_FULL_HINTS = {
+  survey: 'survey_full',
+  segment: 'quota_full',
+} as const;
+
+/**
+ * Check an Error Is a Full Quota
+ * ────────────────────────────────────────────────────
+ * @param error - Error from inserting a response
+ * @returns True when the survey or the respondent's segment is full
+ */
+export function isQuotaFullError(error: { hint?: string | null } | null): boolean {
+  return error?.hint === QUOTA_FULL_HINTS.survey || error?.hint === QUOTA_FULL_HINTS.segment;
+}
+
+function isLimit(limit: unknown): limit is number {
+  return typeof limit === 'number' && Number.isInteger(limit) && limit > 0;
+}
+
+/**
+ * Normalize the Response Limit
+ * ────────────────────────────────────────────────────
+ * @param limit - Total response cap from the builder
+ * @returns Positive whole number, or null for no cap
+ */
+export function normalizeResponseLimit(limit: unknown): number | null {
+  return isLimit(limit) ? limit : null;
+}
+
+/**
+ * Normalize Stored Quotas
+ * ────────────────────────────────────────────────────
+ * Drops quotas on questions that cannot be segmented, on undeclared
+ * hidden fields, with invalid limits, or repeating an earlier quota.
+ *
+ * @param quotas - Quotas from quotasToDb
+ * @param questions - Survey questions, in position order
+ * @param hiddenFields - Declared hidden field names
+ * @returns Valid quotas, at most MAX_QUOTAS
+ */
+export function normalizeQuotas(
+  quotas: unknown,
+  questions: Pick<Question, 'type'>[],
+  hiddenFields: string[]
+): DbResponseQuota[] {
+  if (!Array.isArray(quotas)) return [];
+
+  const seen = new Set<string>();
+  const valid = quotas.filter((quota): quota is DbResponseQuota => {
+    if (!quota || typeof quota !== 'object' || !isLimit(quota.limit)) return false;
+
+    let key: string;
+    if (quota.source === 'question') {
+      const question = Number.isInteger(quota.position) ? questions[quota.position] : undefined;
+      if (!question || !QUOTA_QUESTION_TYPES.includes(question.type)) return false;
+      key = `question:${quota.position}`;
+    } else if (quota.source === 'hidden_field') {
+      if (!isValidHiddenFieldName(quota.field) || !hiddenFields.includes(quota.field)) return false;
+      key = `hidden_field:${quota.field}`;
+    } else {
+      return false;
+    }
+
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return valid
+    .map((quota) =>
+      quota.source === 'question'
+        ? { source: quota.source, position: quota.position, limit: quota.limit }
+        : { source: quota.source, field: quota.field, limit: quota.limit }
+    )
+    .slice(0, MAX_QUOTAS);
+}
@@ -0,0 +1,175 @@
+/**
+ * Randomization
+ * ────────────────────────────────────────────────────
+ * Seeded shuffles of question and option order, one per respondent.
+ *
+ * Why this file exists:
+ * - Showing everyone the same order biases answers toward the first
+ *   questions and options
+ * - The respond page and POST /api/responses must agree on what a
+ *   respondent saw; both derive it from the same seed
+ * - Pure functions only (no Supabase), safe to import on the client
+ *
+ * Rules:
+ * - Questions only move within their page
+ * - Pinned questions, questions with display logic and the questions
+ *   their conditions depend on keep their place, so a condition's source
+ *   is always shown before the question it controls
+ * - With keepLastOptionFixed the last option ("Other", "None") stays last
+ */
+
+import type { DbDisplayLogic, DbQuestion, QuestionType } from '@/types/survey';
+import { OPTION_QUESTION_TYPES } from '@/types/survey';
+import { getRandomizationSettings } from '@/lib/questionSettings';
+
+/**
+ * Create a Respondent Seed
+ * ────────────────────────────────────────────────────
+ * @returns Random seed (a UUID)
+ */
+export function createPresentationSeed(): string {
+  return crypto.randomUUID();
+}
+
+// xmur3 string hash → 32-bit state for the generator
+function hashSeed(seed: string): number {
+  let hash = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 3432918353);
+    hash = (hash << 13) | (hash >>> 19);
+  }
+  hash = Math.imul(hash ^ (hash >>> 16), 2246822507);
+  hash = Math.imul(hash ^ (hash >>> 13), 3266489909);
+  return (hash ^= hash >>> 16) >>> 0;
+}
+
+// mulberry32: small, fast and identical in every JS runtime
+function createRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Seeded Shuffle
+ * ────────────────────────────────────────────────────
+ * @param items - Items to shuffle (not modified)
+ * @param seed - Same seed, same order
+ * @returns Shuffled copy
+ */
+export function shuffleWithSeed<T>(items: T[], seed: string): T[] {
+  const random = createRandom(seed);
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Shuffle a Question's Options
+ * ────────────────────────────────────────────────────
+ * @param question - Question whose options may be shuffled
+ * @param seed - Respondent seed
+ * @returns Options in the order this respondent sees them
+ */
+export function getPresentedOptions(question: DbQuestion, seed: string): string[] {
+  const options = question.options ?? [];
+  const { shuffleOptions, keepLastOptionFixed } = getRandomizationSettings(question.settings);
+  if (!shuffleOptions || !OPTION_QUESTION_TYPES.includes(question.type as QuestionType)) {
+    return options;
+  }
+
+  const questionSeed = `${seed}:options:${question.id}`;
+  if (keepLastOptionFixed && options.length > 1) {
+    return [...shuffleWithSeed(options.slice(0, -1), questionSeed), options[options.length - 1]];
+  }
+  return shuffleWithSeed(options, questionSeed);
+}
+
+/**
+ * Order Questions for a Respondent
+ * ────────────────────────────────────────────────────
+ * Without a seed (or with nothing to shuffle) questions keep their
+ * listed order. Page breaks stay attached to page starts, so the
+ * result can go straight to splitIntoPages.
+ *
+ * @param questions - Questions in position order
+ * @param randomizeQuestions - surveys.randomize_questions
+ * @param seed - Respondent seed, or null
+ * @returns Questions in presented order, with options in presented order
+ */
+export function orderQuestionsForRespondent(
+  questions: DbQuestion[],
+  randomizeQuestions: boolean,
+  seed: string | null
+): DbQuestion[] {
+  if (!seed) return questions;
+
+  // Group into pages by the authored page breaks
+  const pages: DbQuestion[][] = [];
+  questions.forEach((question, index) => {
+    if (index === 0 || question.page_break_before) pages.push([]);
+    pages[pages.length - 1].push(question);
+  });
+
+  // Positions that display logic conditions read from
+  const conditionSources = new Set(
+    questions.flatMap((question) =>
+      ((question.display_logic as DbDisplayLogic | null)?.conditions ?? []).map((condition) => condition.position)
+    )
+  );
+
+  const isMovable = (question: DbQuestion) =>
+    randomizeQuestions &&
+    !question.display_logic &&
+    !conditionSources.has(question.position) &&
+    !getRandomizationSettings(question.settings).pinned;
+
+  const ordered = pages.flatMap((page, pageIndex) => {
+
+    // Shuffle movable questions among the movable slots
+    const shuffled = shuffleWithSeed(page.filter(isMovable), `${seed}:page:${pageIndex}`);
+    let next = 0;
+    return page.map((question, index) => ({
+      ...(isMovable(question) ? shuffled[next++] : question),
+      page_break_before: index === 0 && pageIndex > 0,
+    }));
+  });
+
+  return ordered.map((question) => ({
+    ...question,
+    options: question.options ? getPresentedOptions(question, seed) : question.options,
+  }));
+}
+
+/**
+ * Get Presented Option Orders
+ * ────────────────────────────────────────────────────
+ * @param questions - Questions in presented order (from orderQuestionsForRespondent)
+ * @param presentedIds - Questions the respondent was shown
+ * @returns Option order per shown question with shuffled options,
+ *          keyed by question ID (null when there are none)
+ */
+export function getPresentedOptionOrders(
+  questions: DbQuestion[],
+  presentedIds: number[]
+): Record<string, string[]> | null {
+  const orders: Record<string, string[]> = {};
+  questions.forEach((question) => {
+    if (
+      presentedIds.includes(question.id) &&
+      question.options?.length &&
+      OPTION_QUESTION_TYPES.includes(question.type as QuestionType) &&
+      getRandomizationSettings(question.settings).shuffleOptions
+    ) {
+      orders[question.id.toString()] = question.options;
+    }
+  });
+  return Object.keys(orders).length > 0 ? orders : null;
+}
@@ -0,0 +1,118 @@
+/**
+ * Rate Limiting
+ * ────────────────────────────────────────────────────
+ * Fixed-window request limits for the AI routes, per organization and
+ * per client IP.
+ *
+ * Why this file exists:
+ * - AI routes spend tokens on every call; without limits anyone could
+ *   burn through the provider quota
+ * - Counters live in the database (hit_ai_rate_limit), so every server
+ *   instance shares them
+ *
+ * Limits (env vars, requests per minute):
+ * - AI_RATE_LIMIT_PER_IP  (default 20)
+ * - AI_RATE_LIMIT_PER_ORG (default 60)
+ *
+ * TRUSTED_PROXY_HOPS (default 1) is the number of proxies in front of
+ * the app that append to X-Forwarded-For.
+ *
+ * ⚠️ Server-side ONLY (uses the service role client)
+ */
+
+import type { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('RateLimit');
+
+const WINDOW_SECONDS = 60;
+
+/**
+ * Rate Limit Result
+ * ────────────────────────────────────────────────────
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  retryAfterSeconds: number; // Until the current window ends
+}
+
+function readLimit(name: string, fallback: number): number {
+  const limit = Number(process.env[name]);
+  return Number.isInteger(limit) && limit > 0 ? limit : fallback;
+}
+
+/**
+ * Get the Client IP
+ * ────────────────────────────────────────────────────
+ * Each proxy appends the address it received the request from to
+ * X-Forwarded-For, so only the entries added by our own proxies can be
+ * trusted; anything to their left was sent by the client. With
+ * TRUSTED_PROXY_HOPS proxies (default 1, the hosting platform's edge)
+ * the client is that many entries from the right.
+ *
+ * @param request - Incoming API request
+ * @returns Address seen by the outermost trusted proxy, X-Real-IP, or
+ *          'unknown'
+ */
+export function getClientIp(request: NextRequest): string {
+  const hops = readLimit('TRUSTED_PROXY_HOPS', 1);
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const ip = forwarded.length > 0 ? forwarded[Math.max(forwarded.length - hops, 0)] : undefined;
+  return ip || request.headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Count a Request Against a Limit
+ * ────────────────────────────────────────────────────
+ * Fails open: when the counter cannot be updated the request goes ahead.
+ *
+ * @param bucket - Counter name, e.g. generate:ip:1.2.3.4
+ * @param limit - Requests allowed per window
+ * @returns Whether the request is allowed
+ */
+export async function checkRateLimit(bucket: string, limit: number): Promise<RateLimitResult> {
+  const retryAfterSeconds = WINDOW_SECONDS - (Math.floor(Date.now() / 1000) % WINDOW_SECONDS);
+
+  const { data: hits, error } = await supabaseAdmin.rpc('hit_ai_rate_limit', {
+    p_bucket: bucket,
+    p_window_seconds: WINDOW_SECONDS,
+  });
+
+  if (error) {
+    logger.warn('Failed to check rate limit, allowing the request', { bucket, error: error.message });
+    return { allowed: true, limit, retryAfterSeconds };
+  }
+
+  return { allowed: (hits ?? 0) <= limit, limit, retryAfterSeconds };
+}
+
+/**
+ * Check the AI Route Limits
+ * ────────────────────────────────────────────────────
+ * @param route - AI route being called
+ * @param ip - Client IP
+ * @param orgId - Organization billed for the call
+ * @returns The first limit the request exceeds, or an allowed result
+ */
+export async function checkAIRateLimits(
+  route: 'generate' | 'analyze' | 'summarize',
+  ip: string,
+  orgId: string
+): Promise<RateLimitResult> {
+  const ipResult = await checkRateLimit(`${route}:ip:${ip}`, readLimit('AI_RATE_LIMIT_PER_IP', 20));
+  if (!ipResult.allowed) {
+    logger.warn('AI rate limit exceeded for IP', { route, ip });
+    return ipResult;
+  }
+
+  const orgResult = await checkRateLimit(`${route}:org:${orgId}`, readLimit('AI_RATE_LIMIT_PER_ORG', 60));
+  if (!orgResult.allowed) {
+    logger.warn('AI rate limit exceeded for organization', { route, orgId });
+  }
+  return orgResult;
+}
@@ -0,0 +1,76 @@
+/**
+ * Response Analysis
+ * ────────────────────────────────────────────────────
+ * Runs sentiment analysis for a stored response and saves the result.
+ *
+ * Why this file exists:
+ * - The analysis queue worker (./analysisJobs) runs it for each
+ *   submitted response
+ * - POST /api/openai/analyze re-runs it on demand
+ * - Both write sentiment and summary the same way (admin client, bypasses RLS)
+ * - The source is recorded so fallback results can be re-run once the
+ *   provider is back
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { createLogger } from '@/lib/logger';
+import { analyzeSentiment, type AnalysisResult, type AnalysisSource } from '@/lib/ai';
+import { formatAnswer } from '@/lib/utils';
+import type { AnswerValue } from '@/types/survey';
+
+const logger = createLogger('ResponseAnalysis');
+
+/**
+ * Analyze and Store a Response
+ * ────────────────────────────────────────────────────
+ * @param responseId - Response row to update
+ * @param answers - Answers keyed by question ID
+ * @param orgId - Organization whose AI provider to use
+ * @returns Analysis result, its source, and whether the offline provider was used
+ * @throws When the analysis cannot be saved
+ */
+export async function analyzeAndStoreResponse(
+  responseId: string,
+  answers: Record<string, AnswerValue>,
+  orgId: string
+): Promise<{ analysis: AnalysisResult; isMock: boolean; source: AnalysisSource }> {
+  // Multi-select answers are sent as "Option A; Option B"
+  const textAnswers = Object.fromEntries(
+    Object.entries(answers).map(([questionId, value]) => [questionId, formatAnswer(value)])
+  );
+  const { analysis, isMock, source, model, error: clientError } = await analyzeSentiment(textAnswers, orgId);
+
+  if (isMock && clientError) {
+    logger.warn('Using offline analysis', { responseId, reason: clientError });
+  } else if (isMock) {
+    logger.info('Using offline analysis', { responseId });
+  } else {
+    logger.info('AI analysis completed', { responseId, sentiment: analysis.sentiment });
+  }
+
+  const analyzedAt = new Date().toISOString();
+  const { error: updateError } = await supabaseAdmin
+    .from('responses')
+    .update({
+      sentiment: analysis.sentiment,
+      summary: analysis.summary,
+      analysis_source: source,
+      analysis_model: model,
+      analyzed_at: analyzedAt,
+      updated_at: analyzedAt
+    })
+    .eq('id', responseId);
+
+  if (updateError) {
+    logger.error('Failed to update response with analysis', updateError, { responseId });
+    throw new Error('Failed to save analysis results');
+  }
+
+  logger.info('Response updated with analysis results', {
+    responseId,
+    sentiment: analysis.sentiment,
+    source
+  });
+
+  return { analysis, isMock, source };
+}
@@ -0,0 +1,95 @@
+/**
+ * Response Drafts
+ * ────────────────────────────────────────────────────
+ * In-progress answers saved as a partial response (completed = false),
+ * found again by a resume token in the "continue later" link.
+ *
+ * Why this file exists:
+ * - Long surveys should survive a closed tab
+ * - The respond page and /api/responses/draft must agree on which
+ *   questions a respondent has reached, for drop-off analytics
+ * - Pure functions only (no Supabase), safe to import on the client
+ *
+ * Only the token's hash is stored, so a leaked database row cannot be
+ * turned back into a working link.
+ */
+
+import type { DbQuestion } from '@/types/survey';
+
+/**
+ * Resume Link
+ * ────────────────────────────────────────────────────
+ */
+export const RESUME_PARAM = 'resume';
+
+/**
+ * Create a Resume Token
+ * ────────────────────────────────────────────────────
+ * @returns 43-character URL-safe random token (256 bits)
+ */
+export function createResumeToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Hash a Resume Token
+ * ────────────────────────────────────────────────────
+ * @param token - Token from the resume link
+ * @returns SHA-256 hex digest (responses.resume_token_hash)
+ */
+export async function hashResumeToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Build the Resume Link
+ * ────────────────────────────────────────────────────
+ * Keeps the respond link's other parameters, so hidden fields and
+ * piped {{name}} values still apply after resuming.
+ *
+ * @param origin - Site origin, e.g. window.location.origin
+ * @param surveyId - Survey being answered
+ * @param token - Resume token
+ * @param params - Current query string values
+ * @returns Absolute continue-later link
+ */
+export function buildResumeLink(
+  origin: string,
+  surveyId: string,
+  token: string,
+  params: Record<string, string>
+): string {
+  const search = new URLSearchParams({ ...params, [RESUME_PARAM]: token });
+  return `${origin}/mojeremiah/respond/${surveyId}?${search.toString()}`;
+}
+
+/**
+ * Get Reached Questions
+ * ────────────────────────────────────────────────────
+ * @param pages - Visible questions grouped by page (from splitIntoPages)
+ * @param pageIndex - Page the respondent is on
+ * @returns IDs of questions on that page and every earlier one, in display order
+ */
+export function getReachedQuestionIds(pages: DbQuestion[][], pageIndex: number): number[] {
+  return pages
+    .slice(0, pageIndex + 1)
+    .flat()
+    .map((question) => question.id);
+}
+
+/**
+ * Get the Resume Page
+ * ────────────────────────────────────────────────────
+ * @param pages - Visible questions grouped by page
+ * @param reachedIds - responses.presented_question_ids of the draft
+ * @returns Last page holding a reached question (0 when none)
+ */
+export function getResumePage(pages: DbQuestion[][], reachedIds: number[]): number {
+  const lastPage = pages.findLastIndex((page) => page.some((question) => reachedIds.includes(question.id)));
+  return Math.max(lastPage, 0);
+}
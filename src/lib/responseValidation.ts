@@ -0,0 +1,388 @@
+/**
+ * Response Validation
+ * ────────────────────────────────────────────────────
+ * Checks submitted answers against the survey's questions.
+ *
+ * Why this file exists:
+ * - The respond page and POST /api/responses need the same rules
+ * - Answers are keyed by survey_questions.id, so unknown IDs can be rejected
+ * - Pure functions only (no Supabase), safe to import on the client
+ */
+
+import type { AnswerValue, DbQuestion, FileAnswer } from '@/types/survey';
+import { getVisibleQuestionIds } from '@/lib/displayLogic';
+import {
+  getFileUploadSettings,
+  getInputSettings,
+  getMatrixSettings,
+  getMultiSelectSettings,
+  getPatternError,
+  getRatingSettings,
+  getRatingValues,
+} from '@/lib/questionSettings';
+import { isAnswered, isFileAnswer } from '@/lib/utils';
+
+/**
+ * Answer Limits
+ * ────────────────────────────────────────────────────
+ */
+const MAX_SHORT_TEXT_LENGTH = 500;
+const MAX_LONG_TEXT_LENGTH = 5000;
+const YES_NO_VALUES = ['Yes', 'No'];
+const NPS_MIN = 0;
+const NPS_MAX = 10;
+
+/**
+ * Input Format Rules
+ * ────────────────────────────────────────────────────
+ * Deliberately permissive: they catch typos, not every invalid address.
+ */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+const PHONE_MIN_DIGITS = 7;
+const PHONE_MAX_DIGITS = 15;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check a Calendar Date
+ * ────────────────────────────────────────────────────
+ * @param value - Date text
+ * @returns True for a real YYYY-MM-DD date (rejects e.g. 2025-02-30)
+ */
+export function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Answer Validation Result
+ * ────────────────────────────────────────────────────
+ * errors are keyed by question ID (or the unknown key that was submitted).
+ * answers holds the trimmed, non-empty answers that passed validation.
+ * presentedQuestionIds lists the questions display logic left visible.
+ */
+export interface AnswerValidationResult {
+  valid: boolean;
+  errors: Record<string, string>;
+  answers: Record<string, AnswerValue>;
+  presentedQuestionIds: number[];
+}
+
+/**
+ * Normalize an Answer
+ * ────────────────────────────────────────────────────
+ * Trims text and drops blank entries from multi-select arrays and
+ * blank rows from matrix answers.
+ *
+ * @param value - Submitted answer
+ * @returns Cleaned answer ('' when missing)
+ */
+function normalizeAnswer(value: AnswerValue | undefined): AnswerValue {
+  if (Array.isArray(value)) {
+    return value.map((entry) => entry.trim()).filter((entry) => entry !== '');
+  }
+  if (isFileAnswer(value)) {
+    return value;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .map(([row, column]) => [row, column.trim()])
+        .filter(([, column]) => column !== '')
+    );
+  }
+  return (value ?? '').trim();
+}
+
+/**
+ * Validate a Multi-Select Answer
+ * ────────────────────────────────────────────────────
+ * Entries must be listed options; when "Other" is allowed one extra
+ * free-text entry is accepted.
+ *
+ * @param question - multi_select question
+ * @param selected - Non-empty list of chosen options
+ * @returns Error message, or null when the answer is acceptable
+ */
+function validateMultiSelect(question: DbQuestion, selected: string[]): string | null {
+  const settings = getMultiSelectSettings(question.settings);
+  const options = question.options ?? [];
+
+  if (new Set(selected).size !== selected.length) {
+    return 'Each option can only be chosen once';
+  }
+
+  const otherEntries = selected.filter((entry) => !options.includes(entry));
+  if (otherEntries.length > (settings.allowOther ? 1 : 0)) {
+    return 'Please choose from the listed options';
+  }
+  if (otherEntries.some((entry) => entry.length > MAX_SHORT_TEXT_LENGTH)) {
+    return `Other answer must be less than ${MAX_SHORT_TEXT_LENGTH} characters`;
+  }
+
+  // Options deleted after the limit was set can leave it out of reach
+  const choiceCount = options.length + (settings.allowOther ? 1 : 0);
+  const minSelections =
+    settings.minSelections === undefined ? undefined : Math.min(settings.minSelections, choiceCount);
+
+  if (minSelections !== undefined && selected.length < minSelections) {
+    return `Please choose at least ${minSelections} options`;
+  }
+  if (settings.maxSelections !== undefined && selected.length > settings.maxSelections) {
+    return `Please choose no more than ${settings.maxSelections} options`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a Ranking Answer
+ * ────────────────────────────────────────────────────
+ * @param question - ranking question
+ * @param ranked - Options in the respondent's order
+ * @returns Error message, or null when every option appears exactly once
+ */
+function validateRanking(question: DbQuestion, ranked: string[]): string | null {
+  const options = question.options ?? [];
+  const isComplete =
+    ranked.length === options.length &&
+    new Set(ranked).size === ranked.length &&
+    ranked.every((entry) => options.includes(entry));
+
+  return isComplete ? null : 'Please rank every option exactly once';
+}
+
+/**
+ * Validate a File Answer
+ * ────────────────────────────────────────────────────
+ * Checks the metadata the upload endpoint returned. Upload keys are
+ * scoped to "surveyId/questionId/", so a file cannot be reused for
+ * another question; the API also confirms the file exists in storage.
+ *
+ * @param question - file_upload question
+ * @param file - Uploaded file metadata
+ * @returns Error message, or null when the file is acceptable
+ */
+function validateFileAnswer(question: DbQuestion, file: FileAnswer): string | null {
+  const settings = getFileUploadSettings(question.settings);
+
+  if (!file.key.startsWith(`${question.survey_id}/${question.id}/`)) {
+    return 'Please upload the file again';
+  }
+  if (!settings.allowedTypes.includes(file.type)) {
+    return 'This file type is not allowed';
+  }
+  if (file.size > settings.maxSizeMb * 1024 * 1024) {
+    return `File must be ${settings.maxSizeMb} MB or smaller`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a Matrix Answer
+ * ────────────────────────────────────────────────────
+ * Every key must be one of the row statements and every value one of
+ * the columns. Required matrices need an answer for every row.
+ *
+ * @param question - matrix question
+ * @param rowAnswers - Non-empty map of row statement to chosen column
+ * @returns Error message, or null when the answer is acceptable
+ */
+function validateMatrix(question: DbQuestion, rowAnswers: Record<string, string>): string | null {
+  const { rows, columns } = getMatrixSettings(question.settings);
+
+  const entries = Object.entries(rowAnswers);
+  if (entries.some(([row, column]) => !rows.includes(row) || !columns.includes(column))) {
+    return 'Please choose from the listed options for each statement';
+  }
+  if (question.required && entries.length < rows.length) {
+    return 'Please answer every statement';
+  }
+
+  return null;
+}
+
+/**
+ * Validate a Typed Input
+ * ────────────────────────────────────────────────────
+ * Applies the short_text question's format (email, number, date,
+ * phone, URL) and its limits, or its custom pattern for plain text.
+ *
+ * @param question - short_text question
+ * @param value - Non-empty, trimmed answer
+ * @returns Error message, or null when the answer is acceptable
+ */
+function validateTypedInput(question: DbQuestion, value: string): string | null {
+  const input = getInputSettings(question.settings);
+
+  switch (input.format) {
+    case 'email':
+      return EMAIL_PATTERN.test(value) ? null : 'Please enter a valid email address';
+
+    case 'phone': {
+      const digits = value.replace(/\D/g, '').length;
+      return PHONE_PATTERN.test(value) && digits >= PHONE_MIN_DIGITS && digits <= PHONE_MAX_DIGITS
+        ? null
+        : 'Please enter a valid phone number';
+    }
+
+    case 'url':
+      try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:'
+          ? null
+          : 'Please enter a web address starting with http:// or https://';
+      } catch {
+        return 'Please enter a web address starting with http:// or https://';
+      }
+
+    case 'number': {
+      if (!NUMBER_PATTERN.test(value)) return 'Please enter a number';
+      const number = Number(value);
+      if (input.integer && !Number.isInteger(number)) return 'Please enter a whole number';
+      if (input.min !== undefined && number < input.min) return `Please enter ${input.min} or more`;
+      if (input.max !== undefined && number > input.max) return `Please enter ${input.max} or less`;
+      return null;
+    }
+
+    case 'date':
+      if (!isValidDate(value)) return 'Please enter a valid date';
+      if (input.minDate && value < input.minDate) return `Please enter a date on or after ${input.minDate}`;
+      if (input.maxDate && value > input.maxDate) return `Please enter a date on or before ${input.maxDate}`;
+      return null;
+
+    default: {
+      // Patterns that could backtrack for seconds (or don't compile) are
+      // the author's mistake, not the respondent's; saving refuses them
+      if (!input.pattern || getPatternError(input.pattern)) return null;
+      try {
+        return new RegExp(`^(?:${input.pattern})$`).test(value)
+          ? null
+          : input.patternMessage || 'Please check the format of your answer';
+      } catch {
+        // An invalid pattern is the author's mistake, not the respondent's
+        return null;
+      }
+    }
+  }
+}
+
+/**
+ * Validate a Single Answer
+ * ────────────────────────────────────────────────────
+ * @param question - Question being answered
+ * @param value - Normalized answer (empty when skipped)
+ * @returns Error message, or null when the answer is acceptable
+ */
+export function validateAnswer(question: DbQuestion, value: AnswerValue): string | null {
+  if (!isAnswered(value)) {
+    return question.required ? 'This question is required' : null;
+  }
+
+  // Only multi-select and ranking answers are lists; only matrix and file answers are objects
+  if (question.type === 'multi_select') {
+    return Array.isArray(value) ? validateMultiSelect(question, value) : 'Please choose from the listed options';
+  }
+  if (question.type === 'ranking') {
+    return Array.isArray(value) ? validateRanking(question, value) : 'Please rank every option exactly once';
+  }
+  if (question.type === 'file_upload') {
+    return isFileAnswer(value) ? validateFileAnswer(question, value) : 'Please upload a file';
+  }
+  if (question.type === 'matrix') {
+    return typeof value === 'object' && !Array.isArray(value) && !isFileAnswer(value)
+      ? validateMatrix(question, value)
+      : 'Please answer each statement';
+  }
+  if (typeof value !== 'string') {
+    return 'Please give a single answer';
+  }
+
+  switch (question.type) {
+    case 'short_text':
+      return value.length > MAX_SHORT_TEXT_LENGTH
+        ? `Answer must be less than ${MAX_SHORT_TEXT_LENGTH} characters`
+        : validateTypedInput(question, value);
+
+    case 'long_text':
+      return value.length > MAX_LONG_TEXT_LENGTH
+        ? `Answer must be less than ${MAX_LONG_TEXT_LENGTH} characters`
+        : null;
+
+    case 'multiple_choice':
+      return question.options?.includes(value) ? null : 'Please choose one of the listed options';
+
+    case 'rating': {
+      const scale = getRatingSettings(question.settings);
+      return getRatingValues(scale).includes(Number(value))
+        ? null
+        : `Rating must be on the ${scale.min} to ${scale.max} scale`;
+    }
+
+    case 'nps': {
+      const score = Number(value);
+      return Number.isInteger(score) && score >= NPS_MIN && score <= NPS_MAX
+        ? null
+        : `Score must be a whole number from ${NPS_MIN} to ${NPS_MAX}`;
+    }
+
+    case 'yes_no':
+      return YES_NO_VALUES.includes(value) ? null : 'Please answer Yes or No';
+
+    default:
+      return 'Unsupported question type';
+  }
+}
+
+/**
+ * Validate Response Answers
+ * ────────────────────────────────────────────────────
+ * Validates every visible question of the survey and rejects answers
+ * for question IDs that do not belong to it. Questions hidden by display
+ * logic are not enforced and their answers are dropped.
+ *
+ * @param questions - The survey's questions
+ * @param answers - Submitted answers keyed by question ID
+ * @returns Validation result with per-question errors
+ */
+export function validateResponseAnswers(
+  questions: DbQuestion[],
+  answers: Record<string, AnswerValue>
+): AnswerValidationResult {
+  const errors: Record<string, string> = {};
+  const cleaned: Record<string, AnswerValue> = {};
+  const knownIds = new Set(questions.map((question) => question.id.toString()));
+  const visibleIds = getVisibleQuestionIds(questions, answers);
+  const presentedQuestionIds: number[] = [];
+
+  Object.keys(answers).forEach((key) => {
+    if (!knownIds.has(key)) {
+      errors[key] = 'Unknown question';
+    }
+  });
+
+  questions.forEach((question) => {
+    if (!visibleIds.has(question.id)) return;
+    presentedQuestionIds.push(question.id);
+
+    const key = question.id.toString();
+    const value = normalizeAnswer(answers[key]);
+    const error = validateAnswer(question, value);
+
+    if (error) {
+      errors[key] = error;
+    } else if (isAnswered(value)) {
+      cleaned[key] = value;
+    }
+  });
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+    answers: cleaned,
+    presentedQuestionIds,
+  };
+}
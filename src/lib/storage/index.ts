@@ -0,0 +1,94 @@
+/**
+ * File Storage
+ * ────────────────────────────────────────────────────
+ * Storage for files respondents attach to file_upload questions.
+ *
+ * Why this file exists:
+ * - Routes talk to one FileStorage interface, not a specific backend
+ * - The local-filesystem backend runs without Supabase Storage
+ *   (development, self-hosting); Supabase Storage is used in production
+ * - Keys are built and checked in one place
+ *
+ * Backend selection (FILE_STORAGE env var):
+ * - local    → files under FILE_UPLOAD_DIR (default ./.uploads)
+ * - supabase → the SUPABASE_STORAGE_BUCKET bucket (default survey-uploads)
+ *
+ * ⚠️ Server-side ONLY
+ */
+
+import { randomUUID } from 'crypto';
+import { createLocalFileStorage, type LocalFileStorage } from './localFileStorage';
+import { createSupabaseFileStorage } from './supabaseFileStorage';
+
+/**
+ * File Storage Interface
+ * ────────────────────────────────────────────────────
+ */
+export interface FileStorage {
+  name: 'local' | 'supabase';
+
+  /** Store a file under key (never overwrites) */
+  save(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /** Whether a file exists under key */
+  exists(key: string): Promise<boolean>;
+
+  /**
+   * Time-limited download link
+   * @param origin - Site origin, for backends served by our own API
+   */
+  getSignedUrl(key: string, options: { expiresIn: number; origin: string }): Promise<string>;
+}
+
+/**
+ * File Keys
+ * ────────────────────────────────────────────────────
+ * surveyId/questionId/uuid-filename
+ */
+const FILE_KEY_PATTERN = /^[0-9a-f-]{36}\/\d+\/[0-9a-f-]{36}-[\w.-]{1,100}$/;
+
+/**
+ * Build a Storage Key
+ * ────────────────────────────────────────────────────
+ * @param surveyId - Survey the file was uploaded to
+ * @param questionId - file_upload question
+ * @param fileName - Original file name (sanitized into the key)
+ * @returns Unique key for the file
+ */
+export function buildFileKey(surveyId: string, questionId: number, fileName: string): string {
+  const safeName = fileName.replace(/[^\w.-]+/g, '_').replace(/^\.+/, '').slice(-100) || 'file';
+  return `${surveyId}/${questionId}/${randomUUID()}-${safeName}`;
+}
+
+/**
+ * Validate a Storage Key
+ * ────────────────────────────────────────────────────
+ * @param key - Key from a request
+ * @returns True when the key has the shape buildFileKey produces
+ */
+export function isValidFileKey(key: string): boolean {
+  return FILE_KEY_PATTERN.test(key);
+}
+
+/**
+ * Get the Configured Storage Backend
+ * ────────────────────────────────────────────────────
+ * @returns FileStorage for the FILE_STORAGE env var (local by default)
+ */
+export function getFileStorage(): FileStorage {
+  if (process.env.FILE_STORAGE === 'supabase') {
+    return createSupabaseFileStorage(process.env.SUPABASE_STORAGE_BUCKET || 'survey-uploads');
+  }
+  return getLocalFileStorage();
+}
+
+/**
+ * Get the Local Storage Backend
+ * ────────────────────────────────────────────────────
+ * @returns Local FileStorage (also able to read files back)
+ */
+export function getLocalFileStorage(): LocalFileStorage {
+  return createLocalFileStorage(process.env.FILE_UPLOAD_DIR || '.uploads');
+}
+
+export { verifyLocalFileSignature } from './localFileStorage';
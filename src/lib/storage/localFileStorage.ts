@@ -0,0 +1,123 @@
+/**
+ * Local File Storage
+ * ────────────────────────────────────────────────────
+ * Keeps uploads on the server's filesystem.
+ *
+ * Why this file exists:
+ * - Lets file uploads work without Supabase Storage
+ * - Files are served by GET /api/files/[...key] behind an HMAC-signed,
+ *   expiring URL, mirroring Supabase signed URLs
+ *
+ * ⚠️ Server-side ONLY
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { FileStorage } from './index';
+
+// Content type is kept next to each file
+const META_SUFFIX = '.meta.json';
+
+/**
+ * Signing Secret
+ * ────────────────────────────────────────────────────
+ * FILE_URL_SECRET, falling back to the service role key so local
+ * development needs no extra setup.
+ */
+function getSigningSecret(): string {
+  const secret = process.env.FILE_URL_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret) {
+    throw new Error('Missing FILE_URL_SECRET for signing file links');
+  }
+  return secret;
+}
+
+function sign(key: string, expires: number): string {
+  return createHmac('sha256', getSigningSecret()).update(`${key}:${expires}`).digest('hex');
+}
+
+/**
+ * Verify a Signed File Link
+ * ────────────────────────────────────────────────────
+ * @param key - Storage key from the URL
+ * @param expires - Expiry (unix seconds) from the URL
+ * @param signature - Signature from the URL
+ * @returns True when the link is genuine and not expired
+ */
+export function verifyLocalFileSignature(key: string, expires: string | null, signature: string | null): boolean {
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(key, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Local File Storage Interface
+ * ────────────────────────────────────────────────────
+ * Adds read, used by GET /api/files/[...key] to serve files
+ */
+export interface LocalFileStorage extends FileStorage {
+  read(key: string): Promise<{ body: Buffer; contentType: string } | null>;
+}
+
+/**
+ * Create Local File Storage
+ * ────────────────────────────────────────────────────
+ * @param rootDir - Directory uploads are written to
+ * @returns FileStorage backed by the filesystem
+ */
+export function createLocalFileStorage(rootDir: string): LocalFileStorage {
+  const root = path.resolve(rootDir);
+
+  // Keys are validated by callers; this also guards against traversal
+  const resolve = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error('Invalid file key');
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+
+    async save(key, body, contentType) {
+      const filePath = resolve(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, body, { flag: 'wx' });
+      await fs.writeFile(filePath + META_SUFFIX, JSON.stringify({ contentType }));
+    },
+
+    async exists(key) {
+      try {
+        await fs.access(resolve(key));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async getSignedUrl(key, { expiresIn, origin }) {
+      const expires = Math.floor(Date.now() / 1000) + expiresIn;
+      const params = new URLSearchParams({ expires: String(expires), signature: sign(key, expires) });
+      return `${origin}/api/files/${key}?${params}`;
+    },
+
+    async read(key) {
+      const filePath = resolve(key);
+      try {
+        const body = await fs.readFile(filePath);
+        const meta = await fs.readFile(filePath + META_SUFFIX, 'utf8').catch(() => null);
+        const contentType = meta ? (JSON.parse(meta).contentType as string) : 'application/octet-stream';
+        return { body, contentType };
+      } catch {
+        return null;
+      }
+    },
+  };
+}
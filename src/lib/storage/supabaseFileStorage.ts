@@ -0,0 +1,45 @@
+/**
+ * Supabase File Storage
+ * ────────────────────────────────────────────────────
+ * Keeps uploads in a private Supabase Storage bucket.
+ *
+ * Why this file exists:
+ * - Production storage that scales beyond one server's disk
+ * - Downloads use Supabase's own signed URLs
+ *
+ * ⚠️ Server-side ONLY (uses the service role client)
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import type { FileStorage } from './index';
+
+/**
+ * Create Supabase File Storage
+ * ────────────────────────────────────────────────────
+ * @param bucket - Private bucket name (created by migration)
+ * @returns FileStorage backed by Supabase Storage
+ */
+export function createSupabaseFileStorage(bucket: string): FileStorage {
+  const files = () => supabaseAdmin.storage.from(bucket);
+
+  return {
+    name: 'supabase',
+
+    async save(key, body, contentType) {
+      const { error } = await files().upload(key, body, { contentType, upsert: false });
+      if (error) throw error;
+    },
+
+    async exists(key) {
+      // Missing files resolve to false; other failures throw
+      const { data } = await files().exists(key);
+      return data;
+    },
+
+    async getSignedUrl(key, { expiresIn }) {
+      const { data, error } = await files().createSignedUrl(key, expiresIn);
+      if (error) throw error;
+      return data.signedUrl;
+    },
+  };
+}
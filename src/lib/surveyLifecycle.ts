@@ -0,0 +1,215 @@
+/**
+ * Survey Lifecycle
+ * ────────────────────────────────────────────────────
+ * Status rules for surveys: draft → scheduled or open → closed → archived.
+ *
+ * Why this file exists:
+ * - The survey list, respond page and response APIs must agree on
+ *   whether a survey is accepting responses
+ * - Opening and closing times take effect without a background job:
+ *   a scheduled survey is open once opens_at passes, and an open
+ *   survey is closed once closes_at passes
+ * - public.is_survey_published() applies the same rule in RLS
+ * - Pure functions only (no Supabase), safe to import on the client
+ */
+
+import type { DbSurvey, SurveyStatus, SurveyStatusAction } from '@/types/survey';
+
+type LifecycleFields = Pick<DbSurvey, 'status' | 'opens_at' | 'closes_at'>;
+
+/**
+ * Statuses and Actions
+ * ────────────────────────────────────────────────────
+ */
+export const SURVEY_STATUSES: { value: SurveyStatus; label: string; badgeClassName: string }[] = [
+  { value: 'draft', label: 'Draft', badgeClassName: 'bg-slate-100 text-slate-700' },
+  { value: 'scheduled', label: 'Scheduled', badgeClassName: 'bg-purple-100 text-purple-700' },
+  { value: 'active', label: 'Open', badgeClassName: 'bg-green-100 text-green-700' },
+  { value: 'closed', label: 'Closed', badgeClassName: 'bg-amber-100 text-amber-700' },
+  { value: 'archived', label: 'Archived', badgeClassName: 'bg-slate-200 text-slate-500' },
+];
+
+export const SURVEY_STATUS_ACTIONS: { value: SurveyStatusAction; label: string }[] = [
+  { value: 'open', label: 'Open now' },
+  { value: 'schedule', label: 'Schedule...' },
+  { value: 'set_close_date', label: 'Set close date...' },
+  { value: 'close', label: 'Close' },
+  { value: 'archive', label: 'Archive' },
+  { value: 'unarchive', label: 'Unarchive' },
+];
+
+const ALLOWED_ACTIONS: Record<SurveyStatus, SurveyStatusAction[]> = {
+  draft: ['open', 'schedule', 'archive'],
+  scheduled: ['open', 'schedule', 'close', 'archive'],
+  active: ['set_close_date', 'close', 'archive'],
+  closed: ['open', 'schedule', 'archive'],
+  archived: ['unarchive'],
+};
+
+function isSurveyStatus(status: string): status is SurveyStatus {
+  return SURVEY_STATUSES.some((option) => option.value === status);
+}
+
+/**
+ * Get the Effective Status
+ * ────────────────────────────────────────────────────
+ * @param survey - Stored status and opening/closing times
+ * @param now - Current time
+ * @returns Status as of now (unknown values count as draft)
+ */
+export function getEffectiveStatus(survey: LifecycleFields, now: Date = new Date()): SurveyStatus {
+  const status = isSurveyStatus(survey.status) ? survey.status : 'draft';
+  if (status !== 'scheduled' && status !== 'active') return status;
+
+  if (survey.closes_at && new Date(survey.closes_at) <= now) return 'closed';
+  return !survey.opens_at || new Date(survey.opens_at) <= now ? 'active' : 'scheduled';
+}
+
+/**
+ * Check a Survey Is Accepting Responses
+ * ────────────────────────────────────────────────────
+ * @param survey - Stored status and opening/closing times
+ * @param now - Current time
+ * @returns True while the survey is open
+ */
+export function isAcceptingResponses(survey: LifecycleFields, now: Date = new Date()): boolean {
+  return getEffectiveStatus(survey, now) === 'active';
+}
+
+/**
+ * Respondent Availability
+ * ────────────────────────────────────────────────────
+ * What a respondent following the link should see
+ */
+export type SurveyAvailability = 'open' | 'scheduled' | 'closed';
+
+/**
+ * Get Respondent Availability
+ * ────────────────────────────────────────────────────
+ * @param survey - Stored status and opening/closing times
+ * @param now - Current time
+ * @returns Availability, or null for drafts (not published yet)
+ */
+export function getAvailability(survey: LifecycleFields, now: Date = new Date()): SurveyAvailability | null {
+  switch (getEffectiveStatus(survey, now)) {
+    case 'draft':
+      return null;
+    case 'active':
+      return 'open';
+    case 'scheduled':
+      return 'scheduled';
+    default:
+      return 'closed';
+  }
+}
+
+/**
+ * Get a Status Label
+ * ────────────────────────────────────────────────────
+ * @param status - Survey status
+ * @returns Label such as "Open"
+ */
+export function getStatusLabel(status: SurveyStatus): string {
+  return SURVEY_STATUSES.find((option) => option.value === status)?.label ?? 'Draft';
+}
+
+/**
+ * Get Available Actions
+ * ────────────────────────────────────────────────────
+ * @param survey - Stored status and opening/closing times
+ * @param now - Current time
+ * @returns Actions allowed from the survey's effective status
+ */
+export function getAvailableActions(survey: LifecycleFields, now: Date = new Date()): SurveyStatusAction[] {
+  return ALLOWED_ACTIONS[getEffectiveStatus(survey, now)];
+}
+
+/**
+ * Status Change
+ * ────────────────────────────────────────────────────
+ * Columns to write to surveys for a lifecycle action
+ */
+export interface SurveyStatusChange {
+  status: SurveyStatus;
+  opens_at: string | null;
+  closes_at: string | null;
+}
+
+/**
+ * Apply a Lifecycle Action
+ * ────────────────────────────────────────────────────
+ * Opening records the time it opened; closing records the time it
+ * closed. A scheduled survey closed before it opened keeps no opening time.
+ *
+ * @param survey - Stored status and opening/closing times
+ * @param action - Requested action
+ * @param times - opensAt/closesAt as ISO strings (schedule, set_close_date)
+ * @param now - Current time
+ * @returns Columns to update, or why the action is not allowed
+ */
+export function applyStatusAction(
+  survey: LifecycleFields,
+  action: SurveyStatusAction,
+  times: { opensAt?: string | null; closesAt?: string | null } = {},
+  now: Date = new Date()
+): { success: true; change: SurveyStatusChange } | { success: false; error: string } {
+  const current = getEffectiveStatus(survey, now);
+  if (!ALLOWED_ACTIONS[current].includes(action)) {
+    return {
+      success: false,
+      error: `This action is not available for ${getStatusLabel(current).toLowerCase()} surveys`,
+    };
+  }
+
+  const opensAt = times.opensAt ? new Date(times.opensAt) : null;
+  const closesAt = times.closesAt ? new Date(times.closesAt) : null;
+  if ((opensAt && Number.isNaN(opensAt.getTime())) || (closesAt && Number.isNaN(closesAt.getTime()))) {
+    return { success: false, error: 'Invalid date' };
+  }
+
+  // Closing an open survey records when; a scheduled one never opened
+  const closedTimes = {
+    opens_at: current === 'scheduled' ? null : survey.opens_at,
+    closes_at: current === 'active' || current === 'scheduled' ? now.toISOString() : survey.closes_at,
+  };
+
+  switch (action) {
+    case 'open': {
+      const keepCloseDate = survey.closes_at && new Date(survey.closes_at) > now;
+      return {
+        success: true,
+        change: { status: 'active', opens_at: now.toISOString(), closes_at: keepCloseDate ? survey.closes_at : null },
+      };
+    }
+
+    case 'schedule':
+      if (!opensAt || opensAt <= now) {
+        return { success: false, error: 'Choose an opening time in the future' };
+      }
+      if (closesAt && closesAt <= opensAt) {
+        return { success: false, error: 'The closing time must be after the opening time' };
+      }
+      return {
+        success: true,
+        change: { status: 'scheduled', opens_at: opensAt.toISOString(), closes_at: closesAt?.toISOString() ?? null },
+      };
+
+    case 'set_close_date':
+      if (closesAt && closesAt <= now) {
+        return { success: false, error: 'Choose a closing time in the future' };
+      }
+      return {
+        success: true,
+        change: { status: 'active', opens_at: survey.opens_at, closes_at: closesAt?.toISOString() ?? null },
+      };
+
+    case 'close':
+      return { success: true, change: { status: 'closed', ...closedTimes } };
+
+    case 'archive':
+      return { success: true, change: { status: 'archived', ...closedTimes } };
+
+    case 'unarchive':
+      return { success: true, change: { status: 'closed', opens_at: survey.opens_at, closes_at: survey.closes_at } };
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Survey Pages
+ * ────────────────────────────────────────────────────
+ * Splits a survey's questions into pages at page breaks.
+ *
+ * Why this file exists:
+ * - The respond page shows one page at a time with Next/Back
+ * - Display logic can hide every question on a page, and those
+ *   pages must be skipped rather than shown empty
+ */
+
+import type { DbQuestion } from '@/types/survey';
+
+/**
+ * Split Questions into Pages
+ * ────────────────────────────────────────────────────
+ * A question with page_break_before starts a new page. Pages whose
+ * questions are all hidden are dropped.
+ *
+ * @param questions - Questions in display order
+ * @param visibleIds - IDs of questions that display logic leaves visible
+ * @returns Visible questions grouped by page
+ */
+export function splitIntoPages(
+  questions: DbQuestion[],
+  visibleIds: Set<number>
+): DbQuestion[][] {
+  const pages: DbQuestion[][] = [];
+  let current: DbQuestion[] = [];
+
+  questions.forEach((question, index) => {
+    if (question.page_break_before && index > 0) {
+      pages.push(current);
+      current = [];
+    }
+    if (visibleIds.has(question.id)) {
+      current.push(question);
+    }
+  });
+  pages.push(current);
+
+  return pages.filter((page) => page.length > 0);
+}
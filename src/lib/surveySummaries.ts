@@ -0,0 +1,242 @@
+/**
+ * Survey Summaries
+ * ────────────────────────────────────────────────────
+ * Survey-wide AI summary reports: key themes, top complaints, top praise
+ * and recommended actions across a survey's responses.
+ *
+ * Why this file exists:
+ * - POST /api/surveys/summary generates a report for all versions of a
+ *   survey or one version, optionally limited to a date range
+ * - Every report is stored (survey_summaries) with what it covered, so
+ *   the analytics page can show the latest one without calling the AI
+ *   provider again
+ *
+ * Only the newest SUMMARY_MAX_RESPONSES submitted responses are sent to
+ * the provider, each cut to SUMMARY_MAX_TEXT_LENGTH characters, to keep
+ * prompts (and token spend) bounded.
+ *
+ * ⚠️ Server-side ONLY (uses the service role client)
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { createLogger } from '@/lib/logger';
+import { summarizeResponses, type AnalysisSource } from '@/lib/ai';
+import { formatAnswer } from '@/lib/utils';
+import type { Database } from '@/types/supabase';
+import type { AnswerValue } from '@/types/survey';
+
+const logger = createLogger('SurveySummaries');
+
+type Survey = Database['public']['Tables']['surveys']['Row'];
+type SurveySummaryRow = Database['public']['Tables']['survey_summaries']['Row'];
+
+const SUMMARY_MAX_RESPONSES = 200;
+const SUMMARY_MAX_TEXT_LENGTH = 500;
+
+/**
+ * Summary Report
+ * ────────────────────────────────────────────────────
+ */
+export type SummaryScope = 'all_versions' | 'version';
+
+export interface SummaryFilters {
+  scope: SummaryScope;
+  from?: string | null; // ISO timestamp, inclusive
+  to?: string | null; // ISO timestamp, inclusive
+}
+
+export interface SurveySummary {
+  id: number;
+  surveyId: string;
+  scope: SummaryScope;
+  from: string | null;
+  to: string | null;
+  responseCount: number; // Responses matching the filters
+  summary: string;
+  keyThemes: string[];
+  topComplaints: string[];
+  topPraise: string[];
+  recommendedActions: string[];
+  source: AnalysisSource;
+  model: string;
+  createdAt: string;
+}
+
+function toSurveySummary(row: SurveySummaryRow): SurveySummary {
+  return {
+    id: row.id,
+    surveyId: row.survey_id,
+    scope: row.scope as SummaryScope,
+    from: row.date_from,
+    to: row.date_to,
+    responseCount: row.response_count,
+    summary: row.summary,
+    keyThemes: row.key_themes,
+    topComplaints: row.top_complaints,
+    topPraise: row.top_praise,
+    recommendedActions: row.recommended_actions,
+    source: row.source as AnalysisSource,
+    model: row.model,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Survey IDs in Scope
+ * ────────────────────────────────────────────────────
+ * Versions of a survey are linked by parent_id; all versions means every
+ * survey in the same version tree (the root and all its descendants).
+ *
+ * @param survey - Survey the report is for
+ * @param scope - All versions or this version only
+ * @returns Survey row IDs whose responses are summarized
+ */
+async function getSurveyIdsInScope(
+  survey: Pick<Survey, 'id' | 'org_id'>,
+  scope: SummaryScope
+): Promise<string[]> {
+  if (scope === 'version') return [survey.id];
+
+  const { data, error } = await supabaseAdmin
+    .from('surveys')
+    .select('id, parent_id')
+    .eq('org_id', survey.org_id);
+
+  if (error) {
+    throw error;
+  }
+
+  const parentById = new Map((data ?? []).map((row) => [row.id, row.parent_id]));
+
+  // Walk up to the root (the seen set guards against a cycle)
+  let rootId = survey.id;
+  const seen = new Set([rootId]);
+  let parentId = parentById.get(rootId);
+  while (parentId && parentById.has(parentId) && !seen.has(parentId)) {
+    rootId = parentId;
+    seen.add(rootId);
+    parentId = parentById.get(rootId);
+  }
+
+  // Then collect every descendant of the root
+  const ids = [rootId];
+  for (let i = 0; i < ids.length; i++) {
+    for (const [id, childParentId] of parentById) {
+      if (childParentId === ids[i] && !ids.includes(id)) ids.push(id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Generate and Store a Summary
+ * ────────────────────────────────────────────────────
+ * @param survey - Survey the report is for
+ * @param filters - Versions and date range to cover
+ * @param userId - User who asked for the report
+ * @returns The stored report, and an error message when offline results
+ *          were used instead of the org's provider; null when no
+ *          responses match the filters
+ * @throws When responses cannot be loaded or the report cannot be saved
+ */
+export async function createSurveySummary(
+  survey: Pick<Survey, 'id' | 'org_id' | 'title'>,
+  filters: SummaryFilters,
+  userId: string
+): Promise<{ summary: SurveySummary; error?: string } | null> {
+  const surveyIds = await getSurveyIdsInScope(survey, filters.scope);
+
+  let query = supabaseAdmin
+    .from('responses')
+    .select('answers', { count: 'exact' })
+    .in('survey_id', surveyIds)
+    .eq('completed', true)
+    .order('created_at', { ascending: false })
+    .limit(SUMMARY_MAX_RESPONSES);
+  if (filters.from) query = query.gte('created_at', filters.from);
+  if (filters.to) query = query.lte('created_at', filters.to);
+
+  const { data: responses, count, error: responsesError } = await query;
+
+  if (responsesError) {
+    throw responsesError;
+  }
+
+  // One combined text per response, as for sentiment analysis
+  const texts = (responses ?? [])
+    .map((response) =>
+      Object.values((response.answers ?? {}) as Record<string, AnswerValue>)
+        .map((value) => formatAnswer(value))
+        .filter((answer) => answer && answer.trim().length > 0)
+        .join(' | ')
+        .slice(0, SUMMARY_MAX_TEXT_LENGTH)
+    )
+    .filter((text) => text.length > 0);
+
+  if (texts.length === 0) {
+    return null;
+  }
+
+  const { summary, source, model, error: clientError } = await summarizeResponses(
+    { title: survey.title, texts },
+    survey.org_id
+  );
+
+  const { data: row, error: insertError } = await supabaseAdmin
+    .from('survey_summaries')
+    .insert({
+      survey_id: survey.id,
+      org_id: survey.org_id,
+      scope: filters.scope,
+      date_from: filters.from ?? null,
+      date_to: filters.to ?? null,
+      response_count: count ?? texts.length,
+      summary: summary.summary,
+      key_themes: summary.keyThemes,
+      top_complaints: summary.topComplaints,
+      top_praise: summary.topPraise,
+      recommended_actions: summary.recommendedActions,
+      source,
+      model,
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (insertError || !row) {
+    logger.error('Failed to save survey summary', insertError, { surveyId: survey.id });
+    throw new Error('Failed to save survey summary');
+  }
+
+  logger.info('Survey summary generated', {
+    surveyId: survey.id,
+    scope: filters.scope,
+    responseCount: row.response_count,
+    summarized: texts.length,
+    source,
+  });
+
+  return { summary: toSurveySummary(row), ...(clientError && { error: clientError }) };
+}
+
+/**
+ * Get the Latest Summary
+ * ────────────────────────────────────────────────────
+ * @param surveyId - Survey the report is for
+ * @returns Most recent report, or null when none was generated
+ * @throws When the report cannot be loaded
+ */
+export async function getLatestSurveySummary(surveyId: string): Promise<SurveySummary | null> {
+  const { data, error } = await supabaseAdmin
+    .from('survey_summaries')
+    .select('*')
+    .eq('survey_id', surveyId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return data ? toSurveySummary(data) : null;
+}
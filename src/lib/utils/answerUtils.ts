@@ -0,0 +1,75 @@
+/**
+ * Answer Utility Functions
+ * 
+ * Helpers for reading stored answers. Most answers are strings;
+ * multi-select answers are arrays of the chosen options, matrix
+ * answers are objects mapping each row to its chosen column and
+ * file answers are objects describing the uploaded file.
+ * Used by analytics, exports and AI analysis.
+ */
+
+import type { FileAnswer } from '@/types/survey';
+
+/**
+ * Checks whether a stored answer is uploaded file metadata
+ * 
+ * @param value - Answer from responses.answers
+ * @returns True for file_upload answers
+ */
+export function isFileAnswer(value: unknown): value is FileAnswer {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const file = value as Record<string, unknown>;
+  return typeof file.key === 'string' && typeof file.name === 'string' && typeof file.size === 'number';
+}
+
+/**
+ * Checks whether a stored answer has content
+ * 
+ * @param value - Answer from responses.answers
+ * @returns False for missing, blank, empty-array or empty-object answers
+ */
+export function isAnswered(value: unknown): boolean {
+  if (value == null) return false;
+  if (typeof value === 'string') return value.trim() !== '';
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'object') return Object.keys(value).length > 0;
+  return true;
+}
+
+/**
+ * Formats a stored answer as plain text
+ * 
+ * @param value - Answer from responses.answers
+ * @returns Text for display, CSV cells and AI prompts
+ * 
+ * @example
+ * formatAnswer(['Price', 'Support']) // 'Price; Support'
+ * formatAnswer({ 'Pay is fair': 'Agree' }) // 'Pay is fair: Agree'
+ */
+export function formatAnswer(value: unknown): string {
+  if (value == null) return '';
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map((item) => formatAnswer(item)).join('; ');
+  if (isFileAnswer(value)) return value.name;
+  if (typeof value === 'object') {
+    return Object.entries(value)
+      .map(([row, column]) => `${row}: ${formatAnswer(column)}`)
+      .join('; ');
+  }
+  return String(value);
+}
+
+/**
+ * Formats a file size for display
+ * 
+ * @param bytes - Size in bytes
+ * @returns Human-readable size
+ * 
+ * @example
+ * formatFileSize(1536) // '1.5 KB'
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round((bytes / 1024) * 10) / 10} KB`;
+  return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+}
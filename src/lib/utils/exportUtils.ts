@@ -6,6 +6,9 @@
  */
 
 import { createLogger } from '@/lib/logger';
+import { formatAnswer, isFileAnswer } from './answerUtils';
+import { getMatrixSettings } from '@/lib/questionSettings';
+import { getHiddenFieldValues } from '@/lib/hiddenFields';
 
 const logger = createLogger('ExportUtils');
 
@@ -117,13 +120,20 @@ function downloadFile(content: string, filename: string, mimeType: string): void
 /**
  * Formats survey analytics data for CSV export
  * Specialized helper for survey response exports
+ * 
+ * Matrix questions are flattened into one column per row statement,
+ * headed "Question [Statement]". File answers become their download
+ * link when one is given (otherwise the file name). Each hidden field
+ * gets its own column after the sentiment.
  */
 export function formatSurveyDataForCSV(
   responses: any[],
-  questions: any[]
+  questions: any[],
+  fileLinks: Record<string, string> = {},
+  hiddenFields: string[] = []
 ): Record<string, any>[] {
   return responses.map((response) => {
-    const answers = response.answers as Record<string, string>;
+    const answers = (response.answers ?? {}) as Record<string, unknown>;
     
     const row: Record<string, any> = {
       'Response ID': response.id,
@@ -131,9 +141,31 @@ export function formatSurveyDataForCSV(
       'Sentiment': response.sentiment || 'Not Analyzed',
     };
 
+    // Add hidden field values (e.g. campaign)
+    const hiddenValues = getHiddenFieldValues(response.metadata);
+    hiddenFields.forEach((field) => {
+      row[field] = hiddenValues[field] || '';
+    });
+
     // Add question answers
     questions.forEach((question) => {
-      row[question.question] = answers[question.id.toString()] || '';
+      const answer = answers[question.id.toString()];
+
+      if (question.type === 'matrix') {
+        const rowAnswers = (answer ?? {}) as Record<string, string>;
+        getMatrixSettings(question.settings).rows.forEach((statement) => {
+          row[`${question.question} [${statement}]`] = rowAnswers[statement] || '';
+        });
+        return;
+      }
+
+      if (isFileAnswer(answer)) {
+        row[question.question] = fileLinks[answer.key] || answer.name;
+        return;
+      }
+
+      // Multi-select answers become "Option A; Option B"
+      row[question.question] = formatAnswer(answer);
     });
 
     return row;
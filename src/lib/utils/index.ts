@@ -1,4 +1,5 @@
 // Utility Functions
 export * from './dateUtils';
 export * from './exportUtils';
+export * from './answerUtils';
 
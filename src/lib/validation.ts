@@ -46,7 +46,7 @@ export type SurveyCreationInput = z.infer<typeof surveyCreationSchema>;
 export const questionSchema = z.object({
   id: z.string(),
   
-  type: z.enum(['short_text', 'long_text', 'multiple_choice', 'rating', 'yes_no'], {
+  type: z.enum(['short_text', 'long_text', 'multiple_choice', 'multi_select', 'matrix', 'ranking', 'file_upload', 'rating', 'yes_no', 'nps'], {
     message: 'Invalid question type',
   }),
   
@@ -76,6 +76,41 @@ export const questionsArraySchema = z
   .min(1, 'Survey must have at least 1 question')
   .max(50, 'Survey cannot have more than 50 questions');
 
+/**
+ * Answer Value Schema
+ * ────────────────────────────────────────────────────
+ * One answer: text, a list of options (multi-select, ranking),
+ * uploaded file metadata, or row → column for matrix
+ */
+const answerValueSchema = z.union([
+  z.string(),
+  z.array(z.string()),
+  z.object({
+    key: z.string().min(1),
+    name: z.string().min(1).max(255),
+    size: z.number().int().nonnegative(),
+    type: z.string().min(1),
+  }),
+  z.record(z.string(), z.string()),
+]);
+
+// Seed for a respondent's question and option shuffle
+const presentationSeedSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9-]{8,64}$/, 'Invalid presentation seed');
+
+// Hidden field values from the respond link; the API keeps only
+// the fields the survey declares
+const hiddenFieldValuesSchema = z.record(
+  z.string().max(40),
+  z.string().max(500, 'Hidden field value too long')
+);
+
+// Token from a continue-later link (see lib/responseDrafts)
+const resumeTokenSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{32,128}$/, 'Invalid resume token');
+
 /**
  * Response Submission Schema
  * ────────────────────────────────────────────────────
@@ -86,11 +121,18 @@ export const responseSubmissionSchema = z.object({
     .string()
     .uuid('Invalid survey ID'),
   
-  answers: z
-    .record(z.string(), z.string())
-    .refine((answers) => Object.keys(answers).length > 0, {
-      message: 'At least one answer is required',
-    }),
+  // May be empty when every question is optional; required
+  // questions are checked against survey_questions by the API.
+  // Multi-select and ranking answers are arrays of options; matrix
+  // answers map each row statement to the chosen column.
+  answers: z.record(z.string(), answerValueSchema),
+  
+  presentation_seed: presentationSeedSchema.optional(),
+  
+  metadata: hiddenFieldValuesSchema.optional(),
+  
+  // Set when the respondent saved a draft; the draft is replaced
+  resume_token: resumeTokenSchema.optional(),
   
   respondent_info: z
     .object({
@@ -103,6 +145,47 @@ export const responseSubmissionSchema = z.object({
 
 export type ResponseSubmissionInput = z.infer<typeof responseSubmissionSchema>;
 
+/**
+ * Response Draft Schema
+ * ────────────────────────────────────────────────────
+ * Validates in-progress answers saved for "continue later".
+ * Answers are not required to be complete; invalid ones are dropped.
+ */
+export const responseDraftSchema = z.object({
+  survey_id: z
+    .string()
+    .uuid('Invalid survey ID'),
+  
+  resume_token: resumeTokenSchema,
+  
+  answers: z.record(z.string(), answerValueSchema),
+  
+  // Page the respondent is on (0-based); earlier pages count as reached
+  page: z
+    .number()
+    .int()
+    .min(0, 'Invalid page'),
+  
+  presentation_seed: presentationSeedSchema.optional(),
+  
+  metadata: hiddenFieldValuesSchema.optional(),
+});
+
+export type ResponseDraftInput = z.infer<typeof responseDraftSchema>;
+
+/**
+ * Response Draft Lookup Schema
+ * ────────────────────────────────────────────────────
+ * Validates the query string of GET /api/responses/draft
+ */
+export const responseDraftLookupSchema = z.object({
+  survey_id: z
+    .string()
+    .uuid('Invalid survey ID'),
+  
+  token: resumeTokenSchema,
+});
+
 /**
  * Webhook Payload Schema
  * ────────────────────────────────────────────────────
@@ -116,6 +199,7 @@ export const webhookPayloadSchema = z.object({
     'SURVEY_DELETED',
     'SUMMARY_GENERATED',
     'SURVEY_EDITED',
+    'QUOTA_FILLED',
   ]),
   
   org_id: z
@@ -165,7 +249,8 @@ export type OpenAIGenerateInput = z.infer<typeof openAIGenerateSchema>;
 /**
  * OpenAI Analysis Schema
  * ────────────────────────────────────────────────────
- * Validates input for AI sentiment analysis
+ * Validates input for AI sentiment analysis (the answers are loaded
+ * from the stored response, never taken from the request)
  */
 export const openAIAnalysisSchema = z.object({
   responseId: z
@@ -175,12 +260,6 @@ export const openAIAnalysisSchema = z.object({
   surveyId: z
     .string()
     .uuid('Invalid survey ID'),
-  
-  answers: z
-    .record(z.string(), z.string())
-    .refine((answers) => Object.keys(answers).length > 0, {
-      message: 'Answers cannot be empty',
-    }),
 });
 
 export type OpenAIAnalysisInput = z.infer<typeof openAIAnalysisSchema>;
@@ -233,6 +312,112 @@ export const versionCreationSchema = z.object({
 
 export type VersionCreationInput = z.infer<typeof versionCreationSchema>;
 
+/**
+ * Survey Status Update Schema
+ * ────────────────────────────────────────────────────
+ * Validates lifecycle actions (open, schedule, close, archive...)
+ */
+export const surveyStatusUpdateSchema = z.object({
+  survey_id: z
+    .string()
+    .uuid('Invalid survey ID'),
+
+  action: z.enum(['open', 'schedule', 'set_close_date', 'close', 'archive', 'unarchive']),
+
+  opens_at: z
+    .string()
+    .datetime({ offset: true, message: 'Invalid opening time' })
+    .optional()
+    .nullable(),
+
+  closes_at: z
+    .string()
+    .datetime({ offset: true, message: 'Invalid closing time' })
+    .optional()
+    .nullable(),
+});
+
+export type SurveyStatusUpdateInput = z.infer<typeof surveyStatusUpdateSchema>;
+
+/**
+ * Survey Availability Schema
+ * ────────────────────────────────────────────────────
+ * Validates a respondent's check on whether a survey is open
+ */
+export const surveyAvailabilitySchema = z.object({
+  survey_id: z
+    .string()
+    .uuid('Invalid survey ID'),
+});
+
+/**
+ * File Upload Schema
+ * ────────────────────────────────────────────────────
+ * Validates the form fields sent with a respondent's file
+ */
+export const fileUploadSchema = z.object({
+  survey_id: z
+    .string()
+    .uuid('Invalid survey ID'),
+  
+  question_id: z.coerce
+    .number()
+    .int('Invalid question ID'),
+});
+
+export type FileUploadInput = z.infer<typeof fileUploadSchema>;
+
+/**
+ * File Links Schema
+ * ────────────────────────────────────────────────────
+ * Validates requests for download links to uploaded files
+ */
+export const fileLinksSchema = z.object({
+  surveyId: z
+    .string()
+    .uuid('Invalid survey ID'),
+  
+  keys: z
+    .array(z.string())
+    .max(1000, 'Too many files requested'),
+});
+
+export type FileLinksInput = z.infer<typeof fileLinksSchema>;
+
+/**
+ * Survey Summary Schema
+ * ────────────────────────────────────────────────────
+ * Validates a request for a survey-wide AI summary report
+ */
+export const surveySummarySchema = z
+  .object({
+    surveyId: z
+      .string()
+      .uuid('Invalid survey ID'),
+
+    scope: z
+      .enum(['all_versions', 'version'])
+      .default('all_versions'),
+
+    from: z
+      .string()
+      .datetime({ offset: true, message: 'Invalid start date' })
+      .optional()
+      .nullable(),
+
+    to: z
+      .string()
+      .datetime({ offset: true, message: 'Invalid end date' })
+      .optional()
+      .nullable(),
+  })
+  .refine((data) => !data.from || !data.to || new Date(data.from) <= new Date(data.to), {
+    message: 'Start date must be before end date',
+    path: ['to'],
+  });
+
+export type SurveySummaryInput = z.infer<typeof surveySummarySchema>;
+
 /**
  * Helper: Safe Parse with Logging
  * ────────────────────────────────────────────────────
@@ -56,6 +56,7 @@ export const VALID_EVENT_TYPES: readonly ActivityEventType[] = [
   'SURVEY_DELETED',
   'SUMMARY_GENERATED',
   'SURVEY_EDITED',
+  'QUOTA_FILLED',
 ] as const;
 
 /**
@@ -215,13 +216,18 @@ export function createActivityPayload(
  * ────────────────────────────────────────────────────
  * Helper to POST webhook to /api/webhook/sync endpoint
  * 
- * Use this from other API routes or server-side code to
- * log activities without directly inserting to database.
+ * Use this from code that cannot reach the database directly.
+ * The endpoint records the event against the organization of the
+ * access token's user; server code should call logActivity instead.
  * 
  * @param payload - Webhook payload
+ * @param accessToken - Supabase access token of the acting user
  * @returns Success status
  */
-export async function sendWebhookEvent(payload: WebhookPayload): Promise<boolean> {
+export async function sendWebhookEvent(
+  payload: WebhookPayload,
+  accessToken: string
+): Promise<boolean> {
   try {
     const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
     
@@ -234,6 +240,7 @@ export async function sendWebhookEvent(payload: WebhookPayload): Promise<boolean
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`,
       },
       body: JSON.stringify(payload),
     });
@@ -34,6 +34,7 @@ export interface SurveyUpdatedDetails {
   survey_title: string;
   question_count?: number;
   audience?: string;
+  status?: string; // Lifecycle status label after opening, closing, etc.
 }
 
 /**
@@ -54,6 +55,8 @@ export interface SurveyDeletedDetails {
 export interface SummaryGeneratedDetails {
   survey_title: string;
   summary_text?: string;
+  survey_id?: string;
+  response_count?: number; // Responses the summary covers
 }
 
 /**
@@ -69,6 +72,20 @@ export interface SurveyEditedDetails {
   changelog: string;
 }
 
+/**
+ * Details for QUOTA_FILLED events
+ * 
+ * Logged by the database when a response fills a survey's total limit
+ * or one of its segment quotas
+ */
+export interface QuotaFilledDetails {
+  survey_id: string;
+  survey_title: string;
+  quota_label: string; // "Total responses" or "<question or field> = <value>"
+  limit: number;
+  survey_closed: boolean; // True when the quota closed the survey
+}
+
 /**
  * Discriminated union of all activity detail types
  * 
@@ -91,7 +108,8 @@ export type ActivityDetails =
   | SurveyUpdatedDetails
   | SurveyDeletedDetails
   | SummaryGeneratedDetails
-  | SurveyEditedDetails;
+  | SurveyEditedDetails
+  | QuotaFilledDetails;
 
 /**
  * Valid activity event types
@@ -105,7 +123,8 @@ export type ActivityEventType =
   | 'SURVEY_UPDATED'
   | 'SURVEY_DELETED'
   | 'SUMMARY_GENERATED'
-  | 'SURVEY_EDITED';
+  | 'SURVEY_EDITED'
+  | 'QUOTA_FILLED';
 
 /**
  * Type guard to validate event type at runtime
@@ -119,7 +138,8 @@ export function isValidEventType(type: string): type is ActivityEventType {
     'SURVEY_UPDATED',
     'SURVEY_DELETED',
     'SUMMARY_GENERATED',
-    'SURVEY_EDITED'
+    'SURVEY_EDITED',
+    'QUOTA_FILLED'
   ];
   return validTypes.includes(type);
 }
@@ -61,40 +61,260 @@ export type Database = {
           org_id?: string
           type?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "activity_feed_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_rate_limits: {
+        Row: {
+          bucket: string
+          hits: number
+          window_start: string
+        }
+        Insert: {
+          bucket: string
+          hits?: number
+          window_start: string
+        }
+        Update: {
+          bucket?: string
+          hits?: number
+          window_start?: string
+        }
+        Relationships: []
+      }
+      ai_usage: {
+        Row: {
+          completion_tokens: number
+          created_at: string
+          id: number
+          model: string
+          operation: string
+          org_id: string
+          prompt_tokens: number
+          provider: string
+          total_tokens: number
+        }
+        Insert: {
+          completion_tokens?: number
+          created_at?: string
+          id?: number
+          model: string
+          operation: string
+          org_id: string
+          prompt_tokens?: number
+          provider: string
+          total_tokens?: number
+        }
+        Update: {
+          completion_tokens?: number
+          created_at?: string
+          id?: number
+          model?: string
+          operation?: string
+          org_id?: string
+          prompt_tokens?: number
+          provider?: string
+          total_tokens?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analysis_jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: number
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          org_id: string
+          response_id: string
+          run_after: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: number
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          org_id: string
+          response_id: string
+          run_after?: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: number
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          org_id?: string
+          response_id?: string
+          run_after?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_jobs_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "analysis_jobs_response_id_fkey"
+            columns: ["response_id"]
+            isOneToOne: true
+            referencedRelation: "responses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      org_members: {
+        Row: {
+          created_at: string
+          org_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          org_id: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          org_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "org_members_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          ai_monthly_token_budget: number | null
+          ai_settings: Json
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          ai_monthly_token_budget?: number | null
+          ai_settings?: Json
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          ai_monthly_token_budget?: number | null
+          ai_settings?: Json
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
         Relationships: []
       }
       responses: {
         Row: {
+          analysis_model: string | null
+          analysis_source: string | null
+          analyzed_at: string | null
           answers: Json
+          completed: boolean
           created_at: string
           id: string
+          metadata: Json | null
           org_id: string
+          presentation_seed: string | null
+          presented_option_orders: Json | null
+          presented_question_ids: number[] | null
+          resume_token_hash: string | null
           sentiment: string | null
           summary: string | null
           survey_id: string
           updated_at: string
         }
         Insert: {
+          analysis_model?: string | null
+          analysis_source?: string | null
+          analyzed_at?: string | null
           answers?: Json
+          completed?: boolean
           created_at?: string
           id?: string
+          metadata?: Json | null
           org_id: string
+          presentation_seed?: string | null
+          presented_option_orders?: Json | null
+          presented_question_ids?: number[] | null
+          resume_token_hash?: string | null
           sentiment?: string | null
           summary?: string | null
           survey_id: string
           updated_at?: string
         }
         Update: {
+          analysis_model?: string | null
+          analysis_source?: string | null
+          analyzed_at?: string | null
           answers?: Json
+          completed?: boolean
           created_at?: string
           id?: string
+          metadata?: Json | null
           org_id?: string
+          presentation_seed?: string | null
+          presented_option_orders?: Json | null
+          presented_question_ids?: number[] | null
+          resume_token_hash?: string | null
           sentiment?: string | null
           summary?: string | null
           survey_id?: string
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "responses_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "responses_survey_id_fkey"
             columns: ["survey_id"]
@@ -107,33 +327,42 @@ export type Database = {
       survey_questions: {
         Row: {
           created_at: string
+          display_logic: Json | null
           id: number
           options: string[] | null
+          page_break_before: boolean
           position: number
           question: string
           required: boolean
+          settings: Json | null
           survey_id: string
           type: string
           updated_at: string
         }
         Insert: {
           created_at?: string
+          display_logic?: Json | null
           id?: number
           options?: string[] | null
+          page_break_before?: boolean
           position: number
           question: string
           required?: boolean
+          settings?: Json | null
           survey_id: string
           type?: string
           updated_at?: string
         }
         Update: {
           created_at?: string
+          display_logic?: Json | null
           id?: number
           options?: string[] | null
+          page_break_before?: boolean
           position?: number
           question?: string
           required?: boolean
+          settings?: Json | null
           survey_id?: string
           type?: string
           updated_at?: string
@@ -148,16 +377,94 @@ export type Database = {
           },
         ]
       }
+      survey_summaries: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          date_from: string | null
+          date_to: string | null
+          id: number
+          key_themes: string[]
+          model: string
+          org_id: string
+          recommended_actions: string[]
+          response_count: number
+          scope: string
+          source: string
+          summary: string
+          survey_id: string
+          top_complaints: string[]
+          top_praise: string[]
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          date_from?: string | null
+          date_to?: string | null
+          id?: number
+          key_themes?: string[]
+          model: string
+          org_id: string
+          recommended_actions?: string[]
+          response_count: number
+          scope?: string
+          source: string
+          summary: string
+          survey_id: string
+          top_complaints?: string[]
+          top_praise?: string[]
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          date_from?: string | null
+          date_to?: string | null
+          id?: number
+          key_themes?: string[]
+          model?: string
+          org_id?: string
+          recommended_actions?: string[]
+          response_count?: number
+          scope?: string
+          source?: string
+          summary?: string
+          survey_id?: string
+          top_complaints?: string[]
+          top_praise?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "survey_summaries_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "survey_summaries_survey_id_fkey"
+            columns: ["survey_id"]
+            isOneToOne: false
+            referencedRelation: "surveys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       surveys: {
         Row: {
           ai_suggestions: Json | null
           audience: string | null
           changelog: string | null
+          closes_at: string | null
           created_at: string
           description: string | null
+          hidden_fields: string[]
           id: string
+          opens_at: string | null
           org_id: string
           parent_id: string | null
+          quotas: Json
+          randomize_questions: boolean
+          response_limit: number | null
           status: string
           title: string
           updated_at: string
@@ -167,11 +474,17 @@ export type Database = {
           ai_suggestions?: Json | null
           audience?: string | null
           changelog?: string | null
+          closes_at?: string | null
           created_at?: string
           description?: string | null
+          hidden_fields?: string[]
           id?: string
+          opens_at?: string | null
           org_id: string
           parent_id?: string | null
+          quotas?: Json
+          randomize_questions?: boolean
+          response_limit?: number | null
           status?: string
           title: string
           updated_at?: string
@@ -181,17 +494,30 @@ export type Database = {
           ai_suggestions?: Json | null
           audience?: string | null
           changelog?: string | null
+          closes_at?: string | null
           created_at?: string
           description?: string | null
+          hidden_fields?: string[]
           id?: string
+          opens_at?: string | null
           org_id?: string
           parent_id?: string | null
+          quotas?: Json
+          randomize_questions?: boolean
+          response_limit?: number | null
           status?: string
           title?: string
           updated_at?: string
           version?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "surveys_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "surveys_parent_id_fkey"
             columns: ["parent_id"]
@@ -203,10 +529,70 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      analysis_queue_status: {
+        Row: {
+          failed: number | null
+          oldest_queued_at: string | null
+          org_id: string | null
+          pending: number | null
+          running: number | null
+          succeeded: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_jobs_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      ai_tokens_used_this_month: {
+        Args: { p_org_id: string }
+        Returns: number
+      }
+      claim_analysis_jobs: {
+        Args: { p_limit: number; p_lock_seconds: number }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: number
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          org_id: string
+          response_id: string
+          run_after: string
+          status: string
+          updated_at: string
+        }[]
+      }
+      enqueue_analysis_jobs: {
+        Args: { p_include_fallbacks?: boolean }
+        Returns: number
+      }
+      hit_ai_rate_limit: {
+        Args: { p_bucket: string; p_window_seconds: number }
+        Returns: number
+      }
+      survey_response_stats: {
+        Args: { p_org_id: string }
+        Returns: {
+          survey_id: string
+          responses: number
+          positive: number
+          neutral: number
+          negative: number
+          mixed: number
+          last_day: number
+          last_week: number
+          last_month: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -19,17 +19,145 @@ export type QuestionType =
   | "short_text" 
   | "long_text" 
   | "multiple_choice" 
+  | "multi_select"
+  | "matrix"
+  | "ranking"
+  | "file_upload"
   | "rating" 
-  | "yes_no";
+  | "yes_no"
+  | "nps";
+
+// Types whose answers come from the question's options list
+export const OPTION_QUESTION_TYPES: QuestionType[] = ["multiple_choice", "multi_select", "ranking"];
+
+// Default wording for new NPS questions (0-10 likelihood to recommend)
+export const NPS_QUESTION_TEXT =
+  "How likely are you to recommend us to a friend or colleague?";
+
+// ─────────────────────────────────────────────
+// Display Logic (conditional questions)
+// ─────────────────────────────────────────────
+
+export type DisplayConditionOperator =
+  | "equals"
+  | "not_equals"
+  | "at_most"
+  | "at_least";
+
+// UI condition - points at an earlier question by its builder ID
+export interface DisplayCondition {
+  questionId: string;
+  operator: DisplayConditionOperator;
+  value: string;
+}
+
+export interface DisplayLogic {
+  match: "all" | "any";
+  conditions: DisplayCondition[];
+}
+
+// Stored condition - points at the source question by position, so
+// duplicated versions keep working without remapping IDs.
+// (Type aliases rather than interfaces so they are assignable to Json.)
+export type DbDisplayCondition = {
+  position: number;
+  operator: DisplayConditionOperator;
+  value: string;
+};
+
+export type DbDisplayLogic = {
+  match: "all" | "any";
+  conditions: DbDisplayCondition[];
+};
+
+// ─────────────────────────────────────────────
+// Question Settings (type-specific configuration)
+// ─────────────────────────────────────────────
+
+export type RatingStyle = "numbers" | "stars" | "emoji";
+
+export type RatingSettings = {
+  min: number;
+  max: number;
+  step: number;
+  minLabel?: string;
+  maxLabel?: string;
+  style: RatingStyle;
+};
+
+export type MultiSelectSettings = {
+  minSelections?: number;
+  maxSelections?: number;
+  allowOther?: boolean; // Adds an "Other (please specify)" free-text choice
+};
+
+// Row statements share one column scale (e.g. Strongly Disagree..Strongly Agree)
+export type MatrixSettings = {
+  rows: string[];
+  columns: string[];
+};
+
+export type FileUploadSettings = {
+  allowedTypes: string[]; // MIME types, e.g. "image/png"
+  maxSizeMb: number;
+};
+
+// Typed variants of short_text, validated by format
+export type InputFormat = "text" | "email" | "number" | "date" | "phone" | "url";
+
+export type InputSettings = {
+  format: InputFormat;
+  min?: number; // number
+  max?: number;
+  integer?: boolean;
+  minDate?: string; // date, YYYY-MM-DD
+  maxDate?: string;
+  pattern?: string; // text, regular expression the whole answer must match
+  patternMessage?: string;
+};
+
+// Order randomization (question order is shuffled per survey)
+export type RandomizationSettings = {
+  pinned?: boolean; // Keeps its place when the survey shuffles questions
+  shuffleOptions?: boolean; // Choice and ranking questions
+  keepLastOptionFixed?: boolean; // e.g. "Other" or "None of the above"
+};
+
+// Stored in survey_questions.settings, one key per feature
+export type QuestionSettings = {
+  rating?: RatingSettings;
+  multiSelect?: MultiSelectSettings;
+  matrix?: MatrixSettings;
+  file?: FileUploadSettings;
+  input?: InputSettings;
+  randomization?: RandomizationSettings;
+};
+
+// Metadata of an uploaded file; the file itself lives in storage under key
+export type FileAnswer = {
+  key: string;
+  name: string;
+  size: number; // Bytes
+  type: string; // MIME type
+};
+
+// Answer to one question: text for most types, the chosen options
+// (plus any "Other" text) for multi_select, every option in rank order
+// for ranking, the chosen column keyed by row statement for matrix,
+// and file metadata for file_upload
+export type AnswerValue = string | string[] | Record<string, string> | FileAnswer;
 
 // UI Question - used in the survey builder (before saving to DB)
 export interface Question {
   id: string; // Temporary ID for React keys (will be DB id after save)
   type: QuestionType;
   text: string; // Maps to DB 'question' field
-  options?: string[]; // For multiple choice
+  options?: string[]; // For multiple choice, multi-select and ranking
   required: boolean; // Whether this question must be answered
   position?: number; // Maps to DB 'position' field
+  displayLogic?: DisplayLogic; // Only show when these conditions hold
+  pageBreakBefore?: boolean; // Starts a new page on the respond form
+  settings?: QuestionSettings; // Type-specific configuration
 }
 
 // UI Survey Data - used in the survey builder form
@@ -37,20 +165,101 @@ export interface SurveyData {
   title: string;
   description: string; // Saved to surveys.description column
   audience: string;
+  randomizeQuestions?: boolean; // Saved to surveys.randomize_questions
+  hiddenFields?: string[]; // Saved to surveys.hidden_fields
+  responseLimit?: number | null; // Saved to surveys.response_limit
+  quotas?: ResponseQuota[]; // Saved to surveys.quotas
   questions: Question[];
 }
 
+// ─────────────────────────────────────────────
+// Response Quotas
+// ─────────────────────────────────────────────
+
+// UI quota - caps responses per answer to a single-choice question
+// (points at it by builder ID) or per hidden field value
+export type ResponseQuota =
+  | { source: "question"; questionId: string; limit: number }
+  | { source: "hidden_field"; field: string; limit: number };
+
+// Stored quota - points at the question by position, like display logic
+export type DbResponseQuota =
+  | { source: "question"; position: number; limit: number }
+  | { source: "hidden_field"; field: string; limit: number };
+
+// ─────────────────────────────────────────────
+// Survey Lifecycle
+// ─────────────────────────────────────────────
+
+// Stored in surveys.status; "active" is shown as Open
+export type SurveyStatus = "draft" | "scheduled" | "active" | "closed" | "archived";
+
+// Transitions offered by POST /api/surveys/update-status
+export type SurveyStatusAction =
+  | "open" // Accept responses now
+  | "schedule" // Open at opensAt (and optionally close at closesAt)
+  | "set_close_date" // Close an open survey automatically at closesAt
+  | "close"
+  | "archive"
+  | "unarchive";
+
 // ─────────────────────────────────────────────
 // Type Converters (UI <-> Database)
 // ─────────────────────────────────────────────
 
+/**
+ * Convert UI Display Logic to its stored form
+ * Conditions on deleted questions, or on questions that were moved
+ * after this one, are dropped.
+ */
+export function displayLogicToDb(
+  logic: DisplayLogic | undefined,
+  questions: Question[],
+  position: number
+): DbDisplayLogic | null {
+  if (!logic) return null;
+
+  const conditions = logic.conditions
+    .map((condition) => ({
+      position: questions.findIndex((q) => q.id === condition.questionId),
+      operator: condition.operator,
+      value: condition.value,
+    }))
+    .filter((condition) => condition.position !== -1 && condition.position < position);
+
+  return conditions.length > 0 ? { match: logic.match, conditions } : null;
+}
+
+/**
+ * Convert stored Display Logic back to the UI form
+ */
+export function displayLogicFromDb(
+  logic: DbQuestion["display_logic"],
+  questions: DbQuestion[]
+): DisplayLogic | undefined {
+  const stored = logic as DbDisplayLogic | null;
+  if (!stored?.conditions?.length) return undefined;
+
+  const conditions = stored.conditions
+    .map((condition) => ({
+      questionId: questions.find((q) => q.position === condition.position)?.id.toString() ?? "",
+      operator: condition.operator,
+      value: condition.value,
+    }))
+    .filter((condition) => condition.questionId !== "");
+
+  return conditions.length > 0 ? { match: stored.match, conditions } : undefined;
+}
+
 /**
  * Convert UI Question to Database Question Insert
+ * Pass the full question list so display logic can be stored by position.
  */
 export function questionToDbInsert(
   question: Question,
   surveyId: string,
-  position: number
+  position: number,
+  questions: Question[] = []
 ): DbQuestionInsert {
   return {
     survey_id: surveyId,
@@ -59,13 +268,20 @@ export function questionToDbInsert(
     options: question.options || null,
     position,
     required: question.required,
+    display_logic: displayLogicToDb(question.displayLogic, questions, position),
+    page_break_before: position > 0 && !!question.pageBreakBefore,
+    settings: question.settings ?? null,
   };
 }
 
 /**
  * Convert Database Question to UI Question
+ * Pass the survey's questions to resolve display logic sources.
  */
-export function dbQuestionToUi(dbQuestion: DbQuestion): Question {
+export function dbQuestionToUi(
+  dbQuestion: DbQuestion,
+  questions: DbQuestion[] = []
+): Question {
   return {
     id: dbQuestion.id.toString(),
     type: dbQuestion.type as QuestionType,
@@ -73,6 +289,9 @@ export function dbQuestionToUi(dbQuestion: DbQuestion): Question {
     options: dbQuestion.options || undefined,
     required: dbQuestion.required,
     position: dbQuestion.position,
+    displayLogic: displayLogicFromDb(dbQuestion.display_logic, questions),
+    pageBreakBefore: dbQuestion.page_break_before,
+    settings: (dbQuestion.settings as QuestionSettings | null) ?? undefined,
   };
 }
 
@@ -88,10 +307,49 @@ export function surveyToDbInsert(
     title: surveyData.title,
     description: surveyData.description || null,
     audience: surveyData.audience,
+    randomize_questions: !!surveyData.randomizeQuestions,
+    hidden_fields: surveyData.hiddenFields ?? [],
+    response_limit: surveyData.responseLimit ?? null,
+    quotas: quotasToDb(surveyData.quotas, surveyData.questions),
+    status: "active", // Publishing opens the survey straight away
+    opens_at: new Date().toISOString(),
     ai_suggestions: null,
   };
 }
 
+/**
+ * Convert UI Quotas to their stored form
+ * Quotas on deleted questions are dropped.
+ */
+export function quotasToDb(
+  quotas: ResponseQuota[] | undefined,
+  questions: Question[]
+): DbResponseQuota[] {
+  return (quotas ?? []).flatMap((quota): DbResponseQuota[] => {
+    if (quota.source === "hidden_field") return [quota];
+
+    const position = questions.findIndex((q) => q.id === quota.questionId);
+    return position === -1 ? [] : [{ source: "question", position, limit: quota.limit }];
+  });
+}
+
+/**
+ * Convert stored Quotas back to the UI form
+ */
+export function quotasFromDb(
+  quotas: DbSurvey["quotas"],
+  questions: DbQuestion[]
+): ResponseQuota[] {
+  if (!Array.isArray(quotas)) return [];
+
+  return (quotas as DbResponseQuota[]).flatMap((quota): ResponseQuota[] => {
+    if (quota.source === "hidden_field") return [quota];
+
+    const question = questions.find((q) => q.position === quota.position);
+    return question ? [{ source: "question", questionId: question.id.toString(), limit: quota.limit }] : [];
+  });
+}
+
 // ─────────────────────────────────────────────
 // Question Type Metadata
 // ─────────────────────────────────────────────
@@ -122,11 +380,35 @@ export const QUESTION_TYPES: QuestionTypeMetadata[] = [
     icon: "☑️",
     description: "Select from options",
   },
+  {
+    type: "multi_select",
+    label: "Checkboxes",
+    icon: "✅",
+    description: "Choose all that apply",
+  },
+  {
+    type: "matrix",
+    label: "Matrix",
+    icon: "▦",
+    description: "Rate several statements on one scale",
+  },
+  {
+    type: "ranking",
+    label: "Ranking",
+    icon: "🔢",
+    description: "Drag options into order",
+  },
+  {
+    type: "file_upload",
+    label: "File Upload",
+    icon: "📎",
+    description: "Attach a screenshot or document",
+  },
   {
     type: "rating",
     label: "Rating Scale",
     icon: "⭐",
-    description: "Rate from 1 to 5",
+    description: "Rate on a configurable scale",
   },
   {
     type: "yes_no",
@@ -134,5 +416,11 @@ export const QUESTION_TYPES: QuestionTypeMetadata[] = [
     icon: "✓✗",
     description: "Binary choice",
   },
+  {
+    type: "nps",
+    label: "NPS",
+    icon: "📣",
+    description: "Likelihood to recommend (0-10)",
+  },
 ];
 
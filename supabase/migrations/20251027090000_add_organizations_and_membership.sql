@@ -0,0 +1,154 @@
+-- =====================================================
+-- Organizations & Membership Migration
+-- =====================================================
+-- Replaces the shared NEXT_PUBLIC_DEFAULT_ORG_ID tenant with
+-- real organizations tied to Supabase Auth users:
+--   1. organizations - One row per customer workspace
+--   2. org_members - Links auth users to organizations
+--   3. Backfill - Existing org_ids become real organizations
+--   4. Foreign keys - surveys/responses/activity_feed -> organizations
+--   5. handle_new_user() - Creates a workspace on sign-up
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1. ORGANIZATIONS TABLE
+-- -----------------------------------------------------
+create table public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+
+  -- Constraints
+  constraint organizations_name_not_empty check (char_length(name) > 0)
+);
+
+comment on table public.organizations is 'Customer workspaces that own surveys, responses and activity';
+
+create trigger update_organizations_updated_at
+  before update on public.organizations
+  for each row
+  execute function public.handle_updated_at();
+
+-- -----------------------------------------------------
+-- 2. ORG_MEMBERS TABLE
+-- -----------------------------------------------------
+create table public.org_members (
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  role text not null default 'owner',
+  created_at timestamptz not null default now(),
+
+  primary key (org_id, user_id)
+);
+
+-- Index for "which orgs does this user belong to?" lookups
+create index org_members_user_id_idx on public.org_members(user_id);
+
+comment on table public.org_members is 'Supabase Auth users that belong to an organization';
+comment on column public.org_members.role is 'Member role within the organization';
+
+-- -----------------------------------------------------
+-- 3. BACKFILL EXISTING TENANTS
+-- -----------------------------------------------------
+-- The former DEFAULT_ORG_ID becomes a real organization so existing
+-- surveys keep working. Add members manually, e.g.:
+--   insert into public.org_members (org_id, user_id)
+--   values ('00000000-0000-0000-0000-000000000001', '<auth user id>');
+insert into public.organizations (id, name)
+values ('00000000-0000-0000-0000-000000000001', 'Default Organization')
+on conflict (id) do nothing;
+
+-- Any other org_id already referenced by data also needs a row
+insert into public.organizations (id, name)
+select distinct ids.org_id, 'Imported Organization'
+from (
+  select org_id from public.surveys
+  union
+  select org_id from public.responses
+  union
+  select org_id from public.activity_feed
+) as ids
+on conflict (id) do nothing;
+
+-- -----------------------------------------------------
+-- 4. FOREIGN KEYS TO ORGANIZATIONS
+-- -----------------------------------------------------
+alter table public.surveys
+  add constraint surveys_org_id_fkey
+  foreign key (org_id) references public.organizations(id) on delete cascade;
+
+alter table public.responses
+  add constraint responses_org_id_fkey
+  foreign key (org_id) references public.organizations(id) on delete cascade;
+
+alter table public.activity_feed
+  add constraint activity_feed_org_id_fkey
+  foreign key (org_id) references public.organizations(id) on delete cascade;
+
+-- -----------------------------------------------------
+-- 5. CREATE A WORKSPACE FOR NEW USERS
+-- -----------------------------------------------------
+-- Every sign-up gets its own organization (named from the
+-- org_name sign-up metadata) and becomes its owner.
+create or replace function public.handle_new_user()
+returns trigger as $$
+declare
+  new_org_id uuid;
+begin
+  insert into public.organizations (name)
+  values (
+    coalesce(
+      nullif(trim(new.raw_user_meta_data->>'org_name'), ''),
+      split_part(new.email, '@', 1) || '''s Organization'
+    )
+  )
+  returning id into new_org_id;
+
+  insert into public.org_members (org_id, user_id, role)
+  values (new_org_id, new.id, 'owner');
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+comment on function public.handle_new_user()
+  is 'Creates an organization owned by each newly registered auth user';
+
+drop trigger if exists on_auth_user_created on auth.users;
+
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row
+  execute function public.handle_new_user();
+
+-- -----------------------------------------------------
+-- ROW LEVEL SECURITY (RLS)
+-- -----------------------------------------------------
+alter table public.organizations enable row level security;
+alter table public.org_members enable row level security;
+
+-- Members can see their own memberships
+create policy "Users can read their own memberships"
+  on public.org_members
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Members can see the organizations they belong to
+create policy "Members can read their organizations"
+  on public.organizations
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.org_members m
+      where m.org_id = organizations.id
+        and m.user_id = auth.uid()
+    )
+  );
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
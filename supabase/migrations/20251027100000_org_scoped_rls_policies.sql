@@ -0,0 +1,215 @@
+-- =====================================================
+-- Org-Scoped Row Level Security
+-- =====================================================
+-- Replaces the development policies (USING (true) and the
+-- anon insert/update/delete grants added by earlier migrations)
+-- with policies that check organization membership:
+--   1. Helper functions - membership and published checks
+--   2. surveys - members manage their org, anyone reads published
+--   3. survey_questions - follow the parent survey
+--   4. responses - anyone submits to a published survey, members read
+--   5. activity_feed - members only
+--   6. log_response_received() - respondents can no longer write
+--      to activity_feed, so a trigger logs RESPONSE_RECEIVED
+--
+-- The service role (API routes) bypasses RLS as before.
+-- Tests: supabase/tests/database/org_rls.test.sql
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 0. SURVEY STATUS
+-- -----------------------------------------------------
+-- 20251026050815 is a placeholder for a change made directly on
+-- the hosted database, so a fresh database has no status column.
+-- is_survey_published() reads it; create it wherever it is missing
+-- (surveys were live as soon as they were saved).
+ALTER TABLE public.surveys
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active';
+
+-- -----------------------------------------------------
+-- 1. HELPER FUNCTIONS
+-- -----------------------------------------------------
+-- SECURITY DEFINER so policies can look up org_members and surveys
+-- without recursing into their own RLS policies.
+
+CREATE OR REPLACE FUNCTION public.is_org_member(p_org_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.org_members
+    WHERE org_id = p_org_id
+      AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.is_org_member(uuid)
+  IS 'True when the current auth user belongs to the organization';
+
+CREATE OR REPLACE FUNCTION public.survey_org_id(p_survey_id uuid)
+RETURNS uuid AS $$
+  SELECT org_id FROM public.surveys WHERE id = p_survey_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.survey_org_id(uuid)
+  IS 'Organization that owns a survey (bypasses RLS for policy checks)';
+
+CREATE OR REPLACE FUNCTION public.is_survey_published(p_survey_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.surveys
+    WHERE id = p_survey_id
+      AND status = 'active'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.is_survey_published(uuid)
+  IS 'True when a survey is live and may be read and answered by anyone';
+
+-- -----------------------------------------------------
+-- 2. SURVEYS
+-- -----------------------------------------------------
+DROP POLICY IF EXISTS "Surveys are publicly readable" ON public.surveys;
+DROP POLICY IF EXISTS "Authenticated users can create surveys" ON public.surveys;
+DROP POLICY IF EXISTS "Anyone can create surveys" ON public.surveys;
+DROP POLICY IF EXISTS "Users can update surveys in their org" ON public.surveys;
+DROP POLICY IF EXISTS "Anyone can update surveys" ON public.surveys;
+DROP POLICY IF EXISTS "Authenticated users can delete surveys" ON public.surveys;
+DROP POLICY IF EXISTS "Anyone can delete surveys" ON public.surveys;
+
+CREATE POLICY "Members can read surveys in their org"
+  ON public.surveys
+  FOR SELECT
+  TO authenticated
+  USING (public.is_org_member(org_id));
+
+-- Respondents load the survey they were linked to
+CREATE POLICY "Anyone can read published surveys"
+  ON public.surveys
+  FOR SELECT
+  TO anon, authenticated
+  USING (public.is_survey_published(id));
+
+CREATE POLICY "Members can create surveys in their org"
+  ON public.surveys
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_org_member(org_id));
+
+CREATE POLICY "Members can update surveys in their org"
+  ON public.surveys
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_org_member(org_id))
+  WITH CHECK (public.is_org_member(org_id));
+
+CREATE POLICY "Members can delete surveys in their org"
+  ON public.surveys
+  FOR DELETE
+  TO authenticated
+  USING (public.is_org_member(org_id));
+
+-- -----------------------------------------------------
+-- 3. SURVEY_QUESTIONS
+-- -----------------------------------------------------
+DROP POLICY IF EXISTS "Survey questions are publicly readable" ON public.survey_questions;
+DROP POLICY IF EXISTS "Authenticated users can manage questions" ON public.survey_questions;
+
+CREATE POLICY "Members can read questions in their org"
+  ON public.survey_questions
+  FOR SELECT
+  TO authenticated
+  USING (public.is_org_member(public.survey_org_id(survey_id)));
+
+CREATE POLICY "Anyone can read questions of published surveys"
+  ON public.survey_questions
+  FOR SELECT
+  TO anon, authenticated
+  USING (public.is_survey_published(survey_id));
+
+CREATE POLICY "Members can manage questions in their org"
+  ON public.survey_questions
+  FOR ALL
+  TO authenticated
+  USING (public.is_org_member(public.survey_org_id(survey_id)))
+  WITH CHECK (public.is_org_member(public.survey_org_id(survey_id)));
+
+-- -----------------------------------------------------
+-- 4. RESPONSES
+-- -----------------------------------------------------
+DROP POLICY IF EXISTS "Anyone can submit responses" ON public.responses;
+DROP POLICY IF EXISTS "Users can read responses in their org" ON public.responses;
+DROP POLICY IF EXISTS "Anyone can read responses" ON public.responses;
+
+-- Respondents may only answer published surveys, and the response
+-- must be filed under the organization that owns the survey
+CREATE POLICY "Anyone can respond to published surveys"
+  ON public.responses
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (
+    public.is_survey_published(survey_id)
+    AND org_id = public.survey_org_id(survey_id)
+  );
+
+CREATE POLICY "Members can read responses in their org"
+  ON public.responses
+  FOR SELECT
+  TO authenticated
+  USING (public.is_org_member(org_id));
+
+-- -----------------------------------------------------
+-- 5. ACTIVITY_FEED
+-- -----------------------------------------------------
+DROP POLICY IF EXISTS "Users can read activity feed in their org" ON public.activity_feed;
+DROP POLICY IF EXISTS "Anonymous users can read activity feed" ON public.activity_feed;
+DROP POLICY IF EXISTS "Authenticated users can create activity events" ON public.activity_feed;
+DROP POLICY IF EXISTS "Anyone can create activity events" ON public.activity_feed;
+
+CREATE POLICY "Members can read activity in their org"
+  ON public.activity_feed
+  FOR SELECT
+  TO authenticated
+  USING (public.is_org_member(org_id));
+
+CREATE POLICY "Members can create activity in their org"
+  ON public.activity_feed
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_org_member(org_id));
+
+-- -----------------------------------------------------
+-- 6. LOG RESPONSES TO ACTIVITY FEED
+-- -----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.log_response_received()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.activity_feed (org_id, type, details)
+  SELECT
+    NEW.org_id,
+    'RESPONSE_RECEIVED',
+    jsonb_build_object(
+      'survey_id', NEW.survey_id,
+      'survey_title', s.title,
+      'response_id', NEW.id
+    )
+  FROM public.surveys s
+  WHERE s.id = NEW.survey_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.log_response_received()
+  IS 'Auto-logs RESPONSE_RECEIVED to activity_feed for every new response';
+
+DROP TRIGGER IF EXISTS on_response_received ON public.responses;
+
+CREATE TRIGGER on_response_received
+  AFTER INSERT ON public.responses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_response_received();
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,93 @@
+-- =====================================================
+-- Member Roles Migration
+-- =====================================================
+-- Adds roles to org_members and limits survey writes to
+-- owners and editors:
+--   owner   - everything
+--   editor  - create, edit, version and delete surveys
+--   analyst - analytics and exports, read-only
+--   viewer  - dashboards only, read-only
+--
+-- Mirrors src/lib/permissions.ts, which the API routes use.
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1. ROLE CONSTRAINT
+-- -----------------------------------------------------
+ALTER TABLE public.org_members
+  ADD CONSTRAINT org_members_role_valid
+  CHECK (role IN ('owner', 'editor', 'analyst', 'viewer'));
+
+COMMENT ON COLUMN public.org_members.role
+  IS 'Member role: owner, editor, analyst or viewer';
+
+-- -----------------------------------------------------
+-- 2. ROLE HELPER
+-- -----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.has_org_role(p_org_id uuid, p_roles text[])
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.org_members
+    WHERE org_id = p_org_id
+      AND user_id = auth.uid()
+      AND role = ANY (p_roles)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.has_org_role(uuid, text[])
+  IS 'True when the current auth user holds one of the roles in the organization';
+
+-- -----------------------------------------------------
+-- 3. SURVEYS - WRITES FOR OWNERS AND EDITORS
+-- -----------------------------------------------------
+DROP POLICY IF EXISTS "Members can create surveys in their org" ON public.surveys;
+DROP POLICY IF EXISTS "Members can update surveys in their org" ON public.surveys;
+DROP POLICY IF EXISTS "Members can delete surveys in their org" ON public.surveys;
+
+CREATE POLICY "Editors can create surveys in their org"
+  ON public.surveys
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_org_role(org_id, ARRAY['owner', 'editor']));
+
+CREATE POLICY "Editors can update surveys in their org"
+  ON public.surveys
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_org_role(org_id, ARRAY['owner', 'editor']))
+  WITH CHECK (public.has_org_role(org_id, ARRAY['owner', 'editor']));
+
+CREATE POLICY "Editors can delete surveys in their org"
+  ON public.surveys
+  FOR DELETE
+  TO authenticated
+  USING (public.has_org_role(org_id, ARRAY['owner', 'editor']));
+
+-- -----------------------------------------------------
+-- 4. SURVEY_QUESTIONS - WRITES FOR OWNERS AND EDITORS
+-- -----------------------------------------------------
+DROP POLICY IF EXISTS "Members can manage questions in their org" ON public.survey_questions;
+
+CREATE POLICY "Editors can insert questions in their org"
+  ON public.survey_questions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_org_role(public.survey_org_id(survey_id), ARRAY['owner', 'editor']));
+
+CREATE POLICY "Editors can update questions in their org"
+  ON public.survey_questions
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_org_role(public.survey_org_id(survey_id), ARRAY['owner', 'editor']))
+  WITH CHECK (public.has_org_role(public.survey_org_id(survey_id), ARRAY['owner', 'editor']));
+
+CREATE POLICY "Editors can delete questions in their org"
+  ON public.survey_questions
+  FOR DELETE
+  TO authenticated
+  USING (public.has_org_role(public.survey_org_id(survey_id), ARRAY['owner', 'editor']));
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,20 @@
+-- =====================================================
+-- Response Presented Questions Migration
+-- =====================================================
+-- Records which questions each respondent was shown, so
+-- analytics can tell a skipped optional question apart
+-- from one the respondent never saw.
+--
+-- NULL means the response predates this column; those
+-- responses are treated as having seen every question.
+-- =====================================================
+
+ALTER TABLE public.responses
+  ADD COLUMN IF NOT EXISTS presented_question_ids INTEGER[];
+
+COMMENT ON COLUMN public.responses.presented_question_ids
+  IS 'survey_questions.id values shown to the respondent, in display order (NULL = all questions)';
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,29 @@
+-- =====================================================
+-- Question Display Logic Migration
+-- =====================================================
+-- Lets a question be shown or hidden based on answers to
+-- earlier questions, e.g. only ask "What went wrong?" when
+-- a rating is 2 or less.
+--
+-- Shape (NULL = always shown):
+--   {
+--     "match": "all" | "any",
+--     "conditions": [
+--       { "position": 0, "operator": "at_most", "value": "2" }
+--     ]
+--   }
+--
+-- Conditions point at the source question by position, so
+-- they survive create-version / restore-version duplication
+-- without remapping question IDs.
+-- =====================================================
+
+ALTER TABLE public.survey_questions
+  ADD COLUMN IF NOT EXISTS display_logic JSONB;
+
+COMMENT ON COLUMN public.survey_questions.display_logic
+  IS 'Conditions on earlier questions (by position) that decide whether this question is shown; NULL = always shown';
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,18 @@
+-- =====================================================
+-- Question Page Breaks Migration
+-- =====================================================
+-- Splits long surveys into pages. A question with
+-- page_break_before = true starts a new page on the
+-- respond form; the flag is copied with the question by
+-- create-version and restore-version.
+-- =====================================================
+
+ALTER TABLE public.survey_questions
+  ADD COLUMN IF NOT EXISTS page_break_before BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.survey_questions.page_break_before
+  IS 'When true, this question starts a new page on the respond form';
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
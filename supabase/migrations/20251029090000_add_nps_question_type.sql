@@ -0,0 +1,18 @@
+-- =====================================================
+-- NPS Question Type Migration
+-- =====================================================
+-- Adds the nps (Net Promoter Score, 0-10) question type
+-- to the survey_questions type constraint.
+
+-- Drop the old constraint
+ALTER TABLE public.survey_questions
+DROP CONSTRAINT IF EXISTS survey_questions_type_valid;
+
+-- Add the new constraint with updated types
+ALTER TABLE public.survey_questions
+ADD CONSTRAINT survey_questions_type_valid 
+CHECK (type IN ('short_text', 'long_text', 'multiple_choice', 'rating', 'yes_no', 'nps'));
+
+-- Add comment
+COMMENT ON CONSTRAINT survey_questions_type_valid ON public.survey_questions 
+IS 'Validates question types: short_text, long_text, multiple_choice, rating, yes_no, nps';
@@ -0,0 +1,25 @@
+-- =====================================================
+-- Question Settings Migration
+-- =====================================================
+-- Adds a settings column for type-specific question
+-- configuration, starting with rating scales:
+--   {
+--     "rating": {
+--       "min": 1, "max": 5, "step": 1,
+--       "minLabel": "Poor", "maxLabel": "Excellent",
+--       "style": "numbers" | "stars" | "emoji"
+--     }
+--   }
+--
+-- NULL keeps the original 1-5 numeric scale.
+-- =====================================================
+
+ALTER TABLE public.survey_questions
+  ADD COLUMN IF NOT EXISTS settings JSONB;
+
+COMMENT ON COLUMN public.survey_questions.settings
+  IS 'Type-specific configuration (e.g. rating scale range, labels and style); NULL = defaults';
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,22 @@
+-- =====================================================
+-- Multi-Select Question Type Migration
+-- =====================================================
+-- Adds the multi_select ("choose all that apply") question
+-- type. Its answers are stored in responses.answers as a
+-- JSON array of the chosen options; an "Other" free-text
+-- entry is stored as-is alongside them. Selection limits
+-- live in survey_questions.settings:
+--   { "multiSelect": { "minSelections": 1, "maxSelections": 3, "allowOther": true } }
+
+-- Drop the old constraint
+ALTER TABLE public.survey_questions
+DROP CONSTRAINT IF EXISTS survey_questions_type_valid;
+
+-- Add the new constraint with updated types
+ALTER TABLE public.survey_questions
+ADD CONSTRAINT survey_questions_type_valid 
+CHECK (type IN ('short_text', 'long_text', 'multiple_choice', 'multi_select', 'rating', 'yes_no', 'nps'));
+
+-- Add comment
+COMMENT ON CONSTRAINT survey_questions_type_valid ON public.survey_questions 
+IS 'Validates question types: short_text, long_text, multiple_choice, multi_select, rating, yes_no, nps';
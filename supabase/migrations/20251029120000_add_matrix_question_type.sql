@@ -0,0 +1,22 @@
+-- =====================================================
+-- Matrix Question Type Migration
+-- =====================================================
+-- Adds the matrix (Likert grid) question type: several row
+-- statements rated on one shared column scale. Rows and
+-- columns live in survey_questions.settings:
+--   { "matrix": { "rows": ["Pay is fair", ...], "columns": ["Strongly Disagree", ...] } }
+-- Answers are stored in responses.answers as an object
+-- mapping each row statement to the chosen column.
+
+-- Drop the old constraint
+ALTER TABLE public.survey_questions
+DROP CONSTRAINT IF EXISTS survey_questions_type_valid;
+
+-- Add the new constraint with updated types
+ALTER TABLE public.survey_questions
+ADD CONSTRAINT survey_questions_type_valid 
+CHECK (type IN ('short_text', 'long_text', 'multiple_choice', 'multi_select', 'matrix', 'rating', 'yes_no', 'nps'));
+
+-- Add comment
+COMMENT ON CONSTRAINT survey_questions_type_valid ON public.survey_questions 
+IS 'Validates question types: short_text, long_text, multiple_choice, multi_select, matrix, rating, yes_no, nps';
@@ -0,0 +1,20 @@
+-- =====================================================
+-- Ranking Question Type Migration
+-- =====================================================
+-- Adds the ranking question type: respondents drag the
+-- question's options into order. Answers are stored in
+-- responses.answers as a JSON array of every option,
+-- most important first.
+
+-- Drop the old constraint
+ALTER TABLE public.survey_questions
+DROP CONSTRAINT IF EXISTS survey_questions_type_valid;
+
+-- Add the new constraint with updated types
+ALTER TABLE public.survey_questions
+ADD CONSTRAINT survey_questions_type_valid 
+CHECK (type IN ('short_text', 'long_text', 'multiple_choice', 'multi_select', 'matrix', 'ranking', 'rating', 'yes_no', 'nps'));
+
+-- Add comment
+COMMENT ON CONSTRAINT survey_questions_type_valid ON public.survey_questions 
+IS 'Validates question types: short_text, long_text, multiple_choice, multi_select, matrix, ranking, rating, yes_no, nps';
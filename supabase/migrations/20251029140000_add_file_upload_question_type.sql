@@ -0,0 +1,46 @@
+-- =====================================================
+-- File Upload Question Type Migration
+-- =====================================================
+-- Adds the file_upload question type. Respondents attach a
+-- screenshot or document; responses.answers stores only the
+-- file's metadata:
+--   { "key": "<survey>/<question>/<uuid>-name.png", "name": "name.png",
+--     "size": 12345, "type": "image/png" }
+-- Allowed MIME types and the size limit live in
+-- survey_questions.settings:
+--   { "file": { "allowedTypes": ["image/png", ...], "maxSizeMb": 5 } }
+--
+-- Files are stored by the configured backend (FILE_STORAGE):
+-- the local filesystem, or the private bucket created below.
+
+-- =====================================================
+-- QUESTION TYPE CONSTRAINT
+-- =====================================================
+
+-- Drop the old constraint
+ALTER TABLE public.survey_questions
+DROP CONSTRAINT IF EXISTS survey_questions_type_valid;
+
+-- Add the new constraint with updated types
+ALTER TABLE public.survey_questions
+ADD CONSTRAINT survey_questions_type_valid 
+CHECK (type IN ('short_text', 'long_text', 'multiple_choice', 'multi_select', 'matrix', 'ranking', 'file_upload', 'rating', 'yes_no', 'nps'));
+
+-- Add comment
+COMMENT ON CONSTRAINT survey_questions_type_valid ON public.survey_questions 
+IS 'Validates question types: short_text, long_text, multiple_choice, multi_select, matrix, ranking, file_upload, rating, yes_no, nps';
+
+-- =====================================================
+-- STORAGE BUCKET (FILE_STORAGE=supabase)
+-- =====================================================
+-- Private: uploads and downloads go through the API with the
+-- service role key, so no storage policies are needed.
+-- 25 MB matches the largest per-question limit.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('survey-uploads', 'survey-uploads', false, 26214400)
+ON CONFLICT (id) DO NOTHING;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
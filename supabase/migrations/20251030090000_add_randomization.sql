@@ -0,0 +1,36 @@
+-- =====================================================
+-- Question and Option Randomization Migration
+-- =====================================================
+-- Lets authors shuffle question order per survey and option
+-- order per question, to reduce order bias.
+--
+-- Per-question settings live in survey_questions.settings:
+--   {
+--     "randomization": {
+--       "pinned": true,              -- keeps its place when questions shuffle
+--       "shuffleOptions": true,      -- choice and ranking questions
+--       "keepLastOptionFixed": true  -- e.g. "Other" or "None of the above"
+--     }
+--   }
+--
+-- Each respondent gets a seeded shuffle. The API recomputes the
+-- order from the seed and records what was shown:
+-- presented_question_ids (already in display order) and
+-- presented_option_orders for shuffled options.
+-- =====================================================
+
+ALTER TABLE public.surveys
+  ADD COLUMN IF NOT EXISTS randomize_questions BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.surveys.randomize_questions
+  IS 'Shuffle question order per respondent (within each page; pinned questions and questions with display logic keep their place)';
+
+ALTER TABLE public.responses
+  ADD COLUMN IF NOT EXISTS presented_option_orders JSONB;
+
+COMMENT ON COLUMN public.responses.presented_option_orders
+  IS 'Option order shown per shuffled question: { "<survey_questions.id>": ["option", ...] } (NULL = listed order)';
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
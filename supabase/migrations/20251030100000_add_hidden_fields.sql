@@ -0,0 +1,32 @@
+-- =====================================================
+-- Hidden Fields Migration
+-- =====================================================
+-- Lets authors declare hidden fields on a survey, e.g.
+-- customer_id and campaign. Values come from the respond
+-- link's query string:
+--   /mojeremiah/respond/<survey id>?customer_id=123&campaign=spring
+-- and are saved with the response:
+--   responses.metadata = { "customer_id": "123", "campaign": "spring" }
+--
+-- Only declared fields are kept; the API drops anything else.
+-- =====================================================
+
+ALTER TABLE public.surveys
+  ADD COLUMN IF NOT EXISTS hidden_fields TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.surveys.hidden_fields
+  IS 'Names of URL parameters captured into responses.metadata';
+
+ALTER TABLE public.responses
+  ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+COMMENT ON COLUMN public.responses.metadata
+  IS 'Hidden field values captured from the respond link: { "<field>": "<value>" } (NULL = none)';
+
+-- Analytics filters responses by field values
+CREATE INDEX IF NOT EXISTS responses_metadata_idx
+  ON public.responses USING GIN (metadata);
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,53 @@
+-- =====================================================
+-- Partial Responses Migration
+-- =====================================================
+-- Saves in-progress answers so respondents can close the
+-- tab and continue later, and so analytics can report
+-- where respondents stop.
+--
+-- A partial response is a responses row with
+-- completed = false. The respond page saves it as the
+-- respondent moves through pages and when they choose
+-- "continue later". It is found again by its resume token:
+--   /mojeremiah/respond/<survey id>?resume=<token>
+-- Only the token's SHA-256 hash is stored.
+--
+-- On submit the API stores a completed response and
+-- deletes the partial one, so each respondent is counted
+-- once. Counts, insights and AI analysis use completed
+-- responses only.
+-- =====================================================
+
+ALTER TABLE public.responses
+  ADD COLUMN IF NOT EXISTS completed BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS resume_token_hash TEXT,
+  ADD COLUMN IF NOT EXISTS presentation_seed TEXT;
+
+COMMENT ON COLUMN public.responses.completed
+  IS 'false for in-progress answers saved before the respondent submitted';
+
+COMMENT ON COLUMN public.responses.resume_token_hash
+  IS 'SHA-256 hex of the resume token in the continue-later link (partial responses only)';
+
+COMMENT ON COLUMN public.responses.presentation_seed
+  IS 'Shuffle seed, so a resumed response shows the same question and option order';
+
+CREATE UNIQUE INDEX IF NOT EXISTS responses_resume_token_hash_idx
+  ON public.responses(resume_token_hash)
+  WHERE resume_token_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS responses_completed_idx
+  ON public.responses(survey_id, completed);
+
+-- Partial responses are not "received" until they are submitted
+DROP TRIGGER IF EXISTS on_response_received ON public.responses;
+
+CREATE TRIGGER on_response_received
+  AFTER INSERT ON public.responses
+  FOR EACH ROW
+  WHEN (NEW.completed)
+  EXECUTE FUNCTION public.log_response_received();
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
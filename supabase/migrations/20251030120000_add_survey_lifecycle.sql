@@ -0,0 +1,85 @@
+-- =====================================================
+-- Survey Lifecycle Migration
+-- =====================================================
+-- Gives surveys explicit lifecycle states and an
+-- opening/closing window:
+--   draft     - not yet published
+--   scheduled - opens at opens_at
+--   active    - open (until closes_at, when set)
+--   closed    - no longer accepting responses
+--   archived  - closed and hidden from day-to-day lists
+--
+-- Opening and closing times take effect without a job:
+-- is_survey_published() checks the window, so a scheduled
+-- survey starts accepting responses at opens_at and an
+-- open one stops at closes_at.
+-- =====================================================
+
+-- status was first added outside the migration history (see
+-- 20251026050815), so create it wherever it is missing
+ALTER TABLE public.surveys
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'draft';
+
+-- Existing surveys with an unknown status were published
+UPDATE public.surveys
+  SET status = 'active'
+  WHERE status IS NULL
+     OR status NOT IN ('draft', 'scheduled', 'active', 'closed', 'archived');
+
+ALTER TABLE public.surveys
+  ALTER COLUMN status SET DEFAULT 'draft',
+  ALTER COLUMN status SET NOT NULL,
+  ADD COLUMN IF NOT EXISTS opens_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS closes_at TIMESTAMPTZ;
+
+UPDATE public.surveys
+  SET opens_at = created_at
+  WHERE status = 'active'
+    AND opens_at IS NULL;
+
+COMMENT ON COLUMN public.surveys.status
+  IS 'Lifecycle state: draft, scheduled, active (open), closed or archived';
+
+COMMENT ON COLUMN public.surveys.opens_at
+  IS 'When the survey opened or, while scheduled, will open';
+
+COMMENT ON COLUMN public.surveys.closes_at
+  IS 'When the survey closed or will close (NULL = open until closed by hand)';
+
+ALTER TABLE public.surveys
+  DROP CONSTRAINT IF EXISTS surveys_status_valid,
+  DROP CONSTRAINT IF EXISTS surveys_scheduled_opens_at,
+  DROP CONSTRAINT IF EXISTS surveys_window_valid;
+
+ALTER TABLE public.surveys
+  ADD CONSTRAINT surveys_status_valid
+    CHECK (status IN ('draft', 'scheduled', 'active', 'closed', 'archived')),
+  ADD CONSTRAINT surveys_scheduled_opens_at
+    CHECK (status <> 'scheduled' OR opens_at IS NOT NULL),
+  ADD CONSTRAINT surveys_window_valid
+    CHECK (opens_at IS NULL OR closes_at IS NULL OR closes_at > opens_at);
+
+CREATE INDEX IF NOT EXISTS surveys_status_idx
+  ON public.surveys(org_id, status);
+
+-- -----------------------------------------------------
+-- Published = scheduled or active, inside its window
+-- -----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.is_survey_published(p_survey_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.surveys
+    WHERE id = p_survey_id
+      AND status IN ('scheduled', 'active')
+      AND (opens_at IS NULL OR opens_at <= now())
+      AND (closes_at IS NULL OR closes_at > now())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.is_survey_published(uuid)
+  IS 'True when a survey is open right now and may be read and answered by anyone';
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,238 @@
+-- =====================================================
+-- Response Quotas Migration
+-- =====================================================
+-- Lets authors cap how many responses a survey accepts:
+--   response_limit - total submitted responses
+--   quotas         - per segment, e.g. at most 50 for each
+--                    answer to a single-choice question or
+--                    each value of a hidden field:
+--     [{"source": "question", "position": 2, "limit": 50},
+--      {"source": "hidden_field", "field": "campaign", "limit": 50}]
+--
+-- enforce_response_quotas() runs before each submitted
+-- response is stored. It locks the survey row, so concurrent
+-- submissions are counted one at a time and a quota can never
+-- be overfilled. A full survey or segment raises an error
+-- with HINT 'survey_full' or 'quota_full'.
+--
+-- close_filled_quotas() runs after each submitted response.
+-- It logs QUOTA_FILLED when a response fills a quota, and
+-- closes the survey when the total is reached or every answer
+-- to a segmented question is full.
+--
+-- Partial responses (completed = false) are neither counted
+-- nor checked.
+-- =====================================================
+
+ALTER TABLE public.surveys
+  ADD COLUMN IF NOT EXISTS response_limit INTEGER,
+  ADD COLUMN IF NOT EXISTS quotas JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.surveys
+  DROP CONSTRAINT IF EXISTS surveys_response_limit_positive,
+  DROP CONSTRAINT IF EXISTS surveys_quotas_is_array;
+
+ALTER TABLE public.surveys
+  ADD CONSTRAINT surveys_response_limit_positive
+    CHECK (response_limit IS NULL OR response_limit > 0),
+  ADD CONSTRAINT surveys_quotas_is_array
+    CHECK (jsonb_typeof(quotas) = 'array');
+
+COMMENT ON COLUMN public.surveys.response_limit
+  IS 'Close the survey after this many submitted responses (NULL = no limit)';
+
+COMMENT ON COLUMN public.surveys.quotas
+  IS 'Per-segment caps: [{source: question, position, limit} | {source: hidden_field, field, limit}]';
+
+-- -----------------------------------------------------
+-- Segment value of a response for one quota
+-- -----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.response_quota_value(
+  p_quota jsonb,
+  p_survey_id uuid,
+  p_answers jsonb,
+  p_metadata jsonb
+)
+RETURNS text AS $$
+  SELECT CASE p_quota->>'source'
+    WHEN 'hidden_field' THEN p_metadata->>(p_quota->>'field')
+    WHEN 'question' THEN p_answers->>(
+      SELECT q.id::text
+      FROM public.survey_questions q
+      WHERE q.survey_id = p_survey_id
+        AND q.position = (p_quota->>'position')::int
+    )
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.response_quota_value(jsonb, uuid, jsonb, jsonb)
+  IS 'Answer or hidden field value a response is counted under for a quota (NULL = not counted)';
+
+CREATE OR REPLACE FUNCTION public.count_quota_responses(
+  p_quota jsonb,
+  p_survey_id uuid,
+  p_value text
+)
+RETURNS integer AS $$
+  SELECT count(*)::int
+  FROM public.responses r
+  WHERE r.survey_id = p_survey_id
+    AND r.completed
+    AND public.response_quota_value(p_quota, p_survey_id, r.answers, r.metadata) = p_value;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.count_quota_responses(jsonb, uuid, text)
+  IS 'Submitted responses counted under one value of a quota';
+
+-- -----------------------------------------------------
+-- Before insert: reject responses over a quota
+-- -----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.enforce_response_quotas()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_survey public.surveys%ROWTYPE;
+  v_quota jsonb;
+  v_value text;
+BEGIN
+  -- Serializes submissions to this survey until the transaction ends
+  SELECT * INTO v_survey
+  FROM public.surveys
+  WHERE id = NEW.survey_id
+  FOR UPDATE;
+
+  IF v_survey.response_limit IS NOT NULL
+     AND (SELECT count(*) FROM public.responses
+          WHERE survey_id = NEW.survey_id AND completed) >= v_survey.response_limit THEN
+    RAISE EXCEPTION 'This survey is full'
+      USING ERRCODE = 'P0001', HINT = 'survey_full';
+  END IF;
+
+  FOR v_quota IN SELECT * FROM jsonb_array_elements(v_survey.quotas) LOOP
+    v_value := public.response_quota_value(v_quota, NEW.survey_id, NEW.answers, NEW.metadata);
+
+    IF v_value IS NOT NULL
+       AND public.count_quota_responses(v_quota, NEW.survey_id, v_value) >= (v_quota->>'limit')::int THEN
+      RAISE EXCEPTION 'This survey is full for your group'
+        USING ERRCODE = 'P0001', HINT = 'quota_full';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.enforce_response_quotas()
+  IS 'Rejects a submitted response when the survey or its segment quota is full';
+
+DROP TRIGGER IF EXISTS before_response_quota_check ON public.responses;
+
+CREATE TRIGGER before_response_quota_check
+  BEFORE INSERT ON public.responses
+  FOR EACH ROW
+  WHEN (NEW.completed)
+  EXECUTE FUNCTION public.enforce_response_quotas();
+
+-- -----------------------------------------------------
+-- After insert: log filled quotas and close full surveys
+-- -----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.close_filled_quotas()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_survey public.surveys%ROWTYPE;
+  v_quota jsonb;
+  v_value text;
+  v_limit integer;
+  v_question public.survey_questions%ROWTYPE;
+  v_options text[];
+  v_should_close boolean := false;
+  v_filled jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_survey FROM public.surveys WHERE id = NEW.survey_id;
+
+  -- Total limit
+  IF v_survey.response_limit IS NOT NULL
+     AND (SELECT count(*) FROM public.responses
+          WHERE survey_id = NEW.survey_id AND completed) >= v_survey.response_limit THEN
+    v_should_close := true;
+    v_filled := v_filled || jsonb_build_object(
+      'quota_label', 'Total responses',
+      'limit', v_survey.response_limit
+    );
+  END IF;
+
+  -- Segment quotas this response counts towards
+  FOR v_quota IN SELECT * FROM jsonb_array_elements(v_survey.quotas) LOOP
+    v_value := public.response_quota_value(v_quota, NEW.survey_id, NEW.answers, NEW.metadata);
+    v_limit := (v_quota->>'limit')::int;
+
+    CONTINUE WHEN v_value IS NULL
+      OR public.count_quota_responses(v_quota, NEW.survey_id, v_value) < v_limit;
+
+    IF v_quota->>'source' = 'question' THEN
+      SELECT * INTO v_question
+      FROM public.survey_questions
+      WHERE survey_id = NEW.survey_id
+        AND position = (v_quota->>'position')::int;
+
+      v_filled := v_filled || jsonb_build_object(
+        'quota_label', format('%s = %s', v_question.question, v_value),
+        'limit', v_limit
+      );
+
+      -- Every possible answer is full: nobody else can get in
+      v_options := CASE v_question.type
+        WHEN 'yes_no' THEN ARRAY['Yes', 'No']
+        ELSE COALESCE(v_question.options, ARRAY[]::text[])
+      END;
+
+      IF cardinality(v_options) > 0 AND NOT EXISTS (
+        SELECT 1
+        FROM unnest(v_options) AS answer(value)
+        WHERE public.count_quota_responses(v_quota, NEW.survey_id, answer.value) < v_limit
+      ) THEN
+        v_should_close := true;
+      END IF;
+    ELSE
+      v_filled := v_filled || jsonb_build_object(
+        'quota_label', format('%s = %s', v_quota->>'field', v_value),
+        'limit', v_limit
+      );
+    END IF;
+  END LOOP;
+
+  IF v_should_close AND v_survey.status IN ('scheduled', 'active') THEN
+    UPDATE public.surveys
+    SET status = 'closed',
+        closes_at = now()
+    WHERE id = NEW.survey_id;
+  END IF;
+
+  INSERT INTO public.activity_feed (org_id, type, details)
+  SELECT
+    NEW.org_id,
+    'QUOTA_FILLED',
+    filled || jsonb_build_object(
+      'survey_id', NEW.survey_id,
+      'survey_title', v_survey.title,
+      'survey_closed', v_should_close
+    )
+  FROM jsonb_array_elements(v_filled) AS filled;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.close_filled_quotas()
+  IS 'Logs QUOTA_FILLED and closes the survey once a response fills its quotas';
+
+DROP TRIGGER IF EXISTS after_response_quota_check ON public.responses;
+
+CREATE TRIGGER after_response_quota_check
+  AFTER INSERT ON public.responses
+  FOR EACH ROW
+  WHEN (NEW.completed)
+  EXECUTE FUNCTION public.close_filled_quotas();
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
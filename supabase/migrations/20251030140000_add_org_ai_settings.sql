@@ -0,0 +1,36 @@
+-- =====================================================
+-- Organization AI Settings Migration
+-- =====================================================
+-- Lets each organization choose the AI provider used for
+-- question suggestions, sentiment analysis and summaries:
+--   { "provider": "azure_openai", "model": "survey-gpt4o" }
+--
+-- provider: openai | azure_openai | openai_compatible | offline
+-- model:    optional; overrides the server default model
+--           (the deployment name on Azure OpenAI)
+--
+-- Endpoints and API keys are server environment variables,
+-- never stored here. An empty object uses the server default.
+-- =====================================================
+
+ALTER TABLE public.organizations
+  ADD COLUMN IF NOT EXISTS ai_settings JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.organizations
+  DROP CONSTRAINT IF EXISTS organizations_ai_provider_valid;
+
+ALTER TABLE public.organizations
+  ADD CONSTRAINT organizations_ai_provider_valid CHECK (
+    jsonb_typeof(ai_settings) = 'object'
+    AND (
+      NOT ai_settings ? 'provider'
+      OR ai_settings->>'provider' IN ('openai', 'azure_openai', 'openai_compatible', 'offline')
+    )
+  );
+
+COMMENT ON COLUMN public.organizations.ai_settings
+  IS 'AI provider for the org: { provider?: openai | azure_openai | openai_compatible | offline, model?: string }';
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,42 @@
+-- =====================================================
+-- Analysis Source Migration
+-- =====================================================
+-- Records where each response's sentiment and summary came
+-- from, so fallback results can be found and re-run:
+--   ai       - the organization's AI provider
+--   fallback - offline analysis used because the provider
+--              failed (re-run with npm run db:reanalyze -- --fallbacks)
+--   offline  - the organization uses the offline provider
+--
+-- Responses analyzed before this migration keep a NULL source.
+-- =====================================================
+
+ALTER TABLE public.responses
+  ADD COLUMN IF NOT EXISTS analysis_source TEXT,
+  ADD COLUMN IF NOT EXISTS analysis_model TEXT,
+  ADD COLUMN IF NOT EXISTS analyzed_at TIMESTAMPTZ;
+
+ALTER TABLE public.responses
+  DROP CONSTRAINT IF EXISTS responses_analysis_source_valid;
+
+ALTER TABLE public.responses
+  ADD CONSTRAINT responses_analysis_source_valid
+    CHECK (analysis_source IS NULL OR analysis_source IN ('ai', 'fallback', 'offline'));
+
+COMMENT ON COLUMN public.responses.analysis_source
+  IS 'Where sentiment and summary came from: ai, fallback (provider failed) or offline (NULL = unknown or not analyzed)';
+
+COMMENT ON COLUMN public.responses.analysis_model
+  IS 'Provider and model that produced the analysis, e.g. openai/gpt-4o-mini';
+
+COMMENT ON COLUMN public.responses.analyzed_at
+  IS 'When sentiment and summary were last written';
+
+-- The re-analysis script looks up fallback results
+CREATE INDEX IF NOT EXISTS responses_analysis_fallback_idx
+  ON public.responses (created_at)
+  WHERE analysis_source = 'fallback';
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
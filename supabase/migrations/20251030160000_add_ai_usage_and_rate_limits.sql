@@ -0,0 +1,133 @@
+-- =====================================================
+-- AI Usage and Rate Limits Migration
+-- =====================================================
+-- Keeps AI spend under control:
+--   1. ai_usage - tokens used by every AI completion, per org
+--   2. organizations.ai_monthly_token_budget - monthly cap
+--      (NULL = the server default, AI_MONTHLY_TOKEN_BUDGET)
+--   3. ai_tokens_used_this_month() - usage against the cap
+--   4. ai_rate_limits + hit_ai_rate_limit() - fixed-window
+--      request counters for the AI routes, per org and per IP
+--
+-- Usage is written by the API (service role); members can
+-- read their org's usage. Rate limit counters are only
+-- reachable through the service role.
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1. AI USAGE
+-- -----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.ai_usage (
+  id BIGSERIAL PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  operation TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT ai_usage_operation_valid
+    CHECK (operation IN ('generate_questions', 'analyze_sentiment', 'summarize')),
+  CONSTRAINT ai_usage_tokens_not_negative
+    CHECK (prompt_tokens >= 0 AND completion_tokens >= 0 AND total_tokens >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS ai_usage_org_created_idx
+  ON public.ai_usage (org_id, created_at);
+
+COMMENT ON TABLE public.ai_usage
+  IS 'Tokens used by each AI completion, for budgets and the dashboard';
+
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read AI usage in their org" ON public.ai_usage;
+
+CREATE POLICY "Members can read AI usage in their org"
+  ON public.ai_usage
+  FOR SELECT
+  TO authenticated
+  USING (public.is_org_member(org_id));
+
+-- -----------------------------------------------------
+-- 2. MONTHLY BUDGET
+-- -----------------------------------------------------
+ALTER TABLE public.organizations
+  ADD COLUMN IF NOT EXISTS ai_monthly_token_budget BIGINT;
+
+ALTER TABLE public.organizations
+  DROP CONSTRAINT IF EXISTS organizations_ai_budget_positive;
+
+ALTER TABLE public.organizations
+  ADD CONSTRAINT organizations_ai_budget_positive
+    CHECK (ai_monthly_token_budget IS NULL OR ai_monthly_token_budget > 0);
+
+COMMENT ON COLUMN public.organizations.ai_monthly_token_budget
+  IS 'AI tokens the org may use per calendar month (UTC); NULL = server default';
+
+-- -----------------------------------------------------
+-- 3. USAGE THIS MONTH
+-- -----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.ai_tokens_used_this_month(p_org_id uuid)
+RETURNS bigint AS $$
+  SELECT COALESCE(sum(total_tokens), 0)::bigint
+  FROM public.ai_usage
+  WHERE org_id = p_org_id
+    AND created_at >= date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+COMMENT ON FUNCTION public.ai_tokens_used_this_month(uuid)
+  IS 'AI tokens used by an org since the start of the month (UTC); RLS applies';
+
+-- -----------------------------------------------------
+-- 4. RATE LIMITS
+-- -----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.ai_rate_limits (
+  bucket TEXT NOT NULL,
+  window_start TIMESTAMPTZ NOT NULL,
+  hits INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (bucket, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS ai_rate_limits_window_idx
+  ON public.ai_rate_limits (window_start);
+
+COMMENT ON TABLE public.ai_rate_limits
+  IS 'Request counters for the AI routes, e.g. bucket generate:org:<id> per minute';
+
+-- No policies: only the service role reads and writes counters
+ALTER TABLE public.ai_rate_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.hit_ai_rate_limit(p_bucket text, p_window_seconds integer)
+RETURNS integer AS $$
+DECLARE
+  v_window_start timestamptz;
+  v_hits integer;
+BEGIN
+  v_window_start := to_timestamp(
+    floor(extract(epoch FROM now()) / p_window_seconds) * p_window_seconds
+  );
+
+  INSERT INTO public.ai_rate_limits (bucket, window_start, hits)
+  VALUES (p_bucket, v_window_start, 1)
+  ON CONFLICT (bucket, window_start)
+  DO UPDATE SET hits = public.ai_rate_limits.hits + 1
+  RETURNING hits INTO v_hits;
+
+  -- Expired windows are no longer needed
+  DELETE FROM public.ai_rate_limits
+  WHERE window_start < now() - interval '1 day';
+
+  RETURN v_hits;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.hit_ai_rate_limit(text, integer)
+  IS 'Counts a request in the current window of a bucket and returns the hits so far';
+
+REVOKE ALL ON FUNCTION public.hit_ai_rate_limit(text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hit_ai_rate_limit(text, integer) TO service_role;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,193 @@
+-- =====================================================
+-- Analysis Jobs Migration
+-- =====================================================
+-- Moves sentiment analysis onto a durable queue:
+--   1. analysis_jobs - one job per response, enqueued by a
+--      trigger in the same transaction as the response, so a
+--      closed tab or a crashed server can't lose it
+--   2. claim_analysis_jobs() - hands pending jobs to a worker
+--      (FOR UPDATE SKIP LOCKED, so workers never share a job)
+--      and reclaims jobs whose worker died
+--   3. enqueue_analysis_jobs() - re-queues unanalyzed (and
+--      optionally fallback) responses
+--   4. analysis_queue_status - queue depth per org
+--
+-- The worker (src/lib/analysisJobs.ts) retries failed jobs
+-- with backoff until max_attempts, then marks them failed.
+-- Members can read their org's jobs; only the service role
+-- claims and updates them.
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1. ANALYSIS JOBS
+-- -----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.analysis_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  response_id UUID NOT NULL UNIQUE REFERENCES public.responses(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_after TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT analysis_jobs_status_valid
+    CHECK (status IN ('pending', 'running', 'succeeded', 'failed')),
+  CONSTRAINT analysis_jobs_attempts_valid
+    CHECK (attempts >= 0 AND max_attempts > 0)
+);
+
+-- Claiming scans pending and running jobs only
+CREATE INDEX IF NOT EXISTS analysis_jobs_claim_idx
+  ON public.analysis_jobs (run_after)
+  WHERE status IN ('pending', 'running');
+
+CREATE INDEX IF NOT EXISTS analysis_jobs_org_status_idx
+  ON public.analysis_jobs (org_id, status);
+
+COMMENT ON TABLE public.analysis_jobs
+  IS 'Sentiment analysis queue: one job per response, retried with backoff';
+COMMENT ON COLUMN public.analysis_jobs.run_after
+  IS 'Earliest time the job may be claimed (pushed back after each failure)';
+COMMENT ON COLUMN public.analysis_jobs.locked_at
+  IS 'When a worker claimed the job; stale locks are reclaimed';
+
+ALTER TABLE public.analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read analysis jobs in their org" ON public.analysis_jobs;
+
+CREATE POLICY "Members can read analysis jobs in their org"
+  ON public.analysis_jobs
+  FOR SELECT
+  TO authenticated
+  USING (public.is_org_member(org_id));
+
+-- Enqueue a job for every completed response that needs analysis
+CREATE OR REPLACE FUNCTION public.enqueue_response_analysis()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.analysis_jobs (response_id, org_id)
+  VALUES (NEW.id, NEW.org_id)
+  ON CONFLICT (response_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.enqueue_response_analysis()
+  IS 'Queues sentiment analysis for a newly submitted response';
+
+DROP TRIGGER IF EXISTS after_response_enqueue_analysis ON public.responses;
+
+CREATE TRIGGER after_response_enqueue_analysis
+  AFTER INSERT ON public.responses
+  FOR EACH ROW
+  WHEN (NEW.completed AND NEW.sentiment IS NULL AND NEW.answers <> '{}'::jsonb)
+  EXECUTE FUNCTION public.enqueue_response_analysis();
+
+-- -----------------------------------------------------
+-- 2. CLAIMING JOBS
+-- -----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.claim_analysis_jobs(p_limit integer, p_lock_seconds integer)
+RETURNS SETOF public.analysis_jobs AS $$
+BEGIN
+  -- Workers that died on their last attempt leave the job failed
+  UPDATE public.analysis_jobs
+  SET status = 'failed',
+      last_error = COALESCE(last_error, 'Worker stopped before finishing'),
+      locked_at = NULL,
+      updated_at = now()
+  WHERE status = 'running'
+    AND locked_at < now() - make_interval(secs => p_lock_seconds)
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE public.analysis_jobs AS job
+    SET status = 'running',
+        attempts = job.attempts + 1,
+        locked_at = now(),
+        updated_at = now()
+    WHERE job.id IN (
+      SELECT id
+      FROM public.analysis_jobs
+      WHERE (status = 'pending' AND run_after <= now())
+         OR (status = 'running' AND locked_at < now() - make_interval(secs => p_lock_seconds))
+      ORDER BY run_after
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING job.*
+  )
+  SELECT * FROM claimed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.claim_analysis_jobs(integer, integer)
+  IS 'Marks up to p_limit due jobs as running and returns them; reclaims locks older than p_lock_seconds';
+
+REVOKE ALL ON FUNCTION public.claim_analysis_jobs(integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_analysis_jobs(integer, integer) TO service_role;
+
+-- -----------------------------------------------------
+-- 3. RE-QUEUEING RESPONSES
+-- -----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.enqueue_analysis_jobs(p_include_fallbacks boolean DEFAULT false)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  INSERT INTO public.analysis_jobs (response_id, org_id)
+  SELECT id, org_id
+  FROM public.responses
+  WHERE completed
+    AND answers <> '{}'::jsonb
+    AND (sentiment IS NULL OR (p_include_fallbacks AND analysis_source = 'fallback'))
+  ON CONFLICT (response_id) DO UPDATE
+  SET status = 'pending',
+      attempts = 0,
+      run_after = now(),
+      locked_at = NULL,
+      last_error = NULL,
+      completed_at = NULL,
+      updated_at = now()
+  WHERE public.analysis_jobs.status IN ('succeeded', 'failed');
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.enqueue_analysis_jobs(boolean)
+  IS 'Queues responses without sentiment (and fallback analyses if asked); returns the number queued';
+
+REVOKE ALL ON FUNCTION public.enqueue_analysis_jobs(boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_analysis_jobs(boolean) TO service_role;
+
+-- Responses submitted before the queue existed
+SELECT public.enqueue_analysis_jobs(false);
+
+-- -----------------------------------------------------
+-- 4. QUEUE STATUS
+-- -----------------------------------------------------
+CREATE OR REPLACE VIEW public.analysis_queue_status
+WITH (security_invoker = true) AS
+SELECT
+  org_id,
+  count(*) FILTER (WHERE status = 'pending')::int AS pending,
+  count(*) FILTER (WHERE status = 'running')::int AS running,
+  count(*) FILTER (WHERE status = 'failed')::int AS failed,
+  count(*) FILTER (WHERE status = 'succeeded')::int AS succeeded,
+  min(created_at) FILTER (WHERE status IN ('pending', 'running')) AS oldest_queued_at
+FROM public.analysis_jobs
+GROUP BY org_id;
+
+COMMENT ON VIEW public.analysis_queue_status
+  IS 'Analysis queue depth and failures per org; RLS of analysis_jobs applies';
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
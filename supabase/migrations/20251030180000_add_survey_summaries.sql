@@ -0,0 +1,66 @@
+-- =====================================================
+-- Survey Summaries Migration
+-- =====================================================
+-- Stores AI summary reports generated from a survey's
+-- responses (POST /api/surveys/summary):
+--   - overview, key themes, top complaints, top praise and
+--     recommended actions
+--   - what was summarized: all versions of the survey or one
+--     version, an optional date range, and the response count
+--   - where it came from (ai / fallback / offline) and when
+--
+-- Every generation is kept; the analytics page shows the
+-- latest. Summaries are written by the API (service role).
+-- They are built from raw answers, so like responses only
+-- owners, editors and analysts can read them.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.survey_summaries (
+  id BIGSERIAL PRIMARY KEY,
+  survey_id UUID NOT NULL REFERENCES public.surveys(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL DEFAULT 'all_versions',
+  date_from TIMESTAMPTZ,
+  date_to TIMESTAMPTZ,
+  response_count INTEGER NOT NULL,
+  summary TEXT NOT NULL,
+  key_themes TEXT[] NOT NULL DEFAULT '{}',
+  top_complaints TEXT[] NOT NULL DEFAULT '{}',
+  top_praise TEXT[] NOT NULL DEFAULT '{}',
+  recommended_actions TEXT[] NOT NULL DEFAULT '{}',
+  source TEXT NOT NULL,
+  model TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT survey_summaries_scope_valid
+    CHECK (scope IN ('all_versions', 'version')),
+  CONSTRAINT survey_summaries_source_valid
+    CHECK (source IN ('ai', 'fallback', 'offline')),
+  CONSTRAINT survey_summaries_date_range_valid
+    CHECK (date_from IS NULL OR date_to IS NULL OR date_from <= date_to)
+);
+
+CREATE INDEX IF NOT EXISTS survey_summaries_survey_created_idx
+  ON public.survey_summaries (survey_id, created_at DESC);
+
+COMMENT ON TABLE public.survey_summaries
+  IS 'AI summary reports of a survey''s responses; the latest is shown on the analytics page';
+COMMENT ON COLUMN public.survey_summaries.scope
+  IS 'all_versions: responses to every version of the survey; version: this survey row only';
+COMMENT ON COLUMN public.survey_summaries.source
+  IS 'ai, fallback (provider failed or over budget) or offline';
+
+ALTER TABLE public.survey_summaries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read survey summaries in their org" ON public.survey_summaries;
+DROP POLICY IF EXISTS "Analysts can read survey summaries in their org" ON public.survey_summaries;
+
+CREATE POLICY "Analysts can read survey summaries in their org"
+  ON public.survey_summaries
+  FOR SELECT
+  TO authenticated
+  USING (public.has_org_role(org_id, ARRAY['owner', 'editor', 'analyst']));
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,21 @@
+-- =====================================================
+-- Remove Direct Response Inserts Migration
+-- =====================================================
+-- Responses are written only by POST /api/responses (and
+-- drafts by /api/responses/draft), which use the service
+-- role. Those routes check the survey is open, validate
+-- every answer against its question (required, types,
+-- unknown question IDs, uploaded files) and set completed,
+-- metadata and resume_token_hash themselves.
+--
+-- The INSERT policy for anon and authenticated let clients
+-- skip all of that by writing to responses with the public
+-- key, so it is dropped. The service role bypasses RLS;
+-- quota triggers still apply to its inserts.
+-- =====================================================
+
+DROP POLICY IF EXISTS "Anyone can respond to published surveys" ON public.responses;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,66 @@
+-- =====================================================
+-- Limit Response Reads by Role Migration
+-- =====================================================
+-- Viewers see dashboards only, so raw responses (answers,
+-- summaries, metadata) are limited to owners, editors and
+-- analysts, matching the analytics:view permission in
+-- src/lib/permissions.ts.
+--
+-- Dashboards get their counts from survey_response_stats()
+-- instead: completed responses per survey, by sentiment and
+-- by age, for any member of the organization. No answers
+-- leave the database through it.
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1. RESPONSES - READS FOR OWNERS, EDITORS AND ANALYSTS
+-- -----------------------------------------------------
+DROP POLICY IF EXISTS "Members can read responses in their org" ON public.responses;
+
+CREATE POLICY "Analysts can read responses in their org"
+  ON public.responses
+  FOR SELECT
+  TO authenticated
+  USING (public.has_org_role(org_id, ARRAY['owner', 'editor', 'analyst']));
+
+-- -----------------------------------------------------
+-- 2. RESPONSE STATS FOR DASHBOARDS
+-- -----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.survey_response_stats(p_org_id uuid)
+RETURNS TABLE (
+  survey_id uuid,
+  responses integer,
+  positive integer,
+  neutral integer,
+  negative integer,
+  mixed integer,
+  last_day integer,
+  last_week integer,
+  last_month integer
+) AS $$
+  SELECT
+    r.survey_id,
+    count(*)::int,
+    count(*) FILTER (WHERE r.sentiment = 'positive')::int,
+    count(*) FILTER (WHERE r.sentiment = 'neutral')::int,
+    count(*) FILTER (WHERE r.sentiment = 'negative')::int,
+    count(*) FILTER (WHERE r.sentiment = 'mixed')::int,
+    count(*) FILTER (WHERE r.created_at > now() - interval '1 day')::int,
+    count(*) FILTER (WHERE r.created_at > now() - interval '7 days')::int,
+    count(*) FILTER (WHERE r.created_at > now() - interval '30 days')::int
+  FROM public.responses AS r
+  WHERE r.org_id = p_org_id
+    AND r.completed
+    AND public.is_org_member(p_org_id)
+  GROUP BY r.survey_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.survey_response_stats(uuid)
+  IS 'Completed response counts per survey, by sentiment and age; empty unless the caller is a member of the org';
+
+REVOKE ALL ON FUNCTION public.survey_response_stats(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.survey_response_stats(uuid) TO authenticated, service_role;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,108 @@
+-- =====================================================
+-- AI Usage and Rate Limit Tests
+-- =====================================================
+-- Proves that monthly usage only counts this month's tokens, that
+-- members can read their own org's usage but not write it or see
+-- other orgs', and that rate limit counters are only reachable
+-- through the service role.
+--
+-- Run with: npm run db:test  (supabase test db)
+-- Everything runs inside a transaction that is rolled back.
+-- =====================================================
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(10);
+
+-- -----------------------------------------------------
+-- FIXTURES (as postgres, bypassing RLS)
+-- -----------------------------------------------------
+-- Org F: frank | 150 tokens this month, 1000 last month
+-- Org G:       | 70 tokens this month
+
+INSERT INTO public.organizations (id, name) VALUES
+  ('ffffffff-0000-0000-0000-000000000000', 'Org F'),
+  ('99999999-0000-0000-0000-000000000000', 'Org G');
+
+INSERT INTO auth.users (id, email) VALUES
+  ('ffffffff-1111-1111-1111-111111111111', 'frank@example.com');
+
+INSERT INTO public.org_members (org_id, user_id) VALUES
+  ('ffffffff-0000-0000-0000-000000000000', 'ffffffff-1111-1111-1111-111111111111');
+
+INSERT INTO public.ai_usage (org_id, operation, provider, model, prompt_tokens, completion_tokens, total_tokens, created_at) VALUES
+  ('ffffffff-0000-0000-0000-000000000000', 'generate_questions', 'openai', 'gpt-4o-mini', 80, 20, 100, now()),
+  ('ffffffff-0000-0000-0000-000000000000', 'analyze_sentiment', 'openai', 'gpt-4o-mini', 40, 10, 50, now()),
+  ('ffffffff-0000-0000-0000-000000000000', 'analyze_sentiment', 'openai', 'gpt-4o-mini', 900, 100, 1000,
+   date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' - interval '1 day'),
+  ('99999999-0000-0000-0000-000000000000', 'summarize', 'openai', 'gpt-4o-mini', 60, 10, 70, now());
+
+-- -----------------------------------------------------
+-- BUDGETS AND RATE LIMITS (service role)
+-- -----------------------------------------------------
+SELECT is(
+  public.ai_tokens_used_this_month('ffffffff-0000-0000-0000-000000000000'),
+  150::bigint,
+  'monthly usage only counts tokens since the start of the month'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.organizations SET ai_monthly_token_budget = 0
+     WHERE id = 'ffffffff-0000-0000-0000-000000000000' $$,
+  '23514',
+  NULL,
+  'a monthly budget must be positive'
+);
+
+SELECT is(public.hit_ai_rate_limit('generate:org:f', 60), 1, 'the first request in a window counts as 1');
+SELECT is(public.hit_ai_rate_limit('generate:org:f', 60), 2, 'later requests in the window add up');
+SELECT is(public.hit_ai_rate_limit('generate:ip:127.0.0.1', 60), 1, 'each bucket has its own counter');
+
+-- -----------------------------------------------------
+-- FRANK (member of Org F)
+-- -----------------------------------------------------
+SET LOCAL ROLE authenticated;
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "ffffffff-1111-1111-1111-111111111111", "role": "authenticated"}',
+  true
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.ai_usage),
+  3,
+  'member reads only their org''s usage'
+);
+
+SELECT is(
+  public.ai_tokens_used_this_month('99999999-0000-0000-0000-000000000000'),
+  0::bigint,
+  'member cannot see another org''s monthly usage'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.ai_usage (org_id, operation, provider, model, total_tokens)
+     VALUES ('ffffffff-0000-0000-0000-000000000000', 'summarize', 'openai', 'gpt-4o-mini', 1) $$,
+  '42501',
+  NULL,
+  'member cannot record usage'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.hit_ai_rate_limit('generate:org:f', 60) $$,
+  '42501',
+  NULL,
+  'member cannot call the rate limiter'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.ai_rate_limits),
+  0,
+  'member cannot read rate limit counters'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
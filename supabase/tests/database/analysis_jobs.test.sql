@@ -0,0 +1,141 @@
+-- =====================================================
+-- Analysis Job Queue Tests
+-- =====================================================
+-- Proves that each submitted response is queued for analysis
+-- exactly once (drafts, empty and already analyzed responses are
+-- not), that a claimed job is never handed to two workers, that
+-- abandoned jobs are reclaimed until their attempts run out, and
+-- that only the service role can claim jobs.
+--
+-- Run with: npm run db:test  (supabase test db)
+-- Everything runs inside a transaction that is rolled back.
+-- =====================================================
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(10);
+
+-- -----------------------------------------------------
+-- FIXTURES (as postgres, bypassing RLS)
+-- -----------------------------------------------------
+-- Org H: hank | survey H1 with one submitted response, one
+--             | draft, one empty and one already analyzed
+
+INSERT INTO public.organizations (id, name) VALUES
+  ('abababab-0000-0000-0000-000000000000', 'Org H');
+
+INSERT INTO auth.users (id, email) VALUES
+  ('abababab-1111-1111-1111-111111111111', 'hank@example.com');
+
+INSERT INTO public.org_members (org_id, user_id) VALUES
+  ('abababab-0000-0000-0000-000000000000', 'abababab-1111-1111-1111-111111111111');
+
+INSERT INTO public.surveys (id, org_id, title, audience, status) VALUES
+  ('abababab-2222-2222-2222-000000000001', 'abababab-0000-0000-0000-000000000000', 'H1', 'Customers', 'active');
+
+INSERT INTO public.responses (id, survey_id, org_id, answers, completed, sentiment) VALUES
+  ('abababab-3333-3333-3333-000000000001', 'abababab-2222-2222-2222-000000000001',
+   'abababab-0000-0000-0000-000000000000', '{"1": "Great"}', true, NULL),
+  ('abababab-3333-3333-3333-000000000002', 'abababab-2222-2222-2222-000000000001',
+   'abababab-0000-0000-0000-000000000000', '{"1": "Half done"}', false, NULL),
+  ('abababab-3333-3333-3333-000000000003', 'abababab-2222-2222-2222-000000000001',
+   'abababab-0000-0000-0000-000000000000', '{}', true, NULL),
+  ('abababab-3333-3333-3333-000000000004', 'abababab-2222-2222-2222-000000000001',
+   'abababab-0000-0000-0000-000000000000', '{"1": "Fine"}', true, 'neutral');
+
+-- -----------------------------------------------------
+-- QUEUEING (service role)
+-- -----------------------------------------------------
+SELECT is(
+  (SELECT array_agg(response_id::text) FROM public.analysis_jobs
+   WHERE org_id = 'abababab-0000-0000-0000-000000000000'),
+  ARRAY['abababab-3333-3333-3333-000000000001'],
+  'only submitted, unanalyzed responses with answers are queued'
+);
+
+SELECT is(
+  public.enqueue_analysis_jobs(false),
+  0,
+  'queueing a response that is already waiting does nothing'
+);
+
+-- -----------------------------------------------------
+-- CLAIMING (service role)
+-- -----------------------------------------------------
+SELECT is(
+  (SELECT attempts FROM public.claim_analysis_jobs(10, 300)
+   WHERE response_id = 'abababab-3333-3333-3333-000000000001'),
+  1,
+  'claiming a job starts an attempt'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.claim_analysis_jobs(10, 300)
+   WHERE org_id = 'abababab-0000-0000-0000-000000000000'),
+  0,
+  'a running job is not handed out twice'
+);
+
+-- The worker died without finishing
+UPDATE public.analysis_jobs SET locked_at = now() - interval '10 minutes'
+WHERE response_id = 'abababab-3333-3333-3333-000000000001';
+
+SELECT is(
+  (SELECT attempts FROM public.claim_analysis_jobs(10, 300)
+   WHERE response_id = 'abababab-3333-3333-3333-000000000001'),
+  2,
+  'an abandoned job is claimed again'
+);
+
+-- ...on its last attempt
+UPDATE public.analysis_jobs SET locked_at = now() - interval '10 minutes', attempts = max_attempts
+WHERE response_id = 'abababab-3333-3333-3333-000000000001';
+
+SELECT is_empty(
+  $$ SELECT * FROM public.claim_analysis_jobs(10, 300)
+     WHERE org_id = 'abababab-0000-0000-0000-000000000000' $$,
+  'an abandoned job with no attempts left is not claimed'
+);
+
+SELECT is(
+  (SELECT status FROM public.analysis_jobs
+   WHERE response_id = 'abababab-3333-3333-3333-000000000001'),
+  'failed',
+  'an abandoned job with no attempts left is marked failed'
+);
+
+SELECT is(
+  public.enqueue_analysis_jobs(false),
+  1,
+  'a failed job can be queued again'
+);
+
+-- -----------------------------------------------------
+-- HANK (member of Org H)
+-- -----------------------------------------------------
+SET LOCAL ROLE authenticated;
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "abababab-1111-1111-1111-111111111111", "role": "authenticated"}',
+  true
+);
+
+SELECT is(
+  (SELECT pending FROM public.analysis_queue_status
+   WHERE org_id = 'abababab-0000-0000-0000-000000000000'),
+  1,
+  'member sees their org''s queue depth'
+);
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.claim_analysis_jobs(10, 300) $$,
+  '42501',
+  NULL,
+  'member cannot claim jobs'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,266 @@
+-- =====================================================
+-- Org-Scoped RLS Tests
+-- =====================================================
+-- Proves that members of one organization cannot read or write
+-- another organization's surveys, questions, responses or activity,
+-- that anonymous respondents can only read published surveys, and
+-- that nobody but the responses API (service role) writes responses.
+--
+-- Run with: npm run db:test  (supabase test db)
+-- Everything runs inside a transaction that is rolled back.
+-- =====================================================
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(28);
+
+-- -----------------------------------------------------
+-- FIXTURES (as postgres, bypassing RLS)
+-- -----------------------------------------------------
+-- Org A: alice   | surveys A1 (published), A2 (draft)
+-- Org B: bob     | surveys B1 (published), B2 (draft)
+
+INSERT INTO public.organizations (id, name) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000000', 'Org A'),
+  ('bbbbbbbb-0000-0000-0000-000000000000', 'Org B');
+
+-- handle_new_user() also gives each user a personal org; that is fine
+INSERT INTO auth.users (id, email) VALUES
+  ('aaaaaaaa-1111-1111-1111-111111111111', 'alice@example.com'),
+  ('bbbbbbbb-1111-1111-1111-111111111111', 'bob@example.com');
+
+INSERT INTO public.org_members (org_id, user_id) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000000', 'aaaaaaaa-1111-1111-1111-111111111111'),
+  ('bbbbbbbb-0000-0000-0000-000000000000', 'bbbbbbbb-1111-1111-1111-111111111111');
+
+INSERT INTO public.surveys (id, org_id, title, audience, status) VALUES
+  ('aaaaaaaa-2222-2222-2222-000000000001', 'aaaaaaaa-0000-0000-0000-000000000000', 'A1', 'Customers', 'active'),
+  ('aaaaaaaa-2222-2222-2222-000000000002', 'aaaaaaaa-0000-0000-0000-000000000000', 'A2', 'Customers', 'draft'),
+  ('bbbbbbbb-2222-2222-2222-000000000001', 'bbbbbbbb-0000-0000-0000-000000000000', 'B1', 'Customers', 'active'),
+  ('bbbbbbbb-2222-2222-2222-000000000002', 'bbbbbbbb-0000-0000-0000-000000000000', 'B2', 'Customers', 'draft');
+
+INSERT INTO public.survey_questions (survey_id, question, type, position) VALUES
+  ('aaaaaaaa-2222-2222-2222-000000000001', 'How was it?', 'long_text', 0),
+  ('aaaaaaaa-2222-2222-2222-000000000002', 'How was it?', 'long_text', 0),
+  ('bbbbbbbb-2222-2222-2222-000000000001', 'How was it?', 'long_text', 0),
+  ('bbbbbbbb-2222-2222-2222-000000000002', 'How was it?', 'long_text', 0);
+
+INSERT INTO public.responses (survey_id, org_id, answers) VALUES
+  ('aaaaaaaa-2222-2222-2222-000000000001', 'aaaaaaaa-0000-0000-0000-000000000000', '{"1": "Great"}'),
+  ('bbbbbbbb-2222-2222-2222-000000000001', 'bbbbbbbb-0000-0000-0000-000000000000', '{"3": "Bad"}');
+
+-- -----------------------------------------------------
+-- ALICE (member of Org A)
+-- -----------------------------------------------------
+SET LOCAL ROLE authenticated;
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "aaaaaaaa-1111-1111-1111-111111111111", "role": "authenticated"}',
+  true
+);
+
+-- Reads
+SELECT is(
+  (SELECT count(*)::int FROM public.surveys WHERE org_id = 'aaaaaaaa-0000-0000-0000-000000000000'),
+  2,
+  'member reads published and draft surveys in their org'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.surveys WHERE id = 'bbbbbbbb-2222-2222-2222-000000000002'),
+  0,
+  'member cannot read another org''s draft survey'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.survey_questions WHERE survey_id = 'bbbbbbbb-2222-2222-2222-000000000002'),
+  0,
+  'member cannot read questions of another org''s draft survey'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.responses WHERE org_id = 'bbbbbbbb-0000-0000-0000-000000000000'),
+  0,
+  'member cannot read another org''s responses'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.responses WHERE org_id = 'aaaaaaaa-0000-0000-0000-000000000000'),
+  1,
+  'member reads responses in their org'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.activity_feed WHERE org_id = 'bbbbbbbb-0000-0000-0000-000000000000'),
+  0,
+  'member cannot read another org''s activity'
+);
+
+SELECT ok(
+  (SELECT count(*) FROM public.activity_feed WHERE org_id = 'aaaaaaaa-0000-0000-0000-000000000000') > 0,
+  'member reads activity in their org'
+);
+
+-- Writes
+SELECT throws_ok(
+  $$ INSERT INTO public.surveys (org_id, title, audience)
+     VALUES ('bbbbbbbb-0000-0000-0000-000000000000', 'Injected', 'Customers') $$,
+  '42501',
+  NULL,
+  'member cannot create a survey in another org'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.surveys (org_id, title, audience)
+     VALUES ('aaaaaaaa-0000-0000-0000-000000000000', 'Own survey', 'Customers') $$,
+  'member can create a survey in their org'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.surveys SET org_id = 'bbbbbbbb-0000-0000-0000-000000000000'
+     WHERE id = 'aaaaaaaa-2222-2222-2222-000000000002' $$,
+  '42501',
+  NULL,
+  'member cannot move a survey into another org'
+);
+
+-- Updates/deletes outside the org silently match no rows
+SELECT lives_ok(
+  $$ UPDATE public.surveys SET title = 'Hijacked' WHERE id = 'bbbbbbbb-2222-2222-2222-000000000001' $$,
+  'cross-org survey update runs without error'
+);
+
+SELECT lives_ok(
+  $$ DELETE FROM public.surveys WHERE id = 'bbbbbbbb-2222-2222-2222-000000000002' $$,
+  'cross-org survey delete runs without error'
+);
+
+SELECT lives_ok(
+  $$ DELETE FROM public.responses WHERE org_id = 'bbbbbbbb-0000-0000-0000-000000000000' $$,
+  'cross-org response delete runs without error'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.survey_questions (survey_id, question, type, position)
+     VALUES ('bbbbbbbb-2222-2222-2222-000000000002', 'Injected?', 'long_text', 1) $$,
+  '42501',
+  NULL,
+  'member cannot add questions to another org''s survey'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.activity_feed (org_id, type)
+     VALUES ('bbbbbbbb-0000-0000-0000-000000000000', 'SURVEY_CREATED') $$,
+  '42501',
+  NULL,
+  'member cannot write another org''s activity'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.responses (survey_id, org_id, answers)
+     VALUES ('bbbbbbbb-2222-2222-2222-000000000001', 'aaaaaaaa-0000-0000-0000-000000000000', '{}') $$,
+  '42501',
+  NULL,
+  'member cannot write responses directly'
+);
+
+-- -----------------------------------------------------
+-- ANONYMOUS RESPONDENT
+-- -----------------------------------------------------
+RESET ROLE;
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.surveys WHERE id = 'aaaaaaaa-2222-2222-2222-000000000001'),
+  1,
+  'anon reads a published survey'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.surveys WHERE id = 'aaaaaaaa-2222-2222-2222-000000000002'),
+  0,
+  'anon cannot read a draft survey'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.responses),
+  0,
+  'anon cannot read responses'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.activity_feed),
+  0,
+  'anon cannot read activity'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.responses (survey_id, org_id, answers)
+     VALUES ('aaaaaaaa-2222-2222-2222-000000000001', 'aaaaaaaa-0000-0000-0000-000000000000', '{}') $$,
+  '42501',
+  NULL,
+  'anon cannot write responses directly, even to a published survey'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.responses (survey_id, org_id, answers)
+     VALUES ('aaaaaaaa-2222-2222-2222-000000000002', 'aaaaaaaa-0000-0000-0000-000000000000', '{}') $$,
+  '42501',
+  NULL,
+  'anon cannot respond to a draft survey'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.surveys (org_id, title, audience)
+     VALUES ('aaaaaaaa-0000-0000-0000-000000000000', 'Anon survey', 'Customers') $$,
+  '42501',
+  NULL,
+  'anon cannot create surveys'
+);
+
+-- -----------------------------------------------------
+-- VERIFY (as postgres)
+-- -----------------------------------------------------
+RESET ROLE;
+
+SELECT is(
+  (SELECT title FROM public.surveys WHERE id = 'bbbbbbbb-2222-2222-2222-000000000001'),
+  'B1',
+  'cross-org update did not change the survey'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.surveys WHERE id = 'bbbbbbbb-2222-2222-2222-000000000002'),
+  1,
+  'cross-org delete did not remove the survey'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.responses WHERE org_id = 'bbbbbbbb-0000-0000-0000-000000000000'),
+  1,
+  'cross-org delete did not remove responses'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.activity_feed
+   WHERE org_id = 'aaaaaaaa-0000-0000-0000-000000000000' AND type = 'RESPONSE_RECEIVED'),
+  1,
+  'responses are logged to the survey org''s activity feed'
+);
+
+INSERT INTO public.responses (survey_id, org_id, answers, completed)
+VALUES ('aaaaaaaa-2222-2222-2222-000000000001', 'aaaaaaaa-0000-0000-0000-000000000000', '{}', false);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.activity_feed
+   WHERE org_id = 'aaaaaaaa-0000-0000-0000-000000000000' AND type = 'RESPONSE_RECEIVED'),
+  1,
+  'partial responses are not logged until submitted'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
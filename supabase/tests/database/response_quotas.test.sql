@@ -0,0 +1,130 @@
+-- =====================================================
+-- Response Quota Tests
+-- =====================================================
+-- Proves that submitted responses are rejected once a survey's
+-- total or segment quota is full, that partial responses are not
+-- counted, and that filling a quota is logged and closes the
+-- survey when nobody else can get in.
+--
+-- Run with: npm run db:test  (supabase test db)
+-- Everything runs inside a transaction that is rolled back.
+-- =====================================================
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(10);
+
+-- -----------------------------------------------------
+-- FIXTURES (as postgres, bypassing RLS)
+-- -----------------------------------------------------
+-- Org E | E1 limited to 2 responses
+--       | E2 one response per answer to a yes/no question
+--       | E3 one response per campaign hidden field value
+
+INSERT INTO public.organizations (id, name) VALUES
+  ('eeeeeeee-0000-0000-0000-000000000000', 'Org E');
+
+INSERT INTO public.surveys (id, org_id, title, audience, status, opens_at, hidden_fields, response_limit, quotas) VALUES
+  ('eeeeeeee-2222-2222-2222-000000000001', 'eeeeeeee-0000-0000-0000-000000000000', 'E1', 'Customers', 'active',
+   now() - interval '1 day', '{}', 2, '[]'),
+  ('eeeeeeee-2222-2222-2222-000000000002', 'eeeeeeee-0000-0000-0000-000000000000', 'E2', 'Customers', 'active',
+   now() - interval '1 day', '{}', NULL, '[{"source": "question", "position": 0, "limit": 1}]'),
+  ('eeeeeeee-2222-2222-2222-000000000003', 'eeeeeeee-0000-0000-0000-000000000000', 'E3', 'Customers', 'active',
+   now() - interval '1 day', '{campaign}', NULL, '[{"source": "hidden_field", "field": "campaign", "limit": 1}]');
+
+INSERT INTO public.survey_questions (id, survey_id, question, type, position) VALUES
+  (900001, 'eeeeeeee-2222-2222-2222-000000000002', 'Are you a customer?', 'yes_no', 0);
+
+-- -----------------------------------------------------
+-- RESPONSES API (service role)
+-- -----------------------------------------------------
+SET LOCAL ROLE service_role;
+SELECT set_config('request.jwt.claims', '{"role": "service_role"}', true);
+
+-- Total limit
+INSERT INTO public.responses (survey_id, org_id, answers, completed)
+VALUES ('eeeeeeee-2222-2222-2222-000000000001', 'eeeeeeee-0000-0000-0000-000000000000', '{}', false);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.responses (survey_id, org_id, answers)
+     VALUES ('eeeeeeee-2222-2222-2222-000000000001', 'eeeeeeee-0000-0000-0000-000000000000', '{}'),
+            ('eeeeeeee-2222-2222-2222-000000000001', 'eeeeeeee-0000-0000-0000-000000000000', '{}') $$,
+  'responses up to the limit are accepted (partial responses do not count)'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.responses (survey_id, org_id, answers)
+     VALUES ('eeeeeeee-2222-2222-2222-000000000001', 'eeeeeeee-0000-0000-0000-000000000000', '{}') $$,
+  'P0001',
+  'This survey is full',
+  'a survey at its limit rejects further responses'
+);
+
+-- Question quota
+SELECT lives_ok(
+  $$ INSERT INTO public.responses (survey_id, org_id, answers)
+     VALUES ('eeeeeeee-2222-2222-2222-000000000002', 'eeeeeeee-0000-0000-0000-000000000000', '{"900001": "Yes"}') $$,
+  'the first response for an answer is accepted'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.responses (survey_id, org_id, answers)
+     VALUES ('eeeeeeee-2222-2222-2222-000000000002', 'eeeeeeee-0000-0000-0000-000000000000', '{"900001": "Yes"}') $$,
+  'P0001',
+  'This survey is full for your group',
+  'a full answer quota rejects more responses with that answer'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.responses (survey_id, org_id, answers)
+     VALUES ('eeeeeeee-2222-2222-2222-000000000002', 'eeeeeeee-0000-0000-0000-000000000000', '{"900001": "No"}') $$,
+  'other answers still get in'
+);
+
+-- Hidden field quota
+SELECT lives_ok(
+  $$ INSERT INTO public.responses (survey_id, org_id, answers, metadata)
+     VALUES ('eeeeeeee-2222-2222-2222-000000000003', 'eeeeeeee-0000-0000-0000-000000000000', '{}', '{"campaign": "spring"}') $$,
+  'the first response for a hidden field value is accepted'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.responses (survey_id, org_id, answers, metadata)
+     VALUES ('eeeeeeee-2222-2222-2222-000000000003', 'eeeeeeee-0000-0000-0000-000000000000', '{}', '{"campaign": "spring"}') $$,
+  'P0001',
+  'This survey is full for your group',
+  'a full hidden field quota rejects more responses with that value'
+);
+
+-- -----------------------------------------------------
+-- VERIFY (as postgres)
+-- -----------------------------------------------------
+RESET ROLE;
+
+SELECT is(
+  (SELECT array_agg(title || ':' || status ORDER BY title) FROM public.surveys
+   WHERE org_id = 'eeeeeeee-0000-0000-0000-000000000000'),
+  ARRAY['E1:closed', 'E2:closed', 'E3:active'],
+  'surveys close when the total is reached or every answer is full'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.activity_feed
+   WHERE org_id = 'eeeeeeee-0000-0000-0000-000000000000' AND type = 'QUOTA_FILLED'),
+  4,
+  'each filled quota is logged once'
+);
+
+SELECT is(
+  (SELECT details->>'quota_label' FROM public.activity_feed
+   WHERE org_id = 'eeeeeeee-0000-0000-0000-000000000000' AND type = 'QUOTA_FILLED'
+     AND details->>'survey_title' = 'E3'),
+  'campaign = spring',
+  'filled quotas are labelled with their segment'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,184 @@
+-- =====================================================
+-- Member Role Tests
+-- =====================================================
+-- Proves that analysts and viewers can read their organization's
+-- surveys but cannot create, edit or delete surveys and questions,
+-- and that viewers get response counts but not raw responses or
+-- the AI summaries built from them.
+--
+-- Run with: npm run db:test  (supabase test db)
+-- =====================================================
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(16);
+
+-- -----------------------------------------------------
+-- FIXTURES (as postgres, bypassing RLS)
+-- -----------------------------------------------------
+INSERT INTO public.organizations (id, name) VALUES
+  ('cccccccc-0000-0000-0000-000000000000', 'Org C');
+
+INSERT INTO auth.users (id, email) VALUES
+  ('cccccccc-1111-1111-1111-000000000001', 'editor@example.com'),
+  ('cccccccc-1111-1111-1111-000000000002', 'analyst@example.com'),
+  ('cccccccc-1111-1111-1111-000000000003', 'viewer@example.com');
+
+INSERT INTO public.org_members (org_id, user_id, role) VALUES
+  ('cccccccc-0000-0000-0000-000000000000', 'cccccccc-1111-1111-1111-000000000001', 'editor'),
+  ('cccccccc-0000-0000-0000-000000000000', 'cccccccc-1111-1111-1111-000000000002', 'analyst'),
+  ('cccccccc-0000-0000-0000-000000000000', 'cccccccc-1111-1111-1111-000000000003', 'viewer');
+
+INSERT INTO public.surveys (id, org_id, title, audience, status) VALUES
+  ('cccccccc-2222-2222-2222-000000000001', 'cccccccc-0000-0000-0000-000000000000', 'C1', 'Customers', 'active');
+
+INSERT INTO public.survey_questions (survey_id, question, type, position) VALUES
+  ('cccccccc-2222-2222-2222-000000000001', 'How was it?', 'long_text', 0);
+
+INSERT INTO public.responses (survey_id, org_id, answers) VALUES
+  ('cccccccc-2222-2222-2222-000000000001', 'cccccccc-0000-0000-0000-000000000000', '{}');
+
+INSERT INTO public.survey_summaries (survey_id, org_id, response_count, summary, source, model) VALUES
+  ('cccccccc-2222-2222-2222-000000000001', 'cccccccc-0000-0000-0000-000000000000', 1, 'Customers liked it', 'offline', 'offline');
+
+SELECT throws_ok(
+  $$ INSERT INTO public.org_members (org_id, user_id, role)
+     VALUES ('cccccccc-0000-0000-0000-000000000000', 'cccccccc-1111-1111-1111-000000000001', 'admin') $$,
+  '23514',
+  NULL,
+  'unknown roles are rejected'
+);
+
+-- -----------------------------------------------------
+-- EDITOR
+-- -----------------------------------------------------
+SET LOCAL ROLE authenticated;
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "cccccccc-1111-1111-1111-000000000001", "role": "authenticated"}',
+  true
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.surveys (org_id, title, audience)
+     VALUES ('cccccccc-0000-0000-0000-000000000000', 'Editor survey', 'Customers') $$,
+  'editor can create surveys'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.survey_questions (survey_id, question, type, position)
+     VALUES ('cccccccc-2222-2222-2222-000000000001', 'Anything else?', 'long_text', 1) $$,
+  'editor can add questions'
+);
+
+-- -----------------------------------------------------
+-- ANALYST
+-- -----------------------------------------------------
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "cccccccc-1111-1111-1111-000000000002", "role": "authenticated"}',
+  true
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.responses WHERE org_id = 'cccccccc-0000-0000-0000-000000000000'),
+  1,
+  'analyst reads responses'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.survey_summaries WHERE org_id = 'cccccccc-0000-0000-0000-000000000000'),
+  1,
+  'analyst reads survey summaries'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.surveys (org_id, title, audience)
+     VALUES ('cccccccc-0000-0000-0000-000000000000', 'Analyst survey', 'Customers') $$,
+  '42501',
+  NULL,
+  'analyst cannot create surveys'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.survey_questions (survey_id, question, type, position)
+     VALUES ('cccccccc-2222-2222-2222-000000000001', 'Analyst question?', 'long_text', 2) $$,
+  '42501',
+  NULL,
+  'analyst cannot add questions'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.surveys SET title = 'Renamed by analyst' WHERE id = 'cccccccc-2222-2222-2222-000000000001' $$,
+  'analyst update runs without error'
+);
+
+-- -----------------------------------------------------
+-- VIEWER
+-- -----------------------------------------------------
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "cccccccc-1111-1111-1111-000000000003", "role": "authenticated"}',
+  true
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.surveys WHERE org_id = 'cccccccc-0000-0000-0000-000000000000'),
+  2,
+  'viewer reads surveys for dashboards'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.responses WHERE org_id = 'cccccccc-0000-0000-0000-000000000000'),
+  0,
+  'viewer cannot read raw responses'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.survey_summaries WHERE org_id = 'cccccccc-0000-0000-0000-000000000000'),
+  0,
+  'viewer cannot read survey summaries'
+);
+
+SELECT is(
+  (SELECT responses FROM public.survey_response_stats('cccccccc-0000-0000-0000-000000000000')
+   WHERE survey_id = 'cccccccc-2222-2222-2222-000000000001'),
+  1,
+  'viewer reads response counts for dashboards'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.surveys (org_id, title, audience)
+     VALUES ('cccccccc-0000-0000-0000-000000000000', 'Viewer survey', 'Customers') $$,
+  '42501',
+  NULL,
+  'viewer cannot create surveys'
+);
+
+SELECT lives_ok(
+  $$ DELETE FROM public.surveys WHERE id = 'cccccccc-2222-2222-2222-000000000001' $$,
+  'viewer delete runs without error'
+);
+
+-- -----------------------------------------------------
+-- VERIFY (as postgres)
+-- -----------------------------------------------------
+RESET ROLE;
+
+SELECT is(
+  (SELECT title FROM public.surveys WHERE id = 'cccccccc-2222-2222-2222-000000000001'),
+  'C1',
+  'analyst update did not change the survey'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.surveys WHERE id = 'cccccccc-2222-2222-2222-000000000001'),
+  1,
+  'viewer delete did not remove the survey'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,91 @@
+-- =====================================================
+-- Survey Lifecycle Tests
+-- =====================================================
+-- Proves that anonymous respondents can only read a survey inside
+-- its opening window, and that the lifecycle constraints reject
+-- inconsistent states. POST /api/responses checks the window
+-- before it writes a response (anon cannot write them directly).
+--
+-- Run with: npm run db:test  (supabase test db)
+-- Everything runs inside a transaction that is rolled back.
+-- =====================================================
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+-- -----------------------------------------------------
+-- FIXTURES (as postgres, bypassing RLS)
+-- -----------------------------------------------------
+-- Org D | D1 open, D2 past its close date, D3 scheduled for
+--       | tomorrow, D4 scheduled for an hour ago, D5 closed
+
+INSERT INTO public.organizations (id, name) VALUES
+  ('dddddddd-0000-0000-0000-000000000000', 'Org D');
+
+INSERT INTO public.surveys (id, org_id, title, audience, status, opens_at, closes_at) VALUES
+  ('dddddddd-2222-2222-2222-000000000001', 'dddddddd-0000-0000-0000-000000000000', 'D1', 'Customers', 'active',
+   now() - interval '1 day', now() + interval '1 day'),
+  ('dddddddd-2222-2222-2222-000000000002', 'dddddddd-0000-0000-0000-000000000000', 'D2', 'Customers', 'active',
+   now() - interval '2 days', now() - interval '1 day'),
+  ('dddddddd-2222-2222-2222-000000000003', 'dddddddd-0000-0000-0000-000000000000', 'D3', 'Customers', 'scheduled',
+   now() + interval '1 day', NULL),
+  ('dddddddd-2222-2222-2222-000000000004', 'dddddddd-0000-0000-0000-000000000000', 'D4', 'Customers', 'scheduled',
+   now() - interval '1 hour', NULL),
+  ('dddddddd-2222-2222-2222-000000000005', 'dddddddd-0000-0000-0000-000000000000', 'D5', 'Customers', 'closed',
+   now() - interval '2 days', now() - interval '1 day');
+
+-- -----------------------------------------------------
+-- CONSTRAINTS
+-- -----------------------------------------------------
+SELECT throws_ok(
+  $$ INSERT INTO public.surveys (org_id, title, audience, status)
+     VALUES ('dddddddd-0000-0000-0000-000000000000', 'Bad', 'Customers', 'paused') $$,
+  '23514',
+  NULL,
+  'unknown statuses are rejected'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.surveys (org_id, title, audience, status)
+     VALUES ('dddddddd-0000-0000-0000-000000000000', 'Bad', 'Customers', 'scheduled') $$,
+  '23514',
+  NULL,
+  'a scheduled survey needs an opening time'
+);
+
+INSERT INTO public.surveys (id, org_id, title, audience) VALUES
+  ('dddddddd-2222-2222-2222-000000000006', 'dddddddd-0000-0000-0000-000000000000', 'D6', 'Customers');
+
+SELECT is(
+  (SELECT status FROM public.surveys WHERE id = 'dddddddd-2222-2222-2222-000000000006'),
+  'draft',
+  'new surveys start as drafts'
+);
+
+-- -----------------------------------------------------
+-- ANONYMOUS RESPONDENT
+-- -----------------------------------------------------
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT is(
+  (SELECT array_agg(title ORDER BY title) FROM public.surveys
+   WHERE org_id = 'dddddddd-0000-0000-0000-000000000000'),
+  ARRAY['D1', 'D4'],
+  'anon reads only surveys inside their opening window'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.responses (survey_id, org_id, answers)
+     VALUES ('dddddddd-2222-2222-2222-000000000001', 'dddddddd-0000-0000-0000-000000000000', '{}') $$,
+  '42501',
+  NULL,
+  'anon cannot write responses directly, even to an open survey'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;